@@ -4,6 +4,8 @@ import { body, validationResult } from 'express-validator';
 import { authService } from '../services/auth.service';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { IUserPreferences } from '../models/User';
+import { LLM_PROVIDER_NAMES } from '../services/providers';
+import { validateProviderBaseUrl } from '../utils/security';
 import { logger } from '../utils/logger';
 
 // Validation rules
@@ -55,6 +57,32 @@ export const resetPasswordValidation = [
         .withMessage('New password must contain at least one lowercase letter, one uppercase letter, and one number')
 ];
 
+export const llmProviderValidation = [
+    body('name')
+        .isIn(LLM_PROVIDER_NAMES)
+        .withMessage(`Provider must be one of: ${LLM_PROVIDER_NAMES.join(', ')}`),
+    body('baseUrl')
+        .optional({ values: 'falsy' })
+        .custom(value => validateProviderBaseUrl(value))
+        .withMessage('Base URL must be an allowed http(s) URL'),
+    body('model')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 }),
+    body('embeddingModel')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 }),
+    // Key for the OpenAI-compatible or Ollama provider; the Gemini key goes through /api-key
+    body('apiKey')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 500 })
+];
+
 // Handle validation errors
 const handleValidationErrors = (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -284,6 +312,69 @@ export const getApiKey = async (req: AuthenticatedRequest, res: Response): Promi
     }
 };
 
+export const getLLMProvider = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'User not authenticated'
+            });
+            return;
+        }
+
+        const hasApiKey = await authService.hasProviderApiKey(
+            (req.user._id as string).toString(),
+            req.user.llmProvider?.name || 'gemini'
+        );
+
+        res.json({
+            success: true,
+            llmProvider: req.user.llmProvider,
+            hasApiKey
+        });
+    } catch (error) {
+        logger.error('Get LLM provider error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to get LLM provider'
+        });
+    }
+};
+
+export const updateLLMProvider = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (handleValidationErrors(req, res)) return;
+
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'User not authenticated'
+            });
+            return;
+        }
+
+        const { name, baseUrl, model, embeddingModel, apiKey } = req.body;
+
+        const llmProvider = await authService.updateLLMProvider(
+            (req.user._id as string).toString(),
+            { name, baseUrl: baseUrl || undefined, model: model || undefined, embeddingModel: embeddingModel || undefined },
+            apiKey
+        );
+
+        res.json({
+            success: true,
+            message: 'LLM provider updated successfully',
+            llmProvider
+        });
+    } catch (error) {
+        logger.error('Update LLM provider error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to update LLM provider'
+        });
+    }
+};
+
 export const changePassword = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         if (handleValidationErrors(req, res)) return;
@@ -1,10 +1,17 @@
 import { Request, Response } from 'express';
-import { geminiService } from '../services/gemini.service';
-import { contextService } from '../services/context.service';
-import { embeddingService } from '../services/embedding.service';
+import mongoose from 'mongoose';
+import { GeminiProvider } from '../services/providers/gemini.provider';
+import { llmClientPool } from '../services/llmClientPool.service';
+import { contextService, isContextExpansion } from '../services/context.service';
+import { contextPlanner, ContextPlanReport } from '../services/contextPlanner.service';
+import { isRetrievalMode } from '../services/embedding.service';
+import { codeSearchService } from '../services/codeSearch.service';
 import { chatSessionService } from '../services/chatSession.service';
+import { chatHistoryService } from '../services/chatHistory.service';
 import { logger } from '../utils/logger';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { CustomError } from '../middleware/errorHandler';
+import { handleSearchValidationErrors, toCodeSearchRequest } from './embedding.controller';
 
 // Helper function to get user ID as string
 const getUserId = (req: AuthenticatedRequest): string => {
@@ -14,6 +21,24 @@ const getUserId = (req: AuthenticatedRequest): string => {
     return req.user._id.toString();
 };
 
+// Helper function to get the API key supplied with the request, if any
+const getRequestApiKey = (req: AuthenticatedRequest): string | undefined => {
+    return req.body.apiKey || req.query.apiKey || req.headers['x-api-key'];
+};
+
+// Helper function to read the file ids pinned into the prompt
+const getPinnedFileIds = (value: unknown): string[] => {
+    return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+};
+
+// Whether a chat session exists and belongs to the user; context and history are only read from the caller's own sessions
+const isOwnSession = async (sessionId: unknown, userId: string): Promise<boolean> => {
+    if (typeof sessionId !== 'string' || !mongoose.Types.ObjectId.isValid(sessionId)) {
+        return false;
+    }
+    return (await chatSessionService.getSession(sessionId, userId)) !== null;
+};
+
 export const initializeGemini = async (req: Request, res: Response) => {
     try {
         const { apiKey } = req.body;
@@ -22,7 +47,8 @@ export const initializeGemini = async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'API key is required' });
         }
 
-        geminiService.initialize(apiKey);
+        // Clients are resolved per user on each request; this only checks the key can build one
+        new GeminiProvider(apiKey);
 
         res.json({ success: true, message: 'Gemini API initialized' });
     } catch (error) {
@@ -33,7 +59,7 @@ export const initializeGemini = async (req: Request, res: Response) => {
 
 export const chat = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { message, sessionId, useContext = true } = req.body;
+        const { message, sessionId, useContext = true, pinnedFileIds, contextTokenBudget, retrievalMode, contextExpansion } = req.body;
 
         if (!message) {
             return res.status(400).json({ error: 'Message is required' });
@@ -44,32 +70,33 @@ export const chat = async (req: AuthenticatedRequest, res: Response) => {
             return res.status(401).json({ error: 'Authentication required' });
         }
 
-        // Get API key from user's settings or request
-        const apiKey = req.body.apiKey || req.query.apiKey || req.headers['x-api-key'];
+        if (sessionId && !(await isOwnSession(sessionId, getUserId(req)))) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
 
-        if (!apiKey) {
+        // Resolve this user's own client from their stored key (or the one sent with the request)
+        const client = await llmClientPool.acquireForUser(getUserId(req), getRequestApiKey(req));
+
+        if (!client) {
             return res.status(400).json({
                 error: 'Gemini API key is required. Please provide your API key in your account settings or request.'
             });
         }
 
-        // Initialize if API key provided
-        if (!geminiService.isInitialized()) {
-            geminiService.initialize(apiKey);
-        }
-
         let finalMessage = message;
+        let contextPlan: ContextPlanReport | null = null;
 
         // Build context if sessionId provided and useContext is true
         if (sessionId && useContext) {
             try {
-                // Initialize embedding service if not already done
-                if (apiKey && !embeddingService.isInitialized()) {
-                    embeddingService.initialize(apiKey);
-                }
-
-                const context = await contextService.buildContextForQuery(message, sessionId, apiKey);
+                const context = await contextService.buildContextForQuery(message, getUserId(req), sessionId, client, {
+                    pinnedFileIds: getPinnedFileIds(pinnedFileIds),
+                    tokenBudget: parseInt(contextTokenBudget) || undefined,
+                    retrievalMode: isRetrievalMode(retrievalMode) ? retrievalMode : undefined,
+                    expansion: isContextExpansion(contextExpansion) ? contextExpansion : undefined
+                });
                 finalMessage = contextService.buildPromptWithContext(message, context);
+                contextPlan = contextPlanner.toReport(context.plan);
 
                 logger.info(`Enhanced message with context for session ${sessionId}`);
             } catch (error) {
@@ -77,9 +104,22 @@ export const chat = async (req: AuthenticatedRequest, res: Response) => {
             }
         }
 
-        const response = await geminiService.generateResponse(finalMessage);
+        // Earlier turns of this session, newest kept verbatim and older ones summarized
+        const history = sessionId
+            ? await chatHistoryService.buildHistory(sessionId, getUserId(req), message, client)
+            : [];
 
-        res.json({ success: true, response });
+        // Stop waiting on the provider once the client has gone
+        const abort = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) {
+                abort.abort(new Error('Client disconnected'));
+            }
+        });
+
+        const response = await client.generate(finalMessage, history, abort.signal);
+
+        res.json({ success: true, response, contextPlan });
     } catch (error) {
         logger.error('Error in chat:', error);
         if (error instanceof Error) {
@@ -89,6 +129,8 @@ export const chat = async (req: AuthenticatedRequest, res: Response) => {
                 return res.status(429).json({ error: 'Gemini API quota exceeded. Please try again later.' });
             } else if (error.message.includes('not initialized')) {
                 return res.status(400).json({ error: 'Gemini API not initialized. Please provide a valid API key.' });
+            } else if (error.message.includes('timed out')) {
+                return res.status(504).json({ error: 'The model took too long to respond. Please try again.' });
             }
         }
         return res.status(500).json({ error: 'Failed to generate response' });
@@ -97,7 +139,7 @@ export const chat = async (req: AuthenticatedRequest, res: Response) => {
 
 export const chatStream = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { message, sessionId, useContext = true } = req.body;
+        const { message, sessionId, useContext = true, pinnedFileIds, contextTokenBudget, retrievalMode, contextExpansion } = req.body;
 
         if (!message) {
             return res.status(400).json({ error: 'Message is required' });
@@ -108,32 +150,33 @@ export const chatStream = async (req: AuthenticatedRequest, res: Response) => {
             return res.status(401).json({ error: 'Authentication required' });
         }
 
-        // Get API key from user's settings or request
-        const apiKey = req.body.apiKey || req.query.apiKey || req.headers['x-api-key'];
+        if (sessionId && !(await isOwnSession(sessionId, getUserId(req)))) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
 
-        if (!apiKey) {
+        // Resolve this user's own client from their stored key (or the one sent with the request)
+        const client = await llmClientPool.acquireForUser(getUserId(req), getRequestApiKey(req));
+
+        if (!client) {
             return res.status(400).json({
                 error: 'Gemini API key is required. Please provide your API key in your account settings or request.'
             });
         }
 
-        // Initialize if API key provided
-        if (!geminiService.isInitialized()) {
-            geminiService.initialize(apiKey);
-        }
-
         let finalMessage = message;
+        let contextPlan: ContextPlanReport | null = null;
 
         // Build context if sessionId provided and useContext is true
         if (sessionId && useContext) {
             try {
-                // Initialize embedding service if not already done
-                if (apiKey && !embeddingService.isInitialized()) {
-                    embeddingService.initialize(apiKey);
-                }
-
-                const context = await contextService.buildContextForQuery(message, sessionId, apiKey);
+                const context = await contextService.buildContextForQuery(message, getUserId(req), sessionId, client, {
+                    pinnedFileIds: getPinnedFileIds(pinnedFileIds),
+                    tokenBudget: parseInt(contextTokenBudget) || undefined,
+                    retrievalMode: isRetrievalMode(retrievalMode) ? retrievalMode : undefined,
+                    expansion: isContextExpansion(contextExpansion) ? contextExpansion : undefined
+                });
                 finalMessage = contextService.buildPromptWithContext(message, context);
+                contextPlan = contextPlanner.toReport(context.plan);
 
                 logger.info(`Enhanced streaming message with context for session ${sessionId}`);
             } catch (error) {
@@ -141,21 +184,85 @@ export const chatStream = async (req: AuthenticatedRequest, res: Response) => {
             }
         }
 
+        // Earlier turns of this session, newest kept verbatim and older ones summarized
+        const history = sessionId
+            ? await chatHistoryService.buildHistory(sessionId, getUserId(req), message, client)
+            : [];
+
         // Set headers for SSE
         res.setHeader('Content-Type', 'text/event-stream');
         res.setHeader('Cache-Control', 'no-cache');
         res.setHeader('Connection', 'keep-alive');
 
-        const stream = await geminiService.generateStreamingResponse(finalMessage);
+        // Abort the provider request, and with it the stream, once the client has gone
+        const abort = new AbortController();
+        let clientDisconnected = false;
+        res.on('close', () => {
+            if (!res.writableEnded) {
+                clientDisconnected = true;
+                abort.abort(new Error('Client disconnected'));
+            }
+        });
+
+        const stream = await client.stream(finalMessage, history, abort.signal);
+        const userId = getUserId(req);
+
+        // Tell the client what went into the prompt before the reply starts
+        if (contextPlan) {
+            res.write(`data: ${JSON.stringify({ contextPlan })}\n\n`);
+        }
+
+        // Persist the user turn once the model has accepted the request, so a reply always follows it
+        const userMessage = sessionId
+            ? await chatSessionService.recordUserMessage(sessionId, userId, message)
+            : null;
+
+        let accumulated = '';
+        let streamError: unknown = null;
+
+        try {
+            for await (const chunk of stream) {
+                if (clientDisconnected) break;
+                accumulated += chunk;
+                res.write(`data: ${JSON.stringify({ chunk })}\n\n`);
+            }
+        } catch (error) {
+            streamError = error;
+            logger.error('Error while streaming response:', error);
+        }
+
+        const partial = clientDisconnected || streamError !== null;
+
+        // Store whatever was generated, flagged as partial when it was cut off
+        const assistantMessage = userMessage
+            ? await chatSessionService.appendMessage(sessionId, userId, {
+                content: accumulated || '_The response was interrupted before any text was generated._',
+                role: 'assistant',
+                partial
+            })
+            : null;
 
-        for await (const chunk of stream) {
-            res.write(`data: ${JSON.stringify({ chunk })}\n\n`);
+        if (partial) {
+            logger.warn(`Streamed reply for session ${sessionId} stored as partial (${clientDisconnected ? 'client disconnected' : 'provider error'})`);
         }
 
-        res.write('data: [DONE]\n\n');
-        res.end();
+        if (!clientDisconnected) {
+            res.write(`data: ${JSON.stringify({
+                done: true,
+                messageId: assistantMessage?.id || null,
+                userMessageId: userMessage?.id || null,
+                partial,
+                ...(streamError !== null && { error: 'The response was interrupted. Please try again.' })
+            })}\n\n`);
+            res.write('data: [DONE]\n\n');
+            res.end();
+        }
     } catch (error) {
         logger.error('Error in streaming chat:', error);
+        if (res.headersSent && !res.writableEnded) {
+            res.end();
+            return;
+        }
         if (!res.headersSent) {
             if (error instanceof Error) {
                 if (error.message.includes('API_KEY_INVALID')) {
@@ -193,11 +300,11 @@ export const validateApiKey = async (req: Request, res: Response) => {
 
         // Test the API key by making a simple request
         try {
-            const tempService = Object.create(geminiService);
-            tempService.initialize(apiKey);
+            // Use a throwaway client so validation never touches pooled clients
+            const tempClient = new GeminiProvider(apiKey);
 
             // Try to generate a very short response to test the key
-            const testResponse = await tempService.generateResponse('Hi');
+            const testResponse = await tempClient.generate('Hi');
 
             if (testResponse) {
                 res.json({
@@ -284,7 +391,7 @@ export const getChatSession = async (req: AuthenticatedRequest, res: Response) =
         const session = await chatSessionService.getSession(sessionId, getUserId(req));
 
         if (!session) {
-            return res.status(404).json({ success: false, error: 'Chat session not found' });
+            return res.status(404).json({ success: false, error: 'Session not found' });
         }
 
         res.json({ success: true, data: { session } });
@@ -335,7 +442,7 @@ export const addMessageToChatSession = async (req: AuthenticatedRequest, res: Re
 
         if (!session) {
             logger.error(`addMessageToChatSession: Session not found for sessionId=${sessionId}, userId=${getUserId(req)}`);
-            return res.status(404).json({ success: false, error: 'Chat session not found' });
+            return res.status(404).json({ success: false, error: 'Session not found' });
         }
 
         logger.info(`Added message to session ${sessionId} for user ${getUserId(req)}`);
@@ -372,7 +479,7 @@ export const updateChatSessionTitle = async (req: AuthenticatedRequest, res: Res
         );
 
         if (!session) {
-            return res.status(404).json({ success: false, error: 'Chat session not found' });
+            return res.status(404).json({ success: false, error: 'Session not found' });
         }
 
         res.json({ success: true, data: { session } });
@@ -392,7 +499,7 @@ export const deleteChatSession = async (req: AuthenticatedRequest, res: Response
         const deleted = await chatSessionService.deleteSession(sessionId, getUserId(req));
 
         if (!deleted) {
-            return res.status(404).json({ success: false, error: 'Chat session not found' });
+            return res.status(404).json({ success: false, error: 'Session not found' });
         }
 
         res.json({ success: true, message: 'Chat session deleted' });
@@ -404,38 +511,28 @@ export const deleteChatSession = async (req: AuthenticatedRequest, res: Response
 
 export const semanticSearch = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { query, sessionId, limit = 5 } = req.body;
-
-        if (!query) {
-            return res.status(400).json({ success: false, error: 'Search query is required' });
-        }
-
-        if (!sessionId) {
-            return res.status(400).json({ success: false, error: 'Session ID is required' });
-        }
-
-        const userId = getUserId(req);
-        const apiKey = req.body.apiKey || req.query.apiKey || req.headers['x-api-key'];
+        if (handleSearchValidationErrors(req, res)) return;
 
-        if (!apiKey) {
-            return res.status(400).json({
-                success: false,
-                error: 'API key is required for semantic search'
-            });
-        }
+        // Without a key, vectors come from the local embedder
+        const client = await llmClientPool.acquireForUser(getUserId(req), getRequestApiKey(req));
 
         try {
-            const results = await embeddingService.searchInSession(userId, sessionId, query, apiKey, limit);
+            const page = await codeSearchService.search(toCodeSearchRequest(req, client));
 
             res.json({
                 success: true,
                 data: {
-                    query,
-                    results,
-                    count: results.length
+                    query: req.body.query,
+                    mode: page.mode,
+                    results: page.results,
+                    count: page.results.length,
+                    nextCursor: page.nextCursor
                 }
             });
         } catch (error) {
+            if (error instanceof CustomError) {
+                return res.status(error.statusCode).json({ success: false, error: error.message });
+            }
             logger.error('Error performing semantic search:', error);
             return res.status(500).json({
                 success: false,
@@ -1,9 +1,131 @@
 import { Request, Response } from 'express';
-import { contextService } from '../services/context.service';
-import { embeddingService } from '../services/embedding.service';
+import { body, validationResult } from 'express-validator';
+import { RETRIEVAL_MODES } from '../services/embedding.service';
+import { embeddingQueueService } from '../services/embeddingQueue.service';
+import { codeSearchService, CodeSearchRequest, MAX_SEARCH_PAGE_SIZE } from '../services/codeSearch.service';
+import { llmClientPool } from '../services/llmClientPool.service';
+import { LLMProvider } from '../services/providers';
+import { globError } from '../utils/glob';
 import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { CustomError } from '../middleware/errorHandler';
+import { IEmbeddingJob } from '../models/EmbeddingJob';
+import { CHUNK_TYPES, ChunkType } from '../models/Chunk';
+
+// Helper function to get user ID as string
+const getUserId = (req: AuthenticatedRequest): string => {
+    if (!req.user || !req.user._id) {
+        throw new Error('User not authenticated');
+    }
+    return req.user._id.toString();
+};
+
+// Filters that take one value or several
+const toList = (value: unknown): string[] => (Array.isArray(value) ? value : [value]).map(String);
+
+// Shared by /embeddings/search and /chat/search
+export const codeSearchValidation = [
+    body('query')
+        .isString()
+        .trim()
+        .notEmpty()
+        .withMessage('Search query is required'),
+    body('sessionId')
+        .optional({ values: 'falsy' })
+        .isString(),
+    body('mode')
+        .optional()
+        .isIn(RETRIEVAL_MODES)
+        .withMessage(`Search mode must be one of: ${RETRIEVAL_MODES.join(', ')}`),
+    body('limit')
+        .optional()
+        .isInt({ min: 1, max: MAX_SEARCH_PAGE_SIZE })
+        .withMessage(`Limit must be between 1 and ${MAX_SEARCH_PAGE_SIZE}`),
+    body('cursor')
+        .optional({ values: 'falsy' })
+        .isString(),
+    body('filters.language')
+        .optional()
+        .custom(value => toList(value).every(language => language.length > 0 && language.length <= 50))
+        .withMessage('Language must be a language name or a list of them'),
+    body('filters.path')
+        .optional({ values: 'falsy' })
+        .isString()
+        .isLength({ max: 500 })
+        .withMessage('Path must be a glob pattern')
+        .bail()
+        .custom(value => {
+            const error = globError(value);
+            if (error) {
+                throw new Error(`Invalid path glob: ${error}`);
+            }
+            return true;
+        }),
+    body('filters.chunkType')
+        .optional()
+        .custom(value => toList(value).every(type => (CHUNK_TYPES as string[]).includes(type)))
+        .withMessage(`Chunk type must be one of: ${CHUNK_TYPES.join(', ')}`),
+    body('filters.minSimilarity')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('Minimum similarity must be between 0 and 1'),
+    body('filters.uploadedAfter')
+        .optional()
+        .isISO8601()
+        .withMessage('Uploaded-after must be an ISO 8601 date')
+];
+
+// Handle validation errors
+export const handleSearchValidationErrors = (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        res.status(400).json({
+            success: false,
+            error: 'Validation failed',
+            details: errors.array()
+        });
+        return true;
+    }
+    return false;
+};
+
+// Build a search from a request body that passed codeSearchValidation
+export const toCodeSearchRequest = (req: AuthenticatedRequest, client: LLMProvider | null): CodeSearchRequest => {
+    const { query, sessionId, mode, limit, cursor, filters = {} } = req.body;
+
+    return {
+        userId: getUserId(req),
+        query,
+        sessionId: sessionId || undefined,
+        client,
+        mode,
+        limit: limit ? parseInt(limit) : undefined,
+        cursor: cursor || undefined,
+        filters: {
+            languages: filters.language !== undefined ? toList(filters.language).map(language => language.toLowerCase()) : undefined,
+            pathGlob: filters.path || undefined,
+            chunkTypes: filters.chunkType !== undefined ? toList(filters.chunkType) as ChunkType[] : undefined,
+            minSimilarity: filters.minSimilarity !== undefined ? parseFloat(filters.minSimilarity) : undefined,
+            uploadedAfter: filters.uploadedAfter ? new Date(filters.uploadedAfter) : undefined
+        }
+    };
+};
 
-export const generateEmbeddings = async (req: Request, res: Response) => {
+// Public view of a job; never includes the API key or internal lock state
+const toJobResponse = (job: IEmbeddingJob) => ({
+    id: job.id,
+    status: job.status,
+    sessionId: job.sessionId,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    progress: job.progress,
+    error: job.status === 'failed' ? job.lastError : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt
+});
+
+export const generateEmbeddings = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { sessionId, apiKey } = req.body;
 
@@ -11,92 +133,90 @@ export const generateEmbeddings = async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Session ID is required' });
         }
 
-        if (!apiKey) {
-            return res.status(400).json({ error: 'API key is required' });
-        }
+        const client = await llmClientPool.acquireForUser(getUserId(req), apiKey);
 
-        // Initialize embedding service
-        if (!embeddingService.isInitialized()) {
-            embeddingService.initialize(apiKey);
+        if (!client) {
+            return res.status(400).json({ error: 'API key is required' });
         }
 
-        await contextService.generateEmbeddingsForSession(sessionId, apiKey);
+        const job = await embeddingQueueService.enqueueSession(getUserId(req), sessionId, apiKey);
 
-        res.json({
+        res.status(202).json({
             success: true,
-            message: 'Embeddings generated successfully'
+            jobId: job.id,
+            job: toJobResponse(job),
+            message: 'Embedding generation queued'
         });
     } catch (error) {
-        logger.error('Error generating embeddings:', error);
-        return res.status(500).json({ error: 'Failed to generate embeddings' });
+        logger.error('Error queueing embeddings:', error);
+        return res.status(500).json({ error: 'Failed to queue embedding generation' });
     }
 };
 
-export const generateEmbeddingForFile = async (req: Request, res: Response) => {
+export const generateEmbeddingForFile = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { fileId } = req.params;
         const { apiKey } = req.body;
 
-        if (!apiKey) {
+        const client = await llmClientPool.acquireForUser(getUserId(req), apiKey);
+
+        if (!client) {
             return res.status(400).json({ error: 'API key is required' });
         }
 
-        // Initialize embedding service
-        if (!embeddingService.isInitialized()) {
-            embeddingService.initialize(apiKey);
-        }
+        const job = await embeddingQueueService.enqueue({ userId: getUserId(req), fileIds: [fileId], apiKey });
 
-        const embeddings = await embeddingService.generateEmbeddingsForFile(fileId, apiKey);
+        if (job.fileIds.length === 0) {
+            return res.status(404).json({ error: 'File not found' });
+        }
 
-        res.json({
+        res.status(202).json({
             success: true,
-            embeddings: embeddings.length,
-            message: `Generated ${embeddings.length} embeddings for file`
+            jobId: job.id,
+            job: toJobResponse(job),
+            message: 'Embedding generation queued for file'
         });
     } catch (error) {
-        logger.error('Error generating file embeddings:', error);
-        res.status(500).json({ error: 'Failed to generate file embeddings' });
+        logger.error('Error queueing file embeddings:', error);
+        res.status(500).json({ error: 'Failed to queue file embeddings' });
     }
 };
 
-export const searchSimilarCode = async (req: Request, res: Response) => {
+export const getEmbeddingJob = async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { query, sessionId, apiKey, limit = 5 } = req.body;
-
-        if (!query) {
-            return res.status(400).json({ error: 'Query is required' });
-        }
-
-        if (!sessionId) {
-            return res.status(400).json({ error: 'Session ID is required' });
-        }
+        const job = await embeddingQueueService.getJob(req.params.id, getUserId(req));
 
-        if (!apiKey) {
-            return res.status(400).json({ error: 'API key is required' });
+        if (!job) {
+            return res.status(404).json({ error: 'Embedding job not found' });
         }
 
-        // Initialize embedding service
-        if (!embeddingService.isInitialized()) {
-            embeddingService.initialize(apiKey);
-        }
+        res.json({ success: true, job: toJobResponse(job) });
+    } catch (error) {
+        logger.error('Error fetching embedding job:', error);
+        res.status(500).json({ error: 'Failed to fetch embedding job' });
+    }
+};
 
-        // Generate embedding for query
-        const queryEmbedding = await embeddingService.generateEmbedding(query);
+export const searchSimilarCode = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (handleSearchValidationErrors(req, res)) return;
 
-        // Find similar chunks
-        const similarChunks = await embeddingService.findSimilarChunks(
-            queryEmbedding,
-            sessionId,
-            parseInt(limit)
-        );
+        // Without a key, vectors come from the local embedder
+        const client = await llmClientPool.acquireForUser(getUserId(req), req.body.apiKey);
+        const page = await codeSearchService.search(toCodeSearchRequest(req, client));
 
         res.json({
             success: true,
-            results: similarChunks,
-            query
+            results: page.results,
+            query: req.body.query,
+            mode: page.mode,
+            nextCursor: page.nextCursor
         });
     } catch (error) {
+        if (error instanceof CustomError) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
         logger.error('Error searching similar code:', error);
         res.status(500).json({ error: 'Failed to search similar code' });
     }
-};
\ No newline at end of file
+};
@@ -1,11 +1,24 @@
 import { Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
 import multer from 'multer';
+import mongoose from 'mongoose';
 import fs from 'fs/promises';
-import { File } from '../models/File';
+import path from 'path';
+import { File, IFile } from '../models/File';
 import { FileProcessorService } from '../services/fileProcessor.service';
+import { archiveService } from '../services/archive.service';
+import { gitImportService, GitImportService, RepositoryCheckout, RepositorySource } from '../services/gitImport.service';
+import { chatSessionService } from '../services/chatSession.service';
+import { fileVersionService, FileVersionService } from '../services/fileVersion.service';
+import { dependencyGraphService } from '../services/dependencyGraph.service';
+import { llmClientPool } from '../services/llmClientPool.service';
+import { chunkService } from '../services/chunk.service';
+import { symbolIndexService } from '../services/symbolIndex.service';
+import { embeddingQueueService } from '../services/embeddingQueue.service';
 import { logger } from '../utils/logger';
 import { generateId } from '../utils/helpers';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { CustomError } from '../middleware/errorHandler';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -42,6 +55,185 @@ export const upload = multer({
     }
 });
 
+// Git bundles hold a whole history, so they get their own size limit and skip the file type filter
+export const bundleUpload = multer({
+    storage,
+    limits: {
+        fileSize: parseInt(process.env.GIT_BUNDLE_MAX_SIZE || '104857600'), // 100MB default
+        files: 1
+    }
+});
+
+// Queue embedding generation without failing the upload if the queue is unavailable
+const queueEmbeddings = async (userId: string, fileIds: string[], apiKey?: string) => {
+    try {
+        return await embeddingQueueService.enqueue({ userId, fileIds, apiKey });
+    } catch (error) {
+        logger.warn('Could not queue embeddings for uploaded files:', error);
+        return null;
+    }
+};
+
+interface IngestSource {
+    // Stored file name
+    name: string;
+    originalName: string;
+    relativePath?: string;
+    blobSha?: string;
+    sessionId?: string;
+    path: string;
+    size: number;
+    mimeType: string;
+    content: string;
+}
+
+// Parse, store and chunk one file; in a session, a file already at its path gets a new version
+const ingestFile = async (userId: string, source: IngestSource): Promise<IFile> => {
+    const fileName = source.relativePath || source.originalName;
+    const language = FileProcessorService.detectLanguage(fileName);
+    const chunks = FileProcessorService.parseCodeChunks(source.content, language, fileName);
+    const dependencies = FileProcessorService.extractDependencies(source.content, language, fileName);
+    const exports = FileProcessorService.extractExports(source.content, language, fileName);
+    const symbols = FileProcessorService.extractSymbols(source.content, language, fileName);
+    const secretFindings = FileProcessorService.scanSecrets(source.content, fileName);
+
+    const current = source.sessionId ? await fileVersionService.findCurrent(userId, source.sessionId, fileName) : null;
+    if (current) {
+        const revised = await fileVersionService.revise(current, { ...source, language, dependencies, exports, chunks, symbols, secretFindings });
+        logger.info(`Processed file: ${fileName} (${language}) as version ${revised.version} for user ${userId}`);
+        return revised;
+    }
+
+    const fileDoc = new File({ ...source, language, dependencies, exports, secretFindings, userId });
+
+    await fileDoc.save();
+    await chunkService.replaceChunksForFile(fileDoc, chunks);
+    await symbolIndexService.replaceSymbolsForFile(fileDoc, symbols);
+
+    logger.info(`Processed file: ${fileName} (${language}) for user ${userId}`);
+    return fileDoc;
+};
+
+const toUploadedFile = (fileDoc: IFile) => ({
+    id: fileDoc._id,
+    name: fileDoc.originalName,
+    path: fileDoc.relativePath || fileDoc.originalName,
+    language: fileDoc.language,
+    size: fileDoc.size,
+    chunks: fileDoc.chunkCount,
+    dependencies: fileDoc.dependencies.length,
+    exports: fileDoc.exports.length,
+    version: fileDoc.version,
+    secrets: fileDoc.secretFindings,
+    uploadedAt: fileDoc.uploadedAt
+});
+
+/**
+ * Unpack an uploaded archive next to it and ingest every file it keeps,
+ * under its path within the repository. The archive itself is removed.
+ */
+const ingestArchive = async (userId: string, archive: Express.Multer.File) => {
+    const uploadDir = path.dirname(archive.path);
+    const destination = archive.path.replace(/\.(zip|tar\.gz|tgz)$/i, '');
+    const fileDocs: IFile[] = [];
+
+    try {
+        const extraction = await archiveService.extract(archive.path, archive.originalname, destination);
+
+        for (const extracted of extraction.files) {
+            try {
+                fileDocs.push(await ingestFile(userId, {
+                    name: path.relative(uploadDir, extracted.diskPath),
+                    originalName: path.posix.basename(extracted.relativePath),
+                    relativePath: extracted.relativePath,
+                    path: extracted.diskPath,
+                    size: extracted.size,
+                    mimeType: 'text/plain',
+                    content: extracted.content
+                }));
+            } catch (error) {
+                logger.error(`Error processing ${extracted.relativePath} from archive ${archive.originalname}:`, error);
+            }
+        }
+
+        return { fileDocs, skipped: extraction.skipped };
+    } finally {
+        try {
+            await fs.unlink(archive.path);
+        } catch (unlinkError) {
+            logger.warn(`Could not clean up archive: ${archive.path}`);
+        }
+    }
+};
+
+/**
+ * Bring a session's files in line with a repository checkout. Files whose
+ * blob id matches the last import are left alone, changed files get a new
+ * version and files no longer in the tree are removed.
+ */
+const ingestRepository = async (userId: string, sessionId: string, checkout: RepositoryCheckout) => {
+    const uploadDir = process.env.UPLOAD_DIR || './uploads';
+    const previous = await File.find({ userId, sessionId, blobSha: { $exists: true } });
+    const previousByPath = new Map(previous.map(fileDoc => [fileDoc.relativePath, fileDoc]));
+    const fileDocs: IFile[] = [];
+    let unchanged = 0;
+    let updated = 0;
+    let skipped = checkout.skipped;
+
+    for (const file of checkout.files) {
+        const existing = previousByPath.get(file.relativePath);
+
+        if (existing?.blobSha === file.blobSha) {
+            previousByPath.delete(file.relativePath);
+            unchanged++;
+            continue;
+        }
+
+        try {
+            const content = await gitImportService.readFile(file);
+            if (content === null) {
+                skipped++;
+                continue;
+            }
+
+            fileDocs.push(await ingestFile(userId, {
+                name: path.relative(uploadDir, file.diskPath),
+                originalName: path.posix.basename(file.relativePath),
+                relativePath: file.relativePath,
+                blobSha: file.blobSha,
+                sessionId,
+                path: file.diskPath,
+                size: file.size,
+                mimeType: 'text/plain',
+                content
+            }));
+
+            if (existing) {
+                previousByPath.delete(file.relativePath);
+                updated++;
+            }
+        } catch (error) {
+            logger.error(`Error processing ${file.relativePath} from repository:`, error);
+            // Keep the previous version, if any
+            previousByPath.delete(file.relativePath);
+        }
+    }
+
+    // Deleted from the repository, or now excluded or binary
+    for (const fileDoc of previousByPath.values()) {
+        await fileVersionService.remove(fileDoc);
+    }
+
+    return {
+        fileDocs,
+        added: fileDocs.length - updated,
+        updated,
+        unchanged,
+        removed: previousByPath.size,
+        skipped
+    };
+};
+
 export const uploadFiles = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const files = req.files as Express.Multer.File[];
@@ -56,70 +248,46 @@ export const uploadFiles = async (req: AuthenticatedRequest, res: Response) => {
 
         const userId = (req.user._id as string).toString();
         const { apiKey } = req.body;
-        const processedFiles = [];
+        const client = await llmClientPool.acquireForUser(userId, apiKey);
+        const processedFiles: ReturnType<typeof toUploadedFile>[] = [];
+        const failedFiles: Array<{ name: string; error: string }> = [];
+        let skippedFiles = 0;
 
-        logger.info(`Multiple file upload request - userId: ${userId}, fileCount: ${files.length}, hasApiKey: ${!!apiKey}`);
+        logger.info(`Multiple file upload request - userId: ${userId}, fileCount: ${files.length}, hasApiKey: ${!!client}`);
 
         for (const file of files) {
+            if (archiveService.isArchive(file.originalname)) {
+                try {
+                    const { fileDocs, skipped } = await ingestArchive(userId, file);
+                    processedFiles.push(...fileDocs.map(toUploadedFile));
+                    skippedFiles += skipped;
+                } catch (error) {
+                    logger.error(`Error extracting archive ${file.originalname}:`, error);
+                    failedFiles.push({
+                        name: file.originalname,
+                        error: error instanceof CustomError ? error.message : 'Archive extraction failed'
+                    });
+                }
+                continue;
+            }
+
             try {
                 // Read file content
                 const content = await fs.readFile(file.path, 'utf-8');
 
-                // Detect language
-                const language = FileProcessorService.detectLanguage(file.originalname);
-
-                // Parse code chunks
-                const chunks = FileProcessorService.parseCodeChunks(content, language);
-
-                // Extract dependencies and exports
-                const dependencies = FileProcessorService.extractDependencies(content, language);
-                const exports = FileProcessorService.extractExports(content, language);
-
-                // Save to database with userId
-                const fileDoc = new File({
+                const fileDoc = await ingestFile(userId, {
                     name: file.filename,
                     originalName: file.originalname,
                     path: file.path,
                     size: file.size,
                     mimeType: file.mimetype,
-                    language,
-                    content,
-                    chunks,
-                    dependencies,
-                    exports,
-                    userId, // Add the missing userId field
+                    content
                 });
 
-                await fileDoc.save();
-
-                // Generate embeddings if API key is provided
-                let embeddingsGenerated = false;
-                if (apiKey) {
-                    try {
-                        const { embeddingService } = await import('../services/embedding.service');
-                        await embeddingService.generateEmbeddingsForFile(fileDoc._id as string, apiKey);
-                        embeddingsGenerated = true;
-                        logger.info(`Generated embeddings for file: ${file.originalname}`);
-                    } catch (embeddingError) {
-                        logger.warn(`Failed to generate embeddings for file ${file.originalname}:`, embeddingError);
-                    }
-                }
-
-                processedFiles.push({
-                    id: fileDoc._id,
-                    name: fileDoc.originalName,
-                    language: fileDoc.language,
-                    size: fileDoc.size,
-                    chunks: fileDoc.chunks.length,
-                    dependencies: fileDoc.dependencies.length,
-                    exports: fileDoc.exports.length,
-                    uploadedAt: fileDoc.uploadedAt,
-                    embeddingsGenerated
-                });
-
-                logger.info(`Processed file: ${file.originalname} (${language}) for user ${userId}`);
+                processedFiles.push(toUploadedFile(fileDoc));
             } catch (error) {
                 logger.error(`Error processing file ${file.originalname}:`, error);
+                failedFiles.push({ name: file.originalname, error: 'File processing failed' });
 
                 // Clean up uploaded file on processing error
                 try {
@@ -131,13 +299,21 @@ export const uploadFiles = async (req: AuthenticatedRequest, res: Response) => {
             }
         }
 
-        const embeddingsCount = processedFiles.filter(f => f.embeddingsGenerated).length;
+        if (processedFiles.length === 0 && failedFiles.length > 0) {
+            return res.status(400).json({ success: false, error: failedFiles[0].error, data: { failed: failedFiles } });
+        }
+
+        // Embeddings are generated in the background; clients poll the job for progress
+        const embeddingJob = client && processedFiles.length > 0
+            ? await queueEmbeddings(userId, processedFiles.map(f => String(f.id)), apiKey)
+            : null;
+
         const successMessage = `Successfully processed ${processedFiles.length} files` +
-            (embeddingsCount > 0 ? ` (${embeddingsCount} with embeddings)` : '');
+            (embeddingJob ? ' (embeddings queued)' : '');
 
         res.json({
             success: true,
-            data: { files: processedFiles }, // Use consistent response format
+            data: { files: processedFiles, skipped: skippedFiles, failed: failedFiles, embeddingJobId: embeddingJob?.id || null }, // Use consistent response format
             message: successMessage
         });
 
@@ -161,23 +337,41 @@ export const getFiles = async (req: Request, res: Response) => {
     }
 };
 
-export const getFileContent = async (req: Request, res: Response) => {
+export const getFileContent = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { id } = req.params;
 
-        const file = await File.findById(id);
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+
+        const userId = (req.user._id as string).toString();
+
+        const file = await File.findOne({ _id: id, userId });
         if (!file) {
             return res.status(404).json({ error: 'File not found' });
         }
 
+        const chunks = await chunkService.getChunksForFile(String(file._id));
+
         res.json({
             success: true,
             file: {
                 id: file._id,
                 name: file.originalName,
+                path: file.relativePath || file.originalName,
                 language: file.language,
                 content: file.content,
-                chunks: file.chunks,
+                chunks: chunks.map(chunk => ({
+                    id: chunk.chunkId,
+                    content: chunk.content,
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    type: chunk.type,
+                    symbolName: chunk.symbolName,
+                    docComment: chunk.docComment,
+                    parentId: chunk.parentChunkId
+                })),
                 dependencies: file.dependencies,
                 exports: file.exports
             }
@@ -202,71 +396,41 @@ export const uploadSingleFile = async (req: AuthenticatedRequest, res: Response)
 
         const userId = (req.user._id as string).toString(); // From auth middleware
         const { apiKey } = req.body;
+        const client = await llmClientPool.acquireForUser(userId, apiKey);
 
         logger.info(`File upload request - userId: ${userId}, fileName: ${file.originalname}`);
 
+        if (archiveService.isArchive(file.originalname)) {
+            try {
+                await fs.unlink(file.path);
+            } catch (unlinkError) {
+                logger.warn(`Could not clean up archive: ${file.path}`);
+            }
+            return res.status(400).json({ success: false, error: 'Archives must be uploaded to /files/upload or /files/upload-multiple' });
+        }
+
         try {
             // Read file content
             const content = await fs.readFile(file.path, 'utf-8');
 
-            // Detect language
-            const language = FileProcessorService.detectLanguage(file.originalname);
-
-            // Parse code chunks
-            const chunks = FileProcessorService.parseCodeChunks(content, language);
-
-            // Extract dependencies and exports
-            const dependencies = FileProcessorService.extractDependencies(content, language);
-            const exports = FileProcessorService.extractExports(content, language);
-
-            // Save to database
-            const fileDoc = new File({
+            const fileDoc = await ingestFile(userId, {
                 name: file.filename,
                 originalName: file.originalname,
                 path: file.path,
                 size: file.size,
                 mimeType: file.mimetype,
-                language,
-                content,
-                chunks,
-                dependencies,
-                exports,
-                userId,
+                content
             });
 
-            await fileDoc.save();
-
-            // Generate embeddings if API key is provided
-            let embeddingsGenerated = false;
-            if (apiKey) {
-                try {
-                    const { embeddingService } = await import('../services/embedding.service');
-                    await embeddingService.generateEmbeddingsForFile(fileDoc._id as string, apiKey);
-                    embeddingsGenerated = true;
-                    logger.info(`Generated embeddings for file: ${file.originalname}`);
-                } catch (embeddingError) {
-                    logger.warn(`Failed to generate embeddings for file ${file.originalname}:`, embeddingError);
-                }
-            }
+            // Embeddings are generated in the background; clients poll the job for progress
+            const embeddingJob = client ? await queueEmbeddings(userId, [String(fileDoc._id)], apiKey) : null;
 
-            const processedFile = {
-                id: fileDoc._id,
-                name: fileDoc.originalName,
-                language: fileDoc.language,
-                size: fileDoc.size,
-                chunks: fileDoc.chunks.length,
-                dependencies: fileDoc.dependencies.length,
-                exports: fileDoc.exports.length,
-                uploadedAt: fileDoc.uploadedAt,
-                embeddingsGenerated
-            };
-
-            logger.info(`Processed single file: ${file.originalname} (${language}) for user ${userId}`);
+            const processedFile = toUploadedFile(fileDoc);
 
             res.json({
                 success: true,
-                data: { file: processedFile },
-                message: `Successfully processed file: ${file.originalname}${embeddingsGenerated ? ' with embeddings' : ''}`
+                data: { file: processedFile, embeddingJobId: embeddingJob?.id || null },
+                message: `Successfully processed file: ${file.originalname}${embeddingJob ? ' (embeddings queued)' : ''}`
             });
 
         } catch (error) {
@@ -303,7 +467,7 @@ export const getUserFiles = async (req: AuthenticatedRequest, res: Response) =>
         logger.info(`👤 Current user details: email=${req.user.email}, name=${req.user.name}`);
 
         const files = await File.find({ userId })
-            .select('originalName language size chunks dependencies exports uploadedAt')
+            .select('originalName relativePath language size chunkCount dependencies exports secretFindings uploadedAt')
             .sort({ uploadedAt: -1 });
 
         logger.info(`📊 Found ${files.length} files for user ${userId}`);
@@ -311,11 +475,13 @@ export const getUserFiles = async (req: AuthenticatedRequest, res: Response) =>
         const userFiles = files.map(file => ({
             id: file._id,
             name: file.originalName,
+            path: file.relativePath || file.originalName,
             language: file.language,
             size: file.size,
-            chunks: file.chunks.length,
+            chunks: file.chunkCount,
             dependencies: file.dependencies.length,
             exports: file.exports.length,
+            secrets: file.secretFindings,
             uploadedAt: file.uploadedAt
         }));
 
@@ -378,40 +544,28 @@ export const assignFilesToSession = async (req: AuthenticatedRequest, res: Respo
             return res.status(400).json({ success: false, error: 'Session ID is required' });
         }
 
-        // Find files without sessionId
-        const filesWithoutSession = await File.find({
-            userId,
-            $or: [
-                { sessionId: { $exists: false } },
-                { sessionId: null },
-                { sessionId: "" }
-            ]
-        });
+        // Files may only be moved into the caller's own sessions
+        const session = mongoose.Types.ObjectId.isValid(sessionId) ? await chatSessionService.getSession(sessionId, userId) : null;
+        if (!session) {
+            return res.status(404).json({ success: false, error: 'Session not found' });
+        }
 
-        logger.info(`Found ${filesWithoutSession.length} files without sessionId for user ${userId}`);
-
-        // Update files to have the current sessionId
-        const updateResult = await File.updateMany(
-            {
-                userId,
-                $or: [
-                    { sessionId: { $exists: false } },
-                    { sessionId: null },
-                    { sessionId: "" }
-                ]
-            },
-            { sessionId }
-        );
+        const { assignedIds, revisedFiles } = await fileVersionService.assignToSession(userId, sessionId);
 
-        logger.info(`Updated ${updateResult.modifiedCount} files with sessionId ${sessionId}`);
+        // Embeddings queued at upload were for the merged files, which are gone
+        const client = revisedFiles.length > 0 ? await llmClientPool.acquireForUser(userId, req.body.apiKey) : null;
+        if (client) {
+            await queueEmbeddings(userId, revisedFiles.map(file => String(file._id)), req.body.apiKey);
+        }
 
         res.json({
             success: true,
             data: {
-                filesUpdated: updateResult.modifiedCount,
+                filesUpdated: assignedIds.length,
+                filesVersioned: revisedFiles.length,
                 sessionId
             },
-            message: `Assigned ${updateResult.modifiedCount} files to session ${sessionId}`
+            message: `Assigned ${assignedIds.length} files to session ${sessionId}`
         });
 
     } catch (error) {
@@ -420,6 +574,23 @@ export const assignFilesToSession = async (req: AuthenticatedRequest, res: Respo
     }
 };
 
+// Module graph of a session: resolved imports between its files, external packages, cycles and orphans
+export const getSessionGraph = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+
+        const userId = (req.user._id as string).toString();
+        const graph = await dependencyGraphService.build(userId, req.params.sessionId);
+
+        res.json({ success: true, data: graph });
+    } catch (error) {
+        logger.error('Error building session dependency graph:', error);
+        res.status(500).json({ success: false, error: 'Failed to build dependency graph' });
+    }
+};
+
 export const getSessionFiles = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { sessionId } = req.params;
@@ -447,7 +618,7 @@ export const getSessionFiles = async (req: AuthenticatedRequest, res: Response)
         const files = await File.find({
             userId,
             sessionId
-        }).select('originalName language size chunks dependencies exports uploadedAt sessionId').sort({ uploadedAt: -1 });
+        }).select('originalName relativePath language size chunkCount dependencies exports secretFindings uploadedAt sessionId').sort({ uploadedAt: -1 });
 
         logger.info(`Found ${files.length} files for session ${sessionId}`);
 
@@ -469,11 +640,13 @@ export const getSessionFiles = async (req: AuthenticatedRequest, res: Response)
         const sessionFiles = files.map(file => ({
             id: file._id,
             name: file.originalName,
+            path: file.relativePath || file.originalName,
             language: file.language,
             size: file.size,
-            chunks: file.chunks.length,
+            chunks: file.chunkCount,
             dependencies: file.dependencies.length,
             exports: file.exports.length,
+            secrets: file.secretFindings,
             uploadedAt: file.uploadedAt,
             sessionId: file.sessionId
         }));
@@ -508,10 +681,11 @@ export const getSessionFiles = async (req: AuthenticatedRequest, res: Response)
                 file: {
                     id: file._id,
                     name: file.originalName,
+                    path: file.relativePath || file.originalName,
                     language: file.language,
                     size: file.size,
                     content: file.content,
-                    chunks: file.chunks.length,
+                    chunks: file.chunkCount,
                     dependencies: file.dependencies.length,
                     exports: file.exports.length,
                     uploadedAt: file.uploadedAt,
@@ -549,7 +723,7 @@ export const deleteFile = async (req: AuthenticatedRequest, res: Response) => {
         }
 
         // Delete from database
-        await File.findByIdAndDelete(id);
+        await fileVersionService.remove(file);
 
         res.json({ success: true, message: 'File deleted successfully' });
     } catch (error) {
@@ -557,4 +731,172 @@ export const deleteFile = async (req: AuthenticatedRequest, res: Response) => {
         res.status(500).json({ success: false, error: 'Failed to delete file' });
         res.status(500).json({ error: 'Failed to delete file' });
     }
-};
\ No newline at end of file
+};
+
+export const gitImportValidation = [
+    body('sessionId')
+        .isMongoId()
+        .withMessage('A valid session ID is required'),
+    body('ref')
+        .optional({ values: 'falsy' })
+        .isString()
+        .custom(ref => GitImportService.isValidRef(ref))
+        .withMessage('Ref must be a branch, tag or commit'),
+    body('repositoryPath')
+        .optional({ values: 'falsy' })
+        .isString()
+        .isLength({ max: 1000 })
+];
+
+export const importGitRepository = async (req: AuthenticatedRequest, res: Response) => {
+    const bundle = req.file;
+
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ success: false, error: 'Validation failed', details: errors.array() });
+        }
+
+        const userId = (req.user._id as string).toString();
+        const { sessionId, repositoryPath, apiKey } = req.body;
+        const ref = req.body.ref || 'HEAD';
+
+        if (!bundle === !repositoryPath) {
+            return res.status(400).json({ success: false, error: 'Provide either a git bundle or a repository path' });
+        }
+
+        const session = await chatSessionService.getSession(sessionId, userId);
+        if (!session) {
+            return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+
+        const source: RepositorySource = bundle
+            ? { type: 'bundle', bundlePath: bundle.path }
+            : { type: 'path', path: repositoryPath };
+        const checkout = await gitImportService.checkout(source, ref, `${userId}-${sessionId}`);
+        const { fileDocs, ...changes } = await ingestRepository(userId, sessionId, checkout);
+
+        session.repository = {
+            source: source.type,
+            location: bundle ? bundle.originalname : repositoryPath,
+            ref,
+            commitSha: checkout.commitSha,
+            importedAt: new Date()
+        };
+        await session.save();
+
+        const client = await llmClientPool.acquireForUser(userId, apiKey);
+        const embeddingJob = client && fileDocs.length > 0
+            ? await queueEmbeddings(userId, fileDocs.map(fileDoc => String(fileDoc._id)), apiKey)
+            : null;
+
+        logger.info(`Imported ${ref} (${checkout.commitSha}) into session ${sessionId}: ${changes.added} added, ${changes.updated} updated, ${changes.unchanged} unchanged, ${changes.removed} removed`);
+
+        res.json({
+            success: true,
+            data: {
+                commitSha: checkout.commitSha,
+                files: fileDocs.map(toUploadedFile),
+                ...changes,
+                embeddingJobId: embeddingJob?.id || null
+            },
+            message: `Imported ${checkout.commitSha.substring(0, 12)}: ${fileDocs.length} files processed, ${changes.unchanged} unchanged`
+        });
+    } catch (error) {
+        if (error instanceof CustomError) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        logger.error('Error importing git repository:', error);
+        res.status(500).json({ success: false, error: 'Repository import failed' });
+    } finally {
+        if (bundle) {
+            try {
+                await fs.unlink(bundle.path);
+            } catch (unlinkError) {
+                logger.warn(`Could not clean up bundle: ${bundle.path}`);
+            }
+        }
+    }
+};
+
+export const getFileVersions = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+
+        const userId = (req.user._id as string).toString();
+        const file = await File.findOne({ _id: req.params.id, userId });
+        if (!file) {
+            return res.status(404).json({ success: false, error: 'File not found' });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                fileId: file._id,
+                path: FileVersionService.filePath(file),
+                currentVersion: file.version || 1,
+                versions: await fileVersionService.listVersions(file)
+            }
+        });
+    } catch (error) {
+        logger.error('Error fetching file versions:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch file versions' });
+    }
+};
+
+export const fileDiffValidation = [
+    query('from')
+        .isInt({ min: 1 })
+        .withMessage('From must be a version number'),
+    query('to')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('To must be a version number')
+];
+
+// Unified diff between two versions of a file; `to` defaults to the current version
+export const getFileDiff = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ success: false, error: 'Validation failed', details: errors.array() });
+        }
+
+        const userId = (req.user._id as string).toString();
+        const file = await File.findOne({ _id: req.params.id, userId });
+        if (!file) {
+            return res.status(404).json({ success: false, error: 'File not found' });
+        }
+
+        const from = parseInt(req.query.from as string);
+        const to = req.query.to ? parseInt(req.query.to as string) : file.version || 1;
+        const diff = await fileVersionService.diff(file, from, to);
+        if (diff === null) {
+            return res.status(404).json({ success: false, error: 'Version not found' });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                fileId: file._id,
+                path: FileVersionService.filePath(file),
+                from,
+                to,
+                diff
+            }
+        });
+    } catch (error) {
+        logger.error('Error diffing file versions:', error);
+        res.status(500).json({ success: false, error: 'Failed to diff file versions' });
+    }
+};
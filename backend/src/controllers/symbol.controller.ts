@@ -0,0 +1,184 @@
+import { Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { File } from '../models/File';
+import { SYMBOL_KINDS, SymbolKind } from '../models/CodeSymbol';
+import { symbolIndexService, SymbolScope } from '../services/symbolIndex.service';
+import { callGraphService } from '../services/callGraph.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { CustomError } from '../middleware/errorHandler';
+
+// Identifiers, optionally qualified (`AuthService.login`)
+const NAME_PATTERN = /^[\w$]+(\.[\w$]+)*$/;
+
+export const symbolSearchValidation = [
+    query('q')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 200 })
+        .withMessage('Search query is required'),
+    query('sessionId')
+        .optional({ values: 'falsy' })
+        .isString(),
+    query('kind')
+        .optional({ values: 'falsy' })
+        .isIn(SYMBOL_KINDS)
+        .withMessage(`Kind must be one of: ${SYMBOL_KINDS.join(', ')}`),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+];
+
+// Shared by definition, reference, caller and callee lookups
+export const symbolLookupValidation = [
+    query('name')
+        .isString()
+        .matches(NAME_PATTERN)
+        .withMessage('Name must be an identifier'),
+    query('sessionId')
+        .optional({ values: 'falsy' })
+        .isString(),
+    query('fileId')
+        .optional({ values: 'falsy' })
+        .isMongoId()
+        .withMessage('File ID must be valid')
+];
+
+/**
+ * The session to look in: the one given, else the session of the file the
+ * lookup starts from, else all of the user's files.
+ */
+const resolveScope = async (req: AuthenticatedRequest): Promise<SymbolScope> => {
+    const userId = (req.user!._id as string).toString();
+    const sessionId = req.query.sessionId as string | undefined;
+    const fileId = req.query.fileId as string | undefined;
+
+    if (sessionId || !fileId) {
+        return { userId, sessionId: sessionId || undefined };
+    }
+
+    const file = await File.findOne({ _id: fileId, userId }).select('sessionId');
+    if (!file) {
+        throw new CustomError('File not found', 404);
+    }
+    return { userId, sessionId: file.sessionId || undefined };
+};
+
+// Answers with a 400 when validation failed
+const rejectInvalid = (req: AuthenticatedRequest, res: Response): boolean => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, error: 'Validation failed', details: errors.array() });
+        return true;
+    }
+    return false;
+};
+
+export const searchSymbols = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+        if (rejectInvalid(req, res)) return;
+
+        const scope = await resolveScope(req);
+        const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+        const symbols = await symbolIndexService.search(scope, req.query.q as string, req.query.kind as SymbolKind | undefined, limit);
+
+        res.json({ success: true, data: { symbols } });
+    } catch (error) {
+        if (error instanceof CustomError) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        logger.error('Error searching symbols:', error);
+        res.status(500).json({ success: false, error: 'Failed to search symbols' });
+    }
+};
+
+// Definitions an identifier may refer to; those in `fileId`, where it was clicked, come first
+export const findDefinitions = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+        if (rejectInvalid(req, res)) return;
+
+        const scope = await resolveScope(req);
+        const name = req.query.name as string;
+        const definitions = await symbolIndexService.findDefinitions(scope, name, req.query.fileId as string | undefined);
+
+        res.json({ success: true, data: { name, definitions } });
+    } catch (error) {
+        if (error instanceof CustomError) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        logger.error('Error finding symbol definitions:', error);
+        res.status(500).json({ success: false, error: 'Failed to find definitions' });
+    }
+};
+
+export const findReferences = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+        if (rejectInvalid(req, res)) return;
+
+        const scope = await resolveScope(req);
+        const name = req.query.name as string;
+        const { references, truncated } = await symbolIndexService.findReferences(scope, name);
+
+        res.json({ success: true, data: { name, references, truncated } });
+    } catch (error) {
+        if (error instanceof CustomError) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        logger.error('Error finding symbol references:', error);
+        res.status(500).json({ success: false, error: 'Failed to find references' });
+    }
+};
+
+// "Who calls this": chunks with a call to the name, and the lines of those calls
+export const findCallers = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+        if (rejectInvalid(req, res)) return;
+
+        const scope = await resolveScope(req);
+        const name = req.query.name as string;
+        const callers = await callGraphService.findCallers(scope, name);
+
+        res.json({ success: true, data: { name, callers } });
+    } catch (error) {
+        if (error instanceof CustomError) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        logger.error('Error finding callers:', error);
+        res.status(500).json({ success: false, error: 'Failed to find callers' });
+    }
+};
+
+// What the functions by the name call, with the definitions each call may reach
+export const findCallees = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ success: false, error: 'Authentication required' });
+        }
+        if (rejectInvalid(req, res)) return;
+
+        const scope = await resolveScope(req);
+        const name = req.query.name as string;
+        const callees = await callGraphService.findCallees(scope, name, req.query.fileId as string | undefined);
+
+        res.json({ success: true, data: { name, callees } });
+    } catch (error) {
+        if (error instanceof CustomError) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        logger.error('Error finding callees:', error);
+        res.status(500).json({ success: false, error: 'Failed to find callees' });
+    }
+};
@@ -0,0 +1,104 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import { connectDB, disconnectDB } from '../config/database';
+import { File } from '../models/File';
+import { Chunk } from '../models/Chunk';
+import { ChunkService } from '../services/chunk.service';
+import { logger } from '../utils/logger';
+
+// Shape of the chunks that used to be embedded in File documents
+interface LegacyChunk {
+    id: string;
+    content: string;
+    startLine: number;
+    endLine: number;
+    type?: string;
+    embedding?: number[];
+}
+
+interface LegacyFile {
+    _id: mongoose.Types.ObjectId;
+    userId: string;
+    sessionId?: string;
+    chunks: LegacyChunk[];
+}
+
+// Embeddings were only ever produced by the Gemini client before providers were configurable
+const LEGACY_EMBEDDING_MODEL = process.env.LEGACY_EMBEDDING_MODEL || 'embedding-001';
+
+/**
+ * Move chunks embedded in File documents into the Chunk collection and drop
+ * them from the files. Safe to re-run: chunks are upserted by (fileId,
+ * chunkId) and a file is only cleared once all its chunks are written.
+ */
+export async function migrateChunks(): Promise<{ files: number; chunks: number }> {
+    const cursor = File.collection.find<LegacyFile>({ chunks: { $exists: true } });
+    let files = 0;
+    let chunks = 0;
+
+    for await (const file of cursor) {
+        const legacyChunks = file.chunks || [];
+
+        if (legacyChunks.length > 0) {
+            await Chunk.bulkWrite(legacyChunks.map((chunk, order) => {
+                const hasEmbedding = Array.isArray(chunk.embedding) && chunk.embedding.length > 0;
+                return {
+                    updateOne: {
+                        filter: { fileId: file._id, chunkId: chunk.id },
+                        update: {
+                            $setOnInsert: {
+                                fileId: file._id,
+                                userId: file.userId,
+                                sessionId: file.sessionId,
+                                chunkId: chunk.id,
+                                order,
+                                content: chunk.content,
+                                contentHash: ChunkService.hashContent(chunk.content),
+                                startLine: chunk.startLine,
+                                endLine: chunk.endLine,
+                                type: chunk.type || 'other',
+                                ...(hasEmbedding && {
+                                    embedding: chunk.embedding,
+                                    embeddingModel: LEGACY_EMBEDDING_MODEL,
+                                    embeddingDimension: chunk.embedding?.length
+                                })
+                            }
+                        },
+                        upsert: true
+                    }
+                };
+            }));
+        }
+
+        await File.collection.updateOne(
+            { _id: file._id },
+            { $set: { chunkCount: legacyChunks.length }, $unset: { chunks: '' } }
+        );
+
+        files++;
+        chunks += legacyChunks.length;
+        logger.info(`Migrated ${legacyChunks.length} chunks for file ${file._id}`);
+    }
+
+    return { files, chunks };
+}
+
+if (require.main === module) {
+    (async () => {
+        try {
+            await connectDB();
+            await Chunk.syncIndexes();
+
+            const result = await migrateChunks();
+            logger.info(`Chunk migration complete: ${result.chunks} chunks moved from ${result.files} files`);
+
+            await disconnectDB();
+            process.exit(0);
+        } catch (error) {
+            logger.error('Chunk migration failed:', error);
+            process.exit(1);
+        }
+    })();
+}
@@ -5,6 +5,22 @@ export interface IMessage {
     content: string;
     role: 'user' | 'assistant';
     timestamp: Date;
+    partial?: boolean;
+}
+
+export interface IHistorySummary {
+    content: string;
+    throughMessageId: string;
+    updatedAt: Date;
+}
+
+export interface IRepositoryImport {
+    source: 'bundle' | 'path';
+    // Bundle file name or server-local repository path
+    location: string;
+    ref: string;
+    commitSha: string;
+    importedAt: Date;
 }
 
 export interface IChatSession extends Document {
@@ -13,6 +29,9 @@ export interface IChatSession extends Document {
     title: string;
     messages: IMessage[];
     lastMessage: string;
+    historySummary?: IHistorySummary;
+    // Last git import into this session
+    repository?: IRepositoryImport;
     timestamp: Date;
     isActive: boolean;
     createdAt: Date;
@@ -36,9 +55,53 @@ const MessageSchema = new Schema<IMessage>({
     timestamp: {
         type: Date,
         default: Date.now
+    },
+    // Set when the reply was cut off by a disconnect or a provider error
+    partial: {
+        type: Boolean,
+        default: false
     }
 });
 
+const HistorySummarySchema = new Schema<IHistorySummary>({
+    content: {
+        type: String,
+        required: true
+    },
+    throughMessageId: {
+        type: String,
+        required: true
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false });
+
+const RepositoryImportSchema = new Schema<IRepositoryImport>({
+    source: {
+        type: String,
+        enum: ['bundle', 'path'],
+        required: true
+    },
+    location: {
+        type: String,
+        required: true
+    },
+    ref: {
+        type: String,
+        required: true
+    },
+    commitSha: {
+        type: String,
+        required: true
+    },
+    importedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false });
+
 const ChatSessionSchema = new Schema<IChatSession>({
     userId: {
         type: Schema.Types.ObjectId,
@@ -57,6 +120,14 @@ const ChatSessionSchema = new Schema<IChatSession>({
         type: String,
         default: ''
     },
+    historySummary: {
+        type: HistorySummarySchema,
+        required: false
+    },
+    repository: {
+        type: RepositoryImportSchema,
+        required: false
+    },
     timestamp: {
         type: Date,
         default: Date.now
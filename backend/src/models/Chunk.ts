@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ChunkType = 'function' | 'class' | 'interface' | 'block' | 'other';
+
+export const CHUNK_TYPES: ChunkType[] = ['function', 'class', 'interface', 'block', 'other'];
+
+// A call made from a chunk, by the name of the function called (`login` for `auth.login()`)
+export interface ICallSite {
+    name: string;
+    line: number;
+}
+
+// A chunk as produced by the parser, before it is stored
+export interface ICodeChunk {
+    id: string;
+    content: string;
+    startLine: number;
+    endLine: number;
+    type: ChunkType;
+    // Declared name, qualified by its parents (`AuthService.login`)
+    symbolName?: string;
+    docComment?: string;
+    // Id of the chunk this one is nested in, e.g. a method's class
+    parentId?: string;
+    // Calls made from lines of this chunk and not of a narrower one
+    calls?: ICallSite[];
+}
+
+export interface IChunk extends Document {
+    fileId: mongoose.Types.ObjectId;
+    userId: string;
+    sessionId?: string;
+    chunkId: string;
+    // Position within the file, for neighbour lookups
+    order: number;
+    content: string;
+    contentHash: string;
+    startLine: number;
+    endLine: number;
+    type: ChunkType;
+    symbolName?: string;
+    docComment?: string;
+    parentChunkId?: string;
+    // Unset on chunks stored before call sites were extracted
+    calls?: ICallSite[];
+    embedding?: number[];
+    embeddingModel?: string;
+    embeddingDimension?: number;
+    createdAt: Date;
+    // Moved on by edits the per-scope indexes see; embeddings and call sites are written without it
+    updatedAt?: Date;
+}
+
+const ChunkSchema = new Schema<IChunk>({
+    fileId: {
+        type: Schema.Types.ObjectId,
+        ref: 'File',
+        required: true
+    },
+    userId: { type: String, required: true },
+    sessionId: { type: String },
+    chunkId: { type: String, required: true },
+    order: { type: Number, required: true },
+    content: { type: String, required: true },
+    contentHash: { type: String, required: true },
+    startLine: { type: Number, required: true },
+    endLine: { type: Number, required: true },
+    type: {
+        type: String,
+        enum: CHUNK_TYPES,
+        default: 'other'
+    },
+    symbolName: { type: String },
+    docComment: { type: String },
+    parentChunkId: { type: String },
+    calls: {
+        type: [{ _id: false, name: String, line: Number }],
+        default: undefined
+    },
+    embedding: {
+        type: [Number],
+        default: undefined
+    },
+    embeddingModel: { type: String },
+    embeddingDimension: { type: Number }
+}, {
+    timestamps: true
+});
+
+ChunkSchema.index({ fileId: 1, order: 1 });
+ChunkSchema.index({ fileId: 1, chunkId: 1 }, { unique: true });
+ChunkSchema.index({ sessionId: 1, embeddingModel: 1, embeddingDimension: 1 });
+ChunkSchema.index({ userId: 1, contentHash: 1, embeddingModel: 1 });
+
+export const Chunk = mongoose.model<IChunk>('Chunk', ChunkSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'namespace' | 'variable' | 'property';
+
+export const SYMBOL_KINDS: SymbolKind[] = ['function', 'method', 'class', 'interface', 'type', 'enum', 'namespace', 'variable', 'property'];
+
+// A declaration as found by an analyzer, before it is stored
+export interface ISymbolDefinition {
+    name: string;
+    // Qualified by its enclosing declarations (`AuthService.login`)
+    qualifiedName: string;
+    kind: SymbolKind;
+    // Declaration head without the body, whitespace collapsed
+    signature: string;
+    startLine: number;
+    endLine: number;
+    exported: boolean;
+}
+
+// An identifier that may refer to a definition elsewhere
+export interface ISymbolReference {
+    name: string;
+    line: number;
+    column: number;
+    // Qualified name of the innermost definition the reference is in
+    container?: string;
+}
+
+export interface FileSymbols {
+    definitions: ISymbolDefinition[];
+    references: ISymbolReference[];
+}
+
+export interface ICodeSymbol extends Document, ISymbolDefinition {
+    fileId: mongoose.Types.ObjectId;
+    userId: string;
+    sessionId?: string;
+    filePath: string;
+    language: string;
+}
+
+export interface ISymbolReferenceDoc extends Document, ISymbolReference {
+    fileId: mongoose.Types.ObjectId;
+    userId: string;
+    sessionId?: string;
+    filePath: string;
+}
+
+const CodeSymbolSchema = new Schema<ICodeSymbol>({
+    fileId: {
+        type: Schema.Types.ObjectId,
+        ref: 'File',
+        required: true
+    },
+    userId: { type: String, required: true },
+    sessionId: { type: String },
+    filePath: { type: String, required: true },
+    language: { type: String, required: true },
+    name: { type: String, required: true },
+    qualifiedName: { type: String, required: true },
+    kind: {
+        type: String,
+        enum: SYMBOL_KINDS,
+        required: true
+    },
+    signature: { type: String, default: '' },
+    startLine: { type: Number, required: true },
+    endLine: { type: Number, required: true },
+    exported: { type: Boolean, default: false }
+});
+
+const SymbolReferenceSchema = new Schema<ISymbolReferenceDoc>({
+    fileId: {
+        type: Schema.Types.ObjectId,
+        ref: 'File',
+        required: true
+    },
+    userId: { type: String, required: true },
+    sessionId: { type: String },
+    filePath: { type: String, required: true },
+    name: { type: String, required: true },
+    line: { type: Number, required: true },
+    column: { type: Number, required: true },
+    container: { type: String }
+});
+
+CodeSymbolSchema.index({ fileId: 1 });
+CodeSymbolSchema.index({ userId: 1, sessionId: 1, name: 1 });
+SymbolReferenceSchema.index({ fileId: 1 });
+SymbolReferenceSchema.index({ userId: 1, sessionId: 1, name: 1 });
+
+export const CodeSymbol = mongoose.model<ICodeSymbol>('CodeSymbol', CodeSymbolSchema);
+export const SymbolReference = mongoose.model<ISymbolReferenceDoc>('SymbolReference', SymbolReferenceSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EmbeddingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IEmbeddingJobProgress {
+    totalFiles: number;
+    processedFiles: number;
+    totalChunks: number;
+    embeddedChunks: number;
+}
+
+export interface IEmbeddingJob extends Document {
+    userId: mongoose.Types.ObjectId;
+    sessionId?: string;
+    fileIds: string[];
+    // Files already embedded, so a retry picks up where the last attempt stopped
+    completedFileIds: string[];
+    status: EmbeddingJobStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextRunAt: Date;
+    lockedAt?: Date;
+    progress: IEmbeddingJobProgress;
+    lastError?: string;
+    completedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const EmbeddingJobProgressSchema = new Schema<IEmbeddingJobProgress>({
+    totalFiles: { type: Number, default: 0 },
+    processedFiles: { type: Number, default: 0 },
+    totalChunks: { type: Number, default: 0 },
+    embeddedChunks: { type: Number, default: 0 }
+}, { _id: false });
+
+const EmbeddingJobSchema = new Schema<IEmbeddingJob>({
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    sessionId: { type: String },
+    fileIds: [{ type: String }],
+    completedFileIds: [{ type: String }],
+    status: {
+        type: String,
+        enum: ['queued', 'running', 'completed', 'failed'],
+        default: 'queued'
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3 },
+    nextRunAt: { type: Date, default: Date.now },
+    lockedAt: { type: Date },
+    progress: {
+        type: EmbeddingJobProgressSchema,
+        default: () => ({})
+    },
+    lastError: { type: String },
+    completedAt: { type: Date }
+}, {
+    timestamps: true
+});
+
+EmbeddingJobSchema.index({ status: 1, nextRunAt: 1 });
+// Finished jobs are only kept around long enough for clients to read the outcome
+EmbeddingJobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const EmbeddingJob = mongoose.model<IEmbeddingJob>('EmbeddingJob', EmbeddingJobSchema);
@@ -1,56 +1,56 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { SECRET_TYPES, SecretFinding } from '../utils/secrets';
 
 export interface IFile extends Document {
     name: string;
     originalName: string;
+    // Path within the uploaded repository or archive, e.g. `src/index.ts`
+    relativePath?: string;
+    // Git blob id of the content, for files imported from a repository
+    blobSha?: string;
     path: string;
     size: number;
     mimeType: string;
     language: string;
     content: string;
-    chunks: ICodeChunk[];
+    chunkCount: number;
     dependencies: string[];
     exports: string[];
     userId: string;
     sessionId?: string;
+    // Starts at 1; earlier versions are kept as `FileVersion`s
+    version: number;
+    // Whether its definitions and references are in the symbol index
+    symbolsIndexed: boolean;
+    // Secrets found in the content; they are redacted from its chunks and from prompts
+    secretFindings: SecretFinding[];
     uploadedAt: Date;
 }
 
-export interface ICodeChunk {
-    id: string;
-    content: string;
-    startLine: number;
-    endLine: number;
-    type: 'function' | 'class' | 'interface' | 'block' | 'other';
-    embedding?: number[];
-}
-
-const CodeChunkSchema = new Schema<ICodeChunk>({
-    id: { type: String, required: true },
-    content: { type: String, required: true },
-    startLine: { type: Number, required: true },
-    endLine: { type: Number, required: true },
-    type: {
-        type: String,
-        enum: ['function', 'class', 'interface', 'block', 'other'],
-        default: 'other'
-    },
-    embedding: [{ type: Number }]
-});
-
 const FileSchema: Schema = new Schema({
     name: { type: String, required: true },
     originalName: { type: String, required: true },
+    relativePath: { type: String },
+    blobSha: { type: String },
     path: { type: String, required: true },
     size: { type: Number, required: true },
     mimeType: { type: String, required: true },
     language: { type: String, required: true },
     content: { type: String, required: true },
-    chunks: [CodeChunkSchema],
+    chunkCount: { type: Number, default: 0 },
     dependencies: [{ type: String }],
     exports: [{ type: String }],
     userId: { type: String, required: true },
     sessionId: { type: String },
+    version: { type: Number, default: 1 },
+    symbolsIndexed: { type: Boolean, default: false },
+    secretFindings: [{
+        _id: false,
+        type: { type: String, enum: SECRET_TYPES, required: true },
+        line: { type: Number, required: true },
+        column: { type: Number, required: true },
+        preview: { type: String, required: true }
+    }],
     uploadedAt: { type: Date, default: Date.now }
 });
 
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CHUNK_TYPES, ChunkType } from './Chunk';
+
+// Where a chunk of an earlier version sat; its text is in the version's content
+export interface IChunkSnapshot {
+    chunkId: string;
+    contentHash: string;
+    startLine: number;
+    endLine: number;
+    type: ChunkType;
+    symbolName?: string;
+    parentChunkId?: string;
+}
+
+// A superseded version of a file; the current one is the `File` itself
+export interface IFileVersion extends Document {
+    fileId: mongoose.Types.ObjectId;
+    userId: string;
+    sessionId?: string;
+    version: number;
+    // Path of the file at the time, e.g. `src/index.ts`
+    filePath: string;
+    content: string;
+    size: number;
+    language: string;
+    blobSha?: string;
+    chunks: IChunkSnapshot[];
+    uploadedAt: Date;
+}
+
+const ChunkSnapshotSchema = new Schema<IChunkSnapshot>({
+    chunkId: { type: String, required: true },
+    contentHash: { type: String, required: true },
+    startLine: { type: Number, required: true },
+    endLine: { type: Number, required: true },
+    type: { type: String, enum: CHUNK_TYPES, default: 'other' },
+    symbolName: { type: String },
+    parentChunkId: { type: String }
+}, { _id: false });
+
+const FileVersionSchema = new Schema<IFileVersion>({
+    fileId: {
+        type: Schema.Types.ObjectId,
+        ref: 'File',
+        required: true
+    },
+    userId: { type: String, required: true },
+    sessionId: { type: String },
+    version: { type: Number, required: true },
+    filePath: { type: String, required: true },
+    content: { type: String, required: true },
+    size: { type: Number, required: true },
+    language: { type: String, required: true },
+    blobSha: { type: String },
+    chunks: [ChunkSnapshotSchema],
+    uploadedAt: { type: Date, required: true }
+});
+
+FileVersionSchema.index({ fileId: 1, version: -1 }, { unique: true });
+
+export const FileVersion = mongoose.model<IFileVersion>('FileVersion', FileVersionSchema);
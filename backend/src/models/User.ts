@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { LLMProviderName, LLM_PROVIDER_NAMES } from '../services/providers';
 
 export interface IUserPreferences {
     theme: 'light' | 'dark' | 'system';
@@ -9,12 +10,34 @@ export interface IUserPreferences {
     streamingEnabled: boolean;
 }
 
+export interface ILLMProviderSettings {
+    name: LLMProviderName;
+    baseUrl?: string;
+    model?: string;
+    embeddingModel?: string;
+}
+
+// A key for a provider other than Gemini, with the endpoint it was saved for
+export interface IProviderCredential {
+    apiKey: string;
+    // Unset for the provider's default endpoint
+    baseUrl?: string;
+}
+
+export interface IProviderCredentials {
+    openai?: IProviderCredential;
+    ollama?: IProviderCredential;
+}
+
 export interface IUser extends Document {
     email: string;
     password: string;
     name: string;
     preferences: IUserPreferences;
+    // The user's Gemini key
     apiKey?: string;
+    llmProvider: ILLMProviderSettings;
+    providerCredentials?: IProviderCredentials;
     isEmailVerified: boolean;
     resetPasswordToken?: string;
     resetPasswordExpires?: Date;
@@ -48,6 +71,42 @@ const userPreferencesSchema = new Schema<IUserPreferences>({
     }
 });
 
+const llmProviderSettingsSchema = new Schema<ILLMProviderSettings>({
+    name: {
+        type: String,
+        enum: LLM_PROVIDER_NAMES,
+        default: 'gemini'
+    },
+    baseUrl: {
+        type: String,
+        trim: true
+    },
+    model: {
+        type: String,
+        trim: true
+    },
+    embeddingModel: {
+        type: String,
+        trim: true
+    }
+}, { _id: false });
+
+const providerCredentialSchema = new Schema<IProviderCredential>({
+    apiKey: {
+        type: String,
+        required: true
+    },
+    baseUrl: {
+        type: String,
+        trim: true
+    }
+}, { _id: false });
+
+const providerCredentialsSchema = new Schema<IProviderCredentials>({
+    openai: providerCredentialSchema,
+    ollama: providerCredentialSchema
+}, { _id: false });
+
 const userSchema = new Schema<IUser>({
     email: {
         type: String,
@@ -77,6 +136,14 @@ const userSchema = new Schema<IUser>({
         type: String,
         select: false // Don't include API key in queries by default
     },
+    llmProvider: {
+        type: llmProviderSettingsSchema,
+        default: () => ({})
+    },
+    providerCredentials: {
+        type: providerCredentialsSchema,
+        select: false // Don't include provider keys in queries by default
+    },
     isEmailVerified: {
         type: Boolean,
         default: false
@@ -96,6 +163,7 @@ const userSchema = new Schema<IUser>({
         transform: function (doc: any, ret: any) {
             delete ret.password;
             delete ret.apiKey;
+            delete ret.providerCredentials;
             delete ret.resetPasswordToken;
             delete ret.resetPasswordExpires;
             delete ret.__v;
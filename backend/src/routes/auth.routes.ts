@@ -7,6 +7,8 @@ import {
     updateProfile,
     updateApiKey,
     getApiKey,
+    getLLMProvider,
+    updateLLMProvider,
     changePassword,
     initiatePasswordReset,
     resetPassword,
@@ -14,7 +16,8 @@ import {
     registerValidation,
     loginValidation,
     changePasswordValidation,
-    resetPasswordValidation
+    resetPasswordValidation,
+    llmProviderValidation
 } from '../controllers/auth.controller';
 import { authMiddleware } from '../middleware/auth';
 
@@ -32,6 +35,8 @@ router.get('/profile', authMiddleware, getProfile);
 router.put('/profile', authMiddleware, updateProfile);
 router.put('/api-key', authMiddleware, updateApiKey);
 router.get('/api-key', authMiddleware, getApiKey);
+router.get('/llm-provider', authMiddleware, getLLMProvider);
+router.put('/llm-provider', authMiddleware, llmProviderValidation, updateLLMProvider);
 router.put('/change-password', authMiddleware, changePasswordValidation, changePassword);
 router.delete('/account', authMiddleware, deleteAccount);
 
@@ -13,6 +13,7 @@ import {
     deleteChatSession,
     semanticSearch
 } from '../controllers/chat.controller';
+import { codeSearchValidation } from '../controllers/embedding.controller';
 import { requireAuthentication } from '../middleware/auth';
 
 const router = Router();
@@ -24,7 +25,7 @@ router.post('/validate-key', validateApiKey);
 // Protected endpoints - require JWT authentication
 router.post('/message', requireAuthentication, chat);
 router.post('/stream', requireAuthentication, chatStream);
-router.post('/search', requireAuthentication, semanticSearch);
+router.post('/search', requireAuthentication, codeSearchValidation, semanticSearch);
 
 // Chat Session Management endpoints
 router.post('/sessions', requireAuthentication, createChatSession);
@@ -2,7 +2,9 @@ import { Router } from 'express';
 import {
     generateEmbeddings,
     generateEmbeddingForFile,
-    searchSimilarCode
+    getEmbeddingJob,
+    searchSimilarCode,
+    codeSearchValidation
 } from '../controllers/embedding.controller';
 import { requireAuthentication } from '../middleware/auth';
 
@@ -11,4 +13,5 @@ const router = Router();
 // All embedding operations require user authentication
 router.post('/generate', requireAuthentication, generateEmbeddings);
 router.post('/generate/:fileId', requireAuthentication, generateEmbeddingForFile);
-router.post('/search', requireAuthentication, searchSimilarCode); export default router;
\ No newline at end of file
+router.post('/search', requireAuthentication, codeSearchValidation, searchSimilarCode);
+router.get('/jobs/:id', requireAuthentication, getEmbeddingJob); export default router;
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { upload, uploadFiles, uploadSingleFile, getFiles, getFileContent, deleteFile, getSessionFiles, getFileById, getAllUserFiles, assignFilesToSession, getUserFiles } from '../controllers/file.controller';
+import { upload, bundleUpload, uploadFiles, uploadSingleFile, importGitRepository, gitImportValidation, getFileVersions, getFileDiff, fileDiffValidation, getFiles, getFileContent, deleteFile, getSessionFiles, getSessionGraph, getFileById, getAllUserFiles, assignFilesToSession, getUserFiles } from '../controllers/file.controller';
 import { requireAuthentication } from '../middleware/auth';
 
 const router = Router();
@@ -8,11 +8,15 @@ const router = Router();
 router.post('/upload', requireAuthentication, upload.array('files', 100), uploadFiles);
 router.post('/upload-single', requireAuthentication, upload.single('file'), uploadSingleFile);
 router.post('/upload-multiple', requireAuthentication, upload.array('files', 10), uploadFiles);
+router.post('/import/git', requireAuthentication, bundleUpload.single('bundle'), gitImportValidation, importGitRepository);
 router.get('/', requireAuthentication, getFiles);
 router.get('/user', requireAuthentication, getUserFiles);
 router.get('/debug/all', requireAuthentication, getAllUserFiles); router.post('/assign-to-session', requireAuthentication, assignFilesToSession);
 router.get('/session/:sessionId', requireAuthentication, getSessionFiles);
+router.get('/session/:sessionId/graph', requireAuthentication, getSessionGraph);
 router.get('/file/:id', requireAuthentication, getFileById);
+router.get('/:id/versions', requireAuthentication, getFileVersions);
+router.get('/:id/diff', requireAuthentication, fileDiffValidation, getFileDiff);
 router.get('/:id', requireAuthentication, getFileContent);
 router.delete('/:id', requireAuthentication, deleteFile);
 
@@ -3,6 +3,7 @@ import chatRoutes from './chat.routes';
 import fileRoutes from './file.routes';
 import embeddingRoutes from './embedding.routes';
 import authRoutes from './auth.routes';
+import symbolRoutes from './symbol.routes';
 
 const router = Router();
 
@@ -16,5 +17,6 @@ router.use('/auth', authRoutes);
 router.use('/chat', chatRoutes);
 router.use('/files', fileRoutes);
 router.use('/embeddings', embeddingRoutes);
+router.use('/symbols', symbolRoutes);
 
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+    searchSymbols,
+    findDefinitions,
+    findReferences,
+    findCallers,
+    findCallees,
+    symbolSearchValidation,
+    symbolLookupValidation
+} from '../controllers/symbol.controller';
+import { requireAuthentication } from '../middleware/auth';
+
+const router = Router();
+
+// Symbol lookups are scoped to the user's own files
+router.get('/', requireAuthentication, symbolSearchValidation, searchSymbols);
+router.get('/definition', requireAuthentication, symbolLookupValidation, findDefinitions);
+router.get('/references', requireAuthentication, symbolLookupValidation, findReferences);
+router.get('/callers', requireAuthentication, symbolLookupValidation, findCallers);
+router.get('/callees', requireAuthentication, symbolLookupValidation, findCallees);
+
+export default router;
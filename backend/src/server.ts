@@ -9,6 +9,7 @@ import { connectDB } from './config/database';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import routes from './routes';
+import { embeddingQueueService } from './services/embeddingQueue.service';
 
 const app: Application = express();
 const PORT = process.env.PORT || 3001;
@@ -76,6 +77,9 @@ const startServer = async () => {
         try {
             await connectDB();
             logger.info('Database connected successfully');
+
+            // Jobs live in MongoDB, so the worker only runs with a database
+            embeddingQueueService.start();
         } catch (dbError) {
             logger.warn('MongoDB connection failed, running without database:', dbError);
             logger.warn('Some features requiring database will not work');
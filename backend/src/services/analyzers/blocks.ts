@@ -0,0 +1,459 @@
+import { ChunkType, ICodeChunk } from '../../models/Chunk';
+
+export interface DeclarationPattern {
+    // Tested against the trimmed line
+    regex: RegExp;
+    type: ChunkType;
+    name: (match: RegExpMatchArray) => string | undefined;
+    // Declarations inside are chunked too (classes, impls, namespaces)
+    container?: boolean;
+}
+
+export interface BlockSyntax {
+    blocks: 'braces' | 'indentation';
+    // Comment lines directly above a declaration document it
+    commentPattern: RegExp;
+    // Lines directly above a declaration that belong to it, such as decorators
+    attributePattern?: RegExp;
+    // Python-style docstring as the first statement of the body
+    docstrings?: boolean;
+    // Trimmed lines that can look like declarations but never are
+    ignorePattern?: RegExp;
+    // Delimiters of strings that span lines, such as Python's `"""`; lines inside them are never code
+    multilineStrings?: string[];
+}
+
+interface PendingBlock {
+    chunk: ICodeChunk;
+    // Zero-based line indexes
+    start: number;
+    end: number;
+    // Function bodies of descendants, replaced by `...` in this chunk's outline
+    elided: Array<[number, number]>;
+    parent?: PendingBlock;
+    // Line the declaration itself is on, below its comments and attributes
+    declarationLine?: number;
+}
+
+// A declaration's chunk and the one-based line the declaration starts on
+export interface Declaration {
+    chunk: ICodeChunk;
+    line: number;
+}
+
+interface BlockExtent {
+    end: number;
+    // First and last line of the body, when there is one
+    body?: [number, number];
+}
+
+// How far past a declaration line to look for its opening brace
+const MAX_HEADER_LINES = 10;
+// Strings, character literals and comments, which may contain stray brackets
+const NOISE_PATTERN = /"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])'|\/\/.*$|\/\*.*?\*\//g;
+const CONTINUATION_PATTERN = /^(\{|where\b|throws\b|extends\b|implements\b|:|->|=>)/;
+
+/**
+ * Chunker for languages whose declarations can be found line by line and
+ * whose blocks are delimited by braces or indentation. Declarations become
+ * chunks with their leading comments and attributes; containers (classes,
+ * impls, namespaces) are searched for member declarations, which become
+ * child chunks. Function bodies are not searched. A container's content is
+ * its outline, with its members' bodies replaced by `...`. Lines between
+ * top-level declarations are grouped into `block` chunks.
+ */
+export class BlockChunker {
+    private lines: string[] = [];
+    // Whether each line starts inside a multi-line string
+    private inString: boolean[] = [];
+    private pending: PendingBlock[] = [];
+    private nextId = 1;
+
+    constructor(private patterns: DeclarationPattern[], private syntax: BlockSyntax) {}
+
+    // The chunks of `chunk()` that are declarations, in source order
+    declarations(content: string): Declaration[] {
+        this.chunk(content);
+        return this.pending
+            .filter(block => block.declarationLine !== undefined)
+            .map(block => ({ chunk: block.chunk, line: (block.declarationLine as number) + 1 }));
+    }
+
+    chunk(content: string): ICodeChunk[] {
+        this.lines = content.split('\n');
+        this.inString = linesInStrings(this.lines, this.syntax.multilineStrings || []);
+        this.pending = [];
+        this.nextId = 1;
+
+        this.scan(0, this.lines.length - 1);
+
+        return this.pending.map(block => {
+            const output: string[] = [];
+            let cursor = block.start;
+
+            for (const [from, to] of block.elided.sort((a, b) => a[0] - b[0])) {
+                output.push(...this.lines.slice(cursor, from));
+                output.push(`${this.indentOf(this.lines[from])}...`);
+                cursor = to + 1;
+            }
+            output.push(...this.lines.slice(cursor, block.end + 1));
+
+            block.chunk.content = output.join('\n');
+            return block.chunk;
+        });
+    }
+
+    // Look for declarations in lines `from` to `to` (inclusive)
+    private scan(from: number, to: number, parent?: PendingBlock): void {
+        let looseStart = -1;
+        let i = from;
+
+        while (i <= to) {
+            const declaration = this.inString[i] ? null : this.matchDeclaration(this.lines[i]);
+
+            if (!declaration) {
+                if (looseStart === -1 && this.lines[i].trim() !== '') {
+                    looseStart = i;
+                }
+                i++;
+                continue;
+            }
+
+            const leading = this.leadingLines(i, looseStart === -1 ? from : looseStart);
+            if (!parent && looseStart !== -1) {
+                this.addLoose(looseStart, leading.start - 1);
+            }
+            looseStart = -1;
+
+            const extent = this.findExtent(i, to);
+            const block = this.add(leading.start, extent.end, declaration.pattern.type, declaration.name, parent);
+            block.declarationLine = i;
+            const docstring = this.syntax.docstrings && extent.body ? this.readDocstring(extent.body[0]) : undefined;
+            const docComment = [leading.comment, docstring].filter(Boolean).join('\n');
+            if (docComment) {
+                block.chunk.docComment = docComment;
+            }
+
+            if (extent.body) {
+                if (declaration.pattern.container) {
+                    this.scan(extent.body[0], extent.body[1], block);
+                } else {
+                    this.elide(block, extent.body);
+                }
+            }
+
+            i = extent.end + 1;
+        }
+
+        if (!parent && looseStart !== -1) {
+            this.addLoose(looseStart, to);
+        }
+    }
+
+    private matchDeclaration(line: string): { pattern: DeclarationPattern; name: string } | null {
+        const trimmed = line.trim();
+        if (!trimmed || (this.syntax.ignorePattern && this.syntax.ignorePattern.test(trimmed))) {
+            return null;
+        }
+
+        for (const pattern of this.patterns) {
+            const match = trimmed.match(pattern.regex);
+            const name = match && pattern.name(match);
+            if (name) {
+                return { pattern, name };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Comments and attributes directly above a declaration, up to a blank
+     * line or `floor`.
+     */
+    private leadingLines(header: number, floor: number): { start: number; comment?: string } {
+        let start = header;
+        const comments: string[] = [];
+
+        for (let i = header - 1; i >= floor; i--) {
+            const trimmed = this.lines[i].trim();
+            if (this.syntax.commentPattern.test(trimmed)) {
+                comments.unshift(trimmed);
+            } else if (!this.syntax.attributePattern || !this.syntax.attributePattern.test(trimmed)) {
+                break;
+            }
+            start = i;
+        }
+
+        return { start, comment: comments.length > 0 ? comments.join('\n') : undefined };
+    }
+
+    private findExtent(header: number, limit: number): BlockExtent {
+        return this.syntax.blocks === 'braces'
+            ? this.findBraceExtent(header, limit)
+            : this.findIndentedExtent(header, limit);
+    }
+
+    private findBraceExtent(header: number, limit: number): BlockExtent {
+        let depth = 0;
+        let parens = 0;
+        let openLine = -1;
+
+        for (let i = header; i <= limit; i++) {
+            const code = this.lines[i].replace(NOISE_PATTERN, '');
+
+            for (const char of code) {
+                if (char === '(') parens++;
+                else if (char === ')') parens--;
+                else if (char === '{') {
+                    if (openLine === -1) openLine = i;
+                    depth++;
+                } else if (char === '}') {
+                    depth--;
+                    if (openLine !== -1 && depth === 0) {
+                        return { end: i, body: i - openLine > 1 ? [openLine + 1, i - 1] : undefined };
+                    }
+                } else if (char === ';' && openLine === -1 && parens <= 0) {
+                    // A declaration without a body
+                    return { end: i };
+                }
+            }
+
+            if (openLine === -1 && !this.headerContinues(i, parens, header, limit)) {
+                return { end: i };
+            }
+        }
+
+        return { end: limit, body: openLine !== -1 && limit > openLine ? [openLine + 1, limit] : undefined };
+    }
+
+    // Whether a declaration whose body hasn't opened yet carries on past line `i`
+    private headerContinues(i: number, parens: number, header: number, limit: number): boolean {
+        if (i - header >= MAX_HEADER_LINES || i >= limit) {
+            return false;
+        }
+        if (parens > 0 || /[,(=>]$/.test(this.lines[i].trim())) {
+            return true;
+        }
+
+        const next = this.lines.slice(i + 1, limit + 1).find(line => line.trim() !== '');
+        return next !== undefined && CONTINUATION_PATTERN.test(next.trim());
+    }
+
+    private findIndentedExtent(header: number, limit: number): BlockExtent {
+        const headerIndent = this.indentOf(this.lines[header]).length;
+
+        // Signatures may wrap; the body starts after the line ending in `:`
+        let headerEnd = header;
+        let parens = 0;
+        for (let i = header; i <= limit && i - header < MAX_HEADER_LINES; i++) {
+            const code = this.lines[i].replace(/#.*$/, '').replace(NOISE_PATTERN, '');
+            for (const char of code) {
+                if (char === '(' || char === '[') parens++;
+                else if (char === ')' || char === ']') parens--;
+            }
+            headerEnd = i;
+            if (parens <= 0 && code.trim().endsWith(':')) break;
+        }
+
+        let end = headerEnd;
+        for (let i = headerEnd + 1; i <= limit; i++) {
+            const line = this.lines[i];
+            if (line.trim() === '') continue;
+            // String contents may be indented any way without ending the block
+            if (!this.inString[i] && this.indentOf(line).length <= headerIndent) break;
+            end = i;
+        }
+
+        return { end, body: end > headerEnd ? [headerEnd + 1, end] : undefined };
+    }
+
+    private readDocstring(bodyStart: number): string | undefined {
+        let start = bodyStart;
+        while (start < this.lines.length && this.lines[start].trim() === '') {
+            start++;
+        }
+        if (start === this.lines.length) {
+            return undefined;
+        }
+
+        const opening = this.lines[start].trim().match(/^[rRuU]?("""|''')/);
+        if (!opening) {
+            return undefined;
+        }
+
+        const quote = opening[1];
+        for (let i = start; i < this.lines.length; i++) {
+            const rest = i === start ? this.lines[i].trim().substring(opening[0].length) : this.lines[i];
+            if (rest.includes(quote)) {
+                return this.lines.slice(start, i + 1).map(line => line.trim()).join('\n');
+            }
+        }
+        return undefined;
+    }
+
+    // Every ancestor shows the member's signature but not its body
+    private elide(block: PendingBlock, body: [number, number]): void {
+        for (let ancestor = block.parent; ancestor; ancestor = ancestor.parent) {
+            ancestor.elided.push(body);
+        }
+    }
+
+    private addLoose(start: number, end: number): void {
+        while (end >= start && this.lines[end].trim() === '') {
+            end--;
+        }
+        if (end >= start) {
+            this.add(start, end, 'block');
+        }
+    }
+
+    private add(start: number, end: number, type: ChunkType, name?: string, parent?: PendingBlock): PendingBlock {
+        const symbolName = name && parent?.chunk.symbolName ? `${parent.chunk.symbolName}.${name}` : name;
+        const block: PendingBlock = {
+            chunk: {
+                id: `chunk_${this.nextId++}`,
+                content: '',
+                startLine: start + 1,
+                endLine: end + 1,
+                type,
+                ...(symbolName && { symbolName }),
+                ...(parent && { parentId: parent.chunk.id })
+            },
+            start,
+            end,
+            elided: [],
+            parent
+        };
+
+        this.pending.push(block);
+        return block;
+    }
+
+    private indentOf(line: string): string {
+        return line.substring(0, line.length - line.trimStart().length);
+    }
+}
+
+/**
+ * For each line, whether it starts inside a string opened on an earlier line
+ * by one of `delimiters` (e.g. Python's triple quotes). Single-line strings
+ * and `#` comments are skipped so delimiters inside them don't count.
+ */
+export function linesInStrings(lines: string[], delimiters: string[]): boolean[] {
+    const inString: boolean[] = [];
+    let open: string | null = null;
+
+    for (const line of lines) {
+        inString.push(open !== null);
+        if (delimiters.length === 0) continue;
+
+        let i = 0;
+        while (i < line.length) {
+            if (open !== null) {
+                if (line[i] === '\\') {
+                    i += 2;
+                } else if (line.startsWith(open, i)) {
+                    i += open.length;
+                    open = null;
+                } else {
+                    i++;
+                }
+                continue;
+            }
+
+            const delimiter = delimiters.find(candidate => line.startsWith(candidate, i));
+            if (delimiter) {
+                open = delimiter;
+                i += delimiter.length;
+            } else if (line[i] === '#') {
+                break;
+            } else if (line[i] === '"' || line[i] === "'") {
+                const quote = line[i++];
+                while (i < line.length && line[i] !== quote) {
+                    i += line[i] === '\\' ? 2 : 1;
+                }
+                i++;
+            } else {
+                i++;
+            }
+        }
+    }
+
+    return inString;
+}
+
+/**
+ * Collect the first capture group of a pattern over every line, deduplicated.
+ */
+export function matchLines(content: string, pattern: RegExp): string[] {
+    const found: string[] = [];
+    for (const line of content.split('\n')) {
+        const match = line.match(pattern);
+        if (match && match[1]) {
+            found.push(match[1]);
+        }
+    }
+    return [...new Set(found)];
+}
+
+export interface Section {
+    name: string;
+    // Zero-based, inclusive
+    start: number;
+    end: number;
+}
+
+/**
+ * Chunks for a data file split into named top-level sections (keys, tables).
+ * Runs of one-line sections are merged into one block so a config file
+ * doesn't become dozens of one-line chunks; lines outside any section, such
+ * as leading comments, are blocks too.
+ */
+export function chunkSections(content: string, sections: Section[]): ICodeChunk[] {
+    const lines = content.split('\n');
+    const chunks: ICodeChunk[] = [];
+    let blockStart = -1;
+    let cursor = 0;
+
+    const push = (start: number, end: number, symbolName?: string): void => {
+        while (end > start && lines[end].trim() === '') end--;
+        while (start < end && lines[start].trim() === '') start++;
+        if (lines[start].trim() === '') return;
+
+        chunks.push({
+            id: `chunk_${chunks.length + 1}`,
+            content: lines.slice(start, end + 1).join('\n'),
+            startLine: start + 1,
+            endLine: end + 1,
+            type: 'block',
+            ...(symbolName && { symbolName })
+        });
+    };
+    const flush = (end: number): void => {
+        if (blockStart !== -1) push(blockStart, end);
+        blockStart = -1;
+    };
+
+    for (const section of sections) {
+        if (section.start > cursor && blockStart === -1) {
+            blockStart = cursor;
+        }
+        let last = section.end;
+        while (last > section.start && lines[last].trim() === '') last--;
+
+        if (last === section.start) {
+            if (blockStart === -1) blockStart = section.start;
+        } else {
+            flush(section.start - 1);
+            push(section.start, section.end, section.name);
+        }
+        cursor = section.end + 1;
+    }
+
+    if (cursor < lines.length && blockStart === -1) {
+        blockStart = cursor;
+    }
+    flush(lines.length - 1);
+
+    return chunks;
+}
@@ -0,0 +1,56 @@
+import { ICodeChunk } from '../../models/Chunk';
+import { FileSymbols } from '../../models/CodeSymbol';
+import { LanguageAnalyzer } from './index';
+import { BlockChunker, matchLines } from './blocks';
+import { symbolsFromDeclarations, C_LIKE_SYNTAX } from './symbols';
+
+const MODIFIERS = String.raw`(?:(?:public|private|protected|internal|static|virtual|override|abstract|sealed|async|extern|unsafe|new|partial|readonly|ref|file|required)\s+)*`;
+// Return types, including generics, tuples, arrays and nullables
+const TYPE = String.raw`(?:[\w.]+(?:\s*<[^()]*?>)?|\([^()]*\))\??(?:\s*\[[\s,]*\])*\??`;
+
+const chunker = new BlockChunker(
+    [
+        { regex: /^namespace\s+([\w.]+)\s*(?:\{|$)/, type: 'block', name: match => match[1], container: true },
+        { regex: new RegExp(`^${MODIFIERS}(?:class|struct|record(?:\\s+(?:class|struct))?)\\s+(\\w+)`), type: 'class', name: match => match[1], container: true },
+        { regex: new RegExp(`^${MODIFIERS}(?:interface|enum)\\s+(\\w+)`), type: 'interface', name: match => match[1], container: true },
+        { regex: new RegExp(`^${MODIFIERS}${TYPE}\\s+(\\w+)\\s*(?:<[^()]*?>)?\\s*\\(`), type: 'function', name: match => match[1] },
+        // Constructors
+        { regex: /^(?:(?:public|private|protected|internal|static)\s+)+(\w+)\s*\(/, type: 'function', name: match => match[1] }
+    ],
+    {
+        blocks: 'braces',
+        commentPattern: /^(\/\/|\/\*|\*)/,
+        attributePattern: /^\[/,
+        ignorePattern: /^(return|new|throw|else|if|for|foreach|while|switch|case|catch|try|do|using|lock|await|var)\b/
+    }
+);
+
+/**
+ * C#: namespaces, types and their methods and constructors, nested by
+ * declaration, keeping XML doc comments and attributes. File-scoped
+ * namespaces stay a one-line block. Imports are the namespaces named by
+ * `using` directives, aliases and `global using` included. Exports are the
+ * public types declared in the file.
+ */
+export class CSharpAnalyzer implements LanguageAnalyzer {
+    readonly language = 'csharp';
+    readonly extensions = ['.cs'];
+
+    chunk(content: string): ICodeChunk[] {
+        return chunker.chunk(content);
+    }
+
+    extractImports(content: string): string[] {
+        return matchLines(content, /^\s*(?:global\s+)?using\s+(?:static\s+)?(?:\w+\s*=\s*)?([\w.]+)\s*;/);
+    }
+
+    extractExports(content: string): string[] {
+        return matchLines(content, new RegExp(`^\\s*public\\s+${MODIFIERS}(?:class|struct|record|interface|enum)\\s+(?:(?:class|struct)\\s+)?(\\w+)`));
+    }
+
+    extractSymbols(content: string): FileSymbols {
+        return symbolsFromDeclarations(chunker.declarations(content), content, this.extractExports(content), C_LIKE_SYNTAX);
+    }
+}
+
+export const cSharpAnalyzer = new CSharpAnalyzer();
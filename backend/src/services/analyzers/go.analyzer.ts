@@ -0,0 +1,110 @@
+import { ICodeChunk } from '../../models/Chunk';
+import { FileSymbols } from '../../models/CodeSymbol';
+import { LanguageAnalyzer } from './index';
+import { BlockChunker } from './blocks';
+import { symbolsFromDeclarations, C_LIKE_SYNTAX } from './symbols';
+
+// `func (s *Server) Start(` names the method after its receiver type
+const receiverType = (receiver: string | undefined): string | undefined =>
+    receiver?.match(/(\w+)(?:\[[^\]]*\])?\s*$/)?.[1];
+
+const chunker = new BlockChunker(
+    [
+        {
+            regex: /^func\s+(?:\(([^)]*)\)\s*)?(\w+)/,
+            type: 'function',
+            name: match => match[1] ? `${receiverType(match[1])}.${match[2]}` : match[2]
+        },
+        { regex: /^type\s+(\w+)(?:\[[^\]]*\])?\s+struct\b/, type: 'class', name: match => match[1] },
+        { regex: /^type\s+(\w+)(?:\[[^\]]*\])?\s+interface\b/, type: 'interface', name: match => match[1] },
+        { regex: /^type\s+(\w+)/, type: 'interface', name: match => match[1] }
+    ],
+    {
+        blocks: 'braces',
+        commentPattern: /^(\/\/|\/\*|\*)/
+    }
+);
+
+const EXPORTED_DECLARATION = /^(?:func\s+(?:\(([^)]*)\)\s*)?|type\s+|var\s+|const\s+)([A-Z]\w*)/;
+
+/**
+ * Go: functions, methods (named `Type.Method`) and type declarations, with
+ * their doc comments. Imports are package paths from single and grouped
+ * import declarations. Exports are top-level identifiers starting with an
+ * upper-case letter, including those in grouped `var` and `const` blocks.
+ */
+export class GoAnalyzer implements LanguageAnalyzer {
+    readonly language = 'go';
+    readonly extensions = ['.go'];
+
+    chunk(content: string): ICodeChunk[] {
+        return chunker.chunk(content);
+    }
+
+    extractImports(content: string): string[] {
+        const imports: string[] = [];
+        let inGroup = false;
+
+        for (const line of content.split('\n')) {
+            const trimmed = line.trim();
+
+            if (inGroup) {
+                if (trimmed.startsWith(')')) {
+                    inGroup = false;
+                    continue;
+                }
+                const spec = trimmed.match(/^(?:[\w.]+\s+)?"([^"]+)"/);
+                if (spec) imports.push(spec[1]);
+            } else if (/^import\s*\($/.test(trimmed)) {
+                inGroup = true;
+            } else {
+                const single = trimmed.match(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/);
+                if (single) imports.push(single[1]);
+            }
+        }
+
+        return [...new Set(imports)];
+    }
+
+    extractExports(content: string): string[] {
+        const exports: string[] = [];
+        let inGroup = false;
+
+        for (const line of content.split('\n')) {
+            if (inGroup) {
+                if (line.startsWith(')')) {
+                    inGroup = false;
+                    continue;
+                }
+                // Only names at the group's own level, not inside values
+                const name = line.match(/^(?:\t| {2,4})([A-Z]\w*)\b/);
+                if (name) exports.push(name[1]);
+                continue;
+            }
+
+            if (/^(var|const|type)\s*\($/.test(line)) {
+                inGroup = true;
+                continue;
+            }
+
+            const declaration = line.match(EXPORTED_DECLARATION);
+            if (declaration) {
+                const receiver = receiverType(declaration[1]);
+                // Methods are only reachable through an exported type
+                if (!receiver) {
+                    exports.push(declaration[2]);
+                } else if (/^[A-Z]/.test(receiver)) {
+                    exports.push(`${receiver}.${declaration[2]}`);
+                }
+            }
+        }
+
+        return [...new Set(exports)];
+    }
+
+    extractSymbols(content: string): FileSymbols {
+        return symbolsFromDeclarations(chunker.declarations(content), content, this.extractExports(content), C_LIKE_SYNTAX);
+    }
+}
+
+export const goAnalyzer = new GoAnalyzer();
@@ -0,0 +1,80 @@
+import path from 'path';
+import { ICallSite, ICodeChunk } from '../../models/Chunk';
+import { FileSymbols } from '../../models/CodeSymbol';
+import { typeScriptAnalyzer, javaScriptAnalyzer } from './typescript.analyzer';
+import { pythonAnalyzer } from './python.analyzer';
+import { goAnalyzer } from './go.analyzer';
+import { rustAnalyzer } from './rust.analyzer';
+import { javaAnalyzer } from './java.analyzer';
+import { cSharpAnalyzer } from './csharp.analyzer';
+import { markdownAnalyzer } from './markdown.analyzer';
+import { yamlAnalyzer } from './yaml.analyzer';
+import { jsonAnalyzer } from './json.analyzer';
+import { sqlAnalyzer } from './sql.analyzer';
+import { cAnalyzer, cppAnalyzer, LinePatternAnalyzer } from './linePattern.analyzer';
+
+/**
+ * Everything the ingest pipeline knows about one language. Adding a language
+ * means writing a module that implements this and listing it in `ANALYZERS`.
+ */
+export interface LanguageAnalyzer {
+    // Stored on the file, e.g. `python`
+    readonly language: string;
+    // Lower-case, with the dot
+    readonly extensions: string[];
+    // `fileName` helps analyzers whose syntax differs by extension, such as TSX
+    chunk(content: string, fileName?: string): ICodeChunk[];
+    // Module specifiers as written in the source, deduplicated
+    extractImports(content: string, fileName?: string): string[];
+    extractExports(content: string, fileName?: string): string[];
+    // Definitions and the identifiers that may refer to them; data and markup languages have none
+    extractSymbols?(content: string, fileName?: string): FileSymbols;
+    // Function calls in source order, for languages with a call graph
+    extractCalls?(content: string, fileName?: string): ICallSite[];
+}
+
+// Recognized and chunked by the generic line patterns only
+const PLAIN_LANGUAGES: Record<string, string[]> = {
+    php: ['.php'],
+    ruby: ['.rb'],
+    swift: ['.swift'],
+    kotlin: ['.kt'],
+    scala: ['.scala'],
+    html: ['.html'],
+    css: ['.css'],
+    scss: ['.scss'],
+    less: ['.less'],
+    xml: ['.xml'],
+    text: ['.txt'],
+    bash: ['.sh']
+};
+
+const ANALYZERS: LanguageAnalyzer[] = [
+    typeScriptAnalyzer,
+    javaScriptAnalyzer,
+    pythonAnalyzer,
+    goAnalyzer,
+    rustAnalyzer,
+    javaAnalyzer,
+    cSharpAnalyzer,
+    cAnalyzer,
+    cppAnalyzer,
+    markdownAnalyzer,
+    yamlAnalyzer,
+    jsonAnalyzer,
+    sqlAnalyzer,
+    ...Object.entries(PLAIN_LANGUAGES).map(([language, extensions]) => new LinePatternAnalyzer(language, extensions))
+];
+
+const BY_LANGUAGE = new Map(ANALYZERS.map(analyzer => [analyzer.language, analyzer]));
+const BY_EXTENSION = new Map(ANALYZERS.flatMap(analyzer => analyzer.extensions.map(extension => [extension, analyzer] as const)));
+
+const fallbackAnalyzer = new LinePatternAnalyzer('text', []);
+
+export const getAnalyzer = (language: string): LanguageAnalyzer => {
+    return BY_LANGUAGE.get(language) || fallbackAnalyzer;
+};
+
+export const detectLanguage = (fileName: string): string => {
+    return BY_EXTENSION.get(path.extname(fileName).toLowerCase())?.language || 'text';
+};
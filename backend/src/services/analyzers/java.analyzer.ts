@@ -0,0 +1,53 @@
+import { ICodeChunk } from '../../models/Chunk';
+import { FileSymbols } from '../../models/CodeSymbol';
+import { LanguageAnalyzer } from './index';
+import { BlockChunker, matchLines } from './blocks';
+import { symbolsFromDeclarations, C_LIKE_SYNTAX } from './symbols';
+
+const MODIFIERS = String.raw`(?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp|synchronized|native|default|transient)\s+)*`;
+// Return types, including generics, arrays and qualified names
+const TYPE = String.raw`[\w$.]+(?:\s*<[^()]*?>)?(?:\s*\[\s*\])*`;
+
+const chunker = new BlockChunker(
+    [
+        { regex: new RegExp(`^${MODIFIERS}(?:class|record)\\s+(\\w+)`), type: 'class', name: match => match[1], container: true },
+        { regex: new RegExp(`^${MODIFIERS}(?:interface|@interface|enum)\\s+(\\w+)`), type: 'interface', name: match => match[1], container: true },
+        { regex: new RegExp(`^${MODIFIERS}(?:<[^()]*?>\\s+)?${TYPE}\\s+(\\w+)\\s*\\(`), type: 'function', name: match => match[1] },
+        // Constructors
+        { regex: /^(?:public|private|protected)\s+(\w+)\s*\(/, type: 'function', name: match => match[1] }
+    ],
+    {
+        blocks: 'braces',
+        commentPattern: /^(\/\/|\/\*|\*)/,
+        attributePattern: /^@(?!interface\b)\w/,
+        ignorePattern: /^(return|new|throw|else|if|for|while|switch|case|catch|try|do|synchronized\s*\()\b/
+    }
+);
+
+/**
+ * Java: types with their methods, constructors and nested types as children,
+ * keeping Javadoc and annotations. Imports are the imported names, static
+ * imports included. Exports are the public types declared in the file.
+ */
+export class JavaAnalyzer implements LanguageAnalyzer {
+    readonly language = 'java';
+    readonly extensions = ['.java'];
+
+    chunk(content: string): ICodeChunk[] {
+        return chunker.chunk(content);
+    }
+
+    extractImports(content: string): string[] {
+        return matchLines(content, /^\s*import\s+(?:static\s+)?([\w.*]+)\s*;/);
+    }
+
+    extractExports(content: string): string[] {
+        return matchLines(content, new RegExp(`^\\s*(?:@\\w+\\s+)*public\\s+${MODIFIERS}(?:class|record|interface|@interface|enum)\\s+(\\w+)`));
+    }
+
+    extractSymbols(content: string): FileSymbols {
+        return symbolsFromDeclarations(chunker.declarations(content), content, this.extractExports(content), C_LIKE_SYNTAX);
+    }
+}
+
+export const javaAnalyzer = new JavaAnalyzer();
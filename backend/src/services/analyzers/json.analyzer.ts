@@ -0,0 +1,90 @@
+import { ICodeChunk } from '../../models/Chunk';
+import { LanguageAnalyzer } from './index';
+import { chunkSections, Section } from './blocks';
+
+/**
+ * JSON: one chunk per key of the root object, found with a scanner that
+ * tracks strings and nesting rather than a parser, so it works on files that
+ * are slightly off (comments, trailing commas) and keeps line numbers. Keys
+ * holding a single line are merged into one block. Anything other than an
+ * object at the root is left to the size-bounded splitter.
+ */
+export class JsonAnalyzer implements LanguageAnalyzer {
+    readonly language = 'json';
+    readonly extensions = ['.json', '.jsonc', '.json5'];
+
+    chunk(content: string): ICodeChunk[] {
+        const keys = this.findRootKeys(content);
+        if (keys.length === 0) {
+            return [];
+        }
+
+        const lastLine = content.split('\n').length - 1;
+        const sections: Section[] = keys.map((key, index) => ({
+            name: key.name,
+            // The opening brace goes with the first key, the closing one with the last
+            start: index === 0 ? 0 : key.line,
+            end: index + 1 < keys.length ? Math.max(key.line, keys[index + 1].line - 1) : lastLine
+        }));
+
+        return chunkSections(content, sections);
+    }
+
+    extractImports(): string[] {
+        return [];
+    }
+
+    extractExports(): string[] {
+        return [];
+    }
+
+    private findRootKeys(content: string): Array<{ name: string; line: number }> {
+        const keys: Array<{ name: string; line: number }> = [];
+        let depth = 0;
+        let line = 0;
+        let lastString: { name: string; line: number } | null = null;
+
+        if (!content.trimStart().startsWith('{')) {
+            return keys;
+        }
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+
+            if (char === '\n') {
+                line++;
+            } else if (char === '"') {
+                const start = i;
+                const startLine = line;
+                for (i++; i < content.length && content[i] !== '"'; i++) {
+                    if (content[i] === '\\') i++;
+                    else if (content[i] === '\n') line++;
+                }
+                lastString = { name: content.substring(start + 1, i), line: startLine };
+                continue;
+            } else if (char === '/' && content[i + 1] === '/') {
+                i = content.indexOf('\n', i) - 1;
+                if (i < 0) break;
+            } else if (char === '/' && content[i + 1] === '*') {
+                const end = content.indexOf('*/', i + 2);
+                if (end === -1) break;
+                line += (content.substring(i, end).match(/\n/g) || []).length;
+                i = end + 1;
+            } else if (char === '{' || char === '[') {
+                depth++;
+            } else if (char === '}' || char === ']') {
+                depth--;
+            } else if (char === ':' && depth === 1 && lastString) {
+                keys.push(lastString);
+            }
+
+            if (char.trim() !== '') {
+                lastString = null;
+            }
+        }
+
+        return keys;
+    }
+}
+
+export const jsonAnalyzer = new JsonAnalyzer();
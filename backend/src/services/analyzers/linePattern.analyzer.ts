@@ -0,0 +1,108 @@
+import { ChunkType, ICodeChunk } from '../../models/Chunk';
+import { FileSymbols } from '../../models/CodeSymbol';
+import { LanguageAnalyzer } from './index';
+import { matchLines } from './blocks';
+import { symbolsFromDeclarations, C_LIKE_SYNTAX, HASH_COMMENT_SYNTAX, LexicalSyntax } from './symbols';
+
+export interface LinePattern {
+    // The second capture group is the declared name
+    regex: RegExp;
+    type: ChunkType;
+}
+
+// Comment syntax for reference scanning; other languages use C-style comments
+const SYNTAX_BY_LANGUAGE: Record<string, LexicalSyntax> = {
+    ruby: HASH_COMMENT_SYNTAX,
+    bash: HASH_COMMENT_SYNTAX
+};
+
+// Generic patterns for languages without a dedicated analyzer
+const GENERIC_PATTERNS: LinePattern[] = [
+    { regex: /^(function|def|fn)\s+(\w+)/, type: 'function' },
+    { regex: /^(class|struct|type)\s+(\w+)/, type: 'class' }
+];
+
+const C_PATTERNS: LinePattern[] = [
+    { regex: /^(\w+\s+)*(\w+)\s*\([^)]*\)\s*\{/, type: 'function' },
+    { regex: /^(class|struct)\s+(\w+)/, type: 'class' }
+];
+
+/**
+ * Fallback analyzer: a chunk starts at every line matching one of the
+ * language's patterns and runs until the next one. Imports are only found
+ * when an import pattern is given; exports are never found. Files without
+ * any declaration get no symbols at all, which keeps prose and markup out
+ * of the symbol index.
+ */
+export class LinePatternAnalyzer implements LanguageAnalyzer {
+    constructor(
+        readonly language: string,
+        readonly extensions: string[],
+        private patterns: LinePattern[] = GENERIC_PATTERNS,
+        private importPattern?: RegExp
+    ) {}
+
+    chunk(content: string): ICodeChunk[] {
+        const chunks: ICodeChunk[] = [];
+        const lines = content.split('\n');
+
+        let currentChunk: ICodeChunk | null = null;
+        let chunkId = 1;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].trim();
+            const lineNumber = i + 1;
+            const pattern = this.patterns.find(candidate => candidate.regex.test(line));
+
+            if (pattern) {
+                const symbolName = line.match(pattern.regex)?.[2];
+
+                // Close previous chunk if exists
+                if (currentChunk) {
+                    chunks.push(currentChunk);
+                }
+
+                currentChunk = {
+                    id: `chunk_${chunkId++}`,
+                    content: line,
+                    startLine: lineNumber,
+                    endLine: lineNumber,
+                    type: pattern.type,
+                    ...(symbolName && { symbolName })
+                };
+            } else if (currentChunk) {
+                currentChunk.content += '\n' + line;
+                currentChunk.endLine = lineNumber;
+            }
+        }
+
+        // Close final chunk
+        if (currentChunk) {
+            chunks.push(currentChunk);
+        }
+
+        return chunks;
+    }
+
+    extractImports(content: string): string[] {
+        return this.importPattern ? matchLines(content, this.importPattern) : [];
+    }
+
+    extractExports(): string[] {
+        return [];
+    }
+
+    extractSymbols(content: string): FileSymbols {
+        const declarations = this.chunk(content)
+            .filter(chunk => chunk.symbolName)
+            .map(chunk => ({ chunk, line: chunk.startLine }));
+
+        if (declarations.length === 0) {
+            return { definitions: [], references: [] };
+        }
+        return symbolsFromDeclarations(declarations, content, [], SYNTAX_BY_LANGUAGE[this.language] || C_LIKE_SYNTAX);
+    }
+}
+
+export const cAnalyzer = new LinePatternAnalyzer('c', ['.c', '.h'], C_PATTERNS, /^\s*#\s*include\s*[<"]([^>"]+)[>"]/);
+export const cppAnalyzer = new LinePatternAnalyzer('cpp', ['.cpp', '.hpp', '.cc', '.cxx', '.hh'], C_PATTERNS, /^\s*#\s*include\s*[<"]([^>"]+)[>"]/);
@@ -0,0 +1,121 @@
+import { ICodeChunk } from '../../models/Chunk';
+import { LanguageAnalyzer } from './index';
+
+interface Heading {
+    line: number;
+    level: number;
+    title: string;
+}
+
+/**
+ * Markdown: one chunk per heading, holding the text up to the next heading
+ * of any level, with subsections as children of their section and named by
+ * their path of headings (`Install > Linux`). Text before the first heading,
+ * YAML front matter included, is a block. Headings inside fenced code blocks
+ * are ignored. Imports are the relative files the document links to.
+ */
+export class MarkdownAnalyzer implements LanguageAnalyzer {
+    readonly language = 'markdown';
+    readonly extensions = ['.md', '.markdown', '.mdx'];
+
+    chunk(content: string): ICodeChunk[] {
+        const lines = content.split('\n');
+        const headings = this.findHeadings(lines);
+        const chunks: ICodeChunk[] = [];
+        // Open sections, outermost first
+        const open: Array<{ heading: Heading; chunk: ICodeChunk }> = [];
+
+        const firstHeading = headings.length > 0 ? headings[0].line : lines.length;
+        if (lines.slice(0, firstHeading).some(line => line.trim() !== '')) {
+            chunks.push(this.newChunk(chunks.length + 1, lines, 0, firstHeading - 1));
+        }
+
+        headings.forEach((heading, index) => {
+            const end = index + 1 < headings.length ? headings[index + 1].line - 1 : lines.length - 1;
+
+            while (open.length > 0 && open[open.length - 1].heading.level >= heading.level) {
+                open.pop();
+            }
+            const parent = open[open.length - 1];
+
+            const chunk = this.newChunk(chunks.length + 1, lines, heading.line, end);
+            chunk.symbolName = parent ? `${parent.chunk.symbolName} > ${heading.title}` : heading.title;
+            if (parent) {
+                chunk.parentId = parent.chunk.id;
+            }
+
+            chunks.push(chunk);
+            open.push({ heading, chunk });
+        });
+
+        return chunks;
+    }
+
+    extractImports(content: string): string[] {
+        const links = [...content.matchAll(/\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)].map(match => match[1]);
+        return [...new Set(links
+            .map(link => link.split('#')[0])
+            .filter(link => link && !/^[a-z][a-z0-9+.-]*:/i.test(link) && !link.startsWith('/')))];
+    }
+
+    extractExports(): string[] {
+        return [];
+    }
+
+    private findHeadings(lines: string[]): Heading[] {
+        const headings: Heading[] = [];
+        let fence: string | null = null;
+        let i = 0;
+
+        // Front matter belongs to the preamble
+        if (lines[0]?.trim() === '---') {
+            const close = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+            i = close === -1 ? 0 : close + 1;
+        }
+
+        for (; i < lines.length; i++) {
+            const trimmed = lines[i].trim();
+
+            const fenceMatch = trimmed.match(/^(`{3,}|~{3,})/);
+            if (fenceMatch) {
+                if (!fence) {
+                    fence = fenceMatch[1];
+                } else if (trimmed.startsWith(fence)) {
+                    fence = null;
+                }
+                continue;
+            }
+            if (fence) continue;
+
+            const atx = lines[i].match(/^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+            if (atx) {
+                headings.push({ line: i, level: atx[1].length, title: atx[2] });
+                continue;
+            }
+
+            // `Title` underlined with `===` or `---`
+            const underline = lines[i + 1]?.match(/^ {0,3}(=+|-+)\s*$/);
+            if (underline && trimmed && !/^([-*+>]|\d+[.)])\s/.test(trimmed)) {
+                headings.push({ line: i, level: underline[1].startsWith('=') ? 1 : 2, title: trimmed });
+                i++;
+            }
+        }
+
+        return headings;
+    }
+
+    private newChunk(id: number, lines: string[], start: number, end: number): ICodeChunk {
+        while (end > start && lines[end].trim() === '') {
+            end--;
+        }
+        return {
+            id: `chunk_${id}`,
+            content: lines.slice(start, end + 1).join('\n'),
+            startLine: start + 1,
+            endLine: end + 1,
+            type: 'block'
+        };
+    }
+}
+
+export const markdownAnalyzer = new MarkdownAnalyzer();
@@ -0,0 +1,353 @@
+import path from 'path';
+import ts from 'typescript';
+
+export type ModuleResolution =
+    // Files of the project the specifier points at; Go packages and Java wildcards name several
+    | { type: 'internal'; paths: string[] }
+    // A package from outside the project, e.g. `react-dom` for `react-dom/client`
+    | { type: 'external'; module: string }
+    // Looks like a project file, but none was uploaded
+    | { type: 'unresolved' };
+
+// A project file that configures resolution, such as `tsconfig.json` or `go.mod`
+export interface ProjectConfigFile {
+    path: string;
+    content: string;
+}
+
+interface TsPathMapping {
+    // The config applies to files under this directory
+    directory: string;
+    baseUrl?: string;
+    paths?: {
+        // Targets are relative to this directory
+        base: string;
+        // Longest prefix first, as the compiler tries them
+        patterns: Array<[string, string[]]>;
+    };
+}
+
+interface TsConfigJson {
+    extends?: string | string[];
+    compilerOptions?: {
+        baseUrl?: string;
+        paths?: Record<string, string[]>;
+    };
+}
+
+// Languages whose imports can point at other project files
+export const RESOLVABLE_LANGUAGES = ['typescript', 'javascript', 'python', 'c', 'cpp', 'java', 'go', 'rust'];
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+// ESM-style TypeScript imports name the compiled file: `./util.js` is `./util.ts`
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts']
+};
+
+const TS_CONFIG_NAME = /^(ts|js)config(\..+)?\.json$/;
+
+// Repository paths use forward slashes and no leading `./`; the root is ''
+const dirOf = (filePath: string): string => {
+    const directory = path.posix.dirname(filePath);
+    return directory === '.' ? '' : directory;
+};
+
+const join = (...parts: string[]): string => {
+    const joined = path.posix.normalize(path.posix.join('.', ...parts));
+    return joined === '.' ? '' : joined.replace(/\/$/, '');
+};
+
+const internal = (paths: string[]): ModuleResolution => ({ type: 'internal', paths });
+const external = (module: string): ModuleResolution => ({ type: 'external', module });
+const UNRESOLVED: ModuleResolution = { type: 'unresolved' };
+
+/**
+ * Resolves import specifiers, as stored on files by the analyzers, to other
+ * files of the same project. Knows relative imports, tsconfig/jsconfig path
+ * aliases and `baseUrl`, index files, Python packages under any source root,
+ * C includes, Java classes, Go packages of a `go.mod` module and Rust module
+ * paths.
+ */
+export class ModuleResolver {
+    private files: Set<string>;
+    private byDirectory = new Map<string, string[]>();
+    // Every path keyed by each of its trailing segment runs (`b/c.py` and `c.py` for `a/b/c.py`)
+    private bySuffix = new Map<string, string[]>();
+    private tsConfigs: TsPathMapping[];
+    private goModules: Array<{ directory: string; module: string }>;
+    private resolvers: Record<string, (specifier: string, fromPath: string) => ModuleResolution>;
+
+    constructor(filePaths: string[], configFiles: ProjectConfigFile[] = []) {
+        this.files = new Set(filePaths);
+
+        const add = (map: Map<string, string[]>, key: string, filePath: string) => {
+            const list = map.get(key);
+            if (list) {
+                list.push(filePath);
+            } else {
+                map.set(key, [filePath]);
+            }
+        };
+
+        for (const filePath of filePaths) {
+            add(this.byDirectory, dirOf(filePath), filePath);
+
+            const segments = filePath.split('/');
+            for (let i = 0; i < segments.length; i++) {
+                add(this.bySuffix, segments.slice(i).join('/'), filePath);
+            }
+        }
+
+        this.tsConfigs = this.readTsConfigs(configFiles);
+        this.goModules = configFiles
+            .filter(file => path.posix.basename(file.path) === 'go.mod')
+            .map(file => ({ directory: dirOf(file.path), module: file.content.match(/^module\s+(\S+)/m)?.[1] || '' }))
+            .filter(goModule => goModule.module);
+
+        this.resolvers = {
+            typescript: (specifier, fromPath) => this.resolveScript(specifier, fromPath),
+            javascript: (specifier, fromPath) => this.resolveScript(specifier, fromPath),
+            python: (specifier, fromPath) => this.resolvePython(specifier, fromPath),
+            c: (specifier, fromPath) => this.resolveInclude(specifier, fromPath),
+            cpp: (specifier, fromPath) => this.resolveInclude(specifier, fromPath),
+            java: specifier => this.resolveJava(specifier),
+            go: specifier => this.resolveGo(specifier),
+            rust: (specifier, fromPath) => this.resolveRust(specifier, fromPath)
+        };
+    }
+
+    static isConfigFile(filePath: string): boolean {
+        const name = path.posix.basename(filePath);
+        return TS_CONFIG_NAME.test(name) || name === 'go.mod';
+    }
+
+    resolve(specifier: string, fromPath: string, language: string): ModuleResolution {
+        const resolver = this.resolvers[language];
+        return resolver ? resolver(specifier, fromPath) : external(specifier);
+    }
+
+    private resolveScript(specifier: string, fromPath: string): ModuleResolution {
+        if (specifier === '.' || specifier === '..' || specifier.startsWith('./') || specifier.startsWith('../')) {
+            const found = this.findScript(join(dirOf(fromPath), specifier));
+            return found ? internal([found]) : UNRESOLVED;
+        }
+
+        const config = this.tsConfigs.find(candidate => candidate.directory === '' || fromPath.startsWith(`${candidate.directory}/`));
+
+        for (const [pattern, targets] of config?.paths?.patterns || []) {
+            const star = pattern.indexOf('*');
+            const matched = star === -1
+                ? (pattern === specifier ? '' : null)
+                : (specifier.startsWith(pattern.substring(0, star)) && specifier.endsWith(pattern.substring(star + 1))
+                    ? specifier.substring(star, specifier.length - (pattern.length - star - 1))
+                    : null);
+            if (matched === null) continue;
+
+            for (const target of targets) {
+                const found = this.findScript(join(config?.paths?.base || '', target.replace('*', matched)));
+                if (found) return internal([found]);
+            }
+        }
+
+        if (config?.baseUrl !== undefined) {
+            const found = this.findScript(join(config.baseUrl, specifier));
+            if (found) return internal([found]);
+        }
+
+        // `@scope/name/sub/path` belongs to `@scope/name`
+        const segments = specifier.split('/');
+        return external(specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0]);
+    }
+
+    private findScript(candidate: string): string | null {
+        const extension = path.posix.extname(candidate);
+        const candidates = [
+            candidate,
+            ...SCRIPT_EXTENSIONS.map(scriptExtension => candidate + scriptExtension),
+            ...(COMPILED_EXTENSIONS[extension] || []).map(source => candidate.slice(0, -extension.length) + source),
+            ...SCRIPT_EXTENSIONS.map(scriptExtension => join(candidate, `index${scriptExtension}`))
+        ];
+        return candidates.find(file => this.files.has(file)) || null;
+    }
+
+    private resolvePython(specifier: string, fromPath: string): ModuleResolution {
+        // `from ..models import File` is stored as `..models`
+        const relative = specifier.match(/^(\.+)(.*)$/);
+        if (relative) {
+            let base = dirOf(fromPath);
+            for (let level = 1; level < relative[1].length; level++) {
+                base = dirOf(base);
+            }
+            const found = this.findPython(join(base, relative[2].replace(/\./g, '/')));
+            return found ? internal([found]) : UNRESOLVED;
+        }
+
+        const modulePath = specifier.replace(/\./g, '/');
+        // Next to the importing script, then under whichever source root holds the package
+        const found = this.findPython(join(dirOf(fromPath), modulePath))
+            || this.shallowest([`${modulePath}.py`, `${modulePath}/__init__.py`]);
+        return found ? internal([found]) : external(specifier.split('.')[0]);
+    }
+
+    private findPython(modulePath: string): string | null {
+        const candidates = modulePath ? [`${modulePath}.py`, `${modulePath}/__init__.py`] : ['__init__.py'];
+        return candidates.find(file => this.files.has(file)) || null;
+    }
+
+    private resolveInclude(specifier: string, fromPath: string): ModuleResolution {
+        const local = join(dirOf(fromPath), specifier);
+        if (this.files.has(local)) {
+            return internal([local]);
+        }
+
+        // Include directories aren't known; any file ending in the path will do
+        const found = this.shallowest([specifier]);
+        return found ? internal([found]) : external(specifier);
+    }
+
+    private resolveJava(specifier: string): ModuleResolution {
+        const segments = specifier.split('.');
+
+        if (segments[segments.length - 1] === '*') {
+            const packagePath = segments.slice(0, -1).join('/');
+            const files = [...this.byDirectory.entries()]
+                .filter(([directory]) => directory === packagePath || directory.endsWith(`/${packagePath}`))
+                .flatMap(([, files]) => files.filter(file => file.endsWith('.java')));
+            return files.length > 0 ? internal(files) : external(segments.slice(0, -1).join('.'));
+        }
+
+        // Static imports and nested classes name a member of the class's file
+        const found = this.shallowest([`${segments.join('/')}.java`])
+            || this.shallowest([`${segments.slice(0, -1).join('/')}.java`]);
+        return found ? internal([found]) : external(segments.slice(0, -1).join('.') || specifier);
+    }
+
+    private resolveGo(specifier: string): ModuleResolution {
+        for (const { directory, module } of this.goModules) {
+            if (specifier !== module && !specifier.startsWith(`${module}/`)) continue;
+
+            const packageDirectory = join(directory, specifier.substring(module.length));
+            const files = (this.byDirectory.get(packageDirectory) || [])
+                .filter(file => file.endsWith('.go') && !file.endsWith('_test.go'));
+            return files.length > 0 ? internal(files) : UNRESOLVED;
+        }
+        return external(specifier);
+    }
+
+    private resolveRust(specifier: string, fromPath: string): ModuleResolution {
+        const segments = specifier.split('::');
+
+        // `mod parser;` is stored as `parser`, as is `extern crate serde;`
+        if (segments.length === 1) {
+            const found = this.findRust(join(this.rustModuleDirectory(fromPath), specifier));
+            return found ? internal([found]) : external(specifier);
+        }
+
+        let base: string | null;
+        let rest = segments.slice(1);
+        if (segments[0] === 'crate') {
+            base = this.rustCrateRoot(fromPath);
+        } else if (segments[0] === 'self' || segments[0] === 'super') {
+            base = this.rustModuleDirectory(fromPath);
+            rest = segments;
+            while (rest[0] === 'self' || rest[0] === 'super') {
+                if (rest[0] === 'super') base = dirOf(base);
+                rest = rest.slice(1);
+            }
+        } else {
+            return external(segments[0]);
+        }
+
+        if (base === null) {
+            return UNRESOLVED;
+        }
+
+        // Paths end in items such as types; the longest prefix naming a module file wins
+        rest = rest.filter(segment => segment !== '*');
+        for (let length = rest.length; length > 0; length--) {
+            const found = this.findRust(join(base, ...rest.slice(0, length)));
+            if (found) return internal([found]);
+        }
+
+        // An item of the module itself: `src/a/mod.rs`, `src/a.rs` or the crate root
+        const directory = base;
+        const own = [...['lib.rs', 'main.rs', 'mod.rs'].map(name => join(directory, name)), `${directory}.rs`]
+            .find(file => this.files.has(file));
+        return own ? internal([own]) : UNRESOLVED;
+    }
+
+    private findRust(modulePath: string): string | null {
+        return [`${modulePath}.rs`, `${modulePath}/mod.rs`].find(file => this.files.has(file)) || null;
+    }
+
+    // Where a Rust file's submodules live: `src/a/` for both `src/a.rs` and `src/a/mod.rs`
+    private rustModuleDirectory(filePath: string): string {
+        const name = path.posix.basename(filePath);
+        return ['mod.rs', 'lib.rs', 'main.rs'].includes(name) ? dirOf(filePath) : join(dirOf(filePath), name.replace(/\.rs$/, ''));
+    }
+
+    // Nearest directory above the file holding `lib.rs` or `main.rs`
+    private rustCrateRoot(filePath: string): string | null {
+        for (let directory = dirOf(filePath); ; directory = dirOf(directory)) {
+            if (this.files.has(join(directory, 'lib.rs')) || this.files.has(join(directory, 'main.rs'))) {
+                return directory;
+            }
+            if (directory === '') return null;
+        }
+    }
+
+    // The shortest project path ending in any of the suffixes
+    private shallowest(suffixes: string[]): string | null {
+        const matches = suffixes.flatMap(suffix => this.bySuffix.get(suffix) || []);
+        return matches.sort((a, b) => a.length - b.length)[0] || null;
+    }
+
+    /**
+     * Effective `baseUrl` and `paths` of each `tsconfig.json`/`jsconfig.json`,
+     * following `extends` to other configs of the project. Nearest config first.
+     */
+    private readTsConfigs(configFiles: ProjectConfigFile[]): TsPathMapping[] {
+        const configs = new Map<string, TsConfigJson>();
+        for (const file of configFiles) {
+            if (TS_CONFIG_NAME.test(path.posix.basename(file.path))) {
+                const { config } = ts.parseConfigFileTextToJson(file.path, file.content);
+                if (config) configs.set(file.path, config);
+            }
+        }
+
+        const effective = (configPath: string, seen: Set<string>): Omit<TsPathMapping, 'directory'> => {
+            const config = configs.get(configPath);
+            if (!config || seen.has(configPath)) {
+                return {};
+            }
+            seen.add(configPath);
+
+            const directory = dirOf(configPath);
+            const parents = (Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [])
+                .filter(parent => parent.startsWith('.'))
+                .map(parent => effective(join(directory, parent.endsWith('.json') ? parent : `${parent}.json`), seen));
+            const inherited = Object.assign({}, ...parents) as Omit<TsPathMapping, 'directory'>;
+
+            const options = config.compilerOptions || {};
+            const baseUrl = options.baseUrl !== undefined ? join(directory, options.baseUrl) : inherited.baseUrl;
+            const paths = options.paths
+                ? {
+                    base: baseUrl ?? directory,
+                    patterns: Object.entries(options.paths)
+                        .sort(([a], [b]) => b.split('*')[0].length - a.split('*')[0].length)
+                }
+                : inherited.paths;
+
+            return { baseUrl, paths };
+        };
+
+        return [...configs.keys()]
+            .filter(configPath => /^(ts|js)config\.json$/.test(path.posix.basename(configPath)))
+            .map(configPath => ({ directory: dirOf(configPath), ...effective(configPath, new Set()) }))
+            .sort((a, b) => b.directory.length - a.directory.length);
+    }
+}
@@ -0,0 +1,110 @@
+import { ICallSite, ICodeChunk } from '../../models/Chunk';
+import { FileSymbols } from '../../models/CodeSymbol';
+import { LanguageAnalyzer } from './index';
+import { BlockChunker, linesInStrings } from './blocks';
+import { symbolsFromDeclarations, scanCalls, PYTHON_SYNTAX } from './symbols';
+
+const TRIPLE_QUOTES = ['"""', "'''"];
+
+const chunker = new BlockChunker(
+    [
+        { regex: /^(?:async\s+)?def\s+(\w+)/, type: 'function', name: match => match[1] },
+        { regex: /^class\s+(\w+)/, type: 'class', name: match => match[1], container: true }
+    ],
+    {
+        blocks: 'indentation',
+        commentPattern: /^#/,
+        attributePattern: /^@/,
+        docstrings: true,
+        multilineStrings: TRIPLE_QUOTES
+    }
+);
+
+/**
+ * Python: functions and classes by indentation, with methods as children of
+ * their class and docstrings as doc comments. Imports are module names,
+ * relative ones keeping their leading dots. Exports are `__all__` when the
+ * module defines it, otherwise its public top-level functions and classes.
+ * Calls are names followed by `(` outside strings and comments, so
+ * `self.save()` calls `save`.
+ */
+export class PythonAnalyzer implements LanguageAnalyzer {
+    readonly language = 'python';
+    readonly extensions = ['.py', '.pyi', '.pyw'];
+
+    chunk(content: string): ICodeChunk[] {
+        return chunker.chunk(content);
+    }
+
+    extractImports(content: string): string[] {
+        const imports: string[] = [];
+
+        for (const statement of this.logicalLines(content)) {
+            const fromImport = statement.match(/^from\s+(\.*[\w.]*)\s+import\b/);
+            const plainImport = statement.match(/^import\s+(.+)$/);
+
+            if (fromImport) {
+                imports.push(fromImport[1]);
+            } else if (plainImport) {
+                // `import a.b as c, d`
+                for (const module of plainImport[1].split(',')) {
+                    const name = module.trim().split(/\s+as\s+/)[0];
+                    if (/^[\w.]+$/.test(name)) {
+                        imports.push(name);
+                    }
+                }
+            }
+        }
+
+        return [...new Set(imports)];
+    }
+
+    extractExports(content: string): string[] {
+        const all = content.match(/^__all__\s*(?::[^=]+)?=\s*[[(]([^\])]*)[\])]/m);
+        if (all) {
+            return [...new Set([...all[1].matchAll(/['"]([^'"]+)['"]/g)].map(match => match[1]))];
+        }
+
+        const exports: string[] = [];
+        const lines = content.split('\n');
+        const inString = linesInStrings(lines, TRIPLE_QUOTES);
+        for (const [index, line] of lines.entries()) {
+            if (inString[index]) continue;
+            const match = line.match(/^(?:async\s+)?(?:def|class)\s+([A-Za-z]\w*)/);
+            if (match) {
+                exports.push(match[1]);
+            }
+        }
+        return [...new Set(exports)];
+    }
+
+    extractSymbols(content: string): FileSymbols {
+        return symbolsFromDeclarations(chunker.declarations(content), content, this.extractExports(content), PYTHON_SYNTAX);
+    }
+
+    extractCalls(content: string): ICallSite[] {
+        return scanCalls(content.split('\n'), PYTHON_SYNTAX);
+    }
+
+    // Statements, with parenthesized and backslash continuations joined
+    private logicalLines(content: string): string[] {
+        const statements: string[] = [];
+        let current = '';
+
+        for (const line of content.split('\n')) {
+            // Strings are dropped so brackets inside them don't count
+            current += ' ' + line.replace(/(['"])(?:\\.|(?!\1).)*\1/g, '""').replace(/#.*$/, '').trim();
+            const open = (current.match(/\(/g) || []).length - (current.match(/\)/g) || []).length;
+            if (open <= 0 && !current.endsWith('\\')) {
+                statements.push(current.trim());
+                current = '';
+            } else {
+                current = current.replace(/\\$/, '');
+            }
+        }
+
+        return statements;
+    }
+}
+
+export const pythonAnalyzer = new PythonAnalyzer();
@@ -0,0 +1,84 @@
+import { ICodeChunk } from '../../models/Chunk';
+import { FileSymbols } from '../../models/CodeSymbol';
+import { LanguageAnalyzer } from './index';
+import { BlockChunker, matchLines } from './blocks';
+import { symbolsFromDeclarations, RUST_SYNTAX } from './symbols';
+
+// `pub`, `pub(crate)`, `pub(in path)`
+const VISIBILITY = String.raw`(?:pub(?:\([^)]*\))?\s+)?`;
+const FUNCTION_QUALIFIERS = String.raw`(?:(?:default|const|async|unsafe|extern(?:\s+"[^"]*")?)\s+)*`;
+
+const chunker = new BlockChunker(
+    [
+        { regex: new RegExp(`^${VISIBILITY}${FUNCTION_QUALIFIERS}fn\\s+(\\w+)`), type: 'function', name: match => match[1] },
+        { regex: new RegExp(`^${VISIBILITY}(?:struct|union)\\s+(\\w+)`), type: 'class', name: match => match[1] },
+        { regex: new RegExp(`^${VISIBILITY}enum\\s+(\\w+)`), type: 'interface', name: match => match[1] },
+        { regex: new RegExp(`^${VISIBILITY}(?:unsafe\\s+)?trait\\s+(\\w+)`), type: 'interface', name: match => match[1], container: true },
+        { regex: new RegExp(`^${VISIBILITY}type\\s+(\\w+)`), type: 'interface', name: match => match[1] },
+        // `impl<T> Display for Wrapper<T>` holds members of `Wrapper`
+        {
+            regex: /^(?:unsafe\s+)?impl\b(?:\s*<.*?>)?\s+(?:!?[\w:]+(?:<.*?>)?\s+for\s+)?(?:[\w]+::)*(\w+)/,
+            type: 'block',
+            name: match => match[1],
+            container: true
+        },
+        { regex: new RegExp(`^${VISIBILITY}mod\\s+(\\w+)\\s*\\{`), type: 'block', name: match => match[1], container: true },
+        { regex: /^macro_rules!\s*(\w+)/, type: 'function', name: match => match[1] }
+    ],
+    {
+        blocks: 'braces',
+        commentPattern: /^(\/\/|\/\*|\*)/,
+        attributePattern: /^#!?\[/
+    }
+);
+
+const PUBLIC_ITEM = new RegExp(
+    `^\\s*pub\\s+(?:(?:default|const|async|unsafe|extern(?:\\s+"[^"]*")?)\\s+)*(?:fn|struct|enum|trait|type|const|static|mod|union)\\s+(?:mut\\s+)?(\\w+)`
+);
+
+/**
+ * Rust: functions, types, traits, modules and `impl` blocks, with the
+ * methods of traits and impls as their children (`Type.method`). Doc
+ * comments and attributes stay with their item. Imports are `use` paths
+ * (without the braced list), `extern crate` names and out-of-line `mod`
+ * declarations. Exports are `pub` items and the last segment of `pub use`.
+ */
+export class RustAnalyzer implements LanguageAnalyzer {
+    readonly language = 'rust';
+    readonly extensions = ['.rs'];
+
+    chunk(content: string): ICodeChunk[] {
+        return chunker.chunk(content);
+    }
+
+    extractImports(content: string): string[] {
+        const uses = [...content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+([^;{]+?)(?:::\s*\{[^}]*\})?\s*;/gm)]
+            .map(match => match[1].replace(/\s+as\s+\w+$/, '').replace(/\s+/g, ''));
+
+        return [...new Set([
+            ...uses,
+            ...matchLines(content, /^\s*extern\s+crate\s+(\w+)/),
+            ...matchLines(content, new RegExp(`^\\s*${VISIBILITY}mod\\s+(\\w+)\\s*;`))
+        ])];
+    }
+
+    extractExports(content: string): string[] {
+        const reexports = [...content.matchAll(/^\s*pub\s+use\s+([^;]+);/gm)].flatMap(match => {
+            const path = match[1].replace(/\s*(::|,|\{|\})\s*/g, '$1').trim();
+            const braced = path.match(/\{([^}]*)\}$/);
+            const names = braced ? braced[1].split(',') : [path.split('::').pop() || ''];
+            // `a::B as C` is exported as `C`; globs export nothing nameable
+            return names
+                .map(name => name.split(/\s+as\s+/).pop() || '')
+                .filter(name => /^\w+$/.test(name) && name !== 'self');
+        });
+
+        return [...new Set([...matchLines(content, PUBLIC_ITEM), ...reexports])];
+    }
+
+    extractSymbols(content: string): FileSymbols {
+        return symbolsFromDeclarations(chunker.declarations(content), content, this.extractExports(content), RUST_SYNTAX);
+    }
+}
+
+export const rustAnalyzer = new RustAnalyzer();
@@ -0,0 +1,136 @@
+import { ChunkType, ICodeChunk } from '../../models/Chunk';
+import { estimateTokens, splitByTokens } from '../../utils/tokens';
+
+interface Segment {
+    text: string;
+    line: number;
+    tokens: number;
+}
+
+interface Window {
+    content: string;
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * Keeps chunks within what an embedding model accepts. Oversized chunks are
+ * cut into windows of whole lines, preferring to break at a blank line, and
+ * consecutive windows share up to `overlapTokens` of lines so text near a
+ * cut is still seen in context. Single lines over the limit, such as
+ * minified JSON, are cut on token boundaries.
+ */
+export class ChunkSplitter {
+    constructor(
+        private maxTokens = parseInt(process.env.CHUNK_MAX_TOKENS || '800'),
+        private overlapTokens = parseInt(process.env.CHUNK_OVERLAP_TOKENS || '100')
+    ) {}
+
+    /**
+     * Split the chunks over the limit into parts and renumber all chunks so
+     * ids stay sequential. Children of a split chunk point at its first part.
+     */
+    bound(chunks: ICodeChunk[]): ICodeChunk[] {
+        const oversized = new Set(chunks.filter(chunk => estimateTokens(chunk.content) > this.maxTokens));
+        if (oversized.size === 0) {
+            return chunks;
+        }
+
+        const bounded: ICodeChunk[] = [];
+        const renamed = new Map<string, string>();
+
+        for (const chunk of chunks) {
+            renamed.set(chunk.id, `chunk_${bounded.length + 1}`);
+            for (const part of oversized.has(chunk) ? this.splitChunk(chunk) : [chunk]) {
+                bounded.push({ ...part, id: `chunk_${bounded.length + 1}` });
+            }
+        }
+
+        return bounded.map(chunk => chunk.parentId ? { ...chunk, parentId: renamed.get(chunk.parentId) } : chunk);
+    }
+
+    // Size-bounded chunks for content no analyzer could structure
+    split(content: string, type: ChunkType = 'other'): ICodeChunk[] {
+        return this.windows(content, 1).map((window, index) => ({
+            id: `chunk_${index + 1}`,
+            ...window,
+            type
+        }));
+    }
+
+    private splitChunk(chunk: ICodeChunk): ICodeChunk[] {
+        // Outlines with elided bodies no longer line up with the file
+        const linesMatch = chunk.content.split('\n').length === chunk.endLine - chunk.startLine + 1;
+
+        return this.windows(chunk.content, chunk.startLine).map((window, index) => ({
+            ...chunk,
+            content: window.content,
+            startLine: linesMatch ? window.startLine : chunk.startLine,
+            endLine: linesMatch ? window.endLine : chunk.endLine,
+            docComment: index === 0 ? chunk.docComment : undefined
+        }));
+    }
+
+    private windows(content: string, firstLine: number): Window[] {
+        const segments = this.segments(content, firstLine);
+        const windows: Window[] = [];
+        let start = 0;
+
+        while (start < segments.length) {
+            let end = start;
+            let total = 0;
+            while (end < segments.length && (end === start || total + segments[end].tokens <= this.maxTokens)) {
+                total += segments[end].tokens;
+                end++;
+            }
+
+            // A blank line in the second half of the window is a better place to cut
+            if (end < segments.length) {
+                for (let i = end - 1; i > start + (end - start) / 2; i--) {
+                    if (segments[i].text.trim() === '') {
+                        end = i + 1;
+                        break;
+                    }
+                }
+            }
+
+            const window = segments.slice(start, end);
+            windows.push({
+                content: window.map(segment => segment.text).join('\n'),
+                startLine: window[0].line,
+                endLine: window[window.length - 1].line
+            });
+
+            if (end >= segments.length) {
+                break;
+            }
+
+            // Carry trailing lines into the next window, always moving forward
+            let next = end;
+            let carried = 0;
+            while (next - 1 > start && carried + segments[next - 1].tokens <= this.overlapTokens) {
+                carried += segments[next - 1].tokens;
+                next--;
+            }
+            start = next;
+        }
+
+        return windows;
+    }
+
+    // One segment per line, or several for a line over the limit
+    private segments(content: string, firstLine: number): Segment[] {
+        return content.split('\n').flatMap((text, index) => {
+            const line = firstLine + index;
+            // The newline joining it to the next line counts too
+            const tokens = estimateTokens(text) + 1;
+
+            if (tokens <= this.maxTokens) {
+                return [{ text, line, tokens }];
+            }
+            return splitByTokens(text, this.maxTokens).map(piece => ({ text: piece, line, tokens: this.maxTokens }));
+        });
+    }
+}
+
+export const chunkSplitter = new ChunkSplitter();
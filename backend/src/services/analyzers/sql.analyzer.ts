@@ -0,0 +1,174 @@
+import { ChunkType, ICodeChunk } from '../../models/Chunk';
+import { LanguageAnalyzer } from './index';
+
+interface Statement {
+    // Offsets into the content, `end` exclusive
+    start: number;
+    end: number;
+    name?: string;
+    type: ChunkType;
+}
+
+const CREATE_STATEMENT = /^create\s+(?:or\s+replace\s+)?(?:(?:temp|temporary|unique|global|local|recursive)\s+)*(materialized\s+view|table|view|function|procedure|trigger|index|type|schema|sequence|domain|extension)\s+(?:if\s+not\s+exists\s+)?([\w."`[\]]+)/i;
+
+const CREATED_TYPES: Record<string, ChunkType> = {
+    table: 'class',
+    view: 'class',
+    'materialized view': 'class',
+    function: 'function',
+    procedure: 'function',
+    trigger: 'function',
+    type: 'interface',
+    domain: 'interface'
+};
+
+/**
+ * SQL: one chunk per statement that creates a named object (tables, views,
+ * functions, ...), with the comments directly above it. Other statements in
+ * between, such as a run of inserts, are grouped into blocks. Statements end
+ * at semicolons outside strings, quoted identifiers, comments and
+ * dollar-quoted bodies.
+ */
+export class SqlAnalyzer implements LanguageAnalyzer {
+    readonly language = 'sql';
+    readonly extensions = ['.sql'];
+
+    chunk(content: string): ICodeChunk[] {
+        const chunks: ICodeChunk[] = [];
+        let loose: Statement | null = null;
+
+        const push = (statement: Statement): void => {
+            const text = content.substring(statement.start, statement.end);
+            const startLine = this.lineAt(content, statement.start);
+            chunks.push({
+                id: `chunk_${chunks.length + 1}`,
+                content: text,
+                startLine,
+                endLine: startLine + (text.match(/\n/g) || []).length,
+                type: statement.type,
+                ...(statement.name && { symbolName: statement.name })
+            });
+        };
+
+        for (const statement of this.splitStatements(content)) {
+            if (statement.name) {
+                if (loose) push(loose);
+                loose = null;
+                push(statement);
+            } else if (loose) {
+                loose.end = statement.end;
+            } else {
+                loose = statement;
+            }
+        }
+        if (loose) push(loose);
+
+        return chunks;
+    }
+
+    extractImports(): string[] {
+        return [];
+    }
+
+    extractExports(): string[] {
+        return [];
+    }
+
+    private splitStatements(content: string): Statement[] {
+        const statements: Statement[] = [];
+        let start = -1;
+        let i = 0;
+
+        const finish = (end: number): void => {
+            if (start !== -1) {
+                statements.push(this.describe(content, start, end));
+            }
+            start = -1;
+        };
+
+        while (i < content.length) {
+            const char = content[i];
+            const rest = content.substring(i, i + 2);
+
+            if (start === -1 && char.trim() !== '') {
+                start = i;
+            }
+
+            if (rest === '--') {
+                const newline = content.indexOf('\n', i);
+                i = newline === -1 ? content.length : newline;
+            } else if (rest === '/*') {
+                const close = content.indexOf('*/', i + 2);
+                i = close === -1 ? content.length : close + 2;
+            } else if (char === '\'' || char === '"' || char === '`') {
+                i = this.skipQuoted(content, i, char);
+            } else if (char === '$') {
+                // `$$ ... $$` and `$tag$ ... $tag$` bodies
+                const tag = content.substring(i, i + 64).match(/^\$\w*\$/);
+                if (tag) {
+                    const close = content.indexOf(tag[0], i + tag[0].length);
+                    i = close === -1 ? content.length : close + tag[0].length;
+                } else {
+                    i++;
+                }
+            } else if (char === ';') {
+                finish(i + 1);
+                i++;
+            } else {
+                i++;
+            }
+        }
+
+        // A trailing statement without a semicolon
+        if (start !== -1 && content.substring(start).trim() !== '') {
+            finish(content.trimEnd().length);
+        }
+
+        return statements;
+    }
+
+    private skipQuoted(content: string, open: number, quote: string): number {
+        for (let i = open + 1; i < content.length; i++) {
+            if (content[i] === quote) {
+                // A doubled quote is an escaped one
+                if (content[i + 1] === quote) {
+                    i++;
+                    continue;
+                }
+                return i + 1;
+            }
+            if (content[i] === '\\' && quote === '\'') i++;
+        }
+        return content.length;
+    }
+
+    // Leading comments belong to the statement; its name comes from the code after them
+    private describe(content: string, start: number, end: number): Statement {
+        const code = content.substring(start, end)
+            .replace(/^(\s*(--[^\n]*|\/\*[\s\S]*?\*\/))+\s*/, '')
+            .trim();
+        const create = code.match(CREATE_STATEMENT);
+
+        if (!create) {
+            return { start, end, type: 'block' };
+        }
+
+        const kind = create[1].toLowerCase().replace(/\s+/, ' ');
+        return {
+            start,
+            end,
+            name: create[2].replace(/["`[\]]/g, ''),
+            type: CREATED_TYPES[kind] || 'block'
+        };
+    }
+
+    private lineAt(content: string, offset: number): number {
+        let line = 1;
+        for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) {
+            line++;
+        }
+        return line;
+    }
+}
+
+export const sqlAnalyzer = new SqlAnalyzer();
@@ -0,0 +1,237 @@
+import { ChunkType, ICallSite } from '../../models/Chunk';
+import { FileSymbols, ISymbolDefinition, ISymbolReference, SymbolKind } from '../../models/CodeSymbol';
+import { Declaration } from './blocks';
+
+export interface LexicalSyntax {
+    lineComments: string[];
+    blockComments: Array<[string, string]>;
+    // Characters that open a string closed by the same character on the same line
+    quotes: string;
+}
+
+export const C_LIKE_SYNTAX: LexicalSyntax = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: '"\'`'
+};
+
+// Triple-quoted strings are mostly docstrings, so they are skipped like comments
+export const PYTHON_SYNTAX: LexicalSyntax = {
+    lineComments: ['#'],
+    blockComments: [['"""', '"""'], ["'''", "'''"]],
+    quotes: '"\''
+};
+
+export const HASH_COMMENT_SYNTAX: LexicalSyntax = {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: '"\''
+};
+
+// Lifetimes (`'a`) would open a string if `'` were a quote
+export const RUST_SYNTAX: LexicalSyntax = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: '"'
+};
+
+const DEFINITION_KINDS: Partial<Record<ChunkType, SymbolKind>> = {
+    function: 'function',
+    class: 'class',
+    interface: 'interface'
+};
+
+// Signatures longer than this are cut
+const MAX_SIGNATURE_LENGTH = 200;
+// How many lines a declaration head may span
+const MAX_SIGNATURE_LINES = 5;
+
+// Never names of definitions, so not worth storing as references
+const KEYWORDS = new Set([
+    'abstract', 'and', 'as', 'async', 'await', 'begin', 'bool', 'boolean', 'break', 'byte', 'case', 'catch', 'char',
+    'class', 'const', 'continue', 'def', 'default', 'del', 'do', 'done', 'double', 'elif', 'else', 'elsif', 'end',
+    'enum', 'esac', 'except', 'export', 'extends', 'extern', 'False', 'false', 'fi', 'final', 'finally', 'float', 'fn',
+    'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'int', 'interface', 'is',
+    'lambda', 'let', 'long', 'match', 'mod', 'mut', 'namespace', 'new', 'nil', 'None', 'not', 'null', 'or', 'override',
+    'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'return', 'self', 'short', 'static', 'string',
+    'struct', 'super', 'switch', 'then', 'this', 'throw', 'throws', 'True', 'true', 'try', 'type', 'typedef', 'unless',
+    'unsigned', 'use', 'using', 'var', 'virtual', 'void', 'while', 'with', 'yield'
+]);
+
+/**
+ * Collapse a declaration head, starting at `line` (one-based), into one line
+ * without its body: it ends at the opening brace, at the colon of an
+ * indentation-based block, or else with the first line that closes all its
+ * parentheses.
+ */
+export function signatureAt(lines: string[], line: number): string {
+    const head: string[] = [];
+    let depth = 0;
+
+    for (let i = line - 1; i < lines.length && head.length < MAX_SIGNATURE_LINES; i++) {
+        const text = lines[i].trim();
+        const brace = text.indexOf('{');
+        if (brace !== -1) {
+            head.push(text.substring(0, brace));
+            break;
+        }
+        head.push(text);
+        depth += (text.match(/\(/g) || []).length - (text.match(/\)/g) || []).length;
+        if (/[:;]$/.test(text) || depth <= 0) {
+            break;
+        }
+    }
+
+    const signature = head.join(' ').replace(/\s+/g, ' ').replace(/:$/, '').trim();
+    return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.substring(0, MAX_SIGNATURE_LENGTH - 3)}...` : signature;
+}
+
+/**
+ * Definitions from the declaration chunks of a line-based analyzer, and
+ * references from every identifier outside comments and strings. Functions
+ * in a class or interface, or named after a type (Go receivers), are
+ * methods; definitions are exported when `exports` lists them, top-level
+ * ones by their plain name.
+ */
+export function symbolsFromDeclarations(
+    declarations: Declaration[],
+    content: string,
+    exports: string[],
+    syntax: LexicalSyntax
+): FileSymbols {
+    const lines = content.split('\n');
+    const exported = new Set(exports);
+    const byId = new Map(declarations.map(declaration => [declaration.chunk.id, declaration.chunk]));
+    const definitions: ISymbolDefinition[] = [];
+
+    for (const { chunk, line } of declarations) {
+        const kind = DEFINITION_KINDS[chunk.type];
+        if (!kind || !chunk.symbolName) continue;
+
+        const parent = chunk.parentId ? byId.get(chunk.parentId) : undefined;
+        const name = chunk.symbolName.substring(chunk.symbolName.lastIndexOf('.') + 1);
+
+        definitions.push({
+            name,
+            qualifiedName: chunk.symbolName,
+            kind: kind === 'function' && (parent ? parent.type !== 'block' : name !== chunk.symbolName) ? 'method' : kind,
+            signature: signatureAt(lines, line),
+            startLine: line,
+            endLine: chunk.endLine,
+            exported: exported.has(chunk.symbolName) || (!parent && exported.has(name))
+        });
+    }
+
+    // A definition's own name isn't a reference to it
+    const declared = new Set(definitions.map(definition => `${definition.name}@${definition.startLine}`));
+    const references: ISymbolReference[] = [];
+
+    for (const identifier of scanIdentifiers(lines, syntax)) {
+        const key = `${identifier.name}@${identifier.line}`;
+        if (declared.has(key)) {
+            declared.delete(key);
+            continue;
+        }
+
+        const container = innermost(definitions, identifier.line);
+        references.push({ ...identifier, ...(container && { container: container.qualifiedName }) });
+    }
+
+    return { definitions, references };
+}
+
+// The narrowest definition whose lines include `line`
+export function innermost(definitions: ISymbolDefinition[], line: number): ISymbolDefinition | undefined {
+    let found: ISymbolDefinition | undefined;
+    for (const definition of definitions) {
+        if (definition.startLine <= line && line <= definition.endLine
+            && (!found || definition.endLine - definition.startLine < found.endLine - found.startLine)) {
+            found = definition;
+        }
+    }
+    return found;
+}
+
+/**
+ * Calls found lexically: identifiers directly followed by `(`, other than the
+ * names being declared after `def`, `class`, `fn`, `func` or `function`.
+ */
+export function scanCalls(lines: string[], syntax: LexicalSyntax): ICallSite[] {
+    return scanIdentifiers(lines, syntax)
+        .filter(({ name, line, column }) => {
+            const text = lines[line - 1];
+            const after = text.substring(column - 1 + name.length);
+            const before = text.substring(0, column - 1);
+            return /^\s*\(/.test(after) && !/\b(?:def|class|fn|func|function)\s+$/.test(before);
+        })
+        .map(({ name, line }) => ({ name, line }));
+}
+
+/**
+ * Identifiers in source order, skipping comments, strings, numbers and
+ * keywords. Columns are one-based.
+ */
+export function scanIdentifiers(lines: string[], syntax: LexicalSyntax): Array<{ name: string; line: number; column: number }> {
+    const found: Array<{ name: string; line: number; column: number }> = [];
+    // Closing delimiter of the block comment the scan is in
+    let blockEnd: string | null = null;
+
+    for (let index = 0; index < lines.length; index++) {
+        const text = lines[index];
+        let i = 0;
+
+        while (i < text.length) {
+            if (blockEnd) {
+                const close = text.indexOf(blockEnd, i);
+                if (close === -1) {
+                    i = text.length;
+                } else {
+                    i = close + blockEnd.length;
+                    blockEnd = null;
+                }
+                continue;
+            }
+
+            if (syntax.lineComments.some(marker => text.startsWith(marker, i))) {
+                break;
+            }
+
+            const block = syntax.blockComments.find(([open]) => text.startsWith(open, i));
+            if (block) {
+                blockEnd = block[1];
+                i += block[0].length;
+                continue;
+            }
+
+            const char = text[i];
+            if (syntax.quotes.includes(char)) {
+                i++;
+                while (i < text.length && text[i] !== char) {
+                    i += text[i] === '\\' ? 2 : 1;
+                }
+                i++;
+                continue;
+            }
+
+            if (/[A-Za-z_$]/.test(char)) {
+                const start = i;
+                while (i < text.length && /[\w$]/.test(text[i])) i++;
+                const name = text.substring(start, i);
+                if (name.length > 1 && !KEYWORDS.has(name)) {
+                    found.push({ name, line: index + 1, column: start + 1 });
+                }
+                continue;
+            }
+
+            // Numbers, so `0x1F` and `10px` don't yield identifiers
+            if (/\d/.test(char)) {
+                while (i < text.length && /[\w.]/.test(text[i])) i++;
+                continue;
+            }
+
+            i++;
+        }
+    }
+
+    return found;
+}
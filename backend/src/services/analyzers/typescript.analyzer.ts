@@ -0,0 +1,659 @@
+import path from 'path';
+import ts from 'typescript';
+import { ChunkType, ICallSite, ICodeChunk } from '../../models/Chunk';
+import { FileSymbols, ISymbolDefinition, ISymbolReference, SymbolKind } from '../../models/CodeSymbol';
+import { LanguageAnalyzer } from './index';
+import { innermost } from './symbols';
+
+// Stands in for elided function bodies in the outline of a class or object
+const ELIDED_BODY = '{ ... }';
+// Signatures longer than this are cut
+const MAX_SIGNATURE_LENGTH = 200;
+
+interface PendingChunk {
+    chunk: ICodeChunk;
+    start: number;
+    end: number;
+    // Bodies of nested function chunks, cut from this chunk's content
+    elided: Array<[number, number]>;
+    parent?: PendingChunk;
+}
+
+type FunctionLike = ts.ArrowFunction | ts.FunctionExpression;
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+    '.ts': ts.ScriptKind.TS,
+    '.mts': ts.ScriptKind.TS,
+    '.cts': ts.ScriptKind.TS,
+    '.tsx': ts.ScriptKind.TSX,
+    '.js': ts.ScriptKind.JS,
+    '.mjs': ts.ScriptKind.JS,
+    '.cjs': ts.ScriptKind.JS,
+    '.jsx': ts.ScriptKind.JSX
+};
+
+/**
+ * Analyzes TypeScript and JavaScript along the syntax tree from the TypeScript
+ * compiler.
+ *
+ * Chunking: declarations (functions, classes, interfaces, types, enums,
+ * namespaces, function-valued variables and object literals of functions)
+ * become chunks; class members and object properties that are functions
+ * become child chunks pointing at their parent. A parent's content is its
+ * outline, with the bodies of its children elided. Statements between
+ * declarations are grouped into `block` chunks, so no line is lost. Leading
+ * comments, including doc comments, belong to the declaration below them.
+ *
+ * Symbols: module-level declarations and the members of classes, interfaces
+ * and object literals are definitions; every other identifier is a
+ * reference. Locals inside function bodies are not definitions.
+ *
+ * Calls: call and `new` expressions whose callee is named, by its last
+ * segment (`this.auth.login()` calls `login`).
+ */
+export class TypeScriptAnalyzer implements LanguageAnalyzer {
+    constructor(readonly language: string, readonly extensions: string[]) {}
+
+    chunk(content: string, fileName?: string): ICodeChunk[] {
+        return new ChunkCollector(this.parse(content, fileName)).collect();
+    }
+
+    /**
+     * Module specifiers of `import` and `export ... from` declarations,
+     * `import x = require()`, and `require()` and `import()` calls with a
+     * literal argument.
+     */
+    extractImports(content: string, fileName?: string): string[] {
+        const imports: string[] = [];
+
+        const visit = (node: ts.Node): void => {
+            if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node))
+                && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+                imports.push(node.moduleSpecifier.text);
+            } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)
+                && ts.isStringLiteral(node.moduleReference.expression)) {
+                imports.push(node.moduleReference.expression.text);
+            } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])
+                && (node.expression.kind === ts.SyntaxKind.ImportKeyword
+                    || (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+                imports.push(node.arguments[0].text);
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(this.parse(content, fileName));
+
+        return [...new Set(imports)];
+    }
+
+    /**
+     * Names a module exports, through ES module syntax or CommonJS
+     * `module.exports` and `exports.x` assignments. A default export is listed
+     * under its local name when it has one, otherwise as `default`.
+     */
+    extractExports(content: string, fileName?: string): string[] {
+        const exports: string[] = [];
+
+        for (const statement of this.parse(content, fileName).statements) {
+            const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) || [] : [];
+            const exported = modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+            const isDefault = modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+
+            if (exported && ts.isVariableStatement(statement)) {
+                for (const declaration of statement.declarationList.declarations) {
+                    exports.push(...this.boundNames(declaration.name));
+                }
+            } else if (exported && (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)
+                || ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)
+                || ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement))) {
+                exports.push(statement.name && ts.isIdentifier(statement.name) ? statement.name.text : 'default');
+                if (isDefault && statement.name) {
+                    exports.push('default');
+                }
+            } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+                exports.push(...statement.exportClause.elements.map(element => element.name.text));
+            } else if (ts.isExportAssignment(statement)) {
+                exports.push(ts.isIdentifier(statement.expression) ? statement.expression.text : 'default');
+            } else if (ts.isExpressionStatement(statement)) {
+                exports.push(...this.commonJsExports(statement.expression));
+            }
+        }
+
+        return [...new Set(exports)];
+    }
+
+    extractSymbols(content: string, fileName?: string): FileSymbols {
+        return new SymbolCollector(this.parse(content, fileName), this.extractExports(content, fileName)).collect();
+    }
+
+    extractCalls(content: string, fileName?: string): ICallSite[] {
+        const sourceFile = this.parse(content, fileName);
+        const calls: ICallSite[] = [];
+
+        const visit = (node: ts.Node): void => {
+            if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+                const callee = this.unwrapCallee(node.expression);
+                const name = ts.isIdentifier(callee) ? callee.text
+                    : ts.isPropertyAccessExpression(callee) ? callee.name.text
+                    : null;
+
+                if (name && name !== 'require') {
+                    const line = sourceFile.getLineAndCharacterOfPosition(callee.getEnd()).line + 1;
+                    calls.push({ name, line });
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+
+        return calls;
+    }
+
+    // `fn!()`, `(fn)()` and `fn<T>()` call `fn`
+    private unwrapCallee(expression: ts.Expression): ts.Expression {
+        let current = expression;
+        while (ts.isParenthesizedExpression(current) || ts.isNonNullExpression(current) || ts.isExpressionWithTypeArguments(current)) {
+            current = current.expression;
+        }
+        return current;
+    }
+
+    private parse(content: string, fileName = `file${this.extensions[0]}`): ts.SourceFile {
+        const scriptKind = SCRIPT_KINDS[path.extname(fileName).toLowerCase()] ?? ts.ScriptKind.TS;
+        return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind);
+    }
+
+    private boundNames(name: ts.BindingName): string[] {
+        if (ts.isIdentifier(name)) {
+            return [name.text];
+        }
+        return name.elements.flatMap(element => ts.isBindingElement(element) ? this.boundNames(element.name) : []);
+    }
+
+    // `module.exports = { a, b }`, `module.exports.a = ...`, `exports.a = ...`
+    private commonJsExports(expression: ts.Expression): string[] {
+        if (!ts.isBinaryExpression(expression) || expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken) {
+            return [];
+        }
+
+        const target = expression.left.getText();
+        if (target === 'module.exports') {
+            return ts.isObjectLiteralExpression(expression.right)
+                ? expression.right.properties.flatMap(property => property.name && !ts.isComputedPropertyName(property.name)
+                    ? [property.name.getText()]
+                    : [])
+                : ['default'];
+        }
+
+        const member = target.match(/^(?:module\.)?exports\.(\w+)$/);
+        return member ? [member[1]] : [];
+    }
+}
+
+/**
+ * One pass over a source file. Chunks are emitted in source order with
+ * parents before their children.
+ */
+class ChunkCollector {
+    private pending: PendingChunk[] = [];
+    private nextId = 1;
+
+    constructor(private sourceFile: ts.SourceFile) {}
+
+    collect(): ICodeChunk[] {
+        this.visitStatements(this.sourceFile.statements);
+
+        const text = this.sourceFile.text;
+        return this.pending.map(({ chunk, start, end, elided }) => {
+            let content = '';
+            let cursor = start;
+            for (const [from, to] of elided.sort((a, b) => a[0] - b[0])) {
+                content += text.substring(cursor, from) + ELIDED_BODY;
+                cursor = to;
+            }
+            chunk.content = content + text.substring(cursor, end);
+            return chunk;
+        });
+    }
+
+    private visitStatements(statements: ts.NodeArray<ts.Statement>, parent?: PendingChunk): void {
+        let loose: ts.Statement[] = [];
+
+        for (const statement of statements) {
+            if (this.isDeclaration(statement)) {
+                this.addBlock(loose, parent);
+                loose = [];
+                this.visitDeclaration(statement, parent);
+            } else {
+                loose.push(statement);
+            }
+        }
+
+        this.addBlock(loose, parent);
+    }
+
+    private isDeclaration(statement: ts.Statement): boolean {
+        if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)
+            || ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)
+            || ts.isEnumDeclaration(statement)) {
+            return true;
+        }
+        if (ts.isModuleDeclaration(statement)) {
+            return Boolean(statement.body && ts.isModuleBlock(statement.body));
+        }
+        if (ts.isVariableStatement(statement)) {
+            const declarations = statement.declarationList.declarations;
+            return declarations.length === 1 && this.declaredValue(declarations[0].initializer) !== null;
+        }
+        if (ts.isExportAssignment(statement)) {
+            return this.declaredValue(statement.expression) !== null;
+        }
+        if (ts.isExpressionStatement(statement)) {
+            const assigned = this.assignment(statement.expression);
+            return assigned !== null && this.declaredValue(assigned.right) !== null;
+        }
+        return false;
+    }
+
+    private visitDeclaration(statement: ts.Statement, parent?: PendingChunk): void {
+        if (ts.isFunctionDeclaration(statement)) {
+            const chunk = this.add(statement, 'function', statement.name?.text ?? 'default', parent);
+            this.elideBody(chunk, statement.body);
+        } else if (ts.isClassDeclaration(statement)) {
+            this.addClass(statement, statement.name?.text ?? 'default', parent);
+        } else if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+            this.add(statement, 'interface', statement.name.text, parent);
+        } else if (ts.isModuleDeclaration(statement)) {
+            const chunk = this.add(statement, 'block', statement.name.getText(this.sourceFile), parent);
+            this.visitStatements((statement.body as ts.ModuleBlock).statements, chunk);
+        } else if (ts.isVariableStatement(statement)) {
+            const declaration = statement.declarationList.declarations[0];
+            this.addValue(statement, declaration.name.getText(this.sourceFile), declaration.initializer, parent);
+        } else if (ts.isExportAssignment(statement)) {
+            this.addValue(statement, 'default', statement.expression, parent);
+        } else if (ts.isExpressionStatement(statement)) {
+            const assigned = this.assignment(statement.expression);
+            if (assigned) {
+                this.addValue(statement, assigned.left.getText(this.sourceFile), assigned.right, parent);
+            }
+        }
+    }
+
+    /**
+     * The function, class or object literal a variable or export holds, seen
+     * through parentheses, type assertions and wrapper calls such as
+     * `memo(() => ...)`.
+     */
+    private declaredValue(expression: ts.Expression | undefined): FunctionLike | ts.ClassExpression | ts.ObjectLiteralExpression | null {
+        if (!expression) {
+            return null;
+        }
+
+        const value = this.unwrap(expression);
+        if (ts.isArrowFunction(value) || ts.isFunctionExpression(value) || ts.isClassExpression(value)) {
+            return value;
+        }
+        if (ts.isObjectLiteralExpression(value)) {
+            return value.properties.some(property => this.isFunctionMember(property)) ? value : null;
+        }
+        if (ts.isCallExpression(value)) {
+            const wrapped = value.arguments.map(argument => this.unwrap(argument)).find(argument => this.isFunctionLike(argument));
+            return wrapped ? wrapped as FunctionLike : null;
+        }
+        return null;
+    }
+
+    private addValue(statement: ts.Statement, name: string, expression: ts.Expression | undefined, parent?: PendingChunk): void {
+        const value = this.declaredValue(expression);
+
+        if (!value) {
+            this.add(statement, 'block', name, parent);
+        } else if (ts.isClassExpression(value)) {
+            this.addClass(value, name, parent, statement);
+        } else if (ts.isObjectLiteralExpression(value)) {
+            const chunk = this.add(statement, 'block', name, parent);
+            this.visitObjectMembers(value, chunk);
+        } else {
+            const chunk = this.add(statement, 'function', name, parent);
+            this.elideBody(chunk, value.body);
+        }
+    }
+
+    private addClass(node: ts.ClassLikeDeclaration, name: string, parent?: PendingChunk, statement?: ts.Statement): void {
+        const chunk = this.add(statement ?? node, 'class', name, parent);
+
+        for (const member of node.members) {
+            if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isAccessor(member)) {
+                const memberName = ts.isConstructorDeclaration(member) ? 'constructor' : member.name.getText(this.sourceFile);
+                const child = this.add(member, 'function', memberName, chunk);
+                this.elideBody(child, member.body);
+            } else if (ts.isPropertyDeclaration(member) && member.initializer && this.isFunctionLike(this.unwrap(member.initializer))) {
+                const child = this.add(member, 'function', member.name.getText(this.sourceFile), chunk);
+                this.elideBody(child, (this.unwrap(member.initializer) as FunctionLike).body);
+            }
+        }
+    }
+
+    private visitObjectMembers(object: ts.ObjectLiteralExpression, parent: PendingChunk): void {
+        for (const property of object.properties) {
+            if (ts.isMethodDeclaration(property) || ts.isAccessor(property)) {
+                const child = this.add(property, 'function', property.name.getText(this.sourceFile), parent);
+                this.elideBody(child, property.body);
+            } else if (ts.isPropertyAssignment(property)) {
+                const value = this.unwrap(property.initializer);
+                const name = property.name.getText(this.sourceFile);
+
+                if (this.isFunctionLike(value)) {
+                    const child = this.add(property, 'function', name, parent);
+                    this.elideBody(child, (value as FunctionLike).body);
+                } else if (ts.isObjectLiteralExpression(value) && value.properties.some(member => this.isFunctionMember(member))) {
+                    this.visitObjectMembers(value, this.add(property, 'block', name, parent));
+                }
+            }
+        }
+    }
+
+    private isFunctionMember(property: ts.ObjectLiteralElementLike): boolean {
+        if (ts.isMethodDeclaration(property) || ts.isAccessor(property)) {
+            return true;
+        }
+        return ts.isPropertyAssignment(property) && this.isFunctionLike(this.unwrap(property.initializer));
+    }
+
+    private isFunctionLike(node: ts.Node): boolean {
+        return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+    }
+
+    private unwrap(expression: ts.Expression): ts.Expression {
+        let current = expression;
+        while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current)
+            || ts.isSatisfiesExpression(current) || ts.isTypeAssertionExpression(current)) {
+            current = current.expression;
+        }
+        return current;
+    }
+
+    // `module.exports = ...`, `exports.handler = ...`
+    private assignment(expression: ts.Expression): ts.BinaryExpression | null {
+        return ts.isBinaryExpression(expression)
+            && expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+            && ts.isPropertyAccessExpression(expression.left)
+            ? expression
+            : null;
+    }
+
+    private addBlock(statements: ts.Statement[], parent?: PendingChunk): void {
+        if (statements.length === 0) {
+            return;
+        }
+
+        const { start } = this.leadingComments(statements[0]);
+        const end = statements[statements.length - 1].end;
+
+        this.push({
+            chunk: this.newChunk('block', start, end, undefined, undefined, parent),
+            start,
+            end,
+            elided: [],
+            parent
+        });
+    }
+
+    private add(node: ts.Node, type: ChunkType, name: string, parent?: PendingChunk): PendingChunk {
+        const { start, docComment } = this.leadingComments(node);
+        const qualifiedName = parent?.chunk.symbolName ? `${parent.chunk.symbolName}.${name}` : name;
+
+        return this.push({
+            chunk: this.newChunk(type, start, node.end, qualifiedName, docComment, parent),
+            start,
+            end: node.end,
+            elided: [],
+            parent
+        });
+    }
+
+    private push(pending: PendingChunk): PendingChunk {
+        this.pending.push(pending);
+        return pending;
+    }
+
+    private newChunk(type: ChunkType, start: number, end: number, symbolName?: string, docComment?: string, parent?: PendingChunk): ICodeChunk {
+        return {
+            id: `chunk_${this.nextId++}`,
+            content: '',
+            startLine: this.lineOf(start),
+            endLine: this.lineOf(Math.max(start, end - 1)),
+            type,
+            ...(symbolName && { symbolName }),
+            ...(docComment && { docComment }),
+            ...(parent && { parentId: parent.chunk.id })
+        };
+    }
+
+    // Every ancestor shows the function's signature but not its body
+    private elideBody(chunk: PendingChunk, body: ts.Node | undefined): void {
+        if (!body || !ts.isBlock(body)) {
+            return;
+        }
+
+        for (let ancestor = chunk.parent; ancestor; ancestor = ancestor.parent) {
+            const range: [number, number] = [body.getStart(this.sourceFile), body.end];
+            // A body inside one that is already elided is gone anyway
+            if (!ancestor.elided.some(([from, to]) => from <= range[0] && range[1] <= to)) {
+                ancestor.elided.push(range);
+            }
+        }
+    }
+
+    /**
+     * Where a node's chunk starts, and its doc comment: the comments directly
+     * above it (no blank line in between) are part of it.
+     */
+    private leadingComments(node: ts.Node): { start: number; docComment?: string } {
+        const text = this.sourceFile.text;
+        const nodeStart = node.getStart(this.sourceFile);
+        const ranges = ts.getLeadingCommentRanges(text, node.pos) || [];
+
+        let start = nodeStart;
+        const attached: ts.CommentRange[] = [];
+        for (let i = ranges.length - 1; i >= 0; i--) {
+            const gap = text.substring(ranges[i].end, start);
+            if ((gap.match(/\n/g) || []).length > 1) break;
+            attached.unshift(ranges[i]);
+            start = ranges[i].pos;
+        }
+
+        const docComment = attached.map(range => text.substring(range.pos, range.end)).join('\n');
+        return { start, docComment: docComment || undefined };
+    }
+
+    private lineOf(position: number): number {
+        return this.sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+    }
+}
+
+/**
+ * Definitions from the declarations of a source file, then references from
+ * every identifier that isn't a definition's own name.
+ */
+class SymbolCollector {
+    private definitions: ISymbolDefinition[] = [];
+    private declarationNames = new Set<ts.Node>();
+    private exported: Set<string>;
+
+    constructor(private sourceFile: ts.SourceFile, exports: string[]) {
+        this.exported = new Set(exports);
+    }
+
+    collect(): FileSymbols {
+        this.visitStatements(this.sourceFile.statements);
+
+        const references: ISymbolReference[] = [];
+        const visit = (node: ts.Node): void => {
+            if (ts.isIdentifier(node) && node.text.length > 1 && !this.declarationNames.has(node)) {
+                const { line, character } = this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile));
+                const container = innermost(this.definitions, line + 1);
+                references.push({
+                    name: node.text,
+                    line: line + 1,
+                    column: character + 1,
+                    ...(container && { container: container.qualifiedName })
+                });
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(this.sourceFile);
+
+        return { definitions: this.definitions, references };
+    }
+
+    private visitStatements(statements: ts.NodeArray<ts.Statement>, container?: ISymbolDefinition): void {
+        for (const statement of statements) {
+            if (ts.isFunctionDeclaration(statement) && statement.name) {
+                this.define(statement, statement.name, 'function', this.head(statement, statement.body), container);
+            } else if (ts.isClassDeclaration(statement) && statement.name) {
+                this.visitClass(statement, statement.name, statement, container);
+            } else if (ts.isInterfaceDeclaration(statement)) {
+                const definition = this.define(statement, statement.name, 'interface', this.head(statement, statement.members), container);
+                this.visitTypeMembers(statement.members, definition);
+            } else if (ts.isTypeAliasDeclaration(statement)) {
+                this.define(statement, statement.name, 'type', this.head(statement), container);
+            } else if (ts.isEnumDeclaration(statement)) {
+                this.define(statement, statement.name, 'enum', this.head(statement, statement.members), container);
+            } else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)
+                && statement.body && ts.isModuleBlock(statement.body)) {
+                const definition = this.define(statement, statement.name, 'namespace', this.head(statement, statement.body), container);
+                this.visitStatements(statement.body.statements, definition);
+            } else if (ts.isVariableStatement(statement)) {
+                for (const declaration of statement.declarationList.declarations) {
+                    this.visitVariable(statement, declaration, container);
+                }
+            }
+        }
+    }
+
+    private visitVariable(statement: ts.VariableStatement, declaration: ts.VariableDeclaration, container?: ISymbolDefinition): void {
+        if (!ts.isIdentifier(declaration.name)) {
+            return;
+        }
+
+        const value = declaration.initializer && this.unwrap(declaration.initializer);
+        // The keyword, so `const x` rather than `x`
+        const keyword = statement.declarationList.getFirstToken(this.sourceFile)?.getText(this.sourceFile) ?? '';
+        const node = statement.declarationList.declarations.length === 1 ? statement : declaration;
+
+        if (value && (ts.isArrowFunction(value) || ts.isFunctionExpression(value))) {
+            const signature = `${keyword} ${this.head(declaration, value.body)}`;
+            this.define(node, declaration.name, 'function', signature, container);
+        } else if (value && ts.isClassExpression(value)) {
+            this.visitClass(value, declaration.name, node, container);
+        } else {
+            const signature = `${keyword} ${this.head(declaration, declaration.initializer)}`;
+            const definition = this.define(node, declaration.name, 'variable', signature, container);
+            if (value && ts.isObjectLiteralExpression(value)) {
+                this.visitObjectMembers(value, definition);
+            }
+        }
+    }
+
+    private visitClass(node: ts.ClassLikeDeclaration, name: ts.Identifier, statement: ts.Node, container?: ISymbolDefinition): void {
+        const definition = this.define(statement, name, 'class', this.head(node, node.members), container);
+
+        for (const member of node.members) {
+            if (!member.name || ts.isComputedPropertyName(member.name) || ts.isPrivateIdentifier(member.name)) {
+                continue;
+            }
+            if (ts.isMethodDeclaration(member) || ts.isAccessor(member)) {
+                this.define(member, member.name, 'method', this.head(member, member.body), definition);
+            } else if (ts.isPropertyDeclaration(member)) {
+                const value = member.initializer && this.unwrap(member.initializer);
+                const isFunction = value && (ts.isArrowFunction(value) || ts.isFunctionExpression(value));
+                this.define(member, member.name, isFunction ? 'method' : 'property',
+                    this.head(member, isFunction ? value.body : member.initializer), definition);
+            }
+        }
+    }
+
+    private visitTypeMembers(members: ts.NodeArray<ts.TypeElement>, container: ISymbolDefinition): void {
+        for (const member of members) {
+            if (member.name && !ts.isComputedPropertyName(member.name) && !ts.isPrivateIdentifier(member.name)) {
+                const kind = ts.isMethodSignature(member) ? 'method' : 'property';
+                this.define(member, member.name, kind, this.head(member), container);
+            }
+        }
+    }
+
+    private visitObjectMembers(object: ts.ObjectLiteralExpression, container: ISymbolDefinition): void {
+        for (const property of object.properties) {
+            if (!property.name || ts.isComputedPropertyName(property.name) || ts.isPrivateIdentifier(property.name)) {
+                continue;
+            }
+            if (ts.isMethodDeclaration(property) || ts.isAccessor(property)) {
+                this.define(property, property.name, 'method', this.head(property, property.body), container);
+            } else if (ts.isPropertyAssignment(property)) {
+                const value = this.unwrap(property.initializer);
+                if (ts.isArrowFunction(value) || ts.isFunctionExpression(value)) {
+                    this.define(property, property.name, 'method', this.head(property, value.body), container);
+                }
+            }
+        }
+    }
+
+    private define(
+        node: ts.Node,
+        nameNode: ts.PropertyName,
+        kind: SymbolKind,
+        signature: string,
+        container?: ISymbolDefinition
+    ): ISymbolDefinition {
+        const name = ts.isIdentifier(nameNode) || ts.isStringLiteral(nameNode) || ts.isNumericLiteral(nameNode)
+            ? nameNode.text
+            : nameNode.getText(this.sourceFile);
+        const start = node.getStart(this.sourceFile);
+
+        const definition: ISymbolDefinition = {
+            name,
+            qualifiedName: container ? `${container.qualifiedName}.${name}` : name,
+            kind,
+            signature,
+            startLine: this.lineOf(start),
+            endLine: this.lineOf(Math.max(start, node.end - 1)),
+            // Members of an exported declaration are reachable through it
+            exported: container ? container.exported : this.exported.has(name)
+        };
+
+        this.declarationNames.add(nameNode);
+        this.definitions.push(definition);
+        return definition;
+    }
+
+    // A declaration's text up to where its body, members or initializer start
+    private head(node: ts.Node, body?: ts.Node | ts.NodeArray<ts.Node>): string {
+        const start = node.getStart(this.sourceFile);
+        // A member list starts after its brace, a body or initializer at its first token
+        const end = !body
+            ? node.end
+            : 'kind' in body ? body.getStart(this.sourceFile) : body.pos - 1;
+
+        const text = this.sourceFile.text.substring(start, end)
+            .replace(/\s+/g, ' ')
+            .replace(/\s*(?:=>|=|\{)?\s*$/, '')
+            .replace(/;$/, '');
+        return text.length > MAX_SIGNATURE_LENGTH ? `${text.substring(0, MAX_SIGNATURE_LENGTH - 3)}...` : text;
+    }
+
+    private unwrap(expression: ts.Expression): ts.Expression {
+        let current = expression;
+        while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current)
+            || ts.isSatisfiesExpression(current) || ts.isTypeAssertionExpression(current)) {
+            current = current.expression;
+        }
+        return current;
+    }
+
+    private lineOf(position: number): number {
+        return this.sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+    }
+}
+
+export const typeScriptAnalyzer = new TypeScriptAnalyzer('typescript', ['.ts', '.tsx', '.mts', '.cts']);
+export const javaScriptAnalyzer = new TypeScriptAnalyzer('javascript', ['.js', '.jsx', '.mjs', '.cjs']);
@@ -0,0 +1,60 @@
+import { ICodeChunk } from '../../models/Chunk';
+import { LanguageAnalyzer } from './index';
+import { chunkSections, Section } from './blocks';
+
+// `key:` or `"quoted key":` at the start of a line
+const TOP_LEVEL_KEY = /^(?:"([^"]+)"|'([^']+)'|([^\s#'"?&*!|>%@`{[\]-][^:#]*?))\s*:(?:\s|$)/;
+const DOCUMENT_MARKER = /^(---|\.\.\.)(\s|$)/;
+
+/**
+ * YAML: one chunk per top-level key in each document, with the comments and
+ * document marker directly above the key. Keys holding a single line are
+ * merged into one block.
+ */
+export class YamlAnalyzer implements LanguageAnalyzer {
+    readonly language = 'yaml';
+    readonly extensions = ['.yml', '.yaml'];
+
+    chunk(content: string): ICodeChunk[] {
+        const lines = content.split('\n');
+        const sections: Section[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            if (DOCUMENT_MARKER.test(lines[i])) {
+                this.close(sections, i - 1);
+                continue;
+            }
+
+            const key = lines[i].match(TOP_LEVEL_KEY);
+            if (!key) continue;
+
+            let start = i;
+            while (start > 0 && (lines[start - 1].startsWith('#') || DOCUMENT_MARKER.test(lines[start - 1]))) {
+                start--;
+            }
+            this.close(sections, start - 1);
+            sections.push({ name: key[1] ?? key[2] ?? key[3], start, end: -1 });
+        }
+        this.close(sections, lines.length - 1);
+
+        return chunkSections(content, sections);
+    }
+
+    extractImports(): string[] {
+        return [];
+    }
+
+    extractExports(): string[] {
+        return [];
+    }
+
+    // End the open section, if any, at `end`
+    private close(sections: Section[], end: number): void {
+        const last = sections[sections.length - 1];
+        if (last && last.end === -1) {
+            last.end = Math.max(last.start, end);
+        }
+    }
+}
+
+export const yamlAnalyzer = new YamlAnalyzer();
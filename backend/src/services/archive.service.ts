@@ -0,0 +1,136 @@
+import fs from 'fs/promises';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { FileProcessorService } from './fileProcessor.service';
+import { CustomError } from '../middleware/errorHandler';
+import { ArchiveEntry, isArchive, readArchive } from '../utils/archive';
+import { validatePath } from '../utils/security';
+import { isBinaryContent } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export interface ExtractedFile {
+    // Relative to the repository root, with forward slashes
+    relativePath: string;
+    // Where the file was written
+    diskPath: string;
+    content: string;
+    size: number;
+}
+
+export interface ArchiveExtraction {
+    files: ExtractedFile[];
+    // Excluded, gitignored, binary or oversized entries
+    skipped: number;
+}
+
+/**
+ * Unpacks uploaded `.zip` and `.tar.gz` archives into a directory, keeping
+ * each file's path within the repository. Any entry whose path could escape
+ * the directory (zip-slip) rejects the whole archive. Files matching the
+ * upload exclusions or a `.gitignore` anywhere in the archive are skipped, as
+ * are binary files and files over the upload size limit.
+ */
+export class ArchiveService {
+    constructor(
+        private maxEntries = parseInt(process.env.ARCHIVE_MAX_FILES || '5000'),
+        private maxExtractedSize = parseInt(process.env.ARCHIVE_MAX_EXTRACTED_SIZE || '104857600'),
+        private maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '10485760')
+    ) {}
+
+    isArchive(fileName: string): boolean {
+        return isArchive(fileName);
+    }
+
+    async extract(archivePath: string, archiveName: string, destination: string): Promise<ArchiveExtraction> {
+        let entries: ArchiveEntry[];
+        try {
+            entries = readArchive(await fs.readFile(archivePath), archiveName, {
+                maxEntries: this.maxEntries,
+                maxTotalSize: this.maxExtractedSize
+            });
+        } catch (error) {
+            throw new CustomError(`Could not read archive ${archiveName}: ${(error as Error).message}`, 400);
+        }
+
+        for (const entry of entries) {
+            if (!validatePath(entry.path)) {
+                throw new CustomError(`Archive ${archiveName} contains an unsafe path: ${entry.path}`, 400);
+            }
+        }
+
+        const relativeEntries = ArchiveService.stripCommonRoot(entries);
+        const ignores = ArchiveService.collectGitignores(relativeEntries);
+        const root = path.resolve(destination);
+        const files: ExtractedFile[] = [];
+
+        for (const entry of relativeEntries) {
+            if (!FileProcessorService.shouldProcessFile(entry.path)
+                || ArchiveService.isIgnored(entry.path, ignores)
+                || entry.data.length > this.maxFileSize
+                || isBinaryContent(entry.data)) {
+                continue;
+            }
+
+            // validatePath already rejected traversal; this keeps writes inside regardless
+            const diskPath = path.resolve(root, entry.path);
+            if (!diskPath.startsWith(root + path.sep)) {
+                throw new CustomError(`Archive ${archiveName} contains an unsafe path: ${entry.path}`, 400);
+            }
+
+            await fs.mkdir(path.dirname(diskPath), { recursive: true });
+            await fs.writeFile(diskPath, entry.data);
+
+            files.push({
+                relativePath: entry.path,
+                diskPath,
+                content: entry.data.toString('utf-8'),
+                size: entry.data.length
+            });
+        }
+
+        logger.info(`Extracted ${files.length} of ${entries.length} files from archive ${archiveName}`);
+        return { files, skipped: entries.length - files.length };
+    }
+
+    /**
+     * Archives of a repository usually wrap it in one folder (`repo-main/`),
+     * which isn't part of any file's path within the repository.
+     */
+    private static stripCommonRoot(entries: ArchiveEntry[]): ArchiveEntry[] {
+        const normalized = entries.map(entry => ({ ...entry, path: entry.path.replace(/\\/g, '/').replace(/^(\.\/)+/, '') }));
+        const roots = new Set(normalized.map(entry => entry.path.split('/')[0]));
+        const [root] = roots;
+
+        if (roots.size !== 1 || !normalized.every(entry => entry.path.startsWith(`${root}/`))) {
+            return normalized;
+        }
+        return normalized.map(entry => ({ ...entry, path: entry.path.substring(root.length + 1) }));
+    }
+
+    // Rules of each `.gitignore`, keyed by the directory it applies to ('' for the root)
+    private static collectGitignores(entries: ArchiveEntry[]): Map<string, Ignore> {
+        const ignores = new Map<string, Ignore>();
+
+        for (const entry of entries) {
+            if (path.posix.basename(entry.path) === '.gitignore') {
+                const directory = path.posix.dirname(entry.path);
+                ignores.set(directory === '.' ? '' : directory, ignore().add(entry.data.toString('utf-8')));
+            }
+        }
+
+        return ignores;
+    }
+
+    private static isIgnored(filePath: string, ignores: Map<string, Ignore>): boolean {
+        for (const [directory, rules] of ignores) {
+            if (directory === '') {
+                if (rules.ignores(filePath)) return true;
+            } else if (filePath.startsWith(`${directory}/`) && rules.ignores(filePath.substring(directory.length + 1))) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
+
+export const archiveService = new ArchiveService();
@@ -1,6 +1,9 @@
 import crypto from 'crypto';
-import { User, IUser } from '../models/User';
+import { User, IUser, ILLMProviderSettings } from '../models/User';
 import { generateToken } from '../middleware/auth';
+import { llmClientPool } from './llmClientPool.service';
+import { LLMProviderName } from './providers';
+import { baseUrlOrigin } from '../utils/security';
 import { logger } from '../utils/logger';
 
 export interface LoginCredentials {
@@ -143,6 +146,9 @@ export class AuthService {
                 throw new Error('User not found');
             }
 
+            // Drop clients built from the previous key
+            llmClientPool.evictUser(userId);
+
             logger.info(`API key updated for user: ${user.email}`);
         } catch (error) {
             logger.error('API key update error:', error);
@@ -150,6 +156,32 @@ export class AuthService {
         }
     }
 
+    private async isCredentialForOtherEndpoint(userId: string, settings: ILLMProviderSettings): Promise<boolean> {
+        const user = await User.findById(userId).select('+providerCredentials');
+        const credential = settings.name === 'openai' || settings.name === 'ollama'
+            ? user?.providerCredentials?.[settings.name]
+            : undefined;
+        return Boolean(credential) && baseUrlOrigin(credential?.baseUrl) !== baseUrlOrigin(settings.baseUrl);
+    }
+
+    // Whether a key is stored for the provider; Gemini's is `apiKey`
+    async hasProviderApiKey(userId: string, name: LLMProviderName): Promise<boolean> {
+        try {
+            const user = await User.findById(userId).select('+apiKey +providerCredentials');
+            if (!user) {
+                throw new Error('User not found');
+            }
+
+            if (name === 'gemini') {
+                return Boolean(user.apiKey);
+            }
+            return (name === 'openai' || name === 'ollama') && Boolean(user.providerCredentials?.[name]?.apiKey);
+        } catch (error) {
+            logger.error('Get provider API key error:', error);
+            throw error;
+        }
+    }
+
     async getApiKey(userId: string): Promise<string | null> {
         try {
             const user = await User.findById(userId).select('+apiKey');
@@ -164,6 +196,46 @@ export class AuthService {
         }
     }
 
+    /**
+     * Save the provider settings. For the OpenAI-compatible and Ollama
+     * providers, `apiKey` is stored as that provider's key, bound to the base
+     * URL it is saved with; an empty string removes it. Leaving it out keeps
+     * the stored key, unless the base URL now points somewhere else.
+     */
+    async updateLLMProvider(userId: string, settings: ILLMProviderSettings, apiKey?: string): Promise<ILLMProviderSettings> {
+        try {
+            const update: Record<string, unknown> = { llmProvider: settings };
+            const unset: Record<string, ''> = {};
+            if (settings.name === 'openai' || settings.name === 'ollama') {
+                const path = `providerCredentials.${settings.name}`;
+                if (apiKey) {
+                    update[path] = { apiKey, baseUrl: settings.baseUrl };
+                } else if (apiKey === '' || await this.isCredentialForOtherEndpoint(userId, settings)) {
+                    unset[path] = '';
+                }
+            }
+
+            const user = await User.findByIdAndUpdate(
+                userId,
+                { ...update, ...(Object.keys(unset).length > 0 && { $unset: unset }) },
+                { new: true, runValidators: true }
+            );
+
+            if (!user) {
+                throw new Error('User not found');
+            }
+
+            // Drop clients built from the previous provider settings
+            llmClientPool.evictUser(userId);
+
+            logger.info(`LLM provider set to ${settings.name} for user: ${user.email}`);
+            return user.llmProvider;
+        } catch (error) {
+            logger.error('LLM provider update error:', error);
+            throw error;
+        }
+    }
+
     async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
         try {
             const user = await User.findById(userId).select('+password');
@@ -258,6 +330,7 @@ export class AuthService {
             }
 
             await User.findByIdAndDelete(userId);
+            llmClientPool.evictUser(userId);
 
             logger.info(`Account deleted for user: ${user.email}`);
         } catch (error) {
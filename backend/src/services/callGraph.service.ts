@@ -0,0 +1,270 @@
+import mongoose from 'mongoose';
+import { Chunk, ChunkType, ICallSite, IChunk } from '../models/Chunk';
+import { File } from '../models/File';
+import { FileProcessorService } from './fileProcessor.service';
+import { SymbolScope, SymbolIndexService } from './symbolIndex.service';
+import { logger } from '../utils/logger';
+
+// The fields of a chunk the call graph is built from
+export type CallGraphChunk = Pick<IChunk, 'fileId' | 'chunkId' | 'symbolName' | 'type' | 'startLine' | 'endLine' | 'calls'>;
+
+export interface CallGraphLocation {
+    fileId: string;
+    filePath: string;
+    chunkId: string;
+    symbolName?: string;
+    type: ChunkType;
+    startLine: number;
+    endLine: number;
+}
+
+export interface CallerMatch extends CallGraphLocation {
+    // Lines of the chunk where the call is made
+    lines: number[];
+}
+
+export interface CalleeMatch {
+    name: string;
+    lines: number[];
+    // Empty for calls to functions outside the session, such as library calls
+    definitions: CallGraphLocation[];
+}
+
+// A chunk pulled in because a retrieved chunk calls it or is called by it
+export interface RelatedChunk<T extends CallGraphChunk> {
+    chunk: T;
+    relation: 'caller' | 'callee';
+    // Name of the function the relation is through
+    via: string;
+}
+
+const CALLABLE_TYPES: ChunkType[] = ['function', 'class'];
+const GRAPH_FIELDS = 'fileId chunkId symbolName type startLine endLine calls';
+
+// Languages that call each other's functions
+const LANGUAGE_GROUPS: Record<string, string> = {
+    javascript: 'typescript'
+};
+
+// `AuthService.login` is called as `login`
+const leafName = (symbolName: string): string => symbolName.substring(symbolName.lastIndexOf('.') + 1);
+
+/**
+ * Caller and callee relations between the chunks of a scope. Calls are
+ * resolved by name, so `login()` may resolve to any function called `login`
+ * in a language that can call it; `definitionsOf` narrows that down where it
+ * can.
+ */
+export class CallGraph<T extends CallGraphChunk> {
+    private definitions = new Map<string, T[]>();
+    private callers = new Map<string, T[]>();
+    // Parts of split functions, by file and name
+    private parts = new Map<string, T[]>();
+
+    // `languages` maps file ids to their language
+    constructor(chunks: T[], private languages: Map<string, string> = new Map()) {
+        for (const chunk of chunks) {
+            if (chunk.symbolName && CALLABLE_TYPES.includes(chunk.type)) {
+                const key = `${String(chunk.fileId)}:${chunk.symbolName}`;
+                const parts = this.parts.get(key) || [];
+                parts.push(chunk);
+                this.parts.set(key, parts);
+
+                // The first part stands for the function
+                if (parts.length === 1) {
+                    const name = leafName(chunk.symbolName);
+                    this.definitions.set(name, [...(this.definitions.get(name) || []), chunk]);
+                }
+            }
+
+            for (const name of new Set((chunk.calls || []).map(call => call.name))) {
+                const calling = this.callers.get(name) || [];
+                calling.push(chunk);
+                this.callers.set(name, calling);
+            }
+        }
+    }
+
+    /**
+     * Functions and classes a call by this name may reach. With `fromFileId`,
+     * only those in a language that file can call count and one in that file
+     * wins over the others; calls matching more than `maxAmbiguous`
+     * definitions elsewhere (`get`, `push`) resolve to none.
+     */
+    definitionsOf(name: string, fromFileId?: string, maxAmbiguous = Infinity): T[] {
+        let named = this.definitions.get(name) || [];
+        if (fromFileId) {
+            const group = this.languageGroup(fromFileId);
+            named = named.filter(chunk => this.languageGroup(String(chunk.fileId)) === group);
+
+            const local = named.filter(chunk => String(chunk.fileId) === fromFileId);
+            if (local.length > 0) {
+                return local;
+            }
+        }
+        return named.length <= maxAmbiguous ? named : [];
+    }
+
+    callersOf(name: string): T[] {
+        return this.callers.get(name) || [];
+    }
+
+    // Names the chunk calls, each with the lines it is called from, over all parts of a split function
+    callsFrom(chunk: T): Map<string, number[]> {
+        const parts = chunk.symbolName ? this.parts.get(`${String(chunk.fileId)}:${chunk.symbolName}`) || [chunk] : [chunk];
+        const byName = new Map<string, number[]>();
+        for (const call of parts.flatMap(part => part.calls || [])) {
+            const lines = byName.get(call.name) || [];
+            if (!lines.includes(call.line)) {
+                byName.set(call.name, [...lines, call.line]);
+            }
+        }
+        return byName;
+    }
+
+    /**
+     * Callers, then callees, of the retrieved chunks that are functions or
+     * classes, at most `limit` of them and none of the retrieved chunks
+     * themselves.
+     */
+    related(retrieved: T[], limit: number, maxAmbiguous: number): Array<RelatedChunk<T>> {
+        const key = (chunk: T) => `${String(chunk.fileId)}:${chunk.chunkId}`;
+        const seen = new Set(retrieved.map(key));
+        const callers: Array<RelatedChunk<T>> = [];
+        const callees: Array<RelatedChunk<T>> = [];
+
+        for (const chunk of retrieved) {
+            if (!chunk.symbolName || !CALLABLE_TYPES.includes(chunk.type)) continue;
+            const name = leafName(chunk.symbolName);
+
+            for (const caller of this.callersOf(name)) {
+                if (!seen.has(key(caller))) {
+                    seen.add(key(caller));
+                    callers.push({ chunk: caller, relation: 'caller', via: name });
+                }
+            }
+
+            for (const callee of this.callsFrom(chunk).keys()) {
+                for (const definition of this.definitionsOf(callee, String(chunk.fileId), maxAmbiguous)) {
+                    if (!seen.has(key(definition))) {
+                        seen.add(key(definition));
+                        callees.push({ chunk: definition, relation: 'callee', via: chunk.symbolName });
+                    }
+                }
+            }
+        }
+
+        return [...callers, ...callees].slice(0, limit);
+    }
+
+    private languageGroup(fileId: string): string | undefined {
+        const language = this.languages.get(fileId);
+        return language && (LANGUAGE_GROUPS[language] || language);
+    }
+}
+
+/**
+ * Serves call graph queries over stored chunks. Chunks stored before call
+ * sites were extracted get them on first use.
+ */
+export class CallGraphService {
+    /**
+     * Extract call sites for the files among `fileIds` that have chunks
+     * without them, and store them on those chunks.
+     */
+    async ensureCalls(fileIds: string[]): Promise<void> {
+        try {
+            const stale: mongoose.Types.ObjectId[] = await Chunk.distinct('fileId', {
+                fileId: { $in: fileIds },
+                calls: { $exists: false }
+            });
+            if (stale.length === 0) {
+                return;
+            }
+
+            const files = await File.find({ _id: { $in: stale } }).select('originalName relativePath language content');
+            for (const file of files) {
+                const filePath = file.relativePath || file.originalName;
+                const stored = await Chunk.find({ fileId: file._id }).select('startLine endLine');
+                const chunks: Array<{ _id: unknown; startLine: number; endLine: number; calls?: ICallSite[] }> = stored
+                    .map(chunk => ({ _id: chunk._id, startLine: chunk.startLine, endLine: chunk.endLine }));
+                FileProcessorService.attachCalls(chunks, FileProcessorService.extractCalls(file.content, file.language, filePath));
+
+                await Chunk.bulkWrite(chunks.map(chunk => ({
+                    updateOne: {
+                        filter: { _id: chunk._id },
+                        update: { $set: { calls: chunk.calls || [] } }
+                    }
+                })), { timestamps: false });
+            }
+
+            logger.info(`Extracted call sites for ${files.length} files`);
+        } catch (error) {
+            logger.error('Error extracting call sites:', error);
+            throw error;
+        }
+    }
+
+    async load(scope: SymbolScope): Promise<{ graph: CallGraph<IChunk>; paths: Map<string, string> }> {
+        const files = await File.find(SymbolIndexService.scopeQuery(scope)).select('originalName relativePath language');
+        const fileIds = files.map(file => String(file._id));
+        await this.ensureCalls(fileIds);
+
+        const chunks = await Chunk.find({ fileId: { $in: fileIds } }).select(GRAPH_FIELDS);
+        return {
+            graph: new CallGraph(chunks, new Map(files.map(file => [String(file._id), file.language]))),
+            paths: new Map(files.map(file => [String(file._id), file.relativePath || file.originalName]))
+        };
+    }
+
+    // Chunks that call a function by this name, in path and line order
+    async findCallers(scope: SymbolScope, name: string): Promise<CallerMatch[]> {
+        const { graph, paths } = await this.load(scope);
+        const leaf = leafName(name);
+
+        return graph.callersOf(leaf)
+            .map(chunk => ({
+                ...toLocation(chunk, paths),
+                lines: (chunk.calls || []).filter(call => call.name === leaf).map(call => call.line)
+            }))
+            .sort(byPosition);
+    }
+
+    /**
+     * What the functions by this name call, merged over all of them, with
+     * the definitions each call may reach.
+     */
+    async findCallees(scope: SymbolScope, name: string, fromFileId?: string): Promise<CalleeMatch[]> {
+        const { graph, paths } = await this.load(scope);
+        const callees = new Map<string, CalleeMatch>();
+
+        for (const definition of graph.definitionsOf(leafName(name), fromFileId)) {
+            for (const [callee, lines] of graph.callsFrom(definition)) {
+                const match = callees.get(callee) || {
+                    name: callee,
+                    lines: [],
+                    definitions: graph.definitionsOf(callee, String(definition.fileId)).map(chunk => toLocation(chunk, paths))
+                };
+                match.lines.push(...lines);
+                callees.set(callee, match);
+            }
+        }
+
+        return [...callees.values()].sort((a, b) => a.lines[0] - b.lines[0]);
+    }
+}
+
+const toLocation = (chunk: CallGraphChunk, paths: Map<string, string>): CallGraphLocation => ({
+    fileId: String(chunk.fileId),
+    filePath: paths.get(String(chunk.fileId)) || '',
+    chunkId: chunk.chunkId,
+    ...(chunk.symbolName && { symbolName: chunk.symbolName }),
+    type: chunk.type,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine
+});
+
+const byPosition = (a: CallGraphLocation, b: CallGraphLocation): number =>
+    a.filePath.localeCompare(b.filePath) || a.startLine - b.startLine;
+
+export const callGraphService = new CallGraphService();
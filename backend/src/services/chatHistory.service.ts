@@ -0,0 +1,163 @@
+import mongoose from 'mongoose';
+import { ChatSession, IChatSession, IMessage } from '../models/ChatSession';
+import { ChatTurn, LLMProvider } from './providers';
+import { estimateTokens } from '../utils/tokens';
+import { logger } from '../utils/logger';
+
+const SUMMARY_PREFIX = 'Summary of our earlier conversation:';
+const SUMMARY_ACK = 'Understood. I will keep that earlier context in mind.';
+const EXCERPT_LENGTH = 200;
+
+export class ChatHistoryService {
+    constructor(
+        private tokenBudget: number = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '4000'),
+        private summaryTokenBudget: number = parseInt(process.env.CHAT_HISTORY_SUMMARY_TOKENS || '500')
+    ) {}
+
+    /**
+     * Build the structured history sent to the model for a session. The newest
+     * turns are kept verbatim until the token budget is spent; anything older is
+     * folded into a running summary that is cached on the session.
+     */
+    async buildHistory(
+        sessionId: string,
+        userId: string,
+        currentMessage: string,
+        client: LLMProvider
+    ): Promise<ChatTurn[]> {
+        try {
+            if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+                return [];
+            }
+
+            const session = await ChatSession.findOne({
+                _id: new mongoose.Types.ObjectId(sessionId),
+                userId: new mongoose.Types.ObjectId(userId)
+            });
+
+            if (!session) {
+                return [];
+            }
+
+            const messages = session.messages.filter(message => message.content.trim().length > 0);
+
+            // The client may already have stored the message being answered
+            const last = messages[messages.length - 1];
+            if (last && last.role === 'user' && last.content.trim() === currentMessage.trim()) {
+                messages.pop();
+            }
+
+            const { recent, older } = this.splitByBudget(messages);
+            const turns: ChatTurn[] = recent.map(message => ({ role: message.role, content: message.content }));
+
+            if (older.length === 0) {
+                return turns;
+            }
+
+            const summary = await this.getSummary(session, older, client);
+            logger.info(`Summarized ${older.length} older messages for session ${sessionId}, keeping ${recent.length} verbatim`);
+
+            return [
+                { role: 'user', content: `${SUMMARY_PREFIX}\n${summary}` },
+                { role: 'assistant', content: SUMMARY_ACK },
+                ...turns
+            ];
+        } catch (error) {
+            logger.warn(`Could not build chat history for session ${sessionId}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Walk backwards from the newest message, keeping whole messages until the
+     * budget is exhausted.
+     */
+    private splitByBudget(messages: IMessage[]): { recent: IMessage[]; older: IMessage[] } {
+        let used = 0;
+        let index = messages.length;
+
+        while (index > 0) {
+            const tokens = estimateTokens(messages[index - 1].content);
+            if (used + tokens > this.tokenBudget) {
+                break;
+            }
+            used += tokens;
+            index--;
+        }
+
+        return {
+            recent: messages.slice(index),
+            older: messages.slice(0, index)
+        };
+    }
+
+    private async getSummary(session: IChatSession, older: IMessage[], client: LLMProvider): Promise<string> {
+        const throughMessageId = older[older.length - 1].id;
+        const cached = session.historySummary;
+
+        if (cached && cached.throughMessageId === throughMessageId) {
+            return cached.content;
+        }
+
+        // Only fold in what was not covered by the cached summary
+        const coveredIndex = cached ? older.findIndex(message => message.id === cached.throughMessageId) : -1;
+        const previousSummary = coveredIndex !== -1 ? cached?.content : undefined;
+        const uncovered = older.slice(coveredIndex + 1);
+
+        let content: string;
+        try {
+            content = await this.summarizeWithModel(uncovered, client, previousSummary);
+        } catch (error) {
+            logger.warn('Model summarization failed, falling back to extractive summary:', error);
+            content = this.summarizeExtractively(uncovered, previousSummary);
+        }
+
+        await ChatSession.updateOne(
+            { _id: session._id },
+            { historySummary: { content, throughMessageId, updatedAt: new Date() } }
+        );
+
+        return content;
+    }
+
+    private async summarizeWithModel(messages: IMessage[], client: LLMProvider, previousSummary?: string): Promise<string> {
+        const transcript = messages
+            .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+            .join('\n\n');
+
+        const prompt = `Summarize the following conversation between a developer and a coding assistant in at most ${this.summaryTokenBudget * 3} characters. Keep file names, function names, decisions and open questions. Reply with the summary only.
+
+${previousSummary ? `## Earlier summary\n${previousSummary}\n\n` : ''}## Conversation
+${transcript}`;
+
+        const summary = (await client.generate(prompt)).trim();
+        if (!summary) {
+            throw new Error('Empty summary');
+        }
+
+        return this.truncateToBudget(summary);
+    }
+
+    private summarizeExtractively(messages: IMessage[], previousSummary?: string): string {
+        const lines = messages.map(message => {
+            const excerpt = message.content.replace(/\s+/g, ' ').trim();
+            const shortened = excerpt.length > EXCERPT_LENGTH ? excerpt.substring(0, EXCERPT_LENGTH) + '...' : excerpt;
+            return `- ${message.role === 'user' ? 'User' : 'Assistant'}: ${shortened}`;
+        });
+
+        const combined = [previousSummary, ...lines].filter(Boolean).join('\n');
+        return this.truncateToBudget(combined, true);
+    }
+
+    // Keeps the head of model summaries, or the tail (newest lines) of extractive ones
+    private truncateToBudget(text: string, keepTail = false): string {
+        const maxChars = this.summaryTokenBudget * 4;
+        if (text.length <= maxChars) {
+            return text;
+        }
+
+        return keepTail ? '...' + text.substring(text.length - maxChars) : text.substring(0, maxChars) + '...';
+    }
+}
+
+export const chatHistoryService = new ChatHistoryService();
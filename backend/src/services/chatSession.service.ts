@@ -135,6 +135,52 @@ export class ChatSessionService {
         }
     }
 
+    /**
+     * Add a message and return the stored message rather than the session
+     */
+    async appendMessage(
+        sessionId: string,
+        userId: string,
+        messageData: Omit<IMessage, 'id' | 'timestamp'>
+    ): Promise<IMessage | null> {
+        if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+            return null;
+        }
+
+        const session = await this.addMessage(sessionId, userId, messageData);
+        if (!session) {
+            return null;
+        }
+
+        // Auto-generate title if this is the first user message
+        if (messageData.role === 'user' && session.messages.length === 1 && session.title === 'New Chat') {
+            await this.autoGenerateTitle(sessionId, userId, messageData.content);
+        }
+
+        return session.messages[session.messages.length - 1];
+    }
+
+    /**
+     * Store the user turn of a streamed exchange. Clients that still save the
+     * message themselves before streaming are detected and not duplicated.
+     */
+    async recordUserMessage(sessionId: string, userId: string, content: string): Promise<IMessage | null> {
+        const session = mongoose.Types.ObjectId.isValid(sessionId)
+            ? await this.getSession(sessionId, userId)
+            : null;
+
+        if (!session) {
+            return null;
+        }
+
+        const last = session.messages[session.messages.length - 1];
+        if (last && last.role === 'user' && last.content === content) {
+            return last;
+        }
+
+        return this.appendMessage(sessionId, userId, { content, role: 'user' });
+    }
+
     /**
      * Update a message in a chat session (for streaming updates)
      */
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Chunk, IChunk, ICodeChunk } from '../models/Chunk';
+import { File, IFile } from '../models/File';
+import { logger } from '../utils/logger';
+
+export interface ChunkEmbedding {
+    chunkId: string;
+    embedding: number[];
+}
+
+// One session's chunks, or all of a user's chunks when no session is given
+export interface ChunkScope {
+    sessionId?: string;
+    userId?: string;
+}
+
+export class ChunkService {
+    static hashContent(content: string): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    static scopeQuery(scope: ChunkScope): { sessionId: string } | { userId: string } {
+        if (scope.sessionId) {
+            return { sessionId: scope.sessionId };
+        }
+        if (scope.userId) {
+            return { userId: scope.userId };
+        }
+        throw new Error('A session or user is required to scope chunks');
+    }
+
+    // Cache key for per-scope indexes
+    static scopeKey(scope: ChunkScope): string {
+        return scope.sessionId ? `session:${scope.sessionId}` : `user:${scope.userId}`;
+    }
+
+    /**
+     * Replace the stored chunks of a file with freshly parsed ones. Chunks
+     * whose content is unchanged keep their embeddings, so a new version of a
+     * file only has its changed chunks embedded again.
+     */
+    async replaceChunksForFile(file: IFile, chunks: ICodeChunk[]): Promise<IChunk[]> {
+        try {
+            const embedded = await Chunk.find({ fileId: file._id, 'embedding.0': { $exists: true } })
+                .select('contentHash embedding embeddingModel embeddingDimension');
+            const vectors = new Map(embedded.map(chunk => [chunk.contentHash, chunk]));
+
+            await Chunk.deleteMany({ fileId: file._id });
+
+            const stored = await Chunk.insertMany(chunks.map((chunk, order) => {
+                const contentHash = ChunkService.hashContent(chunk.content);
+                const previous = vectors.get(contentHash);
+
+                return {
+                    fileId: file._id,
+                    userId: file.userId,
+                    sessionId: file.sessionId,
+                    chunkId: chunk.id,
+                    order,
+                    content: chunk.content,
+                    contentHash,
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    type: chunk.type,
+                    symbolName: chunk.symbolName,
+                    docComment: chunk.docComment,
+                    parentChunkId: chunk.parentId,
+                    calls: chunk.calls,
+                    embedding: previous?.embedding,
+                    embeddingModel: previous?.embeddingModel,
+                    embeddingDimension: previous?.embeddingDimension
+                };
+            }));
+
+            await File.updateOne({ _id: file._id }, { chunkCount: stored.length });
+            file.chunkCount = stored.length;
+
+            return stored as unknown as IChunk[];
+        } catch (error) {
+            logger.error('Error storing chunks for file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Chunks of one file in source order. Embeddings are left out unless asked for.
+     */
+    async getChunksForFile(fileId: string, withEmbeddings = false): Promise<IChunk[]> {
+        const query = Chunk.find({ fileId }).sort({ order: 1 });
+        return withEmbeddings ? query : query.select('-embedding');
+    }
+
+    /**
+     * Chunks of several files, grouped by file id and in source order, without embeddings.
+     */
+    async getChunksForFiles(fileIds: string[]): Promise<Map<string, IChunk[]>> {
+        const chunks = await Chunk.find({ fileId: { $in: fileIds } })
+            .select('-embedding')
+            .sort({ fileId: 1, order: 1 });
+
+        const byFile = new Map<string, IChunk[]>();
+        for (const chunk of chunks) {
+            const fileId = String(chunk.fileId);
+            const list = byFile.get(fileId) || [];
+            list.push(chunk);
+            byFile.set(fileId, list);
+        }
+        return byFile;
+    }
+
+    async storeEmbeddings(fileId: string, embeddings: ChunkEmbedding[], embeddingModel: string): Promise<void> {
+        if (embeddings.length === 0) {
+            return;
+        }
+
+        await Chunk.bulkWrite(embeddings.map(item => ({
+            updateOne: {
+                filter: { fileId: new mongoose.Types.ObjectId(fileId), chunkId: item.chunkId },
+                update: {
+                    $set: {
+                        embedding: item.embedding,
+                        embeddingModel,
+                        embeddingDimension: item.embedding.length
+                    }
+                }
+            }
+        })), { timestamps: false });
+    }
+
+    /**
+     * Vectors this user already has for the given contents under the given
+     * model, keyed by content hash. Lets re-uploads and copies of the same
+     * code in other files or sessions skip the embedding call entirely.
+     */
+    async findEmbeddingsByHash(userId: string, contentHashes: string[], embeddingModel: string): Promise<Map<string, number[]>> {
+        const found = new Map<string, number[]>();
+        if (contentHashes.length === 0) {
+            return found;
+        }
+
+        const chunks = await Chunk.find({
+            userId,
+            contentHash: { $in: contentHashes },
+            embeddingModel,
+            'embedding.0': { $exists: true }
+        }).select('contentHash embedding');
+
+        for (const chunk of chunks) {
+            if (!found.has(chunk.contentHash) && chunk.embedding) {
+                found.set(chunk.contentHash, chunk.embedding);
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Changes whenever chunks are added to or removed from a scope, so
+     * in-memory indexes can tell when to rebuild. Removals lower the count;
+     * inserts and session moves set `updatedAt`, which raises the latest.
+     * Embeddings and call sites are written without touching `updatedAt`,
+     * as the indexes don't read them.
+     */
+    async getFingerprint(scope: ChunkScope): Promise<string> {
+        const [stats] = await Chunk.aggregate<{ count: number; latest: Date }>([
+            { $match: ChunkService.scopeQuery(scope) },
+            { $group: { _id: null, count: { $sum: 1 }, latest: { $max: { $ifNull: ['$updatedAt', '$createdAt'] } } } }
+        ]);
+
+        return stats ? `${stats.count}:${new Date(stats.latest).getTime()}` : 'empty';
+    }
+
+    async assignSession(fileIds: string[], sessionId: string): Promise<void> {
+        await Chunk.updateMany({ fileId: { $in: fileIds } }, { sessionId });
+    }
+
+    async deleteChunksForFile(fileId: string): Promise<number> {
+        const result = await Chunk.deleteMany({ fileId });
+        return result.deletedCount;
+    }
+}
+
+export const chunkService = new ChunkService();
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { File } from '../models/File';
+import { Chunk, ChunkType } from '../models/Chunk';
+import { embeddingService, ChunkRestriction, getDefaultRetrievalMode, RetrievalMode, SimilarChunk } from './embedding.service';
+import { ChunkService } from './chunk.service';
+import { LLMProvider } from './providers';
+import { CustomError } from '../middleware/errorHandler';
+import { matchesGlob } from '../utils/glob';
+import { logger } from '../utils/logger';
+
+export interface CodeSearchFilters {
+    languages?: string[];
+    // Matched against the file's path, e.g. `src/**/*.ts`
+    pathGlob?: string;
+    chunkTypes?: ChunkType[];
+    minSimilarity?: number;
+    uploadedAfter?: Date;
+}
+
+export interface CodeSearchRequest {
+    userId: string;
+    query: string;
+    // Searches all of the user's files when omitted
+    sessionId?: string;
+    client?: LLMProvider | null;
+    mode?: RetrievalMode;
+    limit?: number;
+    cursor?: string;
+    filters?: CodeSearchFilters;
+}
+
+export interface CodeSearchPage {
+    results: SimilarChunk[];
+    mode: RetrievalMode;
+    // Pass back to get the next page; null on the last one
+    nextCursor: string | null;
+}
+
+interface SearchCursor {
+    offset: number;
+    key: string;
+}
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 10;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+/**
+ * Filtered, paginated code search over a session or all of a user's files.
+ * Cursors are opaque offsets into the ranking, tied to the search they came
+ * from so they can't be replayed against a different query or filter set.
+ */
+export class CodeSearchService {
+    async search(request: CodeSearchRequest): Promise<CodeSearchPage> {
+        const mode = request.mode || getDefaultRetrievalMode();
+        const limit = Math.min(request.limit || DEFAULT_SEARCH_PAGE_SIZE, MAX_SEARCH_PAGE_SIZE);
+        const filters = request.filters || {};
+        const key = CodeSearchService.searchKey(request, mode);
+        const offset = request.cursor ? CodeSearchService.decodeCursor(request.cursor, key) : 0;
+
+        try {
+            const restriction = await this.resolveRestriction(request.userId, request.sessionId, filters);
+            if (restriction && restriction.labels.size === 0) {
+                return { results: [], mode, nextCursor: null };
+            }
+
+            // One extra result tells whether there is another page
+            const results = await embeddingService.retrieve({
+                query: request.query,
+                sessionId: request.sessionId,
+                userId: request.userId,
+                client: request.client,
+                mode,
+                limit: limit + 1,
+                offset,
+                minSimilarity: filters.minSimilarity,
+                restriction
+            });
+
+            return {
+                results: results.slice(0, limit),
+                mode,
+                nextCursor: results.length > limit ? CodeSearchService.encodeCursor({ offset: offset + limit, key }) : null
+            };
+        } catch (error) {
+            logger.error('Error searching code:', error);
+            throw error;
+        }
+    }
+
+    static encodeCursor(cursor: SearchCursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    static decodeCursor(cursor: string, key: string): number {
+        let decoded: Partial<SearchCursor>;
+        try {
+            decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        } catch {
+            throw new CustomError('Invalid search cursor', 400);
+        }
+
+        if (typeof decoded.offset !== 'number' || decoded.offset < 0 || !Number.isInteger(decoded.offset)) {
+            throw new CustomError('Invalid search cursor', 400);
+        }
+        if (decoded.key !== key) {
+            throw new CustomError('Search cursor belongs to a different search', 400);
+        }
+        return decoded.offset;
+    }
+
+    private static searchKey(request: CodeSearchRequest, mode: RetrievalMode): string {
+        const { query, sessionId, filters } = request;
+        return crypto
+            .createHash('sha256')
+            .update(JSON.stringify({ query, sessionId, mode, filters }))
+            .digest('base64url')
+            .substring(0, 16);
+    }
+
+    /**
+     * Turn file and chunk filters into the set of chunks a search may return,
+     * or undefined when nothing is filtered.
+     */
+    private async resolveRestriction(userId: string, sessionId: string | undefined, filters: CodeSearchFilters): Promise<ChunkRestriction | undefined> {
+        const filtersFiles = Boolean(filters.languages?.length || filters.pathGlob || filters.uploadedAfter);
+        const filtersChunks = Boolean(filters.chunkTypes?.length);
+
+        if (!filtersFiles && !filtersChunks) {
+            return undefined;
+        }
+
+        const query: Record<string, unknown> = {};
+
+        if (filtersFiles) {
+            const files = await File.find({
+                userId,
+                ...(sessionId && { sessionId }),
+                ...(filters.languages?.length && { language: { $in: filters.languages } }),
+                ...(filters.uploadedAfter && { uploadedAt: { $gt: filters.uploadedAfter } })
+            }).select('originalName relativePath');
+
+            const pathGlob = filters.pathGlob;
+            query.fileId = {
+                $in: files
+                    .filter(file => !pathGlob || matchesGlob(file.relativePath || file.originalName, pathGlob))
+                    .map(file => file._id)
+            };
+        }
+
+        if (filtersChunks) {
+            query.type = { $in: filters.chunkTypes };
+        }
+
+        const chunks = await Chunk.find({ ...ChunkService.scopeQuery({ sessionId, userId }), userId, ...query })
+            .select('fileId chunkId');
+
+        return { query, labels: new Set(chunks.map(chunk => `${String(chunk.fileId)}:${chunk.chunkId}`)) };
+    }
+}
+
+export const codeSearchService = new CodeSearchService();
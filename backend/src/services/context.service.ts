@@ -1,66 +1,96 @@
-import { File } from '../models/File';
-import { embeddingService } from './embedding.service';
+import { File, IFile } from '../models/File';
+import { IChunk } from '../models/Chunk';
+import { embeddingService, RetrievalMode, SimilarChunk } from './embedding.service';
+import { chunkService } from './chunk.service';
+import { callGraphService, CallGraph } from './callGraph.service';
+import { contextPlanner, ContextCandidate, ContextItemKind, ContextPlan, PlannedContextItem } from './contextPlanner.service';
+import { fileVersionService } from './fileVersion.service';
+import { embeddingQueueService } from './embeddingQueue.service';
+import { LLMProvider } from './providers';
+import { estimateTokens } from '../utils/tokens';
+import { redactSecrets } from '../utils/secrets';
 import { logger } from '../utils/logger';
 
-interface CodeContext {
-    relevantFiles: Array<{
-        name: string;
-        language: string;
-        content: string;
-        chunks: number;
-    }>;
-    relevantChunks: Array<{
-        fileName: string;
-        content: string;
-        type: string;
-        lines: string;
-        similarity?: number;
-    }>;
+const DEFAULT_TOKEN_BUDGET = parseInt(process.env.CONTEXT_TOKEN_BUDGET || '12000');
+// Instructions and headings around the planned items
+const PROMPT_OVERHEAD_TOKENS = 100;
+const RETRIEVAL_LIMIT = 20;
+const CALL_GRAPH_LIMIT = parseInt(process.env.CONTEXT_CALL_GRAPH_LIMIT || '6');
+const CALL_GRAPH_MAX_AMBIGUOUS = parseInt(process.env.CONTEXT_CALL_GRAPH_MAX_AMBIGUOUS || '3');
+const RECENT_FILE_LIMIT = parseInt(process.env.CONTEXT_RECENT_FILE_LIMIT || '5');
+
+const PROMPT_SECTIONS: Array<{ kind: ContextItemKind; heading: string }> = [
+    { kind: 'pinned_file', heading: 'Pinned Files' },
+    { kind: 'chunk', heading: 'Most Relevant Code Sections' },
+    { kind: 'call_graph_chunk', heading: 'Callers and Callees' },
+    { kind: 'enclosing_class', heading: 'Enclosing Classes' },
+    { kind: 'neighbour_chunk', heading: 'Surrounding Code Sections' },
+    { kind: 'recent_file', heading: 'Project Files' },
+    { kind: 'file_summary', heading: 'Other Files' }
+];
+
+// How retrieved chunks are widened before rendering
+export type ContextExpansion = 'none' | 'neighbours' | 'enclosing';
+
+export const CONTEXT_EXPANSIONS: ContextExpansion[] = ['none', 'neighbours', 'enclosing'];
+
+export const isContextExpansion = (value: unknown): value is ContextExpansion => {
+    return typeof value === 'string' && (CONTEXT_EXPANSIONS as string[]).includes(value);
+};
+
+const DEFAULT_EXPANSION: ContextExpansion = isContextExpansion(process.env.CONTEXT_EXPANSION)
+    ? process.env.CONTEXT_EXPANSION
+    : 'neighbours';
+
+export interface BuildContextOptions {
+    pinnedFileIds?: string[];
+    tokenBudget?: number;
+    // Defaults to RETRIEVAL_MODE
+    retrievalMode?: RetrievalMode;
+    // Defaults to CONTEXT_EXPANSION
+    expansion?: ContextExpansion;
+}
+
+export interface CodeContext {
     projectSummary: {
         totalFiles: number;
         languages: string[];
         totalLines: number;
         mainFiles: string[];
     };
+    plan: ContextPlan;
 }
 
 class ContextService {
-    async buildContextForQuery(query: string, sessionId: string, apiKey?: string): Promise<CodeContext> {
+    async buildContextForQuery(
+        query: string,
+        userId: string,
+        sessionId: string,
+        client?: LLMProvider | null,
+        options: BuildContextOptions = {}
+    ): Promise<CodeContext> {
         try {
             // First try to get files for this specific session
-            let files = await File.find({ sessionId }).sort({ uploadedAt: -1 });
+            let files = await File.find({ sessionId, userId }).sort({ uploadedAt: -1 });
 
             logger.info(`Found ${files.length} files for session ${sessionId}`);
 
-            // If no session-specific files found, try to find all files for this user and assign them to the session
+            // If the session has no files yet, move the user's unassigned uploads into it
             if (files.length === 0) {
-                // Find files without sessionId (recently uploaded files that weren't assigned)
-                const unassignedFiles = await File.find({
-                    $or: [
-                        { sessionId: { $exists: false } },
-                        { sessionId: null },
-                        { sessionId: "" }
-                    ]
-                }).sort({ uploadedAt: -1 });
-
-                logger.info(`Found ${unassignedFiles.length} unassigned files`);
-
-                // Assign unassigned files to this session
-                if (unassignedFiles.length > 0) {
-                    await File.updateMany(
-                        {
-                            $or: [
-                                { sessionId: { $exists: false } },
-                                { sessionId: null },
-                                { sessionId: "" }
-                            ]
-                        },
-                        { sessionId }
-                    );
+                const { assignedIds, revisedFiles } = await fileVersionService.assignToSession(userId, sessionId);
+
+                if (assignedIds.length > 0 || revisedFiles.length > 0) {
+                    // Embeddings queued at upload were for the merged files, which are gone
+                    if (revisedFiles.length > 0 && client) {
+                        try {
+                            await embeddingQueueService.enqueue({ userId, fileIds: revisedFiles.map(file => String(file._id)) });
+                        } catch (error) {
+                            logger.warn('Could not queue embeddings for newly versioned files:', error);
+                        }
+                    }
 
                     // Refresh files list
-                    files = await File.find({ sessionId }).sort({ uploadedAt: -1 });
-                    logger.info(`Assigned ${unassignedFiles.length} files to session ${sessionId}`);
+                    files = await File.find({ sessionId, userId }).sort({ uploadedAt: -1 });
                 }
             }
 
@@ -69,73 +99,56 @@ class ContextService {
                 return this.getEmptyContext();
             }
 
-            // Generate embedding for the query
-            let queryEmbedding: number[] | null = null;
-            let relevantChunks: Array<{
-                file: { name: string };
-                chunk: { content: string; type: string; startLine: number; endLine: number };
-                similarity: number;
-            }> = [];
+            const projectSummary = this.summarizeProject(files);
+            const budget = Math.max(0,
+                this.resolveBudget(options.tokenBudget, client)
+                - estimateTokens(this.renderOverview(projectSummary) + query)
+                - PROMPT_OVERHEAD_TOKENS
+            );
+
+            // Retrieve the chunks that best match the query
+            let relevantChunks: SimilarChunk[] = [];
+
+            try {
+                relevantChunks = await embeddingService.retrieve({
+                    query,
+                    sessionId,
+                    userId,
+                    client,
+                    limit: RETRIEVAL_LIMIT,
+                    mode: options.retrievalMode
+                });
+                logger.info(`Found ${relevantChunks.length} relevant chunks for query`);
+            } catch (error) {
+                logger.error('Error retrieving chunks for query:', error);
+            }
 
-            if (apiKey) {
+            const fileIds = files.map(file => String(file._id));
+            if (CALL_GRAPH_LIMIT > 0 && relevantChunks.length > 0) {
                 try {
-                    // Initialize embedding service if not already done
-                    if (!embeddingService.isInitialized()) {
-                        embeddingService.initialize(apiKey);
-                        logger.info('Initialized embedding service for query');
-                    }
-
-                    queryEmbedding = await embeddingService.generateEmbedding(query);
-                    logger.info(`Generated embedding for query: "${query}"`);
-
-                    relevantChunks = await embeddingService.findSimilarChunks(queryEmbedding, sessionId, 10);
-                    logger.info(`Found ${relevantChunks.length} relevant chunks for query`);
-
-                    // Log similarity scores for debugging
-                    if (relevantChunks.length > 0) {
-                        logger.info('Top relevant chunks:', relevantChunks.slice(0, 3).map(chunk => ({
-                            fileName: chunk.file.name,
-                            similarity: chunk.similarity,
-                            contentPreview: chunk.chunk.content.substring(0, 100)
-                        })));
-                    }
+                    await callGraphService.ensureCalls(fileIds);
                 } catch (error) {
-                    logger.error('Error generating embeddings for query:', error);
+                    logger.warn('Could not extract call sites for context:', error);
                 }
-            } else {
-                logger.warn('No API key provided for embedding generation');
             }
 
-            // Build context from files
-            const context: CodeContext = {
-                relevantFiles: files.slice(0, 5).map(file => ({
-                    name: file.originalName,
-                    language: file.language,
-                    content: file.content.length > 2000
-                        ? file.content.substring(0, 2000) + '...\n[Content truncated]'
-                        : file.content,
-                    chunks: file.chunks.length
-                })),
-                relevantChunks: relevantChunks.map(item => ({
-                    fileName: item.file.name,
-                    content: item.chunk.content,
-                    type: item.chunk.type,
-                    lines: `${item.chunk.startLine}-${item.chunk.endLine}`,
-                    similarity: Math.round(item.similarity * 100) / 100
-                })),
-                projectSummary: {
-                    totalFiles: files.length,
-                    languages: [...new Set(files.map(f => f.language))],
-                    totalLines: files.reduce((sum, f) => sum + f.content.split('\n').length, 0),
-                    mainFiles: files
-                        .filter(f => ['index', 'main', 'app'].some(name =>
-                            f.originalName.toLowerCase().includes(name)
-                        ))
-                        .map(f => f.originalName)
-                }
-            };
+            const chunksByFile = await chunkService.getChunksForFiles(fileIds);
+            const candidates = this.collectCandidates(
+                files,
+                chunksByFile,
+                relevantChunks,
+                options.pinnedFileIds || [],
+                options.expansion || DEFAULT_EXPANSION
+            );
+            // Secrets are redacted from what goes into the prompt, whole files and chunks stored before secret scanning included
+            const plan = contextPlanner.plan(candidates, budget, redactSecrets);
+
+            logger.info(`Context plan for session ${sessionId}: ${plan.used}/${plan.budget} tokens, ${plan.included.length} included, ${plan.dropped.length} dropped`, {
+                included: plan.included.map(item => `${item.kind}:${item.fileName}${item.lines ? `:${item.lines}` : ''}${item.truncated ? ' (truncated)' : ''}`),
+                dropped: plan.dropped.map(item => `${item.kind}:${item.fileName} (${item.reason})`)
+            });
 
-            return context;
+            return { projectSummary, plan };
         } catch (error) {
             logger.error('Error building context for query:', error);
             return this.getEmptyContext();
@@ -147,85 +160,320 @@ class ContextService {
             return query;
         }
 
-        let prompt = `You are an AI assistant helping with code analysis and development. Here's the context of the project:
+        let prompt = this.renderOverview(context.projectSummary);
 
-## Project Overview
-- Total files: ${context.projectSummary.totalFiles}
-- Languages: ${context.projectSummary.languages.join(', ')}
-- Total lines of code: ${context.projectSummary.totalLines}
-${context.projectSummary.mainFiles.length > 0 ? `- Main files: ${context.projectSummary.mainFiles.join(', ')}` : ''}
+        for (const section of PROMPT_SECTIONS) {
+            const items = context.plan.included.filter(item => item.kind === section.kind);
+            if (items.length === 0) {
+                continue;
+            }
 
+            prompt += `## ${section.heading}
 `;
+            items.forEach((item, index) => {
+                prompt += this.renderItem(item, index);
+            });
+        }
 
-        // Add relevant chunks if available (from vector search)
-        if (context.relevantChunks.length > 0) {
-            prompt += `## Most Relevant Code Sections
-`;
-            context.relevantChunks.slice(0, 5).forEach((chunk, index) => {
-                prompt += `### ${index + 1}. ${chunk.fileName} (${chunk.type}, lines ${chunk.lines})${chunk.similarity ? ` - Similarity: ${chunk.similarity}` : ''}
-\`\`\`${context.relevantFiles.find(f => f.name === chunk.fileName)?.language || 'text'}
-${chunk.content}
-\`\`\`
+        prompt += `## User Question
+${query}
 
-`;
+Please provide a helpful response based on the code context above. Reference specific files, functions, or code sections when relevant.`;
+
+        return prompt;
+    }
+
+    /**
+     * Candidates in priority order: pinned files, retrieved chunks, callers
+     * and callees of the retrieved functions, their expansions (enclosing
+     * classes or surrounding chunks), the most recently uploaded files when
+     * retrieval found nothing, then one-line summaries of every file so the
+     * model at least knows what exists.
+     */
+    private collectCandidates(
+        files: IFile[],
+        chunksByFile: Map<string, IChunk[]>,
+        relevantChunks: SimilarChunk[],
+        pinnedFileIds: string[],
+        expansion: ContextExpansion
+    ): ContextCandidate[] {
+        const filesById = new Map(files.map(file => [String(file._id), file]));
+        const candidates: ContextCandidate[] = [];
+
+        for (const fileId of pinnedFileIds) {
+            const file = filesById.get(fileId);
+            if (file) {
+                candidates.push(this.toFileCandidate(file, 'pinned_file'));
+            }
+        }
+
+        for (const item of relevantChunks) {
+            candidates.push({
+                kind: 'chunk',
+                fileId: item.file.id,
+                fileName: item.file.name,
+                language: item.file.language,
+                content: item.chunk.content,
+                chunkId: item.chunk.id,
+                type: item.chunk.type,
+                lines: `${item.chunk.startLine}-${item.chunk.endLine}`,
+                similarity: Math.round(item.similarity * 100) / 100
             });
         }
 
-        // Add file contents if no similar chunks found
-        if (context.relevantChunks.length === 0 && context.relevantFiles.length > 0) {
-            prompt += `## Project Files
-`;
-            context.relevantFiles.slice(0, 3).forEach((file, index) => {
-                prompt += `### ${index + 1}. ${file.name} (${file.language})
-\`\`\`${file.language}
-${file.content}
-\`\`\`
+        candidates.push(...this.collectCallGraphCandidates(filesById, chunksByFile, relevantChunks));
 
-`;
+        for (const item of relevantChunks) {
+            const file = filesById.get(item.file.id);
+            if (!file || expansion === 'none') continue;
+
+            const chunks = chunksByFile.get(item.file.id) || [];
+            const index = chunks.findIndex(chunk => chunk.chunkId === item.chunk.id);
+            if (index === -1) continue;
+
+            if (expansion === 'enclosing') {
+                const enclosing = this.findEnclosingClass(file, chunks, index);
+                if (enclosing) {
+                    candidates.push(enclosing);
+                    continue;
+                }
+                // Top-level hits fall back to their neighbours
+            }
+
+            for (const neighbour of [chunks[index - 1], chunks[index + 1]]) {
+                if (neighbour) {
+                    candidates.push(this.toChunkCandidate(file, neighbour, 'neighbour_chunk'));
+                }
+            }
+        }
+
+        if (relevantChunks.length === 0) {
+            const recentFiles = [...files]
+                .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())
+                .slice(0, RECENT_FILE_LIMIT);
+            for (const file of recentFiles) {
+                candidates.push(this.toFileCandidate(file, 'recent_file'));
+            }
+        }
+
+        const mainFiles = files.filter(file => this.isMainFile(file));
+        const otherFiles = files.filter(file => !this.isMainFile(file));
+        for (const file of [...mainFiles, ...otherFiles]) {
+            candidates.push({
+                kind: 'file_summary',
+                fileId: String(file._id),
+                fileName: file.originalName,
+                language: file.language,
+                content: this.summarizeFile(file, chunksByFile.get(String(file._id)) || [])
             });
         }
 
-        prompt += `## User Question
-${query}
+        return candidates;
+    }
 
-Please provide a helpful response based on the code context above. Reference specific files, functions, or code sections when relevant.`;
+    // Functions that call a retrieved function, then functions it calls
+    private collectCallGraphCandidates(
+        filesById: Map<string, IFile>,
+        chunksByFile: Map<string, IChunk[]>,
+        relevantChunks: SimilarChunk[]
+    ): ContextCandidate[] {
+        if (CALL_GRAPH_LIMIT <= 0 || relevantChunks.length === 0) {
+            return [];
+        }
 
-        return prompt;
+        const languages = new Map([...filesById].map(([fileId, file]) => [fileId, file.language]));
+        const graph = new CallGraph([...chunksByFile.values()].flat(), languages);
+        const retrieved = relevantChunks
+            .map(item => (chunksByFile.get(item.file.id) || []).find(chunk => chunk.chunkId === item.chunk.id))
+            .filter((chunk): chunk is IChunk => chunk !== undefined);
+
+        return graph.related(retrieved, CALL_GRAPH_LIMIT, CALL_GRAPH_MAX_AMBIGUOUS).flatMap(({ chunk, relation, via }) => {
+            const file = filesById.get(String(chunk.fileId));
+            return file
+                ? [{ ...this.toChunkCandidate(file, chunk, 'call_graph_chunk'), note: relation === 'caller' ? `calls ${via}` : `called by ${via}` }]
+                : [];
+        });
     }
 
-    private getEmptyContext(): CodeContext {
+    private toFileCandidate(file: IFile, kind: ContextItemKind): ContextCandidate {
         return {
-            relevantFiles: [],
-            relevantChunks: [],
-            projectSummary: {
-                totalFiles: 0,
-                languages: [],
-                totalLines: 0,
-                mainFiles: []
+            kind,
+            fileId: String(file._id),
+            fileName: file.originalName,
+            language: file.language,
+            content: file.content
+        };
+    }
+
+    /**
+     * The class containing the hit, as its full source. Chunks from the
+     * syntax-based chunker name their parent; for the others, it is the
+     * nearest class chunk before the hit whose body, judged by indentation,
+     * still contains it.
+     */
+    private findEnclosingClass(file: IFile, chunks: IChunk[], index: number): ContextCandidate | null {
+        const hit = chunks[index];
+        const lines = file.content.split('\n');
+
+        if (hit.parentChunkId) {
+            const byId = new Map(chunks.map(chunk => [chunk.chunkId, chunk]));
+            for (let parent = byId.get(hit.parentChunkId); parent; parent = parent.parentChunkId ? byId.get(parent.parentChunkId) : undefined) {
+                if (parent.type === 'class') {
+                    return this.toEnclosingCandidate(file, parent, lines, parent.endLine);
+                }
             }
+            return null;
+        }
+
+        for (let i = index - 1; i >= 0; i--) {
+            const candidate = chunks[i];
+            if (candidate.type !== 'class') continue;
+
+            const endLine = this.findBlockEnd(lines, candidate.startLine - 1);
+            if (endLine >= hit.startLine) {
+                return this.toEnclosingCandidate(file, candidate, lines, endLine);
+            }
+        }
+
+        return null;
+    }
+
+    private toEnclosingCandidate(file: IFile, chunk: IChunk, lines: string[], endLine: number): ContextCandidate {
+        return {
+            kind: 'enclosing_class',
+            fileId: String(file._id),
+            fileName: file.originalName,
+            language: file.language,
+            content: lines.slice(chunk.startLine - 1, endLine).join('\n'),
+            chunkId: chunk.chunkId,
+            type: chunk.type,
+            lines: `${chunk.startLine}-${endLine}`
         };
     }
 
-    async generateEmbeddingsForSession(sessionId: string, apiKey: string): Promise<void> {
-        try {
-            const files = await File.find({ sessionId });
+    /**
+     * Last line (1-based) of the block whose header is at `headerIndex`: the
+     * block runs until the next non-blank line indented no deeper than the
+     * header, which belongs to it when it only closes it (`}`, `end`).
+     */
+    private findBlockEnd(lines: string[], headerIndex: number): number {
+        const indentOf = (line: string) => line.length - line.trimStart().length;
+        const headerIndent = indentOf(lines[headerIndex] || '');
+
+        for (let i = headerIndex + 1; i < lines.length; i++) {
+            const line = lines[i].trim();
+            // Blank lines, and an opening brace on its own line, don't end anything
+            if (line === '' || line === '{') continue;
+
+            if (indentOf(lines[i]) <= headerIndent) {
+                return /^[}\])]/.test(line) || line === 'end' ? i + 1 : i;
+            }
+        }
 
-            logger.info(`Generating embeddings for ${files.length} files in session ${sessionId}`);
+        return lines.length;
+    }
 
-            for (const file of files) {
-                try {
-                    await embeddingService.generateEmbeddingsForFile(String(file._id), apiKey);
-                } catch (error) {
-                    logger.warn(`Failed to generate embeddings for file ${file.originalName}:`, error);
-                }
+    private toChunkCandidate(file: IFile, chunk: IChunk, kind: ContextItemKind): ContextCandidate {
+        return {
+            kind,
+            fileId: String(file._id),
+            fileName: file.originalName,
+            language: file.language,
+            content: chunk.content,
+            chunkId: chunk.chunkId,
+            type: chunk.type,
+            lines: `${chunk.startLine}-${chunk.endLine}`
+        };
+    }
+
+    private summarizeFile(file: IFile, chunks: IChunk[]): string {
+        const lines = [`${file.language}, ${file.content.split('\n').length} lines`];
+
+        if (file.exports.length > 0) {
+            lines.push(`Exports: ${file.exports.join(', ')}`);
+        }
+        if (file.dependencies.length > 0) {
+            lines.push(`Imports: ${file.dependencies.join(', ')}`);
+        }
+
+        for (const chunk of chunks) {
+            if (chunk.type === 'block' || chunk.type === 'other') continue;
+            if (chunk.symbolName) {
+                lines.push(`- ${chunk.type} ${chunk.symbolName} (lines ${chunk.startLine}-${chunk.endLine})`);
+                continue;
             }
+            const signature = chunk.content.split('\n')[0].trim();
+            lines.push(`- ${chunk.type} (lines ${chunk.startLine}-${chunk.endLine}): ${signature}`);
+        }
 
-            logger.info(`Completed embedding generation for session ${sessionId}`);
-        } catch (error) {
-            logger.error('Error generating embeddings for session:', error);
-            throw error;
+        return lines.join('\n');
+    }
+
+    private renderItem(item: PlannedContextItem, index: number): string {
+        const note = item.truncated ? '\n[Content truncated to fit the context budget]' : '';
+
+        if (item.kind === 'file_summary') {
+            return `### ${item.fileName}
+${item.content}
+
+`;
         }
+
+        const details = item.lines
+            ? `${item.type}, lines ${item.lines}${item.similarity !== undefined ? ` - Similarity: ${item.similarity}` : ''}${item.note ? ` - ${item.note}` : ''}`
+            : item.language;
+
+        return `### ${index + 1}. ${item.fileName} (${details})
+\`\`\`${item.language || 'text'}
+${item.content}
+\`\`\`${note}
+
+`;
     }
+
+    private renderOverview(summary: CodeContext['projectSummary']): string {
+        return `You are an AI assistant helping with code analysis and development. Here's the context of the project:
+
+## Project Overview
+- Total files: ${summary.totalFiles}
+- Languages: ${summary.languages.join(', ')}
+- Total lines of code: ${summary.totalLines}
+${summary.mainFiles.length > 0 ? `- Main files: ${summary.mainFiles.join(', ')}` : ''}
+
+`;
+    }
+
+    private summarizeProject(files: IFile[]): CodeContext['projectSummary'] {
+        return {
+            totalFiles: files.length,
+            languages: [...new Set(files.map(f => f.language))],
+            totalLines: files.reduce((sum, f) => sum + f.content.split('\n').length, 0),
+            mainFiles: files.filter(f => this.isMainFile(f)).map(f => f.originalName)
+        };
+    }
+
+    private isMainFile(file: IFile): boolean {
+        return ['index', 'main', 'app'].some(name => file.originalName.toLowerCase().includes(name));
+    }
+
+    // Context never takes more than half the model's window; the rest is history and the reply
+    private resolveBudget(requested: number | undefined, client?: LLMProvider | null): number {
+        const budget = requested && requested > 0 ? requested : DEFAULT_TOKEN_BUDGET;
+        return client ? Math.min(budget, Math.floor(client.getContextWindow() / 2)) : budget;
+    }
+
+    private getEmptyContext(): CodeContext {
+        return {
+            projectSummary: {
+                totalFiles: 0,
+                languages: [],
+                totalLines: 0,
+                mainFiles: []
+            },
+            plan: { budget: 0, used: 0, included: [], dropped: [] }
+        };
+    }
+
 }
 
 export const contextService = new ContextService();
\ No newline at end of file
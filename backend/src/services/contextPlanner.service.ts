@@ -0,0 +1,143 @@
+import { estimateTokens, truncateToTokens } from '../utils/tokens';
+
+export type ContextItemKind = 'pinned_file' | 'recent_file' | 'chunk' | 'call_graph_chunk' | 'enclosing_class' | 'neighbour_chunk' | 'file_summary';
+
+export interface ContextCandidate {
+    kind: ContextItemKind;
+    fileId: string;
+    fileName: string;
+    language: string;
+    content: string;
+    chunkId?: string;
+    type?: string;
+    lines?: string;
+    similarity?: number;
+    // Why the item is included when it wasn't retrieved, e.g. `calls login`
+    note?: string;
+}
+
+export interface PlannedContextItem extends ContextCandidate {
+    tokens: number;
+    truncated: boolean;
+}
+
+export interface DroppedContextItem {
+    kind: ContextItemKind;
+    fileName: string;
+    chunkId?: string;
+    tokens: number;
+    reason: 'over_budget' | 'duplicate';
+}
+
+export interface ContextPlan {
+    budget: number;
+    used: number;
+    included: PlannedContextItem[];
+    dropped: DroppedContextItem[];
+}
+
+export interface ContextPlanReport {
+    budget: number;
+    used: number;
+    included: Array<Omit<PlannedContextItem, 'content' | 'fileId' | 'language'>>;
+    dropped: DroppedContextItem[];
+}
+
+// Whole files and classes may be cut down to fit; a truncated chunk is worse than no chunk
+const TRUNCATABLE_KINDS: ContextItemKind[] = ['pinned_file', 'recent_file', 'enclosing_class'];
+// Don't bother including a truncated file smaller than this
+const MIN_TRUNCATED_TOKENS = 200;
+
+/**
+ * Greedy token-budget planner for prompt context. Candidates are considered
+ * in the order given (callers pass them by priority) and each one is either
+ * included, included truncated, or dropped with a reason.
+ */
+export class ContextPlanner {
+    /**
+     * `prepare` rewrites the content of each item that is going to be
+     * included (e.g. to redact it) before it is measured and truncated, so
+     * dropped candidates are never prepared.
+     */
+    plan(candidates: ContextCandidate[], budget: number, prepare: (content: string) => string = content => content): ContextPlan {
+        const plan: ContextPlan = { budget, used: 0, included: [], dropped: [] };
+        const seenChunks = new Set<string>();
+        const wholeFiles = new Set<string>();
+
+        for (const candidate of candidates) {
+            const tokens = estimateTokens(candidate.content);
+
+            if (this.isDuplicate(candidate, seenChunks, wholeFiles)) {
+                plan.dropped.push(this.toDropped(candidate, tokens, 'duplicate'));
+                continue;
+            }
+
+            const remaining = budget - plan.used;
+            const truncatable = TRUNCATABLE_KINDS.includes(candidate.kind) && remaining >= MIN_TRUNCATED_TOKENS;
+            if (tokens > remaining && !truncatable) {
+                plan.dropped.push(this.toDropped(candidate, tokens, 'over_budget'));
+                continue;
+            }
+
+            const prepared = prepare(candidate.content);
+            const preparedTokens = prepared === candidate.content ? tokens : estimateTokens(prepared);
+            let item: PlannedContextItem;
+
+            if (preparedTokens <= remaining) {
+                item = { ...candidate, content: prepared, tokens: preparedTokens, truncated: false };
+            } else if (truncatable) {
+                const content = truncateToTokens(prepared, remaining);
+                item = { ...candidate, content, tokens: estimateTokens(content), truncated: true };
+            } else {
+                plan.dropped.push(this.toDropped(candidate, preparedTokens, 'over_budget'));
+                continue;
+            }
+
+            plan.included.push(item);
+            plan.used += item.tokens;
+
+            if (item.chunkId) {
+                seenChunks.add(`${item.fileId}:${item.chunkId}`);
+            } else if (TRUNCATABLE_KINDS.includes(item.kind) && !item.truncated) {
+                wholeFiles.add(item.fileId);
+            }
+        }
+
+        return plan;
+    }
+
+    /**
+     * The plan without file contents, for returning to the client.
+     */
+    toReport(plan: ContextPlan): ContextPlanReport {
+        return {
+            budget: plan.budget,
+            used: plan.used,
+            included: plan.included.map(({ kind, fileName, chunkId, type, lines, similarity, tokens, truncated }) => ({
+                kind, fileName, chunkId, type, lines, similarity, tokens, truncated
+            })),
+            dropped: plan.dropped
+        };
+    }
+
+    private isDuplicate(candidate: ContextCandidate, seenChunks: Set<string>, wholeFiles: Set<string>): boolean {
+        // Anything from a file that is already in the prompt in full adds nothing
+        if (wholeFiles.has(candidate.fileId)) {
+            return true;
+        }
+
+        return Boolean(candidate.chunkId) && seenChunks.has(`${candidate.fileId}:${candidate.chunkId}`);
+    }
+
+    private toDropped(candidate: ContextCandidate, tokens: number, reason: DroppedContextItem['reason']): DroppedContextItem {
+        return {
+            kind: candidate.kind,
+            fileName: candidate.fileName,
+            chunkId: candidate.chunkId,
+            tokens,
+            reason
+        };
+    }
+}
+
+export const contextPlanner = new ContextPlanner();
@@ -0,0 +1,231 @@
+import { File } from '../models/File';
+import { ModuleResolver, RESOLVABLE_LANGUAGES } from './analyzers/moduleResolver';
+import { logger } from '../utils/logger';
+
+export interface GraphNode {
+    // File id
+    id: string;
+    path: string;
+    language: string;
+    // Internal edges out of and into the file
+    dependencies: number;
+    dependents: number;
+}
+
+export interface InternalEdge {
+    source: string;
+    target: string;
+    // As written in the importing file
+    specifier: string;
+}
+
+export interface ExternalEdge {
+    source: string;
+    // Package name, e.g. `express` for `express/lib/router`
+    module: string;
+    specifier: string;
+}
+
+export interface UnresolvedImport {
+    source: string;
+    specifier: string;
+}
+
+export interface DependencyGraph {
+    nodes: GraphNode[];
+    edges: InternalEdge[];
+    externalEdges: ExternalEdge[];
+    // Relative imports of files that weren't uploaded
+    unresolved: UnresolvedImport[];
+    // File ids of each group of modules that import each other, in path order
+    cycles: string[][];
+    // Modules that neither import nor are imported by another module
+    orphans: string[];
+}
+
+/**
+ * Builds a session's module graph from the import specifiers stored on each
+ * file. Only files in languages whose imports name project files are nodes;
+ * `tsconfig.json`/`jsconfig.json` and `go.mod` files in the session configure
+ * resolution.
+ */
+export class DependencyGraphService {
+    async build(userId: string, sessionId: string): Promise<DependencyGraph> {
+        try {
+            const files = await File.find({ userId, sessionId })
+                .select('originalName relativePath language dependencies uploadedAt')
+                .sort({ uploadedAt: -1 });
+
+            // Newest file wins when an old upload shares its path
+            const modules = new Map<string, typeof files[number]>();
+            const configPaths: string[] = [];
+            for (const file of files) {
+                const filePath = file.relativePath || file.originalName;
+                if (ModuleResolver.isConfigFile(filePath)) {
+                    configPaths.push(filePath);
+                }
+                if (RESOLVABLE_LANGUAGES.includes(file.language) && !modules.has(filePath)) {
+                    modules.set(filePath, file);
+                }
+            }
+
+            const configFiles = configPaths.length > 0
+                ? await File.find({
+                    userId,
+                    sessionId,
+                    $or: [{ relativePath: { $in: configPaths } }, { relativePath: { $exists: false }, originalName: { $in: configPaths } }]
+                }).select('originalName relativePath content')
+                : [];
+
+            const resolver = new ModuleResolver(
+                files.map(file => file.relativePath || file.originalName),
+                configFiles.map(file => ({ path: file.relativePath || file.originalName, content: file.content }))
+            );
+
+            const idByPath = new Map([...modules].map(([filePath, file]) => [filePath, String(file._id)]));
+            const edges: InternalEdge[] = [];
+            const externalEdges: ExternalEdge[] = [];
+            const unresolved: UnresolvedImport[] = [];
+            const seen = new Set<string>();
+
+            for (const [filePath, file] of modules) {
+                const source = String(file._id);
+
+                for (const specifier of file.dependencies) {
+                    const resolution = resolver.resolve(specifier, filePath, file.language);
+
+                    if (resolution.type === 'external') {
+                        externalEdges.push({ source, module: resolution.module, specifier });
+                        continue;
+                    }
+
+                    if (resolution.type === 'unresolved') {
+                        unresolved.push({ source, specifier });
+                        continue;
+                    }
+
+                    // Imports of data files and other non-modules are left out
+                    const targets = resolution.paths
+                        .map(target => idByPath.get(target))
+                        .filter((id): id is string => id !== undefined);
+
+                    for (const target of targets) {
+                        const key = `${source}>${target}`;
+                        if (!seen.has(key)) {
+                            seen.add(key);
+                            edges.push({ source, target, specifier });
+                        }
+                    }
+                }
+            }
+
+            const outgoing = new Map<string, number>();
+            const incoming = new Map<string, number>();
+            for (const edge of edges) {
+                outgoing.set(edge.source, (outgoing.get(edge.source) || 0) + 1);
+                incoming.set(edge.target, (incoming.get(edge.target) || 0) + 1);
+            }
+
+            const nodes: GraphNode[] = [...modules].map(([filePath, file]) => ({
+                id: String(file._id),
+                path: filePath,
+                language: file.language,
+                dependencies: outgoing.get(String(file._id)) || 0,
+                dependents: incoming.get(String(file._id)) || 0
+            })).sort((a, b) => a.path.localeCompare(b.path));
+
+            const pathById = new Map(nodes.map(node => [node.id, node.path]));
+            const cycles = DependencyGraphService.findCycles(nodes.map(node => node.id), edges)
+                .map(cycle => cycle.sort((a, b) => (pathById.get(a) as string).localeCompare(pathById.get(b) as string)));
+
+            logger.info(`Built dependency graph for session ${sessionId}: ${nodes.length} modules, ${edges.length} edges, ${cycles.length} cycles`);
+
+            return {
+                nodes,
+                edges,
+                externalEdges,
+                unresolved,
+                cycles,
+                orphans: nodes.filter(node => node.dependencies === 0 && node.dependents === 0).map(node => node.id)
+            };
+        } catch (error) {
+            logger.error('Error building dependency graph:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Strongly connected components with more than one module, plus modules
+     * that import themselves (Tarjan's algorithm, iterative to survive deep
+     * import chains).
+     */
+    static findCycles(nodeIds: string[], edges: InternalEdge[]): string[][] {
+        const adjacency = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+        for (const edge of edges) {
+            adjacency.get(edge.source)?.push(edge.target);
+        }
+
+        const index = new Map<string, number>();
+        const lowLink = new Map<string, number>();
+        const onStack = new Set<string>();
+        const stack: string[] = [];
+        const cycles: string[][] = [];
+        let counter = 0;
+
+        for (const root of nodeIds) {
+            if (index.has(root)) continue;
+
+            // Each frame is a node and how many of its targets were visited
+            const frames: Array<[string, number]> = [[root, 0]];
+            index.set(root, counter);
+            lowLink.set(root, counter++);
+            stack.push(root);
+            onStack.add(root);
+
+            while (frames.length > 0) {
+                const frame = frames[frames.length - 1];
+                const [node, next] = frame;
+                const targets = adjacency.get(node) || [];
+
+                if (next < targets.length) {
+                    frame[1]++;
+                    const target = targets[next];
+                    if (!index.has(target)) {
+                        index.set(target, counter);
+                        lowLink.set(target, counter++);
+                        stack.push(target);
+                        onStack.add(target);
+                        frames.push([target, 0]);
+                    } else if (onStack.has(target)) {
+                        lowLink.set(node, Math.min(lowLink.get(node) as number, index.get(target) as number));
+                    }
+                    continue;
+                }
+
+                frames.pop();
+                if (frames.length > 0) {
+                    const parent = frames[frames.length - 1][0];
+                    lowLink.set(parent, Math.min(lowLink.get(parent) as number, lowLink.get(node) as number));
+                }
+
+                if (lowLink.get(node) === index.get(node)) {
+                    const component: string[] = [];
+                    let member: string;
+                    do {
+                        member = stack.pop() as string;
+                        onStack.delete(member);
+                        component.push(member);
+                    } while (member !== node);
+
+                    if (component.length > 1 || targets.includes(node)) {
+                        cycles.push(component);
+                    }
+                }
+            }
+        }
+
+        return cycles;
+    }
+}
+
+export const dependencyGraphService = new DependencyGraphService();
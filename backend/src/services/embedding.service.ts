@@ -1,5 +1,14 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-import { File } from '../models/File';
+import { File, IFile } from '../models/File';
+import { Chunk, IChunk } from '../models/Chunk';
+import { LLMProvider } from './providers';
+import { chunkService, ChunkScope, ChunkService } from './chunk.service';
+import { vectorIndexService, IndexedChunkHit } from './vectorIndex.service';
+import { lexicalIndexService } from './lexicalIndex.service';
+import { localEmbeddingService } from './localEmbedding.service';
+import { featureCosine, hashFeatures } from '../utils/hashedTfIdf';
+import { maximalMarginalRelevance } from '../utils/mmr';
+import { reciprocalRankFusion } from '../utils/rrf';
+import { redactSecrets } from '../utils/secrets';
 import { logger } from '../utils/logger';
 
 interface EmbeddingResult {
@@ -8,70 +17,158 @@ interface EmbeddingResult {
     content: string;
 }
 
-class EmbeddingService {
-    private genAI: GoogleGenerativeAI | null = null;
-    private embeddingModel: GenerativeModel | null = null;
-
-    initialize(apiKey: string) {
-        try {
-            this.genAI = new GoogleGenerativeAI(apiKey);
-            this.embeddingModel = this.genAI.getGenerativeModel({ model: 'embedding-001' });
-            logger.info('Embedding service initialized successfully');
-        } catch (error) {
-            logger.error('Failed to initialize embedding service:', error);
-            throw error;
-        }
-    }
+export interface SimilarChunk {
+    file: { id: string; name: string; language: string };
+    chunk: { id: string; content: string; startLine: number; endLine: number; type: string };
+    // Cosine similarity, or the BM25 score relative to the best hit for lexical-only matches
+    similarity: number;
+    lexicalScore?: number;
+    fusedScore?: number;
+}
 
-    async generateEmbedding(text: string): Promise<number[]> {
-        if (!this.embeddingModel) {
-            throw new Error('Embedding service not initialized');
-        }
+export type RetrievalMode = 'lexical' | 'vector' | 'hybrid';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['lexical', 'vector', 'hybrid'];
+
+export const isRetrievalMode = (value: unknown): value is RetrievalMode => {
+    return typeof value === 'string' && (RETRIEVAL_MODES as string[]).includes(value);
+};
+
+export const getDefaultRetrievalMode = (): RetrievalMode => {
+    const configured = process.env.RETRIEVAL_MODE;
+    return isRetrievalMode(configured) ? configured : 'hybrid';
+};
+
+export interface RetrievalOptions {
+    query: string;
+    // Without a session, every chunk of the user is searched
+    sessionId?: string;
+    // Only return chunks owned by this user
+    userId?: string;
+    client?: LLMProvider | null;
+    limit?: number;
+    // Top results to skip, for paging through a ranking
+    offset?: number;
+    mode?: RetrievalMode;
+    minSimilarity?: number;
+    restriction?: ChunkRestriction;
+    // Rerank with MMR so near-duplicate chunks don't crowd out the rest (defaults to RETRIEVAL_MMR)
+    diversify?: boolean;
+    // At most this many chunks per file; 0 for no cap (defaults to RETRIEVAL_MAX_CHUNKS_PER_FILE)
+    maxPerFile?: number;
+}
 
-        try {
-            const result = await this.embeddingModel.embedContent(text);
-            return result.embedding.values;
-        } catch (error) {
-            logger.error('Error generating embedding:', error);
-            throw error;
-        }
-    }
+/**
+ * Extra conditions on the chunks a retrieval may return, as a chunk query for
+ * Mongo-backed searches and as the matching labels for in-memory indexes.
+ */
+export interface ChunkRestriction {
+    query: Record<string, unknown>;
+    labels: Set<string>;
+}
 
-    async generateEmbeddingsForFile(fileId: string, apiKey?: string): Promise<EmbeddingResult[]> {
-        if (apiKey && !this.embeddingModel) {
-            this.initialize(apiKey);
-        }
+type ChunkFilter = Record<string, unknown>;
 
-        if (!this.embeddingModel) {
-            throw new Error('Embedding service not initialized');
-        }
+// Reciprocal rank fusion constant from Cormack et al.; dampens the head of each list
+const RRF_K = 60;
+// Rankings that get fused or reranked are cut this many times deeper than the final limit
+const CANDIDATE_DEPTH_FACTOR = 3;
+// Feature space for comparing candidate chunks with each other during reranking
+const MMR_FEATURE_DIMENSION = 4096;
 
+class EmbeddingService {
+    // Clients whose query embedding failed recently, with the time to try them again
+    private remoteCooldowns = new WeakMap<LLMProvider, number>();
+
+    constructor(
+        private batchSize: number = parseInt(process.env.EMBEDDING_BATCH_SIZE || '32'),
+        private remoteCooldownMs: number = parseInt(process.env.EMBEDDING_FALLBACK_COOLDOWN_MS || '60000'),
+        private diversifyByDefault: boolean = process.env.RETRIEVAL_MMR !== 'false',
+        private mmrLambda: number = parseFloat(process.env.RETRIEVAL_MMR_LAMBDA || '0.7'),
+        private maxPerFileByDefault: number = parseInt(process.env.RETRIEVAL_MAX_CHUNKS_PER_FILE || '3')
+    ) {}
+
+    async generateEmbeddingsForFile(
+        fileId: string,
+        client: LLMProvider,
+        onProgress?: (embedded: number, total: number) => void
+    ): Promise<EmbeddingResult[]> {
         try {
             const file = await File.findById(fileId);
             if (!file) {
                 throw new Error('File not found');
             }
 
+            const embeddingModel = client.getEmbeddingModelName();
+            const chunks = await chunkService.getChunksForFile(fileId, true);
             const embeddingResults: EmbeddingResult[] = [];
+            const newResults: EmbeddingResult[] = [];
+
+            // Chunks of this file that already carry a vector from this model need nothing
+            const pending = chunks.filter(chunk => {
+                if (chunk.embeddingModel === embeddingModel && chunk.embedding && chunk.embedding.length > 0) {
+                    embeddingResults.push({ chunkId: chunk.chunkId, embedding: chunk.embedding, content: chunk.content });
+                    return false;
+                }
+                return true;
+            });
+
+            // Reuse vectors stored for identical content anywhere else for this user
+            const reusable = await chunkService.findEmbeddingsByHash(
+                file.userId,
+                [...new Set(pending.map(chunk => chunk.contentHash))],
+                embeddingModel
+            );
+
+            const toEmbed: typeof pending = [];
+            for (const chunk of pending) {
+                const embedding = reusable.get(chunk.contentHash);
+                if (embedding) {
+                    newResults.push({ chunkId: chunk.chunkId, embedding, content: chunk.content });
+                } else {
+                    toEmbed.push(chunk);
+                }
+            }
+
+            const reusedCount = embeddingResults.length + newResults.length;
+            onProgress?.(reusedCount, chunks.length);
+
+            // Identical chunks within the file are embedded once. New chunks are redacted
+            // already; chunks stored before secret scanning are redacted here
+            const uniqueContents = new Map<string, string>();
+            for (const chunk of toEmbed) {
+                uniqueContents.set(chunk.contentHash, redactSecrets(chunk.content));
+            }
+
+            const hashes = [...uniqueContents.keys()];
+            const embedded = new Map<string, number[]>();
 
-            // Generate embeddings for each chunk
-            for (const chunk of file.chunks) {
+            for (let start = 0; start < hashes.length; start += this.batchSize) {
+                const batch = hashes.slice(start, start + this.batchSize);
                 try {
-                    const embedding = await this.generateEmbedding(chunk.content);
-                    embeddingResults.push({
-                        chunkId: chunk.id,
-                        embedding,
-                        content: chunk.content
-                    });
+                    const vectors = await client.embedBatch(batch.map(hash => uniqueContents.get(hash) as string));
+                    batch.forEach((hash, index) => embedded.set(hash, vectors[index]));
                 } catch (error) {
-                    logger.warn(`Failed to generate embedding for chunk ${chunk.id}:`, error);
+                    logger.warn(`Failed to embed batch of ${batch.length} chunks for file ${file.originalName}:`, error);
+                }
+
+                const done = toEmbed.filter(chunk => embedded.has(chunk.contentHash)).length;
+                onProgress?.(reusedCount + done, chunks.length);
+            }
+
+            for (const chunk of toEmbed) {
+                const embedding = embedded.get(chunk.contentHash);
+                if (embedding) {
+                    newResults.push({ chunkId: chunk.chunkId, embedding, content: chunk.content });
                 }
             }
 
+            embeddingResults.push(...newResults);
+
             // Store embeddings back to database
-            await this.storeEmbeddings(fileId, embeddingResults);
+            await this.storeEmbeddings(file, newResults, embeddingResults, embeddingModel);
 
-            logger.info(`Generated ${embeddingResults.length} embeddings for file ${file.originalName}`);
+            logger.info(`Embedded ${embedded.size} unique chunks for file ${file.originalName} (${reusedCount} reused, ${chunks.length - embeddingResults.length} failed)`);
             return embeddingResults;
         } catch (error) {
             logger.error('Error generating embeddings for file:', error);
@@ -79,94 +176,265 @@ class EmbeddingService {
         }
     }
 
-    private async storeEmbeddings(fileId: string, embeddings: EmbeddingResult[]) {
+    /**
+     * Write the newly assigned vectors; the session index is refreshed with
+     * every vector the file now has.
+     */
+    private async storeEmbeddings(file: IFile, changed: EmbeddingResult[], all: EmbeddingResult[], embeddingModel: string) {
         try {
-            const file = await File.findById(fileId);
-            if (!file) {
-                throw new Error('File not found');
-            }
+            const fileId = String(file._id);
 
-            // Update chunks with embeddings
-            for (const embeddingResult of embeddings) {
-                const chunkIndex = file.chunks.findIndex(chunk => chunk.id === embeddingResult.chunkId);
-                if (chunkIndex !== -1) {
-                    file.chunks[chunkIndex].embedding = embeddingResult.embedding;
-                }
-            }
+            await chunkService.storeEmbeddings(fileId, changed, embeddingModel);
+            logger.info(`Stored ${changed.length} embeddings for file ${file.originalName}`);
 
-            await file.save();
-            logger.info(`Stored embeddings for file ${file.originalName}`);
+            if (file.sessionId && changed.length > 0) {
+                await vectorIndexService.upsertFile(file.sessionId, fileId, embeddingModel, all);
+            }
         } catch (error) {
             logger.error('Error storing embeddings:', error);
             throw error;
         }
     }
 
-    async findSimilarChunks(queryEmbedding: number[], sessionId: string, limit = 5): Promise<Array<{
-        file: { id: string; name: string; language: string };
-        chunk: { id: string; content: string; startLine: number; endLine: number; type: string };
-        similarity: number;
-    }>> {
+    /**
+     * Retrieve the chunks that best answer a query, by embedding similarity,
+     * BM25 over content and symbol names, or both fused with reciprocal rank
+     * fusion. When the remote embedder is missing, failing or has nothing
+     * embedded for the session yet, vectors come from the local embedder.
+     */
+    async retrieve(options: RetrievalOptions): Promise<SimilarChunk[]> {
         try {
-            logger.info(`Searching for similar chunks in session ${sessionId}`);
+            const limit = options.limit || 5;
+            const offset = options.offset || 0;
+            const mode = options.mode || getDefaultRetrievalMode();
+            const diversify = options.diversify ?? this.diversifyByDefault;
+            const maxPerFile = options.maxPerFile ?? this.maxPerFileByDefault;
+            const wanted = offset + limit;
+            const reranked = diversify || maxPerFile > 0;
+            const depth = mode === 'hybrid' || reranked ? wanted * CANDIDATE_DEPTH_FACTOR : wanted;
+
+            const scope: ChunkScope = { sessionId: options.sessionId, userId: options.userId };
+            const filter: ChunkFilter = {
+                ...ChunkService.scopeQuery(scope),
+                ...(options.userId && { userId: options.userId }),
+                ...options.restriction?.query
+            };
+            const restriction = options.restriction;
+            const accept = restriction ? (label: string) => restriction.labels.has(label) : undefined;
+
+            const vectorResults = mode !== 'lexical'
+                ? await this.embeddingSearch(options.query, options.client, scope, filter, depth, accept)
+                : [];
+            const lexicalResults = mode !== 'vector'
+                ? await this.lexicalSearch(options.query, scope, filter, depth, accept)
+                : [];
+
+            logger.info(`Retrieved ${vectorResults.length} vector and ${lexicalResults.length} lexical matches (${mode}) in ${ChunkService.scopeKey(scope)}`);
+
+            let ranked = mode === 'vector' ? vectorResults
+                : mode === 'lexical' ? lexicalResults
+                : this.fuseRankings([vectorResults, lexicalResults], depth);
+
+            if (options.minSimilarity !== undefined) {
+                ranked = ranked.filter(item => item.similarity >= (options.minSimilarity as number));
+            }
+            if (reranked) {
+                ranked = this.rerank(ranked, wanted, diversify ? this.mmrLambda : 1, maxPerFile);
+            }
+            return ranked.slice(offset, wanted);
+        } catch (error) {
+            logger.error('Error retrieving chunks:', error);
+            throw error;
+        }
+    }
 
-            // Find files in the session that have embeddings
-            const files = await File.find({
-                sessionId,
-                'chunks.embedding': { $exists: true, $ne: null }
-            });
+    private async vectorSearch(
+        queryEmbedding: number[],
+        embeddingModel: string,
+        scope: ChunkScope,
+        filter: ChunkFilter,
+        limit: number,
+        restricted: boolean
+    ): Promise<SimilarChunk[]> {
+        // Only chunks embedded by the query's model are comparable, even where another model has the same dimension
+        const modelFilter: ChunkFilter = { ...filter, embeddingModel, embeddingDimension: queryEmbedding.length };
+
+        // The ANN index covers a whole session; restricted or cross-session searches scan instead
+        if (scope.sessionId && !restricted) {
+            const hits = await vectorIndexService.search(scope.sessionId, embeddingModel, queryEmbedding, limit);
+            if (hits) {
+                return this.resolveHits(hits, modelFilter);
+            }
+        }
+
+        const chunks = await Chunk.find(modelFilter);
+        return this.rankChunks(chunks, queryEmbedding, limit);
+    }
 
-            logger.info(`Found ${files.length} files with embeddings in session ${sessionId}`);
-
-            const similarities: Array<{
-                file: { id: string; name: string; language: string };
-                chunk: { id: string; content: string; startLine: number; endLine: number; type: string };
-                similarity: number;
-            }> = [];
-
-            // Calculate cosine similarity for each chunk
-            for (const file of files) {
-                let fileChunksWithEmbeddings = 0;
-                for (const chunk of file.chunks) {
-                    if (chunk.embedding && chunk.embedding.length > 0) {
-                        fileChunksWithEmbeddings++;
-                        const similarity = this.cosineSimilarity(queryEmbedding, chunk.embedding);
-                        similarities.push({
-                            file: {
-                                id: String(file._id),
-                                name: file.originalName,
-                                language: file.language
-                            },
-                            chunk: {
-                                id: chunk.id,
-                                content: chunk.content,
-                                startLine: chunk.startLine,
-                                endLine: chunk.endLine,
-                                type: chunk.type
-                            },
-                            similarity
-                        });
-                    }
+    private async embeddingSearch(
+        query: string,
+        client: LLMProvider | null | undefined,
+        scope: ChunkScope,
+        filter: ChunkFilter,
+        limit: number,
+        accept?: (label: string) => boolean
+    ): Promise<SimilarChunk[]> {
+        if (client && !this.isCoolingDown(client)) {
+            try {
+                const results = await this.vectorSearch(
+                    await client.embed(query),
+                    client.getEmbeddingModelName(),
+                    scope,
+                    filter,
+                    limit,
+                    accept !== undefined
+                );
+                if (results.length > 0) {
+                    return results;
                 }
-                logger.info(`File ${file.originalName}: ${fileChunksWithEmbeddings} chunks with embeddings out of ${file.chunks.length} total chunks`);
+                logger.info(`No remote embeddings in ${ChunkService.scopeKey(scope)} yet, using local embeddings`);
+            } catch (error) {
+                // Back off so a rate-limited or failing provider isn't hit on every query
+                this.remoteCooldowns.set(client, Date.now() + this.remoteCooldownMs);
+                logger.warn(`Remote query embedding failed, using local embeddings for ${this.remoteCooldownMs}ms:`, error);
             }
+        }
+
+        const hits = await localEmbeddingService.search(scope, query, limit, accept);
+        return this.resolveHits(hits, filter);
+    }
 
-            logger.info(`Total chunks with embeddings: ${similarities.length}`);
+    private isCoolingDown(client: LLMProvider): boolean {
+        const until = this.remoteCooldowns.get(client);
+        return until !== undefined && until > Date.now();
+    }
+
+    private async lexicalSearch(
+        query: string,
+        scope: ChunkScope,
+        filter: ChunkFilter,
+        limit: number,
+        accept?: (label: string) => boolean
+    ): Promise<SimilarChunk[]> {
+        const hits = await lexicalIndexService.search(scope, query, limit, accept);
+        if (hits.length === 0) {
+            return [];
+        }
 
-            // Sort by similarity and return top results
-            const topResults = similarities
-                .sort((a, b) => b.similarity - a.similarity)
-                .slice(0, limit);
+        const topScore = hits[0].score;
+        const scores = new Map(hits.map(hit => [`${hit.fileId}:${hit.chunkId}`, hit.score]));
+        const results = await this.resolveHits(
+            hits.map(hit => ({ fileId: hit.fileId, chunkId: hit.chunkId, similarity: hit.score / topScore })),
+            filter
+        );
 
-            if (topResults.length > 0) {
-                logger.info(`Top similarity scores: ${topResults.slice(0, 3).map(r => r.similarity).join(', ')}`);
+        return results.map(result => ({ ...result, lexicalScore: scores.get(`${result.file.id}:${result.chunk.id}`) }));
+    }
+
+    // Items appearing in several rankings keep the entry from the first one (the vector list)
+    private fuseRankings(rankings: SimilarChunk[][], limit: number): SimilarChunk[] {
+        return reciprocalRankFusion(rankings, item => `${item.file.id}:${item.chunk.id}`, RRF_K)
+            .slice(0, limit)
+            .map(({ entries, score }) => ({
+                ...entries[0],
+                lexicalScore: entries.find(entry => entry.lexicalScore !== undefined)?.lexicalScore,
+                fusedScore: score
+            }));
+    }
+
+    /**
+     * MMR over the candidates in their current order, with a per-file cap.
+     * Chunks are compared by their text, which works whichever retrieval
+     * mode produced them.
+     */
+    private rerank(ranked: SimilarChunk[], limit: number, lambda: number, maxPerFile: number): SimilarChunk[] {
+        const features = new Map<SimilarChunk, Map<number, number>>();
+        const featuresOf = (item: SimilarChunk) => {
+            let counts = features.get(item);
+            if (!counts) {
+                counts = hashFeatures(item.chunk.content, MMR_FEATURE_DIMENSION);
+                features.set(item, counts);
             }
+            return counts;
+        };
+
+        return maximalMarginalRelevance(ranked, {
+            limit,
+            lambda,
+            relevance: item => item.fusedScore ?? item.similarity,
+            similarity: (a, b) => featureCosine(featuresOf(a), featuresOf(b)),
+            group: item => item.file.id,
+            maxPerGroup: maxPerFile
+        });
+    }
 
-            return topResults;
-        } catch (error) {
-            logger.error('Error finding similar chunks:', error);
-            throw error;
+    /**
+     * Brute-force cosine similarity over the given chunks.
+     */
+    private async rankChunks(chunks: IChunk[], queryEmbedding: number[], limit: number): Promise<SimilarChunk[]> {
+        const ranked = chunks
+            .filter(chunk => chunk.embedding && chunk.embedding.length > 0)
+            .map(chunk => ({ chunk, similarity: this.cosineSimilarity(queryEmbedding, chunk.embedding as number[]) }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, limit);
+
+        return this.attachFiles(ranked);
+    }
+
+    /**
+     * Load the chunks behind index hits and return them in hit order. Hits whose
+     * chunk no longer exists (or fails the filter) are skipped.
+     */
+    private async resolveHits(hits: IndexedChunkHit[], filter: ChunkFilter): Promise<SimilarChunk[]> {
+        // Hits already honour any restriction on file ids
+        const chunks = await Chunk.find({
+            ...filter,
+            fileId: { $in: [...new Set(hits.map(hit => hit.fileId))] },
+            chunkId: { $in: [...new Set(hits.map(hit => hit.chunkId))] }
+        }).select('-embedding');
+        const chunksByLabel = new Map(chunks.map(chunk => [`${String(chunk.fileId)}:${chunk.chunkId}`, chunk]));
+
+        const ranked: Array<{ chunk: IChunk; similarity: number }> = [];
+        for (const hit of hits) {
+            const chunk = chunksByLabel.get(`${hit.fileId}:${hit.chunkId}`);
+            if (chunk) {
+                ranked.push({ chunk, similarity: hit.similarity });
+            }
         }
+        return this.attachFiles(ranked);
+    }
+
+    private async attachFiles(ranked: Array<{ chunk: IChunk; similarity: number }>): Promise<SimilarChunk[]> {
+        const fileIds = [...new Set(ranked.map(item => String(item.chunk.fileId)))];
+        const files = await File.find({ _id: { $in: fileIds } }).select('originalName language');
+        const filesById = new Map(files.map(file => [String(file._id), file]));
+
+        const results: SimilarChunk[] = [];
+        for (const { chunk, similarity } of ranked) {
+            const file = filesById.get(String(chunk.fileId));
+            if (file) {
+                results.push(this.toSimilarChunk(file, chunk, similarity));
+            }
+        }
+        return results;
+    }
+
+    private toSimilarChunk(file: IFile, chunk: IChunk, similarity: number): SimilarChunk {
+        return {
+            file: {
+                id: String(file._id),
+                name: file.originalName,
+                language: file.language
+            },
+            chunk: {
+                id: chunk.chunkId,
+                content: chunk.content,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+                type: chunk.type
+            },
+            similarity
+        };
     }
 
     private cosineSimilarity(vecA: number[], vecB: number[]): number {
@@ -194,76 +462,6 @@ class EmbeddingService {
         return dotProduct / (normA * normB);
     }
 
-    async searchInSession(userId: string, sessionId: string, query: string, apiKey: string, limit: number = 5) {
-        try {
-            // Initialize if needed
-            if (!this.isInitialized()) {
-                this.initialize(apiKey);
-            }
-
-            // Generate embedding for the search query
-            const queryEmbedding = await this.generateEmbedding(query);
-
-            // Find files in the specific session
-            const files = await File.find({ userId, sessionId });
-
-            if (files.length === 0) {
-                return [];
-            }
-
-            const similarities: Array<{
-                file: {
-                    id: string;
-                    name: string;
-                    language: string;
-                };
-                chunk: {
-                    id: string;
-                    content: string;
-                    startLine: number;
-                    endLine: number;
-                    type: string;
-                };
-                similarity: number;
-            }> = [];
-
-            // Compare query embedding with chunk embeddings
-            for (const file of files) {
-                for (const chunk of file.chunks) {
-                    if (chunk.embedding && chunk.embedding.length > 0) {
-                        const similarity = this.cosineSimilarity(queryEmbedding, chunk.embedding);
-                        similarities.push({
-                            file: {
-                                id: String(file._id),
-                                name: file.originalName,
-                                language: file.language
-                            },
-                            chunk: {
-                                id: chunk.id,
-                                content: chunk.content,
-                                startLine: chunk.startLine,
-                                endLine: chunk.endLine,
-                                type: chunk.type
-                            },
-                            similarity
-                        });
-                    }
-                }
-            }
-
-            // Sort by similarity and return top results
-            return similarities
-                .sort((a, b) => b.similarity - a.similarity)
-                .slice(0, limit);
-        } catch (error) {
-            logger.error('Error searching in session:', error);
-            throw error;
-        }
-    }
-
-    isInitialized(): boolean {
-        return this.embeddingModel !== null;
-    }
 }
 
 export const embeddingService = new EmbeddingService();
\ No newline at end of file
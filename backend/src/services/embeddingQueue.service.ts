@@ -0,0 +1,265 @@
+import mongoose from 'mongoose';
+import { EmbeddingJob, IEmbeddingJob } from '../models/EmbeddingJob';
+import { File } from '../models/File';
+import { Chunk } from '../models/Chunk';
+import { embeddingService } from './embedding.service';
+import { llmClientPool } from './llmClientPool.service';
+import { logger } from '../utils/logger';
+
+export interface EnqueueEmbeddingJobOptions {
+    userId: string;
+    fileIds: string[];
+    sessionId?: string;
+    // Only kept in memory: a job that outlives the process falls back to the user's stored key
+    apiKey?: string;
+}
+
+// Write progress at most this often while a file is being embedded
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+/**
+ * Mongo-backed queue for embedding work. Jobs are claimed atomically, so
+ * several server instances can share the collection; a job whose worker died
+ * is picked up again once its lock goes stale. Failed attempts are retried
+ * with exponential backoff until `maxAttempts` is reached.
+ */
+export class EmbeddingQueueService {
+    private running = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private started = false;
+    private polling = false;
+    private requestApiKeys = new Map<string, string>();
+
+    constructor(
+        private concurrency: number = parseInt(process.env.EMBEDDING_JOB_CONCURRENCY || '2'),
+        private pollIntervalMs: number = parseInt(process.env.EMBEDDING_JOB_POLL_INTERVAL_MS || '2000'),
+        private maxAttempts: number = parseInt(process.env.EMBEDDING_JOB_MAX_ATTEMPTS || '3'),
+        private backoffBaseMs: number = parseInt(process.env.EMBEDDING_JOB_BACKOFF_MS || '5000'),
+        private lockTimeoutMs: number = parseInt(process.env.EMBEDDING_JOB_LOCK_TIMEOUT_MS || '600000')
+    ) {}
+
+    start(): void {
+        if (this.started) {
+            return;
+        }
+
+        this.started = true;
+        logger.info(`Embedding queue started (concurrency ${this.concurrency})`);
+        this.schedule(0);
+    }
+
+    stop(): void {
+        this.started = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async enqueue(options: EnqueueEmbeddingJobOptions): Promise<IEmbeddingJob> {
+        try {
+            const fileIds = options.fileIds.filter(id => mongoose.Types.ObjectId.isValid(id));
+            const files = await File.find({ _id: { $in: fileIds }, userId: options.userId }).select('chunkCount');
+
+            const job = await EmbeddingJob.create({
+                userId: new mongoose.Types.ObjectId(options.userId),
+                sessionId: options.sessionId,
+                fileIds: files.map(file => String(file._id)),
+                maxAttempts: this.maxAttempts,
+                progress: {
+                    totalFiles: files.length,
+                    processedFiles: 0,
+                    totalChunks: files.reduce((sum, file) => sum + file.chunkCount, 0),
+                    embeddedChunks: 0
+                }
+            });
+
+            if (options.apiKey) {
+                this.requestApiKeys.set(job.id, options.apiKey);
+            }
+
+            logger.info(`Queued embedding job ${job.id} for ${files.length} files (user ${options.userId})`);
+            this.schedule(0);
+            return job;
+        } catch (error) {
+            logger.error('Error queueing embedding job:', error);
+            throw error;
+        }
+    }
+
+    async enqueueSession(userId: string, sessionId: string, apiKey?: string): Promise<IEmbeddingJob> {
+        const files = await File.find({ userId, sessionId }).select('_id');
+        return this.enqueue({ userId, sessionId, apiKey, fileIds: files.map(file => String(file._id)) });
+    }
+
+    async getJob(jobId: string, userId: string): Promise<IEmbeddingJob | null> {
+        if (!mongoose.Types.ObjectId.isValid(jobId)) {
+            return null;
+        }
+
+        return EmbeddingJob.findOne({
+            _id: new mongoose.Types.ObjectId(jobId),
+            userId: new mongoose.Types.ObjectId(userId)
+        });
+    }
+
+    private schedule(delayMs: number): void {
+        if (!this.started) {
+            return;
+        }
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.poll().catch(error => logger.error('Embedding queue poll failed:', error));
+        }, delayMs);
+    }
+
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            while (this.started && this.running < this.concurrency) {
+                const job = await this.claim();
+                if (!job) break;
+
+                this.running++;
+                this.run(job)
+                    .catch(error => logger.error(`Embedding job ${job.id} crashed:`, error))
+                    .finally(() => {
+                        this.running--;
+                        this.schedule(0);
+                    });
+            }
+        } finally {
+            this.polling = false;
+            this.schedule(this.pollIntervalMs);
+        }
+    }
+
+    // Take the oldest due job, or one whose worker stopped renewing its lock
+    private async claim(): Promise<IEmbeddingJob | null> {
+        const now = new Date();
+
+        return EmbeddingJob.findOneAndUpdate(
+            {
+                $or: [
+                    { status: 'queued', nextRunAt: { $lte: now } },
+                    { status: 'running', lockedAt: { $lt: new Date(now.getTime() - this.lockTimeoutMs) } }
+                ]
+            },
+            { $set: { status: 'running', lockedAt: now }, $inc: { attempts: 1 } },
+            { sort: { nextRunAt: 1 }, new: true }
+        );
+    }
+
+    private async run(job: IEmbeddingJob): Promise<void> {
+        // Reclaimed from a stale lock after its last attempt's worker died
+        if (job.attempts > job.maxAttempts) {
+            logger.error(`Embedding job ${job.id} failed: its worker stopped during attempt ${job.maxAttempts}`);
+            await this.finish(job, 'failed', job.lastError || `Worker stopped during attempt ${job.maxAttempts}`);
+            return;
+        }
+
+        logger.info(`Running embedding job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+        try {
+            const client = await llmClientPool.acquireForUser(String(job.userId), this.requestApiKeys.get(job.id));
+            if (!client) {
+                await this.finish(job, 'failed', 'An API key is required to generate embeddings');
+                return;
+            }
+
+            const completed = new Set(job.completedFileIds);
+            // Chunks embedded by earlier attempts still count towards progress
+            let embeddedBase = completed.size > 0
+                ? await Chunk.countDocuments({ fileId: { $in: [...completed] }, embeddingDimension: { $exists: true } })
+                : 0;
+            let lastWrite = 0;
+
+            for (const fileId of job.fileIds) {
+                if (completed.has(fileId)) continue;
+
+                if (!(await File.exists({ _id: fileId }))) {
+                    logger.warn(`Skipping deleted file ${fileId} in embedding job ${job.id}`);
+                } else {
+                    const results = await embeddingService.generateEmbeddingsForFile(fileId, client, (embedded) => {
+                        if (Date.now() - lastWrite >= PROGRESS_WRITE_INTERVAL_MS) {
+                            lastWrite = Date.now();
+                            this.writeProgress(job, { embeddedChunks: embeddedBase + embedded });
+                        }
+                    });
+
+                    const total = await Chunk.countDocuments({ fileId });
+                    if (results.length < total) {
+                        throw new Error(`Embedded ${results.length} of ${total} chunks for file ${fileId}`);
+                    }
+                    embeddedBase += results.length;
+                }
+
+                completed.add(fileId);
+                await EmbeddingJob.updateOne(
+                    { _id: job._id },
+                    {
+                        $addToSet: { completedFileIds: fileId },
+                        $set: {
+                            lockedAt: new Date(),
+                            'progress.processedFiles': completed.size,
+                            'progress.embeddedChunks': embeddedBase
+                        }
+                    }
+                );
+            }
+
+            await this.finish(job, 'completed');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+
+            if (job.attempts >= job.maxAttempts) {
+                logger.error(`Embedding job ${job.id} failed after ${job.attempts} attempts:`, error);
+                await this.finish(job, 'failed', message);
+                return;
+            }
+
+            const delayMs = this.backoffBaseMs * Math.pow(2, job.attempts - 1);
+            logger.warn(`Embedding job ${job.id} attempt ${job.attempts} failed, retrying in ${delayMs}ms: ${message}`);
+
+            await EmbeddingJob.updateOne(
+                { _id: job._id },
+                {
+                    $set: { status: 'queued', nextRunAt: new Date(Date.now() + delayMs), lastError: message },
+                    $unset: { lockedAt: '' }
+                }
+            );
+        }
+    }
+
+    private writeProgress(job: IEmbeddingJob, progress: { embeddedChunks: number }): void {
+        // Doubles as the lock heartbeat; losing one write only makes the bar lag
+        EmbeddingJob.updateOne(
+            { _id: job._id },
+            { $set: { lockedAt: new Date(), 'progress.embeddedChunks': progress.embeddedChunks } }
+        ).catch(error => logger.warn(`Could not record progress for embedding job ${job.id}:`, error));
+    }
+
+    private async finish(job: IEmbeddingJob, status: 'completed' | 'failed', lastError?: string): Promise<void> {
+        this.requestApiKeys.delete(job.id);
+
+        await EmbeddingJob.updateOne(
+            { _id: job._id },
+            {
+                $set: { status, completedAt: new Date(), ...(lastError && { lastError }) },
+                $unset: { lockedAt: '' }
+            }
+        );
+
+        logger.info(`Embedding job ${job.id} ${status}`);
+    }
+}
+
+export const embeddingQueueService = new EmbeddingQueueService();
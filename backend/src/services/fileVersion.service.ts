@@ -0,0 +1,294 @@
+import fs from 'fs/promises';
+import { File, IFile } from '../models/File';
+import { FileVersion } from '../models/FileVersion';
+import { ICodeChunk } from '../models/Chunk';
+import { FileSymbols } from '../models/CodeSymbol';
+import { chunkService } from './chunk.service';
+import { symbolIndexService } from './symbolIndex.service';
+import { vectorIndexService } from './vectorIndex.service';
+import { FileProcessorService } from './fileProcessor.service';
+import { unifiedDiff } from '../utils/diff';
+import { SecretFinding } from '../utils/secrets';
+import { logger } from '../utils/logger';
+
+// New contents for a file that already exists at the same path
+export interface FileRevision {
+    name: string;
+    path: string;
+    size: number;
+    mimeType: string;
+    content: string;
+    blobSha?: string;
+    language: string;
+    dependencies: string[];
+    exports: string[];
+    chunks: ICodeChunk[];
+    symbols: FileSymbols;
+    secretFindings: SecretFinding[];
+}
+
+export interface FileVersionSummary {
+    version: number;
+    size: number;
+    language: string;
+    chunkCount: number;
+    blobSha?: string;
+    uploadedAt: Date;
+    current: boolean;
+}
+
+// Outcome of moving a user's unassigned files into a session
+export interface SessionAssignment {
+    // Files moved as they are
+    assignedIds: string[];
+    // Files already in the session that got a new version from an unassigned file at their path
+    revisedFiles: IFile[];
+}
+
+/**
+ * Tracks versions of a file per (user, session, path). The `File` document
+ * always holds the current version and keeps its id, so chunks, embeddings
+ * and links to it stay valid; what it replaced is kept as a `FileVersion`
+ * with its content and chunk boundaries.
+ */
+export class FileVersionService {
+    static filePath(file: IFile): string {
+        return file.relativePath || file.originalName;
+    }
+
+    // The session's current file at a path, if any
+    async findCurrent(userId: string, sessionId: string, filePath: string): Promise<IFile | null> {
+        return File.findOne({
+            userId,
+            sessionId,
+            $or: [
+                { relativePath: filePath },
+                { relativePath: { $exists: false }, originalName: filePath }
+            ]
+        }).sort({ uploadedAt: -1 });
+    }
+
+    /**
+     * Make the revision the file's current version. A revision with the same
+     * content as the current version is dropped instead.
+     */
+    async revise(file: IFile, revision: FileRevision): Promise<IFile> {
+        try {
+            if (revision.content === file.content) {
+                if (revision.path !== file.path) {
+                    await this.removeFromDisk(revision.path);
+                }
+                return file;
+            }
+
+            const chunks = await chunkService.getChunksForFile(String(file._id));
+            await FileVersion.create({
+                fileId: file._id,
+                userId: file.userId,
+                sessionId: file.sessionId,
+                version: file.version || 1,
+                filePath: FileVersionService.filePath(file),
+                content: file.content,
+                size: file.size,
+                language: file.language,
+                blobSha: file.blobSha,
+                chunks: chunks.map(chunk => ({
+                    chunkId: chunk.chunkId,
+                    contentHash: chunk.contentHash,
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    type: chunk.type,
+                    symbolName: chunk.symbolName,
+                    parentChunkId: chunk.parentChunkId
+                })),
+                uploadedAt: file.uploadedAt
+            });
+
+            const previousPath = file.path;
+            file.set({
+                name: revision.name,
+                path: revision.path,
+                size: revision.size,
+                mimeType: revision.mimeType,
+                content: revision.content,
+                blobSha: revision.blobSha,
+                language: revision.language,
+                dependencies: revision.dependencies,
+                exports: revision.exports,
+                secretFindings: revision.secretFindings,
+                version: (file.version || 1) + 1,
+                uploadedAt: new Date()
+            });
+            await file.save();
+
+            const stored = await chunkService.replaceChunksForFile(file, revision.chunks);
+            await symbolIndexService.replaceSymbolsForFile(file, revision.symbols);
+
+            // Chunk ids are reassigned, so the file's vectors are replaced by those carried
+            // over, in the index of the model that made them; the embedding job adds the rest
+            if (file.sessionId) {
+                const fileId = String(file._id);
+                const carried = new Map<string, { chunkId: string; embedding: number[] }[]>();
+                for (const chunk of stored) {
+                    if (chunk.embeddingModel && chunk.embedding && chunk.embedding.length > 0) {
+                        const vectors = carried.get(chunk.embeddingModel) || [];
+                        vectors.push({ chunkId: chunk.chunkId, embedding: chunk.embedding });
+                        carried.set(chunk.embeddingModel, vectors);
+                    }
+                }
+
+                await vectorIndexService.removeFile(file.sessionId, fileId);
+                for (const [embeddingModel, vectors] of carried) {
+                    await vectorIndexService.upsertFile(file.sessionId, fileId, embeddingModel, vectors);
+                }
+            }
+
+            if (previousPath !== revision.path) {
+                await this.removeFromDisk(previousPath);
+            }
+
+            logger.info(`Stored version ${file.version} of ${FileVersionService.filePath(file)} (${stored.length} chunks)`);
+            return file;
+        } catch (error) {
+            logger.error('Error storing file version:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Move the user's files that have no session into this one, oldest first so
+     * later uploads of a path become newer versions. A file at a path the
+     * session already has becomes that file's next version and is removed.
+     */
+    async assignToSession(userId: string, sessionId: string): Promise<SessionAssignment> {
+        const unassigned = await File.find({
+            userId,
+            $or: [
+                { sessionId: { $exists: false } },
+                { sessionId: null },
+                { sessionId: "" }
+            ]
+        }).sort({ uploadedAt: 1 });
+
+        const assignedIds: string[] = [];
+        const revisedFiles: IFile[] = [];
+
+        for (const file of unassigned) {
+            const filePath = FileVersionService.filePath(file);
+            const current = await this.findCurrent(userId, sessionId, filePath);
+
+            if (!current) {
+                await File.updateOne({ _id: file._id, userId }, { sessionId });
+                assignedIds.push(String(file._id));
+                continue;
+            }
+
+            const revised = await this.revise(current, {
+                name: file.name,
+                path: file.path,
+                size: file.size,
+                mimeType: file.mimeType,
+                content: file.content,
+                blobSha: file.blobSha,
+                language: file.language,
+                dependencies: file.dependencies,
+                exports: file.exports,
+                chunks: FileProcessorService.parseCodeChunks(file.content, file.language, filePath),
+                symbols: FileProcessorService.extractSymbols(file.content, file.language, filePath),
+                secretFindings: FileProcessorService.scanSecrets(file.content, filePath)
+            });
+            await this.remove(file);
+            revisedFiles.push(revised);
+        }
+
+        if (assignedIds.length > 0) {
+            await chunkService.assignSession(assignedIds, sessionId);
+            await symbolIndexService.assignSession(assignedIds, sessionId);
+            await vectorIndexService.invalidate(sessionId);
+        }
+
+        logger.info(`Assigned ${assignedIds.length} files to session ${sessionId}, ${revisedFiles.length} as new versions`);
+        return { assignedIds, revisedFiles };
+    }
+
+    // Remove a file with its versions, chunks, symbols and indexed vectors; the copy on disk is left to the caller
+    async remove(file: IFile): Promise<void> {
+        const fileId = String(file._id);
+
+        await File.findByIdAndDelete(fileId);
+        await chunkService.deleteChunksForFile(fileId);
+        await symbolIndexService.deleteSymbolsForFile(fileId);
+        await this.deleteVersions(fileId);
+
+        if (file.sessionId) {
+            await vectorIndexService.removeFile(file.sessionId, fileId);
+        }
+    }
+
+    // Newest first, starting with the current version
+    async listVersions(file: IFile): Promise<FileVersionSummary[]> {
+        const versions = await FileVersion.find({ fileId: file._id })
+            .select('version size language blobSha chunks.chunkId uploadedAt')
+            .sort({ version: -1 });
+
+        return [
+            {
+                version: file.version || 1,
+                size: file.size,
+                language: file.language,
+                chunkCount: file.chunkCount,
+                blobSha: file.blobSha,
+                uploadedAt: file.uploadedAt,
+                current: true
+            },
+            ...versions.map(version => ({
+                version: version.version,
+                size: version.size,
+                language: version.language,
+                chunkCount: version.chunks.length,
+                blobSha: version.blobSha,
+                uploadedAt: version.uploadedAt,
+                current: false
+            }))
+        ];
+    }
+
+    async getContent(file: IFile, version: number): Promise<string | null> {
+        if (version === (file.version || 1)) {
+            return file.content;
+        }
+
+        const stored = await FileVersion.findOne({ fileId: file._id, version }).select('content');
+        return stored ? stored.content : null;
+    }
+
+    /**
+     * Unified diff from one version of a file to another, or null when either
+     * version doesn't exist.
+     */
+    async diff(file: IFile, from: number, to: number): Promise<string | null> {
+        const [oldContent, newContent] = await Promise.all([this.getContent(file, from), this.getContent(file, to)]);
+        if (oldContent === null || newContent === null) {
+            return null;
+        }
+
+        const filePath = FileVersionService.filePath(file);
+        return unifiedDiff(oldContent, newContent, `a/${filePath}\tversion ${from}`, `b/${filePath}\tversion ${to}`);
+    }
+
+    async deleteVersions(fileId: string): Promise<number> {
+        const result = await FileVersion.deleteMany({ fileId });
+        return result.deletedCount;
+    }
+
+    // Earlier versions live in the database; their uploaded copies aren't needed
+    private async removeFromDisk(filePath: string): Promise<void> {
+        try {
+            await fs.unlink(filePath);
+        } catch (error) {
+            logger.warn(`Could not delete file from filesystem: ${filePath}`);
+        }
+    }
+}
+
+export const fileVersionService = new FileVersionService();
@@ -0,0 +1,194 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { FileProcessorService } from './fileProcessor.service';
+import { CustomError } from '../middleware/errorHandler';
+import { validatePath } from '../utils/security';
+import { generateId, isBinaryContent } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+export type RepositorySource =
+    | { type: 'bundle'; bundlePath: string }
+    | { type: 'path'; path: string };
+
+export interface RepositoryFile {
+    // Relative to the repository root, with forward slashes
+    relativePath: string;
+    // Git blob id; files with the same id have the same content
+    blobSha: string;
+    diskPath: string;
+    size: number;
+}
+
+export interface RepositoryCheckout {
+    commitSha: string;
+    files: RepositoryFile[];
+    // Excluded, oversized, symlinked and submodule entries
+    skipped: number;
+}
+
+// Branch or tag names, commit ids and `HEAD~2`-style expressions; never an option or a range
+const REF_PATTERN = /^\w[\w./^~-]*$/;
+
+const GIT_MODE_FILE = '100644';
+const GIT_MODE_EXECUTABLE = '100755';
+
+/**
+ * Checks out a ref of a git repository, either cloned from an uploaded
+ * `git bundle` or from a server-local repository under one of the
+ * directories in GIT_IMPORT_ALLOWED_PATHS. Each checkout replaces the
+ * previous one under the same key, so files stay at stable paths across
+ * imports of the same session.
+ */
+export class GitImportService {
+    private allowedRoots: string[];
+
+    constructor(
+        allowedPaths = process.env.GIT_IMPORT_ALLOWED_PATHS || '',
+        private maxFiles = parseInt(process.env.GIT_IMPORT_MAX_FILES || '5000'),
+        private maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '10485760'),
+        private timeoutMs = parseInt(process.env.GIT_IMPORT_TIMEOUT_MS || '300000'),
+        private checkoutDir = path.join(process.env.UPLOAD_DIR || './uploads', 'repositories')
+    ) {
+        this.allowedRoots = allowedPaths.split(',').map(root => root.trim()).filter(Boolean);
+    }
+
+    static isValidRef(ref: string): boolean {
+        return ref.length <= 250 && REF_PATTERN.test(ref) && !ref.includes('..');
+    }
+
+    async checkout(source: RepositorySource, ref: string, key: string): Promise<RepositoryCheckout> {
+        if (!GitImportService.isValidRef(ref)) {
+            throw new CustomError(`Invalid ref: ${ref}`, 400);
+        }
+
+        const origin = source.type === 'path'
+            ? await this.resolveAllowedPath(source.path)
+            : path.resolve(source.bundlePath);
+        const directory = path.resolve(this.checkoutDir, key);
+        // Cloned next to the previous checkout and swapped in once complete
+        const staging = `${directory}.${generateId()}`;
+
+        await fs.mkdir(this.checkoutDir, { recursive: true });
+
+        try {
+            try {
+                await this.git(['clone', '--no-checkout', '--quiet', '--', origin, staging]);
+            } catch (error) {
+                throw new CustomError(`Could not clone repository: ${GitImportService.gitError(error)}`, 400);
+            }
+
+            const commitSha = await this.resolveRef(staging, ref);
+            const { files, skipped } = await this.listTree(staging, commitSha);
+            await this.git(['-C', staging, 'checkout', '--quiet', '--detach', commitSha]);
+
+            await fs.rm(directory, { recursive: true, force: true });
+            await fs.rename(staging, directory);
+
+            logger.info(`Checked out ${ref} (${commitSha}) with ${files.length} files to import`);
+            return {
+                commitSha,
+                files: files.map(file => ({ ...file, diskPath: path.join(directory, file.relativePath) })),
+                skipped
+            };
+        } catch (error) {
+            await fs.rm(staging, { recursive: true, force: true });
+            throw error;
+        }
+    }
+
+    // Text content of a checked-out file, or null for binary files
+    async readFile(file: RepositoryFile): Promise<string | null> {
+        const data = await fs.readFile(file.diskPath);
+        return isBinaryContent(data) ? null : data.toString('utf-8');
+    }
+
+    private async resolveAllowedPath(requested: string): Promise<string> {
+        let resolved: string;
+        try {
+            resolved = await fs.realpath(path.resolve(requested));
+        } catch (error) {
+            throw new CustomError(`Repository path not found: ${requested}`, 400);
+        }
+
+        for (const root of this.allowedRoots) {
+            try {
+                const allowed = await fs.realpath(path.resolve(root));
+                if (resolved === allowed || resolved.startsWith(allowed + path.sep)) {
+                    return resolved;
+                }
+            } catch (error) {
+                logger.warn(`Allowed git import path does not exist: ${root}`);
+            }
+        }
+
+        throw new CustomError(`Importing from ${requested} is not allowed`, 403);
+    }
+
+    // A clone only has its default branch locally; other branches live under origin/
+    private async resolveRef(repository: string, ref: string): Promise<string> {
+        for (const candidate of [ref, `origin/${ref}`]) {
+            try {
+                const sha = await this.git(['-C', repository, 'rev-parse', '--verify', '--quiet', '--end-of-options', `${candidate}^{commit}`]);
+                return sha.trim();
+            } catch (error) {
+                // Try the next candidate
+            }
+        }
+        throw new CustomError(`Ref not found in repository: ${ref}`, 400);
+    }
+
+    private async listTree(repository: string, commitSha: string): Promise<{ files: Omit<RepositoryFile, 'diskPath'>[]; skipped: number }> {
+        const output = await this.git(['-C', repository, 'ls-tree', '-r', '-z', '--long', commitSha]);
+        const files: Omit<RepositoryFile, 'diskPath'>[] = [];
+        let skipped = 0;
+
+        // Records are `<mode> <type> <id> <size>\t<path>`, NUL-terminated
+        for (const record of output.split('\0')) {
+            const tab = record.indexOf('\t');
+            if (tab === -1) continue;
+
+            const [mode, type, blobSha, size] = record.substring(0, tab).trim().split(/\s+/);
+            const relativePath = record.substring(tab + 1);
+
+            if (!validatePath(relativePath)) {
+                throw new CustomError(`Repository contains an unsafe path: ${relativePath}`, 400);
+            }
+
+            if (type !== 'blob'
+                || (mode !== GIT_MODE_FILE && mode !== GIT_MODE_EXECUTABLE)
+                || !FileProcessorService.shouldProcessFile(relativePath)
+                || parseInt(size) > this.maxFileSize) {
+                skipped++;
+                continue;
+            }
+
+            files.push({ relativePath, blobSha, size: parseInt(size) });
+        }
+
+        if (files.length > this.maxFiles) {
+            throw new CustomError(`Repository has ${files.length} files to import; the limit is ${this.maxFiles}`, 400);
+        }
+
+        return { files, skipped };
+    }
+
+    private async git(args: string[]): Promise<string> {
+        const { stdout } = await execFileAsync('git', args, {
+            timeout: this.timeoutMs,
+            maxBuffer: 64 * 1024 * 1024,
+            env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+        });
+        return stdout;
+    }
+
+    private static gitError(error: unknown): string {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        return stderr ? stderr.split('\n').pop() as string : (error as Error).message;
+    }
+}
+
+export const gitImportService = new GitImportService();
@@ -0,0 +1,97 @@
+import { Chunk } from '../models/Chunk';
+import { chunkService, ChunkScope, ChunkService } from './chunk.service';
+import { Bm25Index } from '../utils/bm25';
+import { logger } from '../utils/logger';
+
+export interface LexicalChunkHit {
+    fileId: string;
+    chunkId: string;
+    score: number;
+}
+
+interface CachedIndex {
+    fingerprint: string;
+    index: Bm25Index;
+}
+
+// Names introduced by a declaration on the chunk's first line
+const DECLARATION_PATTERN = /\b(?:function|class|interface|type|enum|def|func|fn|struct|trait|impl|const|let|var)\s+([A-Za-z_$][\w$]*)/g;
+const METHOD_PATTERN = /^\s*(?:(?:public|private|protected|static|async|export|default)\s+)*([A-Za-z_$][\w$]*)\s*\(/;
+
+/**
+ * BM25 index over chunk content and declared symbol names, one per session
+ * (or per user for searches across sessions). Indexes live in memory and are
+ * rebuilt whenever the scope's chunks change,
+ * which is detected from the session fingerprint rather than by hooking
+ * every write path.
+ */
+export class LexicalIndexService {
+    private cache = new Map<string, CachedIndex>();
+
+    constructor(private maxCached: number = parseInt(process.env.LEXICAL_INDEX_CACHE_SIZE || '20')) {}
+
+    async search(scope: ChunkScope, query: string, limit: number, accept?: (label: string) => boolean): Promise<LexicalChunkHit[]> {
+        try {
+            const index = await this.getIndex(scope);
+            return index.search(query, limit, accept).map(result => {
+                const separator = result.id.indexOf(':');
+                return {
+                    fileId: result.id.substring(0, separator),
+                    chunkId: result.id.substring(separator + 1),
+                    score: result.score
+                };
+            });
+        } catch (error) {
+            logger.error('Error in lexical search:', error);
+            throw error;
+        }
+    }
+
+    static extractSymbols(content: string): string[] {
+        const firstLine = content.split('\n')[0];
+        const symbols = [...firstLine.matchAll(DECLARATION_PATTERN)].map(match => match[1]);
+
+        const method = firstLine.match(METHOD_PATTERN);
+        if (symbols.length === 0 && method && !['if', 'for', 'while', 'switch', 'catch', 'return'].includes(method[1])) {
+            symbols.push(method[1]);
+        }
+
+        return symbols;
+    }
+
+    private async getIndex(scope: ChunkScope): Promise<Bm25Index> {
+        const fingerprint = await chunkService.getFingerprint(scope);
+        const key = ChunkService.scopeKey(scope);
+        const cached = this.cache.get(key);
+
+        if (cached && cached.fingerprint === fingerprint) {
+            // Refresh LRU position
+            this.cache.delete(key);
+            this.cache.set(key, cached);
+            return cached.index;
+        }
+
+        const startedAt = Date.now();
+        const index = new Bm25Index();
+        const cursor = Chunk.find(ChunkService.scopeQuery(scope)).select('fileId chunkId content symbolName').cursor();
+
+        for await (const chunk of cursor) {
+            index.add({
+                id: `${String(chunk.fileId)}:${chunk.chunkId}`,
+                text: chunk.content,
+                symbols: chunk.symbolName ? [chunk.symbolName] : LexicalIndexService.extractSymbols(chunk.content)
+            });
+        }
+
+        this.cache.delete(key);
+        this.cache.set(key, { fingerprint, index });
+        while (this.cache.size > this.maxCached) {
+            this.cache.delete(this.cache.keys().next().value as string);
+        }
+
+        logger.info(`Built lexical index for ${key}: ${index.size} chunks in ${Date.now() - startedAt}ms`);
+        return index;
+    }
+}
+
+export const lexicalIndexService = new LexicalIndexService();
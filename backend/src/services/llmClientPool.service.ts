@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { IUser, User } from '../models/User';
+import { LLMProvider, LLMProviderConfig, LLMProviderName, createProvider, getForcedProviderName, providerRequiresApiKey } from './providers';
+import { baseUrlOrigin, validateProviderBaseUrl } from '../utils/security';
+import { logger } from '../utils/logger';
+
+interface PoolEntry {
+    userId: string;
+    client: LLMProvider;
+    lastUsed: number;
+}
+
+/**
+ * Keyed pool of LLM clients. Each entry is bound to one user and one provider
+ * configuration (provider, API key, endpoint and models), so keys, quotas and
+ * errors never leak between users. Entries are evicted least-recently-used
+ * first once the pool is full, and dropped after sitting idle for longer than
+ * the configured TTL.
+ */
+export class LLMClientPool {
+    // Map preserves insertion order, which doubles as the LRU order
+    private entries: Map<string, PoolEntry> = new Map();
+
+    constructor(
+        private maxClients: number = parseInt(process.env.LLM_POOL_MAX_CLIENTS || '100'),
+        private idleTtlMs: number = parseInt(process.env.LLM_POOL_IDLE_TTL_MS || String(30 * 60 * 1000))
+    ) {}
+
+    /**
+     * Resolve the client for a user from their stored provider settings. The
+     * user's stored API key takes precedence; the key supplied with the request
+     * is a Gemini key, only used for Gemini when none is stored. Returns null
+     * when the provider needs a key and none is available.
+     */
+    async acquireForUser(userId: string, requestApiKey?: string): Promise<LLMProvider | null> {
+        const config = await this.getStoredConfig(userId);
+        if (config.name === 'gemini') {
+            config.apiKey = config.apiKey || requestApiKey;
+        }
+
+        if (!config.apiKey && providerRequiresApiKey(config.name)) {
+            return null;
+        }
+
+        return this.acquire(userId, config);
+    }
+
+    acquire(userId: string, config: LLMProviderConfig): LLMProvider {
+        this.pruneIdle();
+
+        const key = this.buildKey(userId, config);
+        const existing = this.entries.get(key);
+
+        if (existing) {
+            // Re-insert to mark as most recently used
+            this.entries.delete(key);
+            existing.lastUsed = Date.now();
+            this.entries.set(key, existing);
+            return existing.client;
+        }
+
+        const client = createProvider(config);
+        this.entries.set(key, { userId, client, lastUsed: Date.now() });
+        this.evictOverflow();
+
+        logger.info(`Created pooled ${config.name} client for user ${userId} (${this.entries.size}/${this.maxClients})`);
+        return client;
+    }
+
+    /**
+     * Drop every client belonging to a user, e.g. after their API key or
+     * provider settings change.
+     */
+    evictUser(userId: string): void {
+        for (const [key, entry] of this.entries.entries()) {
+            if (entry.userId === userId) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    size(): number {
+        return this.entries.size;
+    }
+
+    private async getStoredConfig(userId: string): Promise<LLMProviderConfig> {
+        const forcedProvider = getForcedProviderName();
+
+        try {
+            const user = await User.findById(userId).select('+apiKey +providerCredentials');
+
+            // Only the provider is forced: the user's key for it still applies, on its default endpoint
+            if (forcedProvider) {
+                return { name: forcedProvider, apiKey: user ? this.getStoredApiKey(user, forcedProvider) : undefined };
+            }
+
+            // Settings saved before the allowlist tightened are checked again
+            let baseUrl = user?.llmProvider?.baseUrl;
+            if (baseUrl && !validateProviderBaseUrl(baseUrl)) {
+                logger.warn(`Ignoring disallowed provider base URL for user ${userId}`);
+                baseUrl = undefined;
+            }
+
+            const name = user?.llmProvider?.name || 'gemini';
+            return {
+                name,
+                apiKey: user ? this.getStoredApiKey(user, name, baseUrl) : undefined,
+                baseUrl,
+                model: user?.llmProvider?.model,
+                embeddingModel: user?.llmProvider?.embeddingModel
+            };
+        } catch (error) {
+            logger.warn(`Could not load stored provider settings for user ${userId}:`, error);
+            return { name: forcedProvider || 'gemini' };
+        }
+    }
+
+    /**
+     * The stored key for the provider: `apiKey` for Gemini, else the key saved
+     * for that provider, and only while it still points at the endpoint the
+     * key was saved for.
+     */
+    private getStoredApiKey(user: IUser, name: LLMProviderName, baseUrl?: string): string | undefined {
+        if (name === 'gemini') {
+            return user.apiKey;
+        }
+        if (name !== 'openai' && name !== 'ollama') {
+            return undefined;
+        }
+
+        const credential = user.providerCredentials?.[name];
+        if (!credential) {
+            return undefined;
+        }
+        if (baseUrlOrigin(credential.baseUrl) !== baseUrlOrigin(baseUrl)) {
+            logger.warn(`Not sending the stored ${name} key of user ${user._id}: it was saved for another endpoint`);
+            return undefined;
+        }
+        return credential.apiKey;
+    }
+
+    private buildKey(userId: string, config: LLMProviderConfig): string {
+        // Never keep raw API keys as map keys
+        const configHash = crypto.createHash('sha256').update(JSON.stringify(config)).digest('hex').substring(0, 16);
+        return `${userId}:${configHash}`;
+    }
+
+    private pruneIdle(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.entries.entries()) {
+            if (now - entry.lastUsed > this.idleTtlMs) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    private evictOverflow(): void {
+        while (this.entries.size > this.maxClients) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+    }
+}
+
+export const llmClientPool = new LLMClientPool();
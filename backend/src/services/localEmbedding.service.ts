@@ -0,0 +1,101 @@
+import { Chunk } from '../models/Chunk';
+import { chunkService, ChunkScope, ChunkService } from './chunk.service';
+import { IndexedChunkHit } from './vectorIndex.service';
+import { HashedTfIdfModel, SparseVector, dotProduct, hashFeatures } from '../utils/hashedTfIdf';
+import { logger } from '../utils/logger';
+
+interface LocalScopeVectors {
+    fingerprint: string;
+    model: HashedTfIdfModel;
+    labels: string[];
+    vectors: SparseVector[];
+}
+
+/**
+ * In-process embeddings for when the remote embedder can't be used: no API
+ * key, rate limits or outages. Chunks are vectorized with TF-IDF over hashed
+ * word and character n-grams, fitted per session (or per user) and kept in
+ * memory until the scope's chunks change. The vectors never leave the process, so they
+ * can't be confused with a provider's embeddings.
+ */
+export class LocalEmbeddingService {
+    private cache = new Map<string, LocalScopeVectors>();
+
+    constructor(
+        private dimension: number = parseInt(process.env.LOCAL_EMBEDDING_DIMENSION || '262144'),
+        private maxCached: number = parseInt(process.env.LOCAL_EMBEDDING_CACHE_SIZE || '20')
+    ) {}
+
+    async search(scope: ChunkScope, query: string, limit: number, accept?: (label: string) => boolean): Promise<IndexedChunkHit[]> {
+        try {
+            const entry = await this.getScopeVectors(scope);
+            const queryVector = entry.model.toDense(entry.model.vectorize(hashFeatures(query, this.dimension)));
+
+            const scored: Array<{ index: number; similarity: number }> = [];
+            entry.vectors.forEach((vector, index) => {
+                if (accept && !accept(entry.labels[index])) return;
+
+                const similarity = dotProduct(vector, queryVector);
+                if (similarity > 0) {
+                    scored.push({ index, similarity });
+                }
+            });
+
+            return scored
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, limit)
+                .map(({ index, similarity }) => {
+                    const label = entry.labels[index];
+                    const separator = label.indexOf(':');
+                    return {
+                        fileId: label.substring(0, separator),
+                        chunkId: label.substring(separator + 1),
+                        similarity
+                    };
+                });
+        } catch (error) {
+            logger.error('Error in local embedding search:', error);
+            throw error;
+        }
+    }
+
+    private async getScopeVectors(scope: ChunkScope): Promise<LocalScopeVectors> {
+        const fingerprint = await chunkService.getFingerprint(scope);
+        const key = ChunkService.scopeKey(scope);
+        const cached = this.cache.get(key);
+
+        if (cached && cached.fingerprint === fingerprint) {
+            // Refresh LRU position
+            this.cache.delete(key);
+            this.cache.set(key, cached);
+            return cached;
+        }
+
+        const startedAt = Date.now();
+        const model = new HashedTfIdfModel(this.dimension);
+        const labels: string[] = [];
+        const features: Array<Map<number, number>> = [];
+        const cursor = Chunk.find(ChunkService.scopeQuery(scope)).select('fileId chunkId content').cursor();
+
+        for await (const chunk of cursor) {
+            const counts = hashFeatures(chunk.content, this.dimension);
+            model.fit(counts);
+            labels.push(`${String(chunk.fileId)}:${chunk.chunkId}`);
+            features.push(counts);
+        }
+
+        // Weights depend on document frequencies over the whole scope
+        const entry = { fingerprint, model, labels, vectors: features.map(counts => model.vectorize(counts)) };
+
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+        while (this.cache.size > this.maxCached) {
+            this.cache.delete(this.cache.keys().next().value as string);
+        }
+
+        logger.info(`Built local embeddings for ${key}: ${labels.length} chunks in ${Date.now() - startedAt}ms`);
+        return entry;
+    }
+}
+
+export const localEmbeddingService = new LocalEmbeddingService();
@@ -0,0 +1,151 @@
+import { GoogleGenerativeAI, GenerativeModel, InputContent } from '@google/generative-ai';
+import { ChatTurn, LLMProvider } from './index';
+import { STREAM_TIMEOUT_MS, abortable, requestSignal } from './http';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_CHAT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_EMBEDDING_MODEL = 'embedding-001';
+// batchEmbedContents rejects more requests than this in one call
+const GEMINI_MAX_BATCH_SIZE = 100;
+
+/**
+ * Gemini backend bound to a single API key. Instances are handed out by the
+ * LLM client pool so that every user talks to Gemini with their own key.
+ */
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini' as const;
+    private genAI: GoogleGenerativeAI;
+    private model: GenerativeModel;
+    private embeddingModel: GenerativeModel;
+    private modelName: string;
+    private embeddingModelName: string;
+
+    constructor(apiKey: string, model?: string, embeddingModel?: string) {
+        try {
+            this.genAI = new GoogleGenerativeAI(apiKey);
+            this.modelName = model || DEFAULT_CHAT_MODEL;
+            this.embeddingModelName = embeddingModel || DEFAULT_EMBEDDING_MODEL;
+
+            this.model = this.genAI.getGenerativeModel({ model: this.modelName });
+            this.embeddingModel = this.genAI.getGenerativeModel({ model: this.embeddingModelName });
+
+            logger.info(`Gemini provider created with model: ${this.modelName}`);
+        } catch (error) {
+            logger.error('Failed to initialize Gemini API:', error);
+            throw error;
+        }
+    }
+
+    // The SDK takes no abort signal, so the request is left to finish in the background on abort
+    async generate(prompt: string, history: ChatTurn[] = [], signal?: AbortSignal): Promise<string> {
+        try {
+            const turns = toGeminiChat(history, prompt);
+            const chat = this.model.startChat({ history: turns.history });
+            const result = await abortable(chat.sendMessage(turns.prompt), requestSignal({ signal }));
+            const response = await result.response;
+            return response.text();
+        } catch (error) {
+            logger.error('Error generating response:', error);
+            throw error;
+        }
+    }
+
+    async stream(prompt: string, history: ChatTurn[] = [], signal?: AbortSignal): Promise<AsyncGenerator<string>> {
+        try {
+            const turns = toGeminiChat(history, prompt);
+            const chat = this.model.startChat({ history: turns.history });
+            const streamSignal = requestSignal({ signal, timeoutMs: STREAM_TIMEOUT_MS });
+            const result = await abortable(chat.sendMessageStream(turns.prompt), streamSignal);
+
+            return (async function* () {
+                const chunks = result.stream[Symbol.asyncIterator]();
+                while (true) {
+                    const { done, value } = await abortable(chunks.next(), streamSignal);
+                    if (done) break;
+                    yield value.text();
+                }
+            })();
+        } catch (error) {
+            logger.error('Error in streaming response:', error);
+            throw error;
+        }
+    }
+
+    async embed(text: string): Promise<number[]> {
+        try {
+            const result = await abortable(this.embeddingModel.embedContent(text), requestSignal());
+            return result.embedding.values;
+        } catch (error) {
+            logger.error('Error generating embedding:', error);
+            throw error;
+        }
+    }
+
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        try {
+            const vectors: number[][] = [];
+
+            for (let start = 0; start < texts.length; start += GEMINI_MAX_BATCH_SIZE) {
+                const result = await abortable(this.embeddingModel.batchEmbedContents({
+                    requests: texts.slice(start, start + GEMINI_MAX_BATCH_SIZE).map(text => ({
+                        content: { role: 'user', parts: [{ text }] }
+                    }))
+                }), requestSignal());
+                vectors.push(...result.embeddings.map(embedding => embedding.values));
+            }
+
+            return vectors;
+        } catch (error) {
+            logger.error('Error generating batch embeddings:', error);
+            throw error;
+        }
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    getEmbeddingModelName(): string {
+        return this.embeddingModelName;
+    }
+
+    // Gemini 2.5 Flash accepts up to 1M input tokens
+    getContextWindow(): number {
+        return 1048576;
+    }
+}
+
+/**
+ * History and prompt in the shape Gemini accepts. Gemini calls the assistant
+ * role "model" and rejects consecutive turns from the same role, so turns in
+ * a row from one role are joined. The prompt goes out as a user turn, so a
+ * history ending with one (a question whose reply failed or was aborted) has
+ * it joined into the prompt.
+ */
+export function toGeminiChat(history: ChatTurn[], prompt: string): { history: InputContent[]; prompt: string } {
+    const contents: InputContent[] = [];
+
+    for (const turn of history) {
+        const role = turn.role === 'assistant' ? 'model' : 'user';
+        const previous = contents[contents.length - 1];
+
+        if (previous && previous.role === role) {
+            previous.parts = `${previous.parts}\n\n${turn.content}`;
+        } else {
+            contents.push({ role, parts: turn.content });
+        }
+    }
+
+    // History has to open with a user turn
+    while (contents.length > 0 && contents[0].role !== 'user') {
+        contents.shift();
+    }
+
+    const last = contents[contents.length - 1];
+    if (last && last.role === 'user') {
+        contents.pop();
+        return { history: contents, prompt: `${last.parts}\n\n${prompt}` };
+    }
+
+    return { history: contents, prompt };
+}
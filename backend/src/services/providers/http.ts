@@ -0,0 +1,109 @@
+/**
+ * Small fetch helpers shared by the HTTP-based providers.
+ */
+
+// Whole-request limits: replies and embeddings, and streamed replies from first to last token
+export const REQUEST_TIMEOUT_MS = parseInt(process.env.LLM_REQUEST_TIMEOUT_MS || '120000');
+export const STREAM_TIMEOUT_MS = parseInt(process.env.LLM_STREAM_TIMEOUT_MS || '600000');
+
+export interface RequestOptions {
+    // Aborted by the caller, e.g. when the client disconnects
+    signal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+/**
+ * A signal that aborts once the timeout passes or the caller's signal
+ * aborts, whichever comes first.
+ */
+export const requestSignal = ({ signal, timeoutMs = REQUEST_TIMEOUT_MS }: RequestOptions = {}): AbortSignal => {
+    const controller = new AbortController();
+
+    const timer = setTimeout(() => controller.abort(new Error(`LLM request timed out after ${timeoutMs}ms`)), timeoutMs);
+    // A finished request shouldn't keep the process alive
+    timer.unref();
+
+    if (signal?.aborted) {
+        controller.abort(signal.reason);
+    } else {
+        signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+
+    return controller.signal;
+};
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts, for SDK
+ * calls that take no signal of their own.
+ */
+export const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+    if (signal.aborted) {
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+export const postJson = async (
+    url: string,
+    body: unknown,
+    headers: Record<string, string> = {},
+    options: RequestOptions = {}
+): Promise<Response> => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: requestSignal(options)
+    });
+
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        // Map to the markers the controllers already translate into status codes
+        if (response.status === 401 || response.status === 403) {
+            throw new Error(`API_KEY_INVALID: ${response.status} ${detail}`);
+        }
+        if (response.status === 429) {
+            throw new Error(`QUOTA_EXCEEDED: ${response.status} ${detail}`);
+        }
+        throw new Error(`LLM request failed with status ${response.status}: ${detail}`);
+    }
+
+    return response;
+};
+
+/**
+ * Yield the non-empty lines of a streamed response body as they arrive.
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) {
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (trimmed) yield trimmed;
+        }
+    }
+
+    const rest = buffer.trim();
+    if (rest) yield rest;
+}
+
+export const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
@@ -0,0 +1,77 @@
+import { GeminiProvider } from './gemini.provider';
+import { OpenAIProvider } from './openai.provider';
+import { OllamaProvider } from './ollama.provider';
+import { MockProvider } from './mock.provider';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'ollama', 'mock'];
+
+export interface LLMProviderConfig {
+    name: LLMProviderName;
+    apiKey?: string;
+    baseUrl?: string;
+    model?: string;
+    embeddingModel?: string;
+}
+
+/**
+ * One prior turn of a conversation, oldest first, sent alongside the prompt.
+ */
+export interface ChatTurn {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Common surface every LLM backend implements. Controllers and services only
+ * talk to this interface, never to a vendor SDK directly.
+ */
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    // `signal` aborts the request, e.g. when the client disconnects; requests also time out on their own
+    generate(prompt: string, history?: ChatTurn[], signal?: AbortSignal): Promise<string>;
+    stream(prompt: string, history?: ChatTurn[], signal?: AbortSignal): Promise<AsyncGenerator<string>>;
+    embed(text: string): Promise<number[]>;
+    // One vector per input text, in input order
+    embedBatch(texts: string[]): Promise<number[][]>;
+    getModelName(): string;
+    getEmbeddingModelName(): string;
+    // Maximum prompt + history + reply size the chat model accepts, in tokens
+    getContextWindow(): number;
+}
+
+export const isLLMProviderName = (value: unknown): value is LLMProviderName => {
+    return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value);
+};
+
+// Self-hosted backends such as Ollama, and the mock provider, run without credentials
+export const providerRequiresApiKey = (name: LLMProviderName): boolean => {
+    return name !== 'ollama' && name !== 'mock';
+};
+
+/**
+ * Provider forced for every user through the LLM_PROVIDER env var, e.g.
+ * `LLM_PROVIDER=mock` for offline development and CI.
+ */
+export const getForcedProviderName = (): LLMProviderName | null => {
+    const forced = process.env.LLM_PROVIDER;
+    return isLLMProviderName(forced) ? forced : null;
+};
+
+export const createProvider = (config: LLMProviderConfig): LLMProvider => {
+    switch (config.name) {
+        case 'openai':
+            return new OpenAIProvider(config);
+        case 'ollama':
+            return new OllamaProvider(config);
+        case 'mock':
+            return new MockProvider(config);
+        case 'gemini':
+        default:
+            if (!config.apiKey) {
+                throw new Error('Gemini API not initialized');
+            }
+            return new GeminiProvider(config.apiKey, config.model, config.embeddingModel);
+    }
+};
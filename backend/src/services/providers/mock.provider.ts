@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { ChatTurn, LLMProvider, LLMProviderConfig } from './index';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_DIMENSION = 768;
+
+interface ScriptedResponse {
+    match: string;
+    response: string;
+}
+
+/**
+ * Deterministic provider for offline development and CI. Replies are either
+ * scripted (first entry whose `match` regex hits the prompt) or an echo of the
+ * user question, streamed token by token. Embeddings are hashed bag-of-words
+ * vectors, so texts sharing identifiers land close to each other.
+ */
+export class MockProvider implements LLMProvider {
+    readonly name = 'mock' as const;
+    private modelName: string;
+    private embeddingModelName: string;
+    private dimension: number;
+    private tokenDelayMs: number;
+    private script: ScriptedResponse[];
+
+    constructor(config: LLMProviderConfig) {
+        this.modelName = config.model || 'mock-chat';
+        this.dimension = parseInt(process.env.MOCK_EMBEDDING_DIMENSION || String(DEFAULT_DIMENSION));
+        this.embeddingModelName = config.embeddingModel || `mock-embedding-${this.dimension}`;
+        this.tokenDelayMs = parseInt(process.env.MOCK_LLM_TOKEN_DELAY_MS || '0');
+        this.script = MockProvider.loadScript(process.env.MOCK_LLM_SCRIPT);
+
+        logger.info(`Mock provider created (${this.script.length} scripted responses)`);
+    }
+
+    async generate(prompt: string, history: ChatTurn[] = []): Promise<string> {
+        return this.respond(prompt, history);
+    }
+
+    async stream(prompt: string, history: ChatTurn[] = [], signal?: AbortSignal): Promise<AsyncGenerator<string>> {
+        const response = this.respond(prompt, history);
+        const tokenDelayMs = this.tokenDelayMs;
+
+        return (async function* () {
+            // Keep whitespace attached so the chunks concatenate back to the full reply
+            for (const token of response.match(/\S+\s*/g) || []) {
+                if (signal?.aborted) return;
+                if (tokenDelayMs > 0) {
+                    await new Promise(resolve => setTimeout(resolve, tokenDelayMs));
+                }
+                yield token;
+            }
+        })();
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const vector = new Array<number>(this.dimension).fill(0);
+        const tokens = text.toLowerCase().match(/[a-z0-9_$]+/g) || [];
+
+        for (const token of tokens) {
+            const digest = crypto.createHash('sha256').update(token).digest();
+            const index = digest.readUInt32BE(0) % this.dimension;
+            const sign = digest[4] % 2 === 0 ? 1 : -1;
+            vector[index] += sign;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm === 0 ? vector : vector.map(value => value / norm);
+    }
+
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        return Promise.all(texts.map(text => this.embed(text)));
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    getEmbeddingModelName(): string {
+        return this.embeddingModelName;
+    }
+
+    getContextWindow(): number {
+        return 32768;
+    }
+
+    private respond(prompt: string, history: ChatTurn[]): string {
+        for (const entry of this.script) {
+            if (new RegExp(entry.match, 'i').test(prompt)) {
+                return entry.response;
+            }
+        }
+
+        const turns = history.length > 0 ? ` (after ${history.length} earlier turns)` : '';
+        return `Mock response to: ${MockProvider.extractQuestion(prompt)}${turns}`;
+    }
+
+    // Prompts built by ContextService end with the question under this heading
+    private static extractQuestion(prompt: string): string {
+        const marker = '## User Question';
+        const index = prompt.lastIndexOf(marker);
+        if (index === -1) {
+            return prompt.trim();
+        }
+
+        return prompt.substring(index + marker.length).trim().split('\n')[0];
+    }
+
+    private static loadScript(scriptPath?: string): ScriptedResponse[] {
+        if (!scriptPath) {
+            return [];
+        }
+
+        try {
+            const parsed = JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+            return Array.isArray(parsed) ? parsed as ScriptedResponse[] : [];
+        } catch (error) {
+            logger.warn(`Could not load mock LLM script from ${scriptPath}:`, error);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import { ChatTurn, LLMProvider, LLMProviderConfig } from './index';
+import { STREAM_TIMEOUT_MS, postJson, readLines, trimTrailingSlash } from './http';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_CHAT_MODEL = 'llama3.1';
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+/**
+ * Provider for a local or self-hosted Ollama server, for code that must not
+ * leave the team's own infrastructure.
+ */
+export class OllamaProvider implements LLMProvider {
+    readonly name = 'ollama' as const;
+    private baseUrl: string;
+    private apiKey?: string;
+    private modelName: string;
+    private embeddingModelName: string;
+
+    constructor(config: LLMProviderConfig) {
+        this.baseUrl = trimTrailingSlash(config.baseUrl || process.env.OLLAMA_BASE_URL || DEFAULT_BASE_URL);
+        this.apiKey = config.apiKey;
+        this.modelName = config.model || process.env.OLLAMA_MODEL || DEFAULT_CHAT_MODEL;
+        this.embeddingModelName = config.embeddingModel || process.env.OLLAMA_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+
+        logger.info(`Ollama provider created with model: ${this.modelName} (${this.baseUrl})`);
+    }
+
+    async generate(prompt: string, history: ChatTurn[] = [], signal?: AbortSignal): Promise<string> {
+        try {
+            const response = await postJson(`${this.baseUrl}/api/chat`, {
+                model: this.modelName,
+                messages: [...history, { role: 'user', content: prompt }],
+                stream: false
+            }, this.getHeaders(), { signal });
+
+            const data = await response.json() as { message?: { content?: string } };
+            return data.message?.content || '';
+        } catch (error) {
+            logger.error('Error generating response:', error);
+            throw error;
+        }
+    }
+
+    async stream(prompt: string, history: ChatTurn[] = [], signal?: AbortSignal): Promise<AsyncGenerator<string>> {
+        try {
+            const response = await postJson(`${this.baseUrl}/api/chat`, {
+                model: this.modelName,
+                messages: [...history, { role: 'user', content: prompt }],
+                stream: true
+            }, this.getHeaders(), { signal, timeoutMs: STREAM_TIMEOUT_MS });
+
+            // Ollama streams newline-delimited JSON objects
+            return (async function* () {
+                for await (const line of readLines(response)) {
+                    try {
+                        const parsed = JSON.parse(line) as { message?: { content?: string }; done?: boolean };
+                        const chunkText = parsed.message?.content;
+                        if (chunkText) yield chunkText;
+                        if (parsed.done) break;
+                    } catch (parseError) {
+                        logger.warn('Skipping malformed stream event from Ollama');
+                    }
+                }
+            })();
+        } catch (error) {
+            logger.error('Error in streaming response:', error);
+            throw error;
+        }
+    }
+
+    async embed(text: string): Promise<number[]> {
+        try {
+            const response = await postJson(`${this.baseUrl}/api/embed`, {
+                model: this.embeddingModelName,
+                input: text
+            }, this.getHeaders());
+
+            const data = await response.json() as { embeddings?: number[][] };
+            const embedding = data.embeddings?.[0];
+            if (!embedding) {
+                throw new Error('Embedding response did not contain a vector');
+            }
+            return embedding;
+        } catch (error) {
+            logger.error('Error generating embedding:', error);
+            throw error;
+        }
+    }
+
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        try {
+            const response = await postJson(`${this.baseUrl}/api/embed`, {
+                model: this.embeddingModelName,
+                input: texts
+            }, this.getHeaders());
+
+            const data = await response.json() as { embeddings?: number[][] };
+            if (!data.embeddings || data.embeddings.length !== texts.length) {
+                throw new Error('Embedding response did not contain a vector for every input');
+            }
+            return data.embeddings;
+        } catch (error) {
+            logger.error('Error generating batch embeddings:', error);
+            throw error;
+        }
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    getEmbeddingModelName(): string {
+        return this.embeddingModelName;
+    }
+
+    getContextWindow(): number {
+        return parseInt(process.env.OLLAMA_CONTEXT_WINDOW || '8192');
+    }
+
+    // Ollama has no auth of its own, but a reverse proxy in front of it may
+    private getHeaders(): Record<string, string> {
+        return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    }
+}
@@ -0,0 +1,126 @@
+import { ChatTurn, LLMProvider, LLMProviderConfig } from './index';
+import { STREAM_TIMEOUT_MS, postJson, readLines, trimTrailingSlash } from './http';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * Provider for any server speaking the OpenAI chat completions and embeddings
+ * API (OpenAI itself, vLLM, LM Studio, llama.cpp server, ...).
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly name = 'openai' as const;
+    private baseUrl: string;
+    private apiKey?: string;
+    private modelName: string;
+    private embeddingModelName: string;
+
+    constructor(config: LLMProviderConfig) {
+        this.baseUrl = trimTrailingSlash(config.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL);
+        this.apiKey = config.apiKey;
+        this.modelName = config.model || process.env.OPENAI_MODEL || DEFAULT_CHAT_MODEL;
+        this.embeddingModelName = config.embeddingModel || process.env.OPENAI_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+
+        logger.info(`OpenAI-compatible provider created with model: ${this.modelName} (${this.baseUrl})`);
+    }
+
+    async generate(prompt: string, history: ChatTurn[] = [], signal?: AbortSignal): Promise<string> {
+        try {
+            const response = await postJson(`${this.baseUrl}/chat/completions`, {
+                model: this.modelName,
+                messages: [...history, { role: 'user', content: prompt }]
+            }, this.getHeaders(), { signal });
+
+            const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+            return data.choices?.[0]?.message?.content || '';
+        } catch (error) {
+            logger.error('Error generating response:', error);
+            throw error;
+        }
+    }
+
+    async stream(prompt: string, history: ChatTurn[] = [], signal?: AbortSignal): Promise<AsyncGenerator<string>> {
+        try {
+            const response = await postJson(`${this.baseUrl}/chat/completions`, {
+                model: this.modelName,
+                messages: [...history, { role: 'user', content: prompt }],
+                stream: true
+            }, this.getHeaders(), { signal, timeoutMs: STREAM_TIMEOUT_MS });
+
+            return (async function* () {
+                for await (const line of readLines(response)) {
+                    if (!line.startsWith('data:')) continue;
+
+                    const payload = line.substring(5).trim();
+                    if (payload === '[DONE]') break;
+
+                    try {
+                        const parsed = JSON.parse(payload) as { choices?: Array<{ delta?: { content?: string } }> };
+                        const chunkText = parsed.choices?.[0]?.delta?.content;
+                        if (chunkText) yield chunkText;
+                    } catch (parseError) {
+                        logger.warn('Skipping malformed stream event from OpenAI-compatible provider');
+                    }
+                }
+            })();
+        } catch (error) {
+            logger.error('Error in streaming response:', error);
+            throw error;
+        }
+    }
+
+    async embed(text: string): Promise<number[]> {
+        try {
+            const response = await postJson(`${this.baseUrl}/embeddings`, {
+                model: this.embeddingModelName,
+                input: text
+            }, this.getHeaders());
+
+            const data = await response.json() as { data?: Array<{ embedding: number[] }> };
+            const embedding = data.data?.[0]?.embedding;
+            if (!embedding) {
+                throw new Error('Embedding response did not contain a vector');
+            }
+            return embedding;
+        } catch (error) {
+            logger.error('Error generating embedding:', error);
+            throw error;
+        }
+    }
+
+    async embedBatch(texts: string[]): Promise<number[][]> {
+        try {
+            const response = await postJson(`${this.baseUrl}/embeddings`, {
+                model: this.embeddingModelName,
+                input: texts
+            }, this.getHeaders());
+
+            const data = await response.json() as { data?: Array<{ embedding: number[]; index: number }> };
+            if (!data.data || data.data.length !== texts.length) {
+                throw new Error('Embedding response did not contain a vector for every input');
+            }
+            return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        } catch (error) {
+            logger.error('Error generating batch embeddings:', error);
+            throw error;
+        }
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    getEmbeddingModelName(): string {
+        return this.embeddingModelName;
+    }
+
+    getContextWindow(): number {
+        return parseInt(process.env.OPENAI_CONTEXT_WINDOW || '128000');
+    }
+
+    private getHeaders(): Record<string, string> {
+        return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    }
+}
@@ -0,0 +1,185 @@
+import { CodeSymbol, FileSymbols, SymbolKind, SymbolReference } from '../models/CodeSymbol';
+import { File, IFile } from '../models/File';
+import { FileProcessorService } from './fileProcessor.service';
+import { logger } from '../utils/logger';
+
+// One session's symbols, or all of a user's symbols when no session is given
+export interface SymbolScope {
+    userId: string;
+    sessionId?: string;
+}
+
+export interface SymbolMatch {
+    id: string;
+    name: string;
+    qualifiedName: string;
+    kind: SymbolKind;
+    signature: string;
+    fileId: string;
+    filePath: string;
+    language: string;
+    startLine: number;
+    endLine: number;
+    exported: boolean;
+}
+
+export interface ReferenceMatch {
+    fileId: string;
+    filePath: string;
+    line: number;
+    column: number;
+    container?: string;
+}
+
+const DEFINITION_FIELDS = 'name qualifiedName kind signature fileId filePath language startLine endLine exported';
+
+/**
+ * Per-session table of the definitions and reference sites the analyzers
+ * find in each file. References are matched by name only, so a reference
+ * to `login` may belong to any definition called `login`.
+ */
+export class SymbolIndexService {
+    constructor(
+        private maxReferences: number = parseInt(process.env.SYMBOL_MAX_REFERENCES || '500'),
+        private maxSearchResults: number = parseInt(process.env.SYMBOL_MAX_SEARCH_RESULTS || '100')
+    ) {}
+
+    static scopeQuery(scope: SymbolScope): { userId: string; sessionId?: string } {
+        return scope.sessionId ? { userId: scope.userId, sessionId: scope.sessionId } : { userId: scope.userId };
+    }
+
+    async replaceSymbolsForFile(file: IFile, symbols: FileSymbols): Promise<void> {
+        try {
+            const owner = {
+                fileId: file._id,
+                userId: file.userId,
+                sessionId: file.sessionId,
+                filePath: file.relativePath || file.originalName
+            };
+
+            await this.deleteSymbolsForFile(String(file._id));
+            await CodeSymbol.insertMany(symbols.definitions.map(definition => ({ ...definition, ...owner, language: file.language })));
+            await SymbolReference.insertMany(symbols.references.map(reference => ({ ...reference, ...owner })));
+
+            await File.updateOne({ _id: file._id }, { symbolsIndexed: true });
+            file.symbolsIndexed = true;
+        } catch (error) {
+            logger.error('Error storing symbols for file:', error);
+            throw error;
+        }
+    }
+
+    async deleteSymbolsForFile(fileId: string): Promise<void> {
+        await CodeSymbol.deleteMany({ fileId });
+        await SymbolReference.deleteMany({ fileId });
+    }
+
+    async assignSession(fileIds: string[], sessionId: string): Promise<void> {
+        await CodeSymbol.updateMany({ fileId: { $in: fileIds } }, { sessionId });
+        await SymbolReference.updateMany({ fileId: { $in: fileIds } }, { sessionId });
+    }
+
+    // Files stored before the symbol index existed are indexed on first use
+    async ensureIndexed(scope: SymbolScope): Promise<void> {
+        const files = await File.find({ ...SymbolIndexService.scopeQuery(scope), symbolsIndexed: { $ne: true } });
+
+        for (const file of files) {
+            const filePath = file.relativePath || file.originalName;
+            await this.replaceSymbolsForFile(file, FileProcessorService.extractSymbols(file.content, file.language, filePath));
+        }
+
+        if (files.length > 0) {
+            logger.info(`Indexed symbols of ${files.length} files for ${scope.sessionId ? `session ${scope.sessionId}` : `user ${scope.userId}`}`);
+        }
+    }
+
+    /**
+     * Definitions whose name contains the query, case-insensitively: exact
+     * names first, then prefixes, then exported ones. A query with a dot is
+     * matched against qualified names (`AuthService.login`).
+     */
+    async search(scope: SymbolScope, query: string, kind?: SymbolKind, limit = this.maxSearchResults): Promise<SymbolMatch[]> {
+        await this.ensureIndexed(scope);
+
+        const field = query.includes('.') ? 'qualifiedName' : 'name';
+        const symbols = await CodeSymbol.find({
+            ...SymbolIndexService.scopeQuery(scope),
+            [field]: { $regex: escapeRegExp(query), $options: 'i' },
+            ...(kind && { kind })
+        })
+            .select(DEFINITION_FIELDS)
+            .limit(this.maxSearchResults * 5);
+
+        const lowered = query.toLowerCase();
+        const rank = (symbol: { name: string; qualifiedName: string; exported: boolean }): number => {
+            const value = (field === 'name' ? symbol.name : symbol.qualifiedName).toLowerCase();
+            return (value === lowered ? 0 : value.startsWith(lowered) ? 2 : 4) + (symbol.exported ? 0 : 1);
+        };
+
+        return symbols
+            .sort((a, b) => rank(a) - rank(b) || a.name.length - b.name.length || a.filePath.localeCompare(b.filePath))
+            .slice(0, Math.min(limit, this.maxSearchResults))
+            .map(toMatch);
+    }
+
+    /**
+     * Definitions a name may refer to, most likely first: those in the file
+     * it is used in, then exported ones, then the rest.
+     */
+    async findDefinitions(scope: SymbolScope, name: string, fromFileId?: string): Promise<SymbolMatch[]> {
+        await this.ensureIndexed(scope);
+
+        const symbols = await CodeSymbol.find({ ...SymbolIndexService.scopeQuery(scope), name: lastSegment(name) })
+            .select(DEFINITION_FIELDS)
+            .limit(this.maxSearchResults);
+
+        const rank = (symbol: { fileId: unknown; exported: boolean }): number =>
+            String(symbol.fileId) === fromFileId ? 0 : symbol.exported ? 1 : 2;
+
+        return symbols
+            .sort((a, b) => rank(a) - rank(b) || a.filePath.localeCompare(b.filePath) || a.startLine - b.startLine)
+            .map(toMatch);
+    }
+
+    // Sites where the name is used, in path and line order
+    async findReferences(scope: SymbolScope, name: string): Promise<{ references: ReferenceMatch[]; truncated: boolean }> {
+        await this.ensureIndexed(scope);
+
+        const references = await SymbolReference.find({ ...SymbolIndexService.scopeQuery(scope), name: lastSegment(name) })
+            .select('fileId filePath line column container')
+            .sort({ filePath: 1, line: 1, column: 1 })
+            .limit(this.maxReferences + 1);
+
+        return {
+            references: references.slice(0, this.maxReferences).map(reference => ({
+                fileId: String(reference.fileId),
+                filePath: reference.filePath,
+                line: reference.line,
+                column: reference.column,
+                ...(reference.container && { container: reference.container })
+            })),
+            truncated: references.length > this.maxReferences
+        };
+    }
+}
+
+const toMatch = (symbol: InstanceType<typeof CodeSymbol>): SymbolMatch => ({
+    id: String(symbol._id),
+    name: symbol.name,
+    qualifiedName: symbol.qualifiedName,
+    kind: symbol.kind,
+    signature: symbol.signature,
+    fileId: String(symbol.fileId),
+    filePath: symbol.filePath,
+    language: symbol.language,
+    startLine: symbol.startLine,
+    endLine: symbol.endLine,
+    exported: symbol.exported
+});
+
+// `AuthService.login` is looked up as `login`
+const lastSegment = (name: string): string => name.substring(name.lastIndexOf('.') + 1);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const symbolIndexService = new SymbolIndexService();
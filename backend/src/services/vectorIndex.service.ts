@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Chunk } from '../models/Chunk';
+import { HnswIndex, HnswSearchResult, DEFAULT_HNSW_OPTIONS } from '../utils/hnsw';
+import { logger } from '../utils/logger';
+
+export interface IndexedChunkHit {
+    fileId: string;
+    chunkId: string;
+    similarity: number;
+}
+
+interface IndexedEmbedding {
+    chunkId: string;
+    embedding: number[];
+}
+
+/**
+ * Keeps one on-disk HNSW index per chat session and embedding model, so
+ * vectors from different models never share an index. Indexes are only built
+ * once a session holds enough chunks embedded by the model to be worth it;
+ * below that callers get null back and should fall back to brute-force
+ * similarity.
+ */
+export class VectorIndexService {
+    private cache = new Map<string, HnswIndex>();
+    private locks = new Map<string, Promise<unknown>>();
+
+    constructor(
+        private indexDir: string = process.env.VECTOR_INDEX_DIR || './data/vector-index',
+        private minChunks: number = parseInt(process.env.VECTOR_INDEX_MIN_CHUNKS || '1000'),
+        private maxCached: number = parseInt(process.env.VECTOR_INDEX_CACHE_SIZE || '20')
+    ) {}
+
+    /**
+     * Approximate top-k search among the chunks `embeddingModel` embedded.
+     * Returns null when the caller should use brute force.
+     */
+    async search(sessionId: string, embeddingModel: string, queryEmbedding: number[], limit: number): Promise<IndexedChunkHit[] | null> {
+        try {
+            const index = await this.withLock(sessionId, () => this.getOrBuild(sessionId, embeddingModel, queryEmbedding.length));
+            if (!index || index.dimension !== queryEmbedding.length || index.size < this.minChunks) {
+                return null;
+            }
+
+            return index.search(queryEmbedding, limit).map(hit => this.toHit(hit));
+        } catch (error) {
+            logger.warn(`Vector index search failed for session ${sessionId}, falling back to brute force:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Replace a file's vectors in the session's index for `embeddingModel`, if
+     * there is one. Indexes of other models may keep the file's older vectors;
+     * searches skip hits on chunks now embedded by a different model.
+     */
+    async upsertFile(sessionId: string, fileId: string, embeddingModel: string, embeddings: IndexedEmbedding[]): Promise<void> {
+        try {
+            await this.withLock(sessionId, async () => {
+                const key = this.indexKey(sessionId, embeddingModel);
+                const index = await this.load(key);
+                if (!index) {
+                    return;
+                }
+
+                // The model changed dimension: rebuild on next search
+                if (embeddings.some(item => item.embedding.length !== index.dimension)) {
+                    await this.dropIndex(key);
+                    return;
+                }
+
+                this.removeFileFrom(index, fileId);
+                for (const item of embeddings) {
+                    index.add(`${fileId}:${item.chunkId}`, item.embedding);
+                }
+
+                await this.save(key, index);
+                logger.info(`Updated vector index for session ${sessionId} with ${embeddings.length} chunks from file ${fileId}`);
+            });
+        } catch (error) {
+            // The index is derived data; a failed update just means a rebuild later
+            logger.warn(`Could not update vector index for session ${sessionId}:`, error);
+            await this.invalidate(sessionId);
+        }
+    }
+
+    async removeFile(sessionId: string, fileId: string): Promise<void> {
+        try {
+            await this.withLock(sessionId, async () => {
+                for (const key of await this.sessionKeys(sessionId)) {
+                    const index = await this.load(key);
+                    if (index && this.removeFileFrom(index, fileId) > 0) {
+                        await this.save(key, index);
+                    }
+                }
+            });
+        } catch (error) {
+            logger.warn(`Could not remove file ${fileId} from vector index:`, error);
+            await this.invalidate(sessionId);
+        }
+    }
+
+    /**
+     * Forget a session's indexes, e.g. after files were moved into it in bulk.
+     */
+    async invalidate(sessionId: string): Promise<void> {
+        await this.withLock(sessionId, async () => {
+            for (const key of await this.sessionKeys(sessionId)) {
+                await this.dropIndex(key);
+            }
+        });
+    }
+
+    private async getOrBuild(sessionId: string, embeddingModel: string, dimension: number): Promise<HnswIndex | null> {
+        const key = this.indexKey(sessionId, embeddingModel);
+        const existing = await this.load(key);
+        if (existing) {
+            return existing;
+        }
+
+        const query = { sessionId, embeddingModel, embeddingDimension: dimension };
+        const chunkCount = await Chunk.countDocuments(query);
+        if (chunkCount < this.minChunks) {
+            return null;
+        }
+
+        const startedAt = Date.now();
+        const index = new HnswIndex(dimension, {
+            m: parseInt(process.env.VECTOR_INDEX_M || String(DEFAULT_HNSW_OPTIONS.m)),
+            efConstruction: parseInt(process.env.VECTOR_INDEX_EF_CONSTRUCTION || String(DEFAULT_HNSW_OPTIONS.efConstruction)),
+            efSearch: parseInt(process.env.VECTOR_INDEX_EF_SEARCH || String(DEFAULT_HNSW_OPTIONS.efSearch))
+        });
+
+        const cursor = Chunk.find(query).select('fileId chunkId embedding').cursor();
+        for await (const chunk of cursor) {
+            if (chunk.embedding && chunk.embedding.length === dimension) {
+                index.add(`${String(chunk.fileId)}:${chunk.chunkId}`, chunk.embedding);
+            }
+        }
+
+        await this.save(key, index);
+        logger.info(`Built ${embeddingModel} vector index for session ${sessionId}: ${index.size} chunks in ${Date.now() - startedAt}ms`);
+        return index;
+    }
+
+    private removeFileFrom(index: HnswIndex, fileId: string): number {
+        // The index doesn't track which chunks a file had, so find its labels by prefix
+        const labels = index.labelsWithPrefix(`${fileId}:`);
+        labels.forEach(label => index.remove(label));
+        return labels.length;
+    }
+
+    private toHit(hit: HnswSearchResult): IndexedChunkHit {
+        const separator = hit.label.indexOf(':');
+        return {
+            fileId: hit.label.substring(0, separator),
+            chunkId: hit.label.substring(separator + 1),
+            similarity: hit.similarity
+        };
+    }
+
+    private async load(key: string): Promise<HnswIndex | null> {
+        const cached = this.cache.get(key);
+        if (cached) {
+            // Refresh LRU position
+            this.cache.delete(key);
+            this.cache.set(key, cached);
+            return cached;
+        }
+
+        try {
+            const index = HnswIndex.fromBuffer(await fs.readFile(this.getIndexPath(key)));
+            this.remember(key, index);
+            return index;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.warn(`Discarding unreadable vector index ${key}:`, error);
+                await this.dropIndex(key);
+            }
+            return null;
+        }
+    }
+
+    private async save(key: string, index: HnswIndex): Promise<void> {
+        const indexPath = this.getIndexPath(key);
+        const tempPath = `${indexPath}.tmp`;
+
+        await fs.mkdir(this.indexDir, { recursive: true });
+        await fs.writeFile(tempPath, index.toBuffer());
+        await fs.rename(tempPath, indexPath);
+        this.remember(key, index);
+    }
+
+    private async dropIndex(key: string): Promise<void> {
+        this.cache.delete(key);
+        await fs.rm(this.getIndexPath(key), { force: true });
+    }
+
+    private remember(key: string, index: HnswIndex): void {
+        this.cache.delete(key);
+        this.cache.set(key, index);
+
+        while (this.cache.size > this.maxCached) {
+            const oldest = this.cache.keys().next().value as string;
+            this.cache.delete(oldest);
+        }
+    }
+
+    // `<session>.<model hash>`; model names can hold characters that aren't safe in file names
+    private indexKey(sessionId: string, embeddingModel: string): string {
+        const model = crypto.createHash('sha256').update(embeddingModel).digest('hex').substring(0, 16);
+        return `${this.sessionPrefix(sessionId)}.${model}`;
+    }
+
+    private sessionPrefix(sessionId: string): string {
+        return sessionId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    }
+
+    // Keys of the indexes a session has on disk or in the cache, one per model
+    private async sessionKeys(sessionId: string): Promise<string[]> {
+        const prefix = `${this.sessionPrefix(sessionId)}.`;
+        const keys = new Set([...this.cache.keys()].filter(key => key.startsWith(prefix)));
+
+        try {
+            for (const name of await fs.readdir(this.indexDir)) {
+                if (name.startsWith(prefix) && name.endsWith('.hnsw')) {
+                    keys.add(name.substring(0, name.length - '.hnsw'.length));
+                }
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        return [...keys];
+    }
+
+    private getIndexPath(key: string): string {
+        return path.join(this.indexDir, `${key}.hnsw`);
+    }
+
+    // Serialize work per session so concurrent uploads don't clobber each other's writes
+    private async withLock<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.locks.get(sessionId) || Promise.resolve();
+        const current = previous.catch(() => undefined).then(task);
+        this.locks.set(sessionId, current);
+
+        try {
+            return await current;
+        } finally {
+            if (this.locks.get(sessionId) === current) {
+                this.locks.delete(sessionId);
+            }
+        }
+    }
+}
+
+export const vectorIndexService = new VectorIndexService();
@@ -0,0 +1,193 @@
+import zlib from 'zlib';
+
+export interface ArchiveEntry {
+  // As stored in the archive, with forward slashes
+  path: string;
+  data: Buffer;
+}
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  // Total uncompressed size of the regular files
+  maxTotalSize: number;
+}
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz'];
+
+export function isArchive(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+/**
+ * Regular files of a `.zip`, `.tar.gz` or `.tgz` archive, read in memory.
+ * Directories, links and devices are left out. Throws when the archive is
+ * malformed or would exceed the limits once extracted.
+ */
+export function readArchive(buffer: Buffer, fileName: string, limits: ArchiveLimits): ArchiveEntry[] {
+  return fileName.toLowerCase().endsWith('.zip') ? readZip(buffer, limits) : readTarGz(buffer, limits);
+}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_REGULAR_FILE = 0o100000;
+
+/**
+ * Read a zip through its central directory. Stored and deflated entries are
+ * supported; encrypted entries and ZIP64 archives are not.
+ */
+export function readZip(buffer: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  // The end record sits at the end, before a comment of up to 64KB
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const madeBy = buffer.readUInt16LE(offset + 4) >> 8;
+    const unixMode = buffer.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const path = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Only Unix zips record file types, and not always; a trailing slash marks directories
+    const unixType = madeBy === 3 ? unixMode & UNIX_FILE_TYPE_MASK : 0;
+    if (path.endsWith('/') || (unixType !== 0 && unixType !== UNIX_REGULAR_FILE)) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${path}`);
+    }
+
+    totalSize += size;
+    if (entries.length + 1 > limits.maxEntries || totalSize > limits.maxTotalSize) {
+      throw new Error('Archive is too large once extracted');
+    }
+
+    if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry: ${path}`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) {
+      data = compressed;
+    } else if (method === 8) {
+      // The declared size can lie; never inflate past it
+      data = zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}: ${path}`);
+    }
+
+    entries.push({ path, data });
+  }
+
+  return entries;
+}
+
+const TAR_BLOCK = 512;
+
+/**
+ * Read a gzipped tar, including the long names of GNU and PAX extensions.
+ */
+export function readTarGz(buffer: Buffer, limits: ArchiveLimits): ArchiveEntry[] {
+  let tar: Buffer;
+  try {
+    // Headers and padding take up to two blocks per entry on top of the data
+    tar = zlib.gunzipSync(buffer, { maxOutputLength: limits.maxTotalSize + (limits.maxEntries + 1) * 2 * TAR_BLOCK });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error('Archive is too large once extracted');
+    }
+    throw new Error('Not a gzip archive');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + TAR_BLOCK <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    const size = readTarNumber(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + TAR_BLOCK;
+    const data = tar.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L') {
+      longName = readTarString(data);
+      continue;
+    }
+    if (type === 'x') {
+      const pathRecord = data.toString('utf8').match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+      longName = pathRecord ? pathRecord[1] : longName;
+      continue;
+    }
+
+    const prefix = readTarString(header.subarray(345, 500));
+    const name = longName ?? (prefix ? `${prefix}/${readTarString(header.subarray(0, 100))}` : readTarString(header.subarray(0, 100)));
+    longName = null;
+
+    // Regular files only: no directories, links, devices or global headers
+    if (type !== '0' && type !== '7') {
+      continue;
+    }
+
+    if (entries.length + 1 > limits.maxEntries) {
+      throw new Error('Archive is too large once extracted');
+    }
+    entries.push({ path: name, data });
+  }
+
+  return entries;
+}
+
+function readTarString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? field.length : end);
+}
+
+// Octal, or base-256 for sizes over 8GB
+function readTarNumber(field: Buffer): number {
+  if (field[0] & 0x80) {
+    let value = 0;
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field[i];
+    }
+    return value;
+  }
+  return parseInt(readTarString(field).trim() || '0', 8);
+}
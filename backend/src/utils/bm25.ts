@@ -0,0 +1,112 @@
+export interface Bm25Document {
+  id: string;
+  text: string;
+  // Declared names; weighted above ordinary occurrences
+  symbols?: string[];
+}
+
+export interface Bm25Result {
+  id: string;
+  score: number;
+}
+
+const SYMBOL_WEIGHT = 3;
+
+/**
+ * Split source text into search terms. Identifiers are kept whole (so an exact
+ * `generateToken` query matches best) and also split on camelCase and
+ * snake_case boundaries so `token` still finds them.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(/[A-Za-z_$][A-Za-z0-9_$]*|\d+/g) || []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 1) {
+      terms.push(lower);
+    }
+
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1);
+
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * In-memory Okapi BM25 index with an inverted posting list per term.
+ */
+export class Bm25Index {
+  private postings = new Map<string, Map<number, number>>();
+  private ids: string[] = [];
+  private lengths: number[] = [];
+  private totalLength = 0;
+
+  constructor(private k1 = 1.2, private b = 0.75) {}
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  add(document: Bm25Document): void {
+    const docIndex = this.ids.length;
+    const frequencies = new Map<string, number>();
+
+    for (const term of tokenize(document.text)) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    for (const term of tokenize((document.symbols || []).join(' '))) {
+      frequencies.set(term, (frequencies.get(term) || 0) + SYMBOL_WEIGHT);
+    }
+
+    let length = 0;
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(docIndex, frequency);
+      length += frequency;
+    }
+
+    this.ids.push(document.id);
+    this.lengths.push(length);
+    this.totalLength += length;
+  }
+
+  search(query: string, limit: number, accept?: (id: string) => boolean): Bm25Result[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.ids.length === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.ids.length;
+    const scores = new Map<number, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (this.ids.length - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [docIndex, frequency] of posting) {
+        const norm = frequency + this.k1 * (1 - this.b + this.b * this.lengths[docIndex] / averageLength);
+        scores.set(docIndex, (scores.get(docIndex) || 0) + idf * (frequency * (this.k1 + 1)) / norm);
+      }
+    }
+
+    return [...scores.entries()]
+      .filter(([docIndex]) => !accept || accept(this.ids[docIndex]))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([docIndex, score]) => ({ id: this.ids[docIndex], score }));
+  }
+}
@@ -0,0 +1,151 @@
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Line diff using Myers' O((N+M)D) algorithm. Past `maxEdits` differences the
+ * changed middle is reported as one deletion and one insertion instead, which
+ * keeps memory bounded for unrelated files.
+ */
+export function diffLines(oldLines: string[], newLines: string[], maxEdits = 2000): DiffLine[] {
+  // The common prefix and suffix never need searching
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  return [
+    ...oldLines.slice(0, start).map(text => ({ type: 'equal' as const, text })),
+    ...myers(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd), maxEdits),
+    ...oldLines.slice(oldEnd).map(text => ({ type: 'equal' as const, text }))
+  ];
+}
+
+function myers(a: string[], b: string[], maxEdits: number): DiffLine[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  // Furthest x reached on each diagonal k = x - y, at index k + offset
+  const v = new Int32Array(2 * max + 3);
+  // Diagonals -d-1..d+1 of v before each round d, for backtracking
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxEdits); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= a.length && y >= b.length) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+
+  return [
+    ...a.map(text => ({ type: 'delete' as const, text })),
+    ...b.map(text => ({ type: 'insert' as const, text }))
+  ];
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      lines.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      lines.push(x === previousX ? { type: 'insert', text: b[previousY] } : { type: 'delete', text: a[previousX] });
+      x = previousX;
+      y = previousY;
+    }
+  }
+
+  return lines.reverse();
+}
+
+function toLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Unified diff (`diff -u` format) between two texts, or an empty string when
+ * they have the same lines.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  const lines = diffLines(toLines(oldText), toLines(newText));
+  const changes = lines.flatMap((line, index) => (line.type === 'equal' ? [] : [index]));
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Line numbers in each text before every diff line
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (line.type !== 'insert') oldLine++;
+    if (line.type !== 'delete') newLine++;
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let next = 0;
+
+  while (next < changes.length) {
+    // Changes closer than twice the context share a hunk
+    let last = next;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * context) {
+      last++;
+    }
+
+    const start = Math.max(0, changes[next] - context);
+    const end = Math.min(lines.length, changes[last] + context + 1);
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.type !== 'insert').length;
+    const newCount = hunk.filter(line => line.type !== 'delete').length;
+    // Empty ranges point at the line before them
+    const oldStart = oldCount > 0 ? oldNumbers[start] + 1 : oldNumbers[start];
+    const newStart = newCount > 0 ? newNumbers[start] + 1 : newNumbers[start];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type === 'equal' ? ' ' : line.type === 'insert' ? '+' : '-'}${line.text}`);
+    }
+
+    next = last + 1;
+  }
+
+  return output.join('\n') + '\n';
+}
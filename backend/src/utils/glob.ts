@@ -0,0 +1,112 @@
+// The characters of a `[...]` class, each marked whether it was escaped with a backslash
+function classMembers(members: string): { char: string; escaped: boolean }[] {
+  const parsed: { char: string; escaped: boolean }[] = [];
+  for (let i = 0; i < members.length; i++) {
+    if (members[i] === '\\' && i + 1 < members.length) {
+      parsed.push({ char: members[++i], escaped: true });
+    } else {
+      parsed.push({ char: members[i], escaped: false });
+    }
+  }
+  return parsed;
+}
+
+// Regex source for the inside of a `[...]` class, every character escaped so none can break the regex
+function classSource(members: string): string {
+  const parsed = classMembers(members);
+  const escape = (char: string) => char.replace(/[\\\][^-]/g, '\\$&');
+  let source = '';
+
+  for (let i = 0; i < parsed.length; i++) {
+    const dash = parsed[i + 1];
+    if (dash && dash.char === '-' && !dash.escaped && i + 2 < parsed.length) {
+      const from = parsed[i].char;
+      const to = parsed[i + 2].char;
+      if (from > to) {
+        throw new Error(`Invalid range "${from}-${to}" in character class`);
+      }
+      source += `${escape(from)}-${escape(to)}`;
+      i += 2;
+    } else {
+      source += escape(parsed[i].char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Why a glob can't be used, e.g. a character class with a range like `[z-a]`,
+ * or null when it is valid.
+ */
+export function globError(glob: string): string | null {
+  try {
+    globToRegExp(glob);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Convert a glob to a regular expression matching a whole slash-separated
+ * path. Supports `*`, `**`, `?`, `[...]` character classes and `{a,b}`.
+ * Throws on a character class with a reversed range.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let groupDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches no directory at all
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 1) !== -1) {
+      const end = glob.indexOf(']', i + 1);
+      const members = glob.substring(i + 1, end);
+      source += members.startsWith('!') ? `[^${classSource(members.substring(1))}]` : `[${classSource(members)}]`;
+      i = end;
+    } else if (char === '{') {
+      source += '(?:';
+      groupDepth++;
+    } else if (char === '}' && groupDepth > 0) {
+      source += ')';
+      groupDepth--;
+    } else if (char === ',' && groupDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a path matches a glob. Patterns without a slash match the file
+ * name at any depth, so `*.ts` finds `src/index.ts`.
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.?\//, '');
+  const pattern = glob.replace(/^\.?\//, '');
+  const regex = globToRegExp(pattern);
+
+  if (regex.test(normalized)) {
+    return true;
+  }
+  return !pattern.includes('/') && regex.test(normalized.substring(normalized.lastIndexOf('/') + 1));
+}
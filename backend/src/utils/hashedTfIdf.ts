@@ -0,0 +1,128 @@
+import { tokenize } from './bm25';
+
+// Character n-grams let `authenticate` match `authentication` and similar near-misses
+const CHAR_NGRAM_SIZE = 3;
+// Whole terms are more telling than the fragments they share with other words
+const TERM_WEIGHT = 2;
+
+/**
+ * FNV-1a, enough to spread features evenly over the hashed dimensions.
+ */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Count the features of a text: its terms, adjacent term pairs and the
+ * character trigrams of each term, hashed into `dimension` buckets.
+ */
+export function hashFeatures(text: string, dimension: number): Map<number, number> {
+  const counts = new Map<number, number>();
+  const add = (feature: string, weight: number) => {
+    const bucket = hashFeature(feature) % dimension;
+    counts.set(bucket, (counts.get(bucket) || 0) + weight);
+  };
+
+  const terms = tokenize(text);
+  terms.forEach((term, index) => {
+    add(`t:${term}`, TERM_WEIGHT);
+    if (index > 0) {
+      add(`b:${terms[index - 1]} ${term}`, 1);
+    }
+
+    const padded = `^${term}$`;
+    for (let i = 0; i + CHAR_NGRAM_SIZE <= padded.length; i++) {
+      add(`c:${padded.substring(i, i + CHAR_NGRAM_SIZE)}`, 1);
+    }
+  });
+
+  return counts;
+}
+
+export interface SparseVector {
+  indices: Uint32Array;
+  values: Float32Array;
+}
+
+/**
+ * TF-IDF over hashed n-gram features. Documents are fitted first so inverse
+ * document frequencies reflect the whole corpus; every vector is then
+ * L2-normalized, making a dot product the cosine similarity. Vectors are
+ * sparse since a chunk only touches a few hundred of the hashed dimensions.
+ */
+export class HashedTfIdfModel {
+  private documentFrequency: Uint32Array;
+  private documentCount = 0;
+
+  constructor(readonly dimension: number) {
+    this.documentFrequency = new Uint32Array(dimension);
+  }
+
+  fit(counts: Map<number, number>): void {
+    for (const bucket of counts.keys()) {
+      this.documentFrequency[bucket]++;
+    }
+    this.documentCount++;
+  }
+
+  vectorize(counts: Map<number, number>): SparseVector {
+    const indices = new Uint32Array(counts.size);
+    const values = new Float32Array(counts.size);
+    let norm = 0;
+    let i = 0;
+
+    for (const [bucket, count] of counts) {
+      const idf = Math.log((this.documentCount + 1) / (this.documentFrequency[bucket] + 1)) + 1;
+      const weight = (1 + Math.log(count)) * idf;
+      indices[i] = bucket;
+      values[i] = weight;
+      norm += weight * weight;
+      i++;
+    }
+
+    if (norm > 0) {
+      const scale = 1 / Math.sqrt(norm);
+      for (let j = 0; j < values.length; j++) {
+        values[j] *= scale;
+      }
+    }
+    return { indices, values };
+  }
+
+  toDense(vector: SparseVector): Float32Array {
+    const dense = new Float32Array(this.dimension);
+    vector.indices.forEach((bucket, i) => {
+      dense[bucket] = vector.values[i];
+    });
+    return dense;
+  }
+}
+
+export function dotProduct(sparse: SparseVector, dense: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < sparse.indices.length; i++) {
+    sum += sparse.values[i] * dense[sparse.indices[i]];
+  }
+  return sum;
+}
+
+/**
+ * Cosine similarity of two raw feature counts, for comparing texts without
+ * fitting a corpus first.
+ */
+export function featureCosine(a: Map<number, number>, b: Map<number, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [bucket, count] of small) {
+    dot += count * (large.get(bucket) || 0);
+  }
+
+  const norm = (counts: Map<number, number>) => Math.sqrt([...counts.values()].reduce((sum, count) => sum + count * count, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
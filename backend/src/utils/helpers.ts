@@ -14,4 +14,8 @@ export function formatFileSize(bytes: number): string {
 
 export function sanitizeFilename(filename: string): string {
   return filename.replace(/[^a-zA-Z0-9.-]/g, '_');
-}
\ No newline at end of file
+}
+// Text files never contain NUL bytes; sniffing the start is enough
+export function isBinaryContent(data: Buffer, sniffLength = 8000): boolean {
+  return data.subarray(0, sniffLength).includes(0);
+}
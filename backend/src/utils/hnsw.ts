@@ -0,0 +1,324 @@
+export interface HnswOptions {
+  // Links per node on upper layers (twice this on layer 0)
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+}
+
+export interface HnswSearchResult {
+  label: string;
+  similarity: number;
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+interface SerializedHeader {
+  version: number;
+  dimension: number;
+  options: HnswOptions;
+  entryPoint: number;
+  maxLevel: number;
+  labels: string[];
+  levels: number[];
+  links: number[][][];
+  deleted: number[];
+}
+
+const FORMAT_VERSION = 1;
+export const DEFAULT_HNSW_OPTIONS: HnswOptions = { m: 16, efConstruction: 100, efSearch: 64 };
+
+/**
+ * Hierarchical navigable small world graph for cosine similarity search.
+ * Vectors are normalized on insert, so distance is 1 - dot product. Removal
+ * only tombstones a node; it keeps routing searches but is never returned,
+ * and the graph is rebuilt from live nodes once tombstones outnumber them.
+ */
+export class HnswIndex {
+  private vectors: Float32Array[] = [];
+  private labels: string[] = [];
+  private levels: number[] = [];
+  private links: number[][][] = [];
+  private deleted = new Set<number>();
+  private nodesByLabel = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private levelFactor: number;
+
+  constructor(readonly dimension: number, private options: HnswOptions = DEFAULT_HNSW_OPTIONS) {
+    this.levelFactor = 1 / Math.log(options.m);
+  }
+
+  get size(): number {
+    return this.nodesByLabel.size;
+  }
+
+  has(label: string): boolean {
+    return this.nodesByLabel.has(label);
+  }
+
+  labelsWithPrefix(prefix: string): string[] {
+    return [...this.nodesByLabel.keys()].filter(label => label.startsWith(prefix));
+  }
+
+  add(label: string, vector: number[] | Float32Array): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dimension}`);
+    }
+
+    this.remove(label);
+
+    const normalized = normalize(vector);
+    const node = this.vectors.length;
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+
+    this.vectors.push(normalized);
+    this.labels.push(label);
+    this.levels.push(level);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.nodesByLabel.set(label, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(normalized, entry, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(normalized, entry, this.options.efConstruction, layer);
+      const neighbours = candidates.slice(0, this.options.m).map(candidate => candidate.node);
+      this.links[node][layer] = neighbours;
+
+      for (const neighbour of neighbours) {
+        this.connect(neighbour, node, layer);
+      }
+
+      entry = candidates[0].node;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(label: string): boolean {
+    const node = this.nodesByLabel.get(label);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.nodesByLabel.delete(label);
+    this.deleted.add(node);
+
+    if (this.deleted.size > this.nodesByLabel.size) {
+      this.compact();
+    }
+    return true;
+  }
+
+  search(vector: number[] | Float32Array, k: number): HnswSearchResult[] {
+    if (this.entryPoint === -1 || k <= 0 || vector.length !== this.dimension) {
+      return [];
+    }
+
+    const query = normalize(vector);
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(query, entry, layer);
+    }
+
+    // Over-fetch so tombstoned nodes don't eat into the k results
+    const ef = Math.max(this.options.efSearch, k + this.deleted.size);
+    return this.searchLayer(query, entry, ef, 0)
+      .filter(candidate => !this.deleted.has(candidate.node))
+      .slice(0, k)
+      .map(candidate => ({ label: this.labels[candidate.node], similarity: 1 - candidate.distance }));
+  }
+
+  /**
+   * Binary layout: uint32 header length, JSON header, then every vector as
+   * little-endian float32 in node order.
+   */
+  toBuffer(): Buffer {
+    const header: SerializedHeader = {
+      version: FORMAT_VERSION,
+      dimension: this.dimension,
+      options: this.options,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      labels: this.labels,
+      levels: this.levels,
+      links: this.links,
+      deleted: [...this.deleted]
+    };
+    const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+    const vectorBytes = Buffer.alloc(this.vectors.length * this.dimension * 4);
+
+    this.vectors.forEach((vector, node) => {
+      Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).copy(vectorBytes, node * this.dimension * 4);
+    });
+
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(headerBytes.length, 0);
+    return Buffer.concat([length, headerBytes, vectorBytes]);
+  }
+
+  static fromBuffer(buffer: Buffer): HnswIndex {
+    const headerLength = buffer.readUInt32LE(0);
+    const header = JSON.parse(buffer.subarray(4, 4 + headerLength).toString('utf-8')) as SerializedHeader;
+
+    if (header.version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported index format version ${header.version}`);
+    }
+
+    const index = new HnswIndex(header.dimension, header.options);
+    // Copy into a fresh, aligned buffer before viewing it as float32
+    const floats = new Float32Array(new Uint8Array(buffer.subarray(4 + headerLength)).buffer);
+
+    index.vectors = header.labels.map((_, node) => floats.subarray(node * header.dimension, (node + 1) * header.dimension));
+    index.labels = header.labels;
+    index.levels = header.levels;
+    index.links = header.links;
+    index.deleted = new Set(header.deleted);
+    index.entryPoint = header.entryPoint;
+    index.maxLevel = header.maxLevel;
+    header.labels.forEach((label, node) => {
+      if (!index.deleted.has(node)) {
+        index.nodesByLabel.set(label, node);
+      }
+    });
+
+    return index;
+  }
+
+  private connect(from: number, to: number, layer: number): void {
+    const links = this.links[from][layer];
+    links.push(to);
+
+    const maxLinks = layer === 0 ? this.options.m * 2 : this.options.m;
+    if (links.length <= maxLinks) {
+      return;
+    }
+
+    // Keep only the closest links once the node is over capacity
+    this.links[from][layer] = links
+      .map(node => ({ node, distance: this.distance(this.vectors[from], node) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxLinks)
+      .map(candidate => candidate.node);
+  }
+
+  private greedyClosest(query: Float32Array, entry: number, layer: number): number {
+    let current = entry;
+    let currentDistance = this.distance(query, current);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.links[current][layer] || []) {
+        const distance = this.distance(query, neighbour);
+        if (distance < currentDistance) {
+          current = neighbour;
+          currentDistance = distance;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  // Best-first search of one layer; returns up to ef candidates, closest first
+  private searchLayer(query: Float32Array, entry: number, ef: number, layer: number): Candidate[] {
+    const visited = new Set<number>([entry]);
+    const start = { node: entry, distance: this.distance(query, entry) };
+    const frontier: Candidate[] = [start];
+    const results: Candidate[] = [start];
+
+    while (frontier.length > 0) {
+      const closest = frontier.shift() as Candidate;
+      if (results.length >= ef && closest.distance > results[results.length - 1].distance) {
+        break;
+      }
+
+      for (const neighbour of this.links[closest.node][layer] || []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+
+        const distance = this.distance(query, neighbour);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          const candidate = { node: neighbour, distance };
+          insertSorted(frontier, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private compact(): void {
+    const live = [...this.nodesByLabel.entries()].map(([label, node]) => ({ label, vector: this.vectors[node] }));
+
+    this.vectors = [];
+    this.labels = [];
+    this.levels = [];
+    this.links = [];
+    this.deleted = new Set();
+    this.nodesByLabel = new Map();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+
+    for (const { label, vector } of live) {
+      this.add(label, vector);
+    }
+  }
+
+  private distance(query: Float32Array, node: number): number {
+    const vector = this.vectors[node];
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += query[i] * vector[i];
+    }
+    return 1 - dot;
+  }
+}
+
+function normalize(vector: number[] | Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = norm === 0 ? 0 : vector[i] / norm;
+  }
+  return normalized;
+}
+
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].distance < candidate.distance) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, candidate);
+}
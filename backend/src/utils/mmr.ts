@@ -0,0 +1,62 @@
+export interface MmrOptions<T> {
+  limit: number;
+  // 1 ranks by relevance alone, 0 by novelty alone
+  lambda: number;
+  relevance: (item: T) => number;
+  similarity: (a: T, b: T) => number;
+  // Items sharing a group count towards the same cap
+  group?: (item: T) => string;
+  maxPerGroup?: number;
+}
+
+/**
+ * Maximal Marginal Relevance: repeatedly pick the item that best trades
+ * relevance against similarity to what has already been picked, so the
+ * result isn't several copies of the same hit. Relevance is scaled to the
+ * best item's so it is comparable with similarities in [0, 1].
+ */
+export function maximalMarginalRelevance<T>(items: T[], options: MmrOptions<T>): T[] {
+  const { limit, lambda, group, maxPerGroup } = options;
+  const topRelevance = Math.max(0, ...items.map(options.relevance)) || 1;
+  const relevance = items.map(item => options.relevance(item) / topRelevance);
+  // Highest similarity of each item to anything selected so far
+  const redundancy = new Array<number>(items.length).fill(0);
+  const taken = new Array<boolean>(items.length).fill(false);
+  const groupCounts = new Map<string, number>();
+  const selected: T[] = [];
+
+  while (selected.length < limit) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    for (let i = 0; i < items.length; i++) {
+      if (taken[i]) continue;
+      if (group && maxPerGroup && (groupCounts.get(group(items[i])) || 0) >= maxPerGroup) continue;
+
+      const score = lambda * relevance[i] - (1 - lambda) * redundancy[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    if (best === -1) break;
+
+    taken[best] = true;
+    selected.push(items[best]);
+    if (group) {
+      const key = group(items[best]);
+      groupCounts.set(key, (groupCounts.get(key) || 0) + 1);
+    }
+
+    if (lambda < 1) {
+      for (let i = 0; i < items.length; i++) {
+        if (!taken[i]) {
+          redundancy[i] = Math.max(redundancy[i], options.similarity(items[i], items[best]));
+        }
+      }
+    }
+  }
+
+  return selected;
+}
@@ -0,0 +1,31 @@
+export interface FusedItem<T> {
+  // Every entry for the key, in the order of the rankings they came from
+  entries: T[];
+  score: number;
+}
+
+/**
+ * Reciprocal rank fusion: each item scores `1 / (k + rank)` in every ranking
+ * it appears in (ranks from 1), and items are returned by their summed score.
+ * Items with the same key are one item; ties keep the order items were first
+ * seen in.
+ */
+export function reciprocalRankFusion<T>(rankings: T[][], key: (item: T) => string, k = 60): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T>>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      const contribution = 1 / (k + rank + 1);
+      const existing = fused.get(key(item));
+
+      if (existing) {
+        existing.entries.push(item);
+        existing.score += contribution;
+      } else {
+        fused.set(key(item), { entries: [item], score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
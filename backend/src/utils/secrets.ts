@@ -0,0 +1,180 @@
+export const SECRET_TYPES = [
+  'private_key',
+  'aws_access_key',
+  'aws_secret_key',
+  'gcp_api_key',
+  'gcp_service_account_key',
+  'gcp_client_secret',
+  'github_token',
+  'jwt',
+  'high_entropy'
+] as const;
+
+export type SecretType = typeof SECRET_TYPES[number];
+
+// What is kept about a secret found in a file; never the secret itself
+export interface SecretFinding {
+  type: SecretType;
+  line: number;
+  column: number;
+  // The first few characters, enough to recognise which key it is
+  preview: string;
+}
+
+interface SecretMatch {
+  type: SecretType;
+  start: number;
+  end: number;
+}
+
+interface SecretPattern {
+  type: SecretType;
+  pattern: RegExp;
+  // Capture group holding the secret, when the pattern also matches what surrounds it
+  group?: number;
+  // Further check on the secret, for patterns that also match harmless strings
+  accept?: (secret: string) => boolean;
+}
+
+// Bits per character above which a string is taken for random rather than written by hand
+const ASSIGNED_ENTROPY_THRESHOLD = 3.5;
+const LITERAL_ENTROPY_THRESHOLD = 4.5;
+const PREVIEW_LENGTH = 4;
+const MAX_FINDINGS = 100;
+
+const PLACEHOLDER = /example|sample|dummy|placeholder|changeme|your[_-]|xxxx|\*{4}|<|\$\{|process\.env/i;
+
+/**
+ * Shannon entropy of the string, in bits per character.
+ */
+export function shannonEntropy(text: string): number {
+  if (!text) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Values assigned to names like `apiKey` or `DB_PASSWORD`: random-looking, with letters and digits
+const looksAssigned = (value: string): boolean =>
+  /[A-Za-z]/.test(value) &&
+  /\d/.test(value) &&
+  !PLACEHOLDER.test(value) &&
+  shannonEntropy(value) >= ASSIGNED_ENTROPY_THRESHOLD;
+
+// Long string literals with no name to go by need mixed case and digits, and more entropy than
+// hex digests (at most 4 bits per character) can have
+const looksRandom = (value: string): boolean =>
+  /[a-z]/.test(value) &&
+  /[A-Z]/.test(value) &&
+  /\d/.test(value) &&
+  !/^sha\d+-/.test(value) &&
+  !PLACEHOLDER.test(value) &&
+  shannonEntropy(value) >= LITERAL_ENTROPY_THRESHOLD;
+
+// Earlier patterns win where matches overlap, so the specific ones come before the entropy checks
+const SECRET_PATTERNS: SecretPattern[] = [
+  // The whole block, or up to the end of the text when it is cut off
+  {
+    type: 'private_key',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?(-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----|$)/g
+  },
+  { type: 'aws_access_key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g },
+  {
+    type: 'aws_secret_key',
+    pattern: /aws_?(?:secret_?access_?key|secret_?key)["']?\s*(?:[:=]|=>)\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1
+  },
+  { type: 'gcp_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+  { type: 'gcp_service_account_key', pattern: /"private_key_id"\s*:\s*"([a-f0-9]{40})"/g, group: 1 },
+  { type: 'gcp_client_secret', pattern: /\bGOCSPX-[A-Za-z0-9_-]{28}(?![A-Za-z0-9_-])/g },
+  { type: 'github_token', pattern: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,255}\b/g },
+  { type: 'github_token', pattern: /\bgithub_pat_[A-Za-z0-9_]{22,255}\b/g },
+  { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    type: 'high_entropy',
+    pattern: /(?:secret|token|passw(?:or)?d|pwd|api_?key|access_?key|private_?key|credential|auth)[\w.-]{0,40}["']?\s*(?:[:=]|=>)\s*["'`]?([A-Za-z0-9+/=_.~-]{16,})/gi,
+    group: 1,
+    accept: looksAssigned
+  },
+  { type: 'high_entropy', pattern: /["'`]([A-Za-z0-9+/=_-]{32,})["'`]/g, group: 1, accept: looksRandom }
+];
+
+function findSecrets(content: string): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some(match => start < match.end && match.start < end);
+
+  for (const { type, pattern, group, accept } of SECRET_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      const secret = group ? match[group] : match[0];
+      if (!secret || (accept && !accept(secret))) continue;
+
+      const start = match.index! + (group ? match[0].indexOf(secret) : 0);
+      const end = start + secret.length;
+      if (!overlaps(start, end)) {
+        matches.push({ type, start, end });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Secrets in the text: private keys, AWS, GCP and GitHub credentials, JWTs,
+ * and random-looking strings assigned to names like `apiKey` or quoted on
+ * their own. At most `MAX_FINDINGS`, in order of position.
+ */
+export function scanSecrets(content: string): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let scanned = 0;
+
+  for (const match of findSecrets(content).slice(0, MAX_FINDINGS)) {
+    for (; scanned < match.start; scanned++) {
+      if (content[scanned] === '\n') {
+        line++;
+        lineStart = scanned + 1;
+      }
+    }
+
+    const secret = content.substring(match.start, match.end);
+    findings.push({
+      type: match.type,
+      line,
+      column: match.start - lineStart + 1,
+      preview: match.type === 'private_key' ? secret.split(/\n|\\n/)[0] : `${secret.substring(0, PREVIEW_LENGTH)}…`
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * The text with every secret `scanSecrets` finds replaced by a
+ * `[REDACTED:<type>]` marker. Line breaks inside a secret are kept after the
+ * marker, so line numbers stay the same.
+ */
+export function redactSecrets(content: string): string {
+  const matches = findSecrets(content);
+  if (matches.length === 0) return content;
+
+  let redacted = '';
+  let offset = 0;
+  for (const match of matches) {
+    const lineBreaks = content.substring(match.start, match.end).split('\n').length - 1;
+    redacted += content.substring(offset, match.start) + `[REDACTED:${match.type}]` + '\n'.repeat(lineBreaks);
+    offset = match.end;
+  }
+
+  return redacted + content.substring(offset);
+}
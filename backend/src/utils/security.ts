@@ -320,10 +320,101 @@ export function validatePath(path: string): boolean {
       normalizedPath.includes('//')) {
     return false;
   }
+
+  // A bare `..` at the end, Windows drive letters and NUL bytes
+  if (normalizedPath.split('/').includes('..') ||
+      /^[a-zA-Z]:/.test(normalizedPath) ||
+      normalizedPath.includes('\0')) {
+    return false;
+  }
   
   return true;
 }
 
+// Endpoints the providers use when a user sets no base URL of their own
+const PROVIDER_DEFAULT_BASE_URLS = (): string[] => [
+  process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
+];
+
+const parseOrigin = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the host is loopback, private, link-local or otherwise not on the
+ * public internet. Only literal addresses and local names are recognised;
+ * public names that resolve to private addresses are not.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+
+  const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const ipv4 = mapped ? mapped[1] : host;
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ipv4)) {
+    const [a, b] = ipv4.split('.').map(Number);
+    return a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224;
+  }
+
+  if (host.includes(':')) {
+    return host === '::' ||
+      host === '::1' ||
+      /^f[cd][0-9a-f]{2}:/.test(host) ||
+      /^fe[89ab][0-9a-f]:/.test(host) ||
+      host.startsWith('::ffff:');
+  }
+
+  return false;
+}
+
+/**
+ * LLM provider endpoint validation. The URL's origin must match one of
+ * LLM_ALLOWED_BASE_URLS or a provider default exactly; with `*` in the list,
+ * any public host is allowed too, but private, loopback and link-local hosts
+ * still have to be listed.
+ */
+export function validateProviderBaseUrl(baseUrl: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(baseUrl);
+  } catch {
+    return false;
+  }
+
+  if ((parsed.protocol !== 'http:' && parsed.protocol !== 'https:') || parsed.username || parsed.password) {
+    return false;
+  }
+
+  const entries = (process.env.LLM_ALLOWED_BASE_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+  const allowedOrigins = [...entries, ...PROVIDER_DEFAULT_BASE_URLS()]
+    .map(parseOrigin)
+    .filter((origin): origin is string => origin !== null);
+
+  if (allowedOrigins.includes(parsed.origin)) {
+    return true;
+  }
+
+  return entries.includes('*') && !isPrivateHost(parsed.hostname);
+}
+
+// Origin a stored provider key is bound to; unset stands for the provider's default endpoint
+export const baseUrlOrigin = (baseUrl?: string): string | null => (baseUrl ? parseOrigin(baseUrl) : null);
+
 // JWT token validation helpers
 export function validateJWTStructure(token: string): boolean {
   if (!token) return false;
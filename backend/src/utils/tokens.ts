@@ -0,0 +1,48 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+let encoder: Tiktoken | null = null;
+
+// Loaded lazily: building the BPE ranks takes a moment and most requests never need it
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = getEncoding('cl100k_base');
+  }
+  return encoder;
+}
+
+/**
+ * Count tokens with the cl100k BPE tokenizer. Gemini and local models use
+ * different vocabularies, but cl100k tracks them closely enough for budgeting
+ * prompt sections, and far better than a character ratio on source code.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return getEncoder().encode(text).length;
+}
+
+/**
+ * Cut text down to at most `maxTokens` tokens, on a token boundary.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (maxTokens <= 0) return '';
+
+  const tokens = getEncoder().encode(text);
+  if (tokens.length <= maxTokens) return text;
+
+  return getEncoder().decode(tokens.slice(0, maxTokens));
+}
+
+/**
+ * Cut text into consecutive pieces of at most `maxTokens` tokens each, on
+ * token boundaries.
+ */
+export function splitByTokens(text: string, maxTokens: number): string[] {
+  const tokens = getEncoder().encode(text);
+  if (tokens.length <= maxTokens) return [text];
+
+  const pieces: string[] = [];
+  for (let i = 0; i < tokens.length; i += maxTokens) {
+    pieces.push(getEncoder().decode(tokens.slice(i, i + maxTokens)));
+  }
+  return pieces;
+}
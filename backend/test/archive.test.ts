@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { readArchive, readTarGz, readZip } from '../src/utils/archive';
+import { ArchiveService } from '../src/services/archive.service';
+
+const LIMITS = { maxEntries: 100, maxTotalSize: 1024 * 1024 };
+
+// Minimal zip writer; the reader doesn't check CRCs, so they are left at zero
+const zip = (files: Array<{ name: string; data: string; deflate?: boolean }>): Buffer => {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = Buffer.from(file.name);
+        const raw = Buffer.from(file.data);
+        const stored = file.deflate ? zlib.deflateRawSync(raw) : raw;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+        local.writeUInt32LE(stored.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(name.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+        central.writeUInt32LE(stored.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, name, stored);
+        centrals.push(central, name);
+        offset += local.length + name.length + stored.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+};
+
+const tarHeader = (name: string, size: number, type: string): Buffer => {
+    const header = Buffer.alloc(512);
+    header.write(name.substring(0, 100), 0);
+    header.write(size.toString(8).padStart(11, '0'), 124);
+    header.write(type, 156);
+    return header;
+};
+
+const padded = (data: Buffer) => Buffer.concat([data, Buffer.alloc(Math.ceil(data.length / 512) * 512 - data.length)]);
+
+const tarGz = (files: Array<{ name: string; data: string; type?: string; longName?: boolean }>): Buffer => {
+    const blocks: Buffer[] = [];
+    for (const file of files) {
+        const data = Buffer.from(file.data);
+        if (file.longName) {
+            const name = Buffer.from(`${file.name}\0`);
+            blocks.push(tarHeader('././@LongLink', name.length, 'L'), padded(name));
+        }
+        blocks.push(tarHeader(file.name, data.length, file.type || '0'), padded(data));
+    }
+    return zlib.gzipSync(Buffer.concat([...blocks, Buffer.alloc(1024)]));
+};
+
+const withTempDir = async (run: (dir: string) => Promise<void>) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+    try {
+        await run(dir);
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+};
+
+const extract = (archive: Buffer, name: string) => withTempDir(async dir => {
+    const archivePath = path.join(dir, name);
+    await fs.writeFile(archivePath, archive);
+    await new ArchiveService().extract(archivePath, name, path.join(dir, 'out'));
+});
+
+test('zip entries are read stored and deflated, without directories', () => {
+    const entries = readZip(zip([
+        { name: 'src/', data: '' },
+        { name: 'src/a.ts', data: 'export const a = 1;' },
+        { name: 'src/b.ts', data: 'export const b = 2;\n'.repeat(50), deflate: true }
+    ]), LIMITS);
+
+    assert.deepEqual(entries.map(entry => entry.path), ['src/a.ts', 'src/b.ts']);
+    assert.equal(entries[1].data.toString(), 'export const b = 2;\n'.repeat(50));
+});
+
+test('tar entries are read with GNU long names, skipping links and directories', () => {
+    const longName = `src/${'nested/'.repeat(20)}deep.ts`;
+    const entries = readArchive(tarGz([
+        { name: 'src/', data: '', type: '5' },
+        { name: 'src/a.ts', data: 'a' },
+        { name: 'src/link.ts', data: '', type: '2' },
+        { name: longName, data: 'deep', longName: true }
+    ]), 'repo.tar.gz', LIMITS);
+
+    assert.deepEqual(entries.map(entry => entry.path), ['src/a.ts', longName]);
+    assert.equal(entries[1].data.toString(), 'deep');
+});
+
+test('archives over the entry or size limits are refused', () => {
+    const files = Array.from({ length: 5 }, (_, i) => ({ name: `f${i}.ts`, data: 'x'.repeat(100) }));
+
+    assert.throws(() => readZip(zip(files), { maxEntries: 4, maxTotalSize: LIMITS.maxTotalSize }), /too large/);
+    assert.throws(() => readZip(zip(files), { maxEntries: 100, maxTotalSize: 300 }), /too large/);
+    assert.throws(() => readTarGz(tarGz(files), { maxEntries: 4, maxTotalSize: LIMITS.maxTotalSize }), /too large/);
+    assert.throws(() => readTarGz(tarGz([{ name: 'bomb.txt', data: '0'.repeat(200000) }]), { maxEntries: 10, maxTotalSize: 1000 }), /too large/);
+});
+
+test('malformed archives are refused', () => {
+    assert.throws(() => readZip(Buffer.from('not a zip at all, just some bytes'), LIMITS), /Not a zip/);
+    assert.throws(() => readTarGz(Buffer.from('plain text'), LIMITS), /Not a gzip/);
+});
+
+for (const unsafe of ['../evil.ts', 'src/../../evil.ts', '/etc/evil.ts', 'C:/evil.ts', 'src/..']) {
+    test(`zip-slip path ${unsafe} is refused by zip and tar extraction`, async () => {
+        await assert.rejects(extract(zip([{ name: 'src/ok.ts', data: 'ok' }, { name: unsafe, data: 'x' }]), 'repo.zip'), /unsafe path/);
+        await assert.rejects(extract(tarGz([{ name: unsafe, data: 'x' }]), 'repo.tgz'), /unsafe path/);
+    });
+}
+
+test('a tar long name cannot smuggle a traversal past the short name', async () => {
+    const name = `${'a/'.repeat(60)}../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../../evil.ts`;
+    await assert.rejects(extract(tarGz([{ name, data: 'x', longName: true }]), 'repo.tgz'), /unsafe path/);
+});
+
+test('safe archives are extracted under the destination with the common root stripped', () => withTempDir(async dir => {
+    const archivePath = path.join(dir, 'repo.zip');
+    await fs.writeFile(archivePath, zip([
+        { name: 'repo-main/src/index.ts', data: 'export {};' },
+        { name: 'repo-main/README.md', data: '# Repo' }
+    ]));
+
+    const destination = path.join(dir, 'out');
+    const { files } = await new ArchiveService().extract(archivePath, 'repo.zip', destination);
+
+    assert.deepEqual(files.map(file => file.relativePath).sort(), ['README.md', 'src/index.ts']);
+    for (const file of files) {
+        assert.ok(file.diskPath.startsWith(destination + path.sep));
+        assert.equal(await fs.readFile(file.diskPath, 'utf8'), file.content);
+    }
+}));
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Bm25Index, tokenize } from '../src/utils/bm25';
+import { reciprocalRankFusion } from '../src/utils/rrf';
+
+test('identifiers are kept whole and split on camelCase and snake_case', () => {
+    assert.deepEqual(tokenize('generateToken(user_id, HTTPServer)'), [
+        'generatetoken', 'generate', 'token',
+        'user_id', 'user', 'id',
+        'httpserver', 'http', 'server'
+    ]);
+});
+
+const index = () => {
+    const bm25 = new Bm25Index();
+    bm25.add({ id: 'auth', text: 'function login(user) { return generateToken(user); }', symbols: ['login'] });
+    bm25.add({ id: 'token', text: 'function generateToken(user) { return sign(user.id, secret); }', symbols: ['generateToken'] });
+    bm25.add({ id: 'noise', text: 'const token = 1; const other = token + token + 2; '.repeat(20) });
+    bm25.add({ id: 'db', text: 'function connect(url) { return mongoose.connect(url); }', symbols: ['connect'] });
+    return bm25;
+};
+
+test('documents declaring the queried name rank first', () => {
+    const results = index().search('generateToken', 10);
+    assert.deepEqual(results.slice(0, 2).map(result => result.id), ['token', 'auth']);
+    assert.ok(results[0].score > results[1].score);
+    assert.ok(!results.some(result => result.id === 'db'));
+});
+
+test('of two documents with the same term count, the shorter one ranks first', () => {
+    const bm25 = new Bm25Index();
+    bm25.add({ id: 'long', text: `parse config ${'value other words '.repeat(30)}` });
+    bm25.add({ id: 'short', text: 'parse config' });
+    bm25.add({ id: 'unrelated', text: 'render view' });
+
+    assert.deepEqual(bm25.search('parse', 10).map(result => result.id), ['short', 'long']);
+});
+
+test('search honours the limit, the accept filter and unknown terms', () => {
+    const bm25 = index();
+    assert.equal(bm25.search('user', 1).length, 1);
+    assert.deepEqual(bm25.search('user', 10, id => id !== 'token').map(result => result.id), ['auth']);
+    assert.deepEqual(bm25.search('nothingmatches', 10), []);
+    assert.deepEqual(new Bm25Index().search('user', 10), []);
+});
+
+test('rank fusion favours items ranked well in several lists', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['b', 'c', 'd']], item => item);
+
+    assert.deepEqual(fused.map(item => item.entries[0]), ['b', 'c', 'a', 'd']);
+    assert.ok(Math.abs(fused[0].score - (1 / 62 + 1 / 61)) < 1e-12);
+    assert.deepEqual(fused[1].entries, ['c', 'c']);
+});
+
+test('rank fusion keeps first-seen order for ties and respects k', () => {
+    const fused = reciprocalRankFusion([['x'], ['y']], item => item, 1);
+    assert.deepEqual(fused.map(item => [item.entries[0], item.score]), [['x', 0.5], ['y', 0.5]]);
+});
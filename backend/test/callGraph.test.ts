@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { ChunkType, ICallSite } from '../src/models/Chunk';
+import { scanCalls, C_LIKE_SYNTAX } from '../src/services/analyzers/symbols';
+import { typeScriptAnalyzer } from '../src/services/analyzers/typescript.analyzer';
+import { pythonAnalyzer } from '../src/services/analyzers/python.analyzer';
+import { FileProcessorService } from '../src/services/fileProcessor.service';
+import { CallGraph, CallGraphChunk } from '../src/services/callGraph.service';
+
+const names = (calls: ICallSite[]) => calls.map(call => `${call.name}@${call.line}`);
+
+test('typescript call sites include methods, constructors and wrapped callees', () => {
+    const source = [
+        "import { helper } from './helper';",
+        'const fs = require("fs");',
+        'export function run(input: string) {',
+        '    const parsed = parse<string>(input)!;',
+        '    const user = new UserService(db);',
+        '    (getLogger)().info("run");',
+        '    return helper(user.load(parsed));',
+        '}'
+    ].join('\n');
+
+    assert.deepEqual(names(typeScriptAnalyzer.extractCalls(source, 'run.ts')), [
+        'parse@4', 'UserService@5', 'info@6', 'getLogger@6', 'helper@7', 'load@7'
+    ]);
+});
+
+test('python call sites skip definitions, comments and strings', () => {
+    const source = [
+        'class Report(Base):',
+        '    def render(self):',
+        '        # format(self) is not a call',
+        '        title = "build(now)"',
+        '        rows = self.collect(limit=10)',
+        '        return format_rows(rows)',
+        '',
+        'def main():',
+        '    """Calls run() indirectly."""',
+        '    Report().render()'
+    ].join('\n');
+
+    assert.deepEqual(names(pythonAnalyzer.extractCalls(source)), ['collect@5', 'format_rows@6', 'Report@10', 'render@10']);
+});
+
+test('lexical call scanning spans block comments and ignores keywords', () => {
+    const lines = [
+        'func handle(w http.ResponseWriter) {',
+        '    /* validate(w)',
+        '       still(commented) */ if (ready()) {',
+        '        write (w, "ok(1)")',
+        '    }',
+        '}'
+    ];
+
+    assert.deepEqual(names(scanCalls(lines, C_LIKE_SYNTAX)), ['ready@3', 'write@4']);
+});
+
+test('call sites belong to the narrowest chunk containing them', () => {
+    const chunks: Array<{ startLine: number; endLine: number; calls?: ICallSite[] }> = [
+        { startLine: 1, endLine: 20 },
+        { startLine: 3, endLine: 8 },
+        { startLine: 10, endLine: 18 }
+    ];
+
+    const [file, first, second] = FileProcessorService.attachCalls(chunks, [
+        { name: 'a', line: 2 }, { name: 'b', line: 5 }, { name: 'c', line: 12 }, { name: 'd', line: 25 }
+    ]);
+
+    assert.deepEqual(names(file.calls!), ['a@2']);
+    assert.deepEqual(names(first.calls!), ['b@5']);
+    assert.deepEqual(names(second.calls!), ['c@12']);
+});
+
+const fileA = new mongoose.Types.ObjectId();
+const fileB = new mongoose.Types.ObjectId();
+const filePy = new mongoose.Types.ObjectId();
+
+function chunk(fileId: mongoose.Types.ObjectId, chunkId: string, symbolName: string | undefined, calls: string[], type: ChunkType = 'function'): CallGraphChunk {
+    return { fileId, chunkId, symbolName, type, startLine: 1, endLine: 10, calls: calls.map((name, i) => ({ name, line: i + 1 })) };
+}
+
+test('definitions resolve by language and prefer the calling file', () => {
+    const languages = new Map([[String(fileA), 'typescript'], [String(fileB), 'javascript'], [String(filePy), 'python']]);
+    const localSave = chunk(fileA, 'a1', 'Store.save', []);
+    const otherSave = chunk(fileB, 'b1', 'save', []);
+    const pythonSave = chunk(filePy, 'p1', 'save', []);
+    const graph = new CallGraph([localSave, otherSave, pythonSave], languages);
+
+    assert.deepEqual(graph.definitionsOf('save', String(fileA)), [localSave]);
+    assert.deepEqual(graph.definitionsOf('save', String(fileB)), [otherSave]);
+    assert.deepEqual(graph.definitionsOf('save'), [localSave, otherSave, pythonSave]);
+    assert.deepEqual(graph.definitionsOf('save', undefined, 2), []);
+});
+
+test('related chunks are callers, then callees, without the retrieved ones', () => {
+    const login = chunk(fileA, 'login', 'AuthService.login', ['hash', 'findUser', 'get']);
+    const loginTail = chunk(fileA, 'login-2', 'AuthService.login', ['issueToken']);
+    const hash = chunk(fileA, 'hash', 'hash', []);
+    const findUser = chunk(fileB, 'find', 'findUser', []);
+    const issueToken = chunk(fileB, 'token', 'issueToken', []);
+    const controller = chunk(fileB, 'ctrl', 'loginHandler', ['login']);
+    const getters = ['g1', 'g2', 'g3'].map(id => chunk(fileB, id, `Cache${id}.get`, []));
+    const block = chunk(fileB, 'block', undefined, ['login'], 'block');
+    const graph = new CallGraph([login, loginTail, hash, findUser, issueToken, controller, block, ...getters]);
+
+    const related = graph.related([login, hash], 10, 2);
+
+    assert.deepEqual(related.map(item => `${item.relation}:${item.chunk.chunkId}`), [
+        'caller:ctrl', 'caller:block', 'callee:find', 'callee:token'
+    ]);
+    assert.equal(related[0].via, 'login');
+    assert.deepEqual(graph.related([login], 1, 2).map(item => item.chunk.chunkId), ['ctrl']);
+    assert.deepEqual(graph.related([block], 10, 2), []);
+});
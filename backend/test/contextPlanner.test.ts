@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContextCandidate, contextPlanner } from '../src/services/contextPlanner.service';
+
+const candidate = (fileId: string, content: string): ContextCandidate => ({
+    kind: 'chunk',
+    fileId,
+    fileName: `${fileId}.ts`,
+    language: 'typescript',
+    content,
+    chunkId: 'chunk-1'
+});
+
+test('only included candidates are prepared', () => {
+    const prepared: string[] = [];
+    const plan = contextPlanner.plan(
+        [candidate('a', 'const a = 1;'), candidate('b', 'word '.repeat(500)), candidate('c', 'const c = 3;')],
+        50,
+        content => {
+            prepared.push(content);
+            return content.replace(/\d/g, '0');
+        }
+    );
+
+    assert.deepEqual(plan.included.map(item => item.content), ['const a = 0;', 'const c = 0;']);
+    assert.deepEqual(plan.dropped.map(item => [item.fileName, item.reason]), [['b.ts', 'over_budget']]);
+    assert.deepEqual(prepared, ['const a = 1;', 'const c = 3;']);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines, unifiedDiff } from '../src/utils/diff';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+// Both texts can be rebuilt from the diff
+const assertRebuilds = (oldLines: string[], newLines: string[], maxEdits?: number) => {
+    const lines = diffLines(oldLines, newLines, maxEdits);
+    assert.deepEqual(lines.filter(line => line.type !== 'insert').map(line => line.text), oldLines);
+    assert.deepEqual(lines.filter(line => line.type !== 'delete').map(line => line.text), newLines);
+    return lines;
+};
+
+test('line diffs are minimal and rebuild both sides', () => {
+    const lines = assertRebuilds(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+    // Myers' example: an edit script of length 5
+    assert.equal(lines.filter(line => line.type !== 'equal').length, 5);
+
+    assertRebuilds([], ['x', 'y']);
+    assertRebuilds(['x', 'y'], []);
+    assert.deepEqual(diffLines(['same'], ['same']), [{ type: 'equal', text: 'same' }]);
+});
+
+test('past the edit limit the changed middle is one deletion and one insertion', () => {
+    const oldLines = ['head', ...numbered(50).map(line => `old ${line}`), 'tail'];
+    const newLines = ['head', ...numbered(50).map(line => `new ${line}`), 'tail'];
+    const lines = assertRebuilds(oldLines, newLines, 5);
+
+    assert.deepEqual(lines.map(line => line.type).filter((type, i, all) => type !== all[i - 1]), ['equal', 'delete', 'insert', 'equal']);
+});
+
+test('identical texts give an empty diff, line endings aside', () => {
+    assert.equal(unifiedDiff('a\nb\n', 'a\r\nb', 'a/f', 'b/f'), '');
+});
+
+test('a change gets one hunk with three lines of context', () => {
+    const oldText = numbered(10).join('\n') + '\n';
+    const newText = oldText.replace('line 5\n', 'line five\n');
+
+    assert.equal(unifiedDiff(oldText, newText, 'a/f.ts', 'b/f.ts'), [
+        '--- a/f.ts',
+        '+++ b/f.ts',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+line five',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        ''
+    ].join('\n'));
+});
+
+test('changes far apart get separate hunks with their own line numbers', () => {
+    const oldLines = numbered(30);
+    const newLines = [...oldLines];
+    newLines.splice(2, 0, 'inserted');
+    newLines.splice(26, 1);
+
+    const hunks = unifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'a', 'b').split('\n').filter(line => line.startsWith('@@'));
+    assert.deepEqual(hunks, ['@@ -1,5 +1,6 @@', '@@ -23,7 +24,6 @@']);
+});
+
+test('changes close together share a hunk', () => {
+    const oldLines = numbered(20);
+    const newLines = oldLines.map(line => (line === 'line 5' || line === 'line 10' ? `${line} changed` : line));
+
+    const hunks = unifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'a', 'b').split('\n').filter(line => line.startsWith('@@'));
+    assert.deepEqual(hunks, ['@@ -2,12 +2,12 @@']);
+});
+
+test('an empty side points at the line before it', () => {
+    assert.equal(unifiedDiff('', 'new\n', 'a', 'b'), '--- a\n+++ b\n@@ -0,0 +1,1 @@\n+new\n');
+    assert.equal(unifiedDiff('old\n', '', 'a', 'b'), '--- a\n+++ b\n@@ -1,1 +0,0 @@\n-old\n');
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toGeminiChat } from '../src/services/providers/gemini.provider';
+
+test('a trailing user turn is joined into the prompt', () => {
+    const chat = toGeminiChat(
+        [
+            { role: 'user', content: 'First question' },
+            { role: 'assistant', content: 'First answer' },
+            { role: 'user', content: 'Question whose reply was aborted' }
+        ],
+        'New question'
+    );
+
+    assert.deepEqual(chat.history, [
+        { role: 'user', parts: 'First question' },
+        { role: 'model', parts: 'First answer' }
+    ]);
+    assert.equal(chat.prompt, 'Question whose reply was aborted\n\nNew question');
+});
+
+test('history alternates roles and opens with a user turn', () => {
+    const chat = toGeminiChat(
+        [
+            { role: 'assistant', content: 'Greeting' },
+            { role: 'user', content: 'One' },
+            { role: 'user', content: 'Two' },
+            { role: 'assistant', content: 'Answer' }
+        ],
+        'Next'
+    );
+
+    assert.deepEqual(chat.history, [
+        { role: 'user', parts: 'One\n\nTwo' },
+        { role: 'model', parts: 'Answer' }
+    ]);
+    assert.equal(chat.prompt, 'Next');
+});
+
+test('a history of only user turns leaves no history', () => {
+    const chat = toGeminiChat([{ role: 'user', content: 'Unanswered' }], 'Again');
+    assert.deepEqual(chat.history, []);
+    assert.equal(chat.prompt, 'Unanswered\n\nAgain');
+});
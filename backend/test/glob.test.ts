@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { globError, globToRegExp, matchesGlob } from '../src/utils/glob';
+
+test('character classes match their members and ranges', () => {
+    assert.ok(matchesGlob('src/a1.ts', 'src/[ab][0-9].ts'));
+    assert.ok(!matchesGlob('src/c1.ts', 'src/[ab][0-9].ts'));
+    assert.ok(matchesGlob('src/c.ts', 'src/[!ab].ts'));
+    assert.ok(!matchesGlob('src/a.ts', 'src/[!ab].ts'));
+});
+
+test('regex syntax inside a character class is matched literally', () => {
+    assert.ok(matchesGlob('src/^.ts', 'src/[\\^].ts'));
+    assert.ok(matchesGlob('src/-.ts', 'src/[\\-].ts'));
+    assert.ok(globToRegExp('[\\]').test('\\'));
+    assert.ok(!globToRegExp('[a\\-z]').test('b'));
+});
+
+test('a reversed range is reported instead of throwing a SyntaxError', () => {
+    assert.match(globError('src/[z-a].ts') || '', /Invalid range "z-a"/);
+    assert.throws(() => globToRegExp('[z-a]'), (error: Error) => !(error instanceof SyntaxError));
+    assert.equal(globError('src/**/*.ts'), null);
+});
+
+test('an unclosed bracket matches literally', () => {
+    assert.equal(globError('src/[a'), null);
+    assert.ok(matchesGlob('src/[a', 'src/[a'));
+    assert.ok(globToRegExp('[\\').test('[\\'));
+});
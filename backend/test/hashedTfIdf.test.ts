@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dotProduct, featureCosine, hashFeatures, HashedTfIdfModel } from '../src/utils/hashedTfIdf';
+
+const DIMENSION = 4096;
+
+const corpus = [
+    'function authenticateUser(password) { return bcrypt.compare(password, hash); }',
+    'function renderSidebar(props) { return <nav>{props.items}</nav>; }',
+    'async function connectDatabase(url) { await mongoose.connect(url); }',
+    'function parseConfig(path) { return JSON.parse(fs.readFileSync(path)); }'
+];
+
+const fitted = () => {
+    const model = new HashedTfIdfModel(DIMENSION);
+    const counts = corpus.map(text => hashFeatures(text, DIMENSION));
+    counts.forEach(count => model.fit(count));
+    return { model, vectors: counts.map(count => model.vectorize(count)) };
+};
+
+test('features are hashed into the dimension and repeat for the same text', () => {
+    const counts = hashFeatures('getUserById(id)', 64);
+    assert.ok([...counts.keys()].every(bucket => bucket >= 0 && bucket < 64));
+    assert.deepEqual(hashFeatures('getUserById(id)', 64), counts);
+    assert.equal(hashFeatures('', 64).size, 0);
+});
+
+test('vectors are unit length, so the dot product is the cosine', () => {
+    const { model, vectors } = fitted();
+    for (const vector of vectors) {
+        assert.ok(Math.abs(dotProduct(vector, model.toDense(vector)) - 1) < 1e-5);
+    }
+});
+
+test('a query finds the chunk it is about, including near-miss word forms', () => {
+    const { model, vectors } = fitted();
+    const query = model.vectorize(hashFeatures('user authentication', DIMENSION));
+    const scores = vectors.map(vector => dotProduct(query, model.toDense(vector)));
+
+    assert.equal(scores.indexOf(Math.max(...scores)), 0);
+});
+
+test('feature cosine is 1 for the same text, 0 for nothing shared or empty text', () => {
+    const a = hashFeatures('connectDatabase', DIMENSION);
+    assert.ok(Math.abs(featureCosine(a, a) - 1) < 1e-12);
+    assert.equal(featureCosine(a, new Map()), 0);
+    assert.ok(featureCosine(a, hashFeatures('connect database', DIMENSION)) > featureCosine(a, hashFeatures('render sidebar', DIMENSION)));
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HnswIndex } from '../src/utils/hnsw';
+
+// Deterministic vectors so recall doesn't depend on the run
+const random = (() => {
+    let seed = 42;
+    return () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648 - 0.5;
+    };
+})();
+
+const randomVector = (dimension: number) => Array.from({ length: dimension }, () => random());
+
+const cosine = (a: number[], b: number[]) => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return dot / Math.sqrt(normA * normB);
+};
+
+const bruteForce = (vectors: Map<string, number[]>, query: number[], k: number) =>
+    [...vectors]
+        .map(([label, vector]) => ({ label, similarity: cosine(query, vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, k)
+        .map(hit => hit.label);
+
+const buildIndex = (count: number, dimension: number) => {
+    const index = new HnswIndex(dimension);
+    const vectors = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+        const vector = randomVector(dimension);
+        vectors.set(`v${i}`, vector);
+        index.add(`v${i}`, vector);
+    }
+    return { index, vectors };
+};
+
+const recall = (index: HnswIndex, vectors: Map<string, number[]>, queries: number, k: number) => {
+    let found = 0;
+    for (let i = 0; i < queries; i++) {
+        const query = randomVector(index.dimension);
+        const expected = new Set(bruteForce(vectors, query, k));
+        found += index.search(query, k).filter(hit => expected.has(hit.label)).length;
+    }
+    return found / (queries * k);
+};
+
+test('search recall against brute force stays high', () => {
+    const { index, vectors } = buildIndex(2000, 24);
+    assert.equal(index.size, 2000);
+    assert.ok(recall(index, vectors, 50, 10) >= 0.9);
+});
+
+test('results are ordered by similarity and the nearest vector is itself', () => {
+    const { index, vectors } = buildIndex(300, 8);
+    const hits = index.search(vectors.get('v7') as number[], 5);
+
+    assert.equal(hits[0].label, 'v7');
+    assert.ok(Math.abs(hits[0].similarity - 1) < 1e-5);
+    for (let i = 1; i < hits.length; i++) {
+        assert.ok(hits[i - 1].similarity >= hits[i].similarity);
+    }
+});
+
+test('removed labels are never returned and recall holds after compaction', () => {
+    const { index, vectors } = buildIndex(600, 12);
+    for (let i = 0; i < 400; i++) {
+        assert.ok(index.remove(`v${i}`));
+        vectors.delete(`v${i}`);
+    }
+
+    assert.equal(index.size, 200);
+    assert.equal(index.remove('v0'), false);
+    for (let i = 0; i < 20; i++) {
+        assert.ok(index.search(randomVector(12), 10).every(hit => vectors.has(hit.label)));
+    }
+    assert.ok(recall(index, vectors, 30, 10) >= 0.9);
+});
+
+test('an index read back from its buffer gives the same results', () => {
+    const { index } = buildIndex(500, 16);
+    index.remove('v3');
+    const restored = HnswIndex.fromBuffer(index.toBuffer());
+    const query = randomVector(16);
+
+    assert.equal(restored.size, index.size);
+    assert.deepEqual(restored.labelsWithPrefix('v1').sort(), index.labelsWithPrefix('v1').sort());
+    assert.deepEqual(restored.search(query, 10), index.search(query, 10));
+});
+
+test('a query of the wrong dimension finds nothing', () => {
+    const { index } = buildIndex(10, 4);
+    assert.deepEqual(index.search([1, 0, 0], 3), []);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { maximalMarginalRelevance } from '../src/utils/mmr';
+
+interface Item {
+    id: string;
+    file: string;
+    score: number;
+    // Items with the same topic are near-duplicates
+    topic: string;
+}
+
+const items: Item[] = [
+    { id: 'a1', file: 'a.ts', score: 1.0, topic: 'login' },
+    { id: 'a2', file: 'a.ts', score: 0.95, topic: 'login' },
+    { id: 'a3', file: 'a.ts', score: 0.9, topic: 'login' },
+    { id: 'b1', file: 'b.ts', score: 0.8, topic: 'token' },
+    { id: 'c1', file: 'c.ts', score: 0.5, topic: 'session' }
+];
+
+const rank = (lambda: number, limit: number, maxPerGroup?: number) =>
+    maximalMarginalRelevance(items, {
+        limit,
+        lambda,
+        relevance: item => item.score,
+        similarity: (a, b) => (a.topic === b.topic ? 1 : 0),
+        group: item => item.file,
+        maxPerGroup
+    }).map(item => item.id);
+
+test('lambda 1 keeps the relevance order', () => {
+    assert.deepEqual(rank(1, 5), ['a1', 'a2', 'a3', 'b1', 'c1']);
+});
+
+test('a lower lambda moves near-duplicates behind different results', () => {
+    assert.deepEqual(rank(0.5, 3), ['a1', 'b1', 'c1']);
+});
+
+test('the per-file cap skips further chunks of a file', () => {
+    assert.deepEqual(rank(1, 5, 2), ['a1', 'a2', 'b1', 'c1']);
+    assert.deepEqual(rank(1, 2, 1), ['a1', 'b1']);
+});
+
+test('no items or a zero limit select nothing', () => {
+    assert.deepEqual(rank(0.7, 0), []);
+    assert.deepEqual(
+        maximalMarginalRelevance<Item>([], { limit: 3, lambda: 0.7, relevance: item => item.score, similarity: () => 0 }),
+        []
+    );
+});
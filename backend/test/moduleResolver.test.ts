@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModuleResolver } from '../src/services/analyzers/moduleResolver';
+import { DependencyGraphService, InternalEdge } from '../src/services/dependencyGraph.service';
+
+const internal = (...paths: string[]) => ({ type: 'internal', paths });
+const external = (module: string) => ({ type: 'external', module });
+const UNRESOLVED = { type: 'unresolved' };
+
+test('relative script imports find extensions, index files and compiled names', () => {
+    const resolver = new ModuleResolver(['src/app.ts', 'src/utils/index.ts', 'src/db.js', 'src/view.tsx']);
+
+    assert.deepEqual(resolver.resolve('./utils', 'src/app.ts', 'typescript'), internal('src/utils/index.ts'));
+    assert.deepEqual(resolver.resolve('./db', 'src/app.ts', 'typescript'), internal('src/db.js'));
+    assert.deepEqual(resolver.resolve('./view.js', 'src/app.ts', 'typescript'), internal('src/view.tsx'));
+    assert.deepEqual(resolver.resolve('../app', 'src/utils/index.ts', 'typescript'), internal('src/app.ts'));
+    assert.deepEqual(resolver.resolve('./missing', 'src/app.ts', 'typescript'), UNRESOLVED);
+});
+
+test('packages resolve to their name, scoped ones with their scope', () => {
+    const resolver = new ModuleResolver(['src/app.ts']);
+
+    assert.deepEqual(resolver.resolve('react-dom/client', 'src/app.ts', 'typescript'), external('react-dom'));
+    assert.deepEqual(resolver.resolve('@scope/pkg/sub/path', 'src/app.ts', 'javascript'), external('@scope/pkg'));
+});
+
+test('tsconfig paths and baseUrl apply, following extends', () => {
+    const resolver = new ModuleResolver(
+        ['web/src/app.ts', 'web/src/lib/api.ts', 'web/src/models/user.ts'],
+        [
+            { path: 'tsconfig.base.json', content: '{ "compilerOptions": { "paths": { "@lib/*": ["web/src/lib/*"] } } }' },
+            // Comments and trailing commas are allowed in tsconfig files
+            { path: 'web/tsconfig.json', content: '{ "extends": "../tsconfig.base.json", /* base */ "compilerOptions": { "baseUrl": "src", }, }' }
+        ]
+    );
+
+    assert.deepEqual(resolver.resolve('@lib/api', 'web/src/app.ts', 'typescript'), internal('web/src/lib/api.ts'));
+    assert.deepEqual(resolver.resolve('models/user', 'web/src/app.ts', 'typescript'), internal('web/src/models/user.ts'));
+    assert.deepEqual(resolver.resolve('lodash', 'web/src/app.ts', 'typescript'), external('lodash'));
+});
+
+test('python imports resolve relative and under any source root', () => {
+    const resolver = new ModuleResolver(['src/app/main.py', 'src/app/models/__init__.py', 'src/app/models/user.py', 'src/app/util.py']);
+
+    assert.deepEqual(resolver.resolve('.util', 'src/app/main.py', 'python'), internal('src/app/util.py'));
+    assert.deepEqual(resolver.resolve('..util', 'src/app/models/user.py', 'python'), internal('src/app/util.py'));
+    assert.deepEqual(resolver.resolve('app.models', 'src/app/main.py', 'python'), internal('src/app/models/__init__.py'));
+    assert.deepEqual(resolver.resolve('app.models.user', 'src/app/main.py', 'python'), internal('src/app/models/user.py'));
+    assert.deepEqual(resolver.resolve('requests.adapters', 'src/app/main.py', 'python'), external('requests'));
+    assert.deepEqual(resolver.resolve('.missing', 'src/app/main.py', 'python'), UNRESOLVED);
+});
+
+test('java, go, rust and C imports resolve to project files', () => {
+    const resolver = new ModuleResolver(
+        [
+            'src/main/java/com/acme/App.java',
+            'src/main/java/com/acme/model/User.java',
+            'src/main/java/com/acme/model/Order.java',
+            'svc/internal/store/store.go',
+            'svc/internal/store/store_test.go',
+            'crate/src/lib.rs',
+            'crate/src/parser/mod.rs',
+            'crate/src/parser/lexer.rs',
+            'native/include/util.h',
+            'native/src/main.c'
+        ],
+        [{ path: 'svc/go.mod', content: 'module example.com/svc\n\ngo 1.22\n' }]
+    );
+
+    assert.deepEqual(resolver.resolve('com.acme.model.User', 'src/main/java/com/acme/App.java', 'java'), internal('src/main/java/com/acme/model/User.java'));
+    assert.deepEqual(
+        resolver.resolve('com.acme.model.*', 'src/main/java/com/acme/App.java', 'java'),
+        internal('src/main/java/com/acme/model/User.java', 'src/main/java/com/acme/model/Order.java')
+    );
+    assert.deepEqual(resolver.resolve('java.util.List', 'src/main/java/com/acme/App.java', 'java'), external('java.util'));
+    assert.deepEqual(resolver.resolve('example.com/svc/internal/store', 'svc/main.go', 'go'), internal('svc/internal/store/store.go'));
+    assert.deepEqual(resolver.resolve('github.com/lib/pq', 'svc/main.go', 'go'), external('github.com/lib/pq'));
+    assert.deepEqual(resolver.resolve('parser', 'crate/src/lib.rs', 'rust'), internal('crate/src/parser/mod.rs'));
+    assert.deepEqual(resolver.resolve('crate::parser::lexer::Token', 'crate/src/lib.rs', 'rust'), internal('crate/src/parser/lexer.rs'));
+    assert.deepEqual(resolver.resolve('super::Parser', 'crate/src/parser/lexer.rs', 'rust'), internal('crate/src/parser/mod.rs'));
+    assert.deepEqual(resolver.resolve('serde::Deserialize', 'crate/src/lib.rs', 'rust'), external('serde'));
+    assert.deepEqual(resolver.resolve('util.h', 'native/src/main.c', 'c'), internal('native/include/util.h'));
+    assert.deepEqual(resolver.resolve('stdio.h', 'native/src/main.c', 'c'), external('stdio.h'));
+});
+
+const edges = (pairs: Array<[string, string]>): InternalEdge[] => pairs.map(([source, target]) => ({ source, target, specifier: target }));
+const sortedCycles = (cycles: string[][]) => cycles.map(cycle => [...cycle].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+
+test('cycles are the groups of modules that import each other', () => {
+    const cycles = DependencyGraphService.findCycles(
+        ['a', 'b', 'c', 'd', 'e', 'f', 'g'],
+        edges([['a', 'b'], ['b', 'c'], ['c', 'a'], ['c', 'd'], ['d', 'e'], ['e', 'd'], ['f', 'f'], ['g', 'a']])
+    );
+
+    assert.deepEqual(sortedCycles(cycles), [['a', 'b', 'c'], ['d', 'e'], ['f']]);
+});
+
+test('an acyclic graph has no cycles, however deep', () => {
+    const ids = Array.from({ length: 20000 }, (_, i) => `m${i}`);
+    const chain = edges(ids.slice(1).map((id, i) => [ids[i], id] as [string, string]));
+
+    assert.deepEqual(DependencyGraphService.findCycles(ids, chain), []);
+    assert.equal(DependencyGraphService.findCycles(ids, [...chain, { source: ids[ids.length - 1], target: ids[0], specifier: '' }])[0].length, ids.length);
+});
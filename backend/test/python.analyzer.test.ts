@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pythonAnalyzer } from '../src/services/analyzers/python.analyzer';
+
+const source = [
+    'import os',
+    '',
+    '',
+    'def helper(path):',
+    '    """Resolve a path.',
+    '',
+    'Example:',
+    'def fake():',
+    '    pass',
+    "'''",
+    '    """',
+    '    return os.path.abspath(path)',
+    '',
+    '',
+    "def other():",
+    "    '''",
+    'class Fake:',
+    "    '''",
+    '    return helper(".")',
+    ''
+].join('\n');
+
+test('declarations inside triple-quoted strings are not chunked', () => {
+    const chunks = pythonAnalyzer.chunk(source);
+    const functions = chunks.filter(chunk => chunk.type === 'function' || chunk.type === 'class');
+
+    assert.deepEqual(
+        functions.map(chunk => [chunk.symbolName, chunk.startLine, chunk.endLine]),
+        [['helper', 4, 12], ['other', 15, 19]]
+    );
+});
+
+test('declarations inside triple-quoted strings are not exported', () => {
+    assert.deepEqual(pythonAnalyzer.extractExports(source), ['helper', 'other']);
+});
+
+test('a docstring closing on its opening line does not hide what follows', () => {
+    const chunks = pythonAnalyzer.chunk('def a():\n    """Doc."""\n    return 1\n\n\ndef b():\n    return 2\n');
+    assert.deepEqual(chunks.map(chunk => chunk.symbolName), ['a', 'b']);
+});
+
+test('declarations inside triple-quoted strings are not indexed as symbols', () => {
+    const names = pythonAnalyzer.extractSymbols(source).definitions.map(symbol => symbol.name);
+    assert.ok(names.includes('helper'));
+    assert.ok(!names.includes('fake') && !names.includes('Fake'));
+});
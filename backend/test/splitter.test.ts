@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChunkSplitter } from '../src/services/analyzers/splitter';
+import { ICodeChunk } from '../src/models/Chunk';
+import { estimateTokens } from '../src/utils/tokens';
+
+const MAX_TOKENS = 60;
+const OVERLAP_TOKENS = 15;
+const splitter = new ChunkSplitter(MAX_TOKENS, OVERLAP_TOKENS);
+
+const lines = (count: number, from = 1) =>
+    Array.from({ length: count }, (_, i) => `const value${from + i} = compute(${from + i});`);
+
+test('windows stay within the limit, cover every line and overlap', () => {
+    const content = lines(40).join('\n');
+    const chunks = splitter.split(content);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => estimateTokens(chunk.content) <= MAX_TOKENS));
+    assert.deepEqual(chunks.map(chunk => chunk.id), chunks.map((_, i) => `chunk_${i + 1}`));
+    assert.equal(chunks[0].startLine, 1);
+    assert.equal(chunks[chunks.length - 1].endLine, 40);
+
+    for (let i = 1; i < chunks.length; i++) {
+        // Each window starts inside the previous one, and still moves forward
+        assert.ok(chunks[i].startLine <= chunks[i - 1].endLine);
+        assert.ok(chunks[i].startLine > chunks[i - 1].startLine);
+    }
+
+    const source = content.split('\n');
+    for (const chunk of chunks) {
+        assert.equal(chunk.content, source.slice(chunk.startLine - 1, chunk.endLine).join('\n'));
+    }
+});
+
+test('a blank line in the second half of a window is preferred as the cut', () => {
+    // Lines that fit in a window without a blank line
+    const perWindow = splitter.split(lines(40).join('\n'))[0].endLine;
+    const content = [...lines(perWindow - 2), '', ...lines(30, perWindow)].join('\n');
+    const first = splitter.split(content)[0];
+    assert.equal(first.endLine, perWindow - 1);
+});
+
+test('a single line over the limit is cut on token boundaries', () => {
+    const minified = JSON.stringify(Object.fromEntries(Array.from({ length: 80 }, (_, i) => [`key${i}`, i])));
+    const chunks = splitter.split(minified, 'other');
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => chunk.startLine === 1 && chunk.endLine === 1));
+    assert.equal(chunks.map(chunk => chunk.content).join(''), minified);
+});
+
+test('bound splits only oversized chunks and renumbers parents', () => {
+    const chunks: ICodeChunk[] = [
+        { id: 'chunk_1', content: lines(40, 1).join('\n'), startLine: 1, endLine: 40, type: 'class', symbolName: 'Big', docComment: 'Docs' },
+        { id: 'chunk_2', content: 'method() {}', startLine: 41, endLine: 41, type: 'function', symbolName: 'Big.method', parentId: 'chunk_1' }
+    ];
+    const bounded = splitter.bound(chunks);
+    const parts = bounded.filter(chunk => chunk.symbolName === 'Big');
+    const method = bounded[bounded.length - 1];
+
+    assert.ok(parts.length > 1);
+    assert.equal(parts[0].docComment, 'Docs');
+    assert.ok(parts.slice(1).every(part => part.docComment === undefined));
+    assert.equal(method.parentId, 'chunk_1');
+    assert.equal(method.id, `chunk_${bounded.length}`);
+    assert.deepEqual(splitter.bound([chunks[1]]), [chunks[1]]);
+});
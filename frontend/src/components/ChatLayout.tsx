@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Send, StopCircle, Menu, Plus } from 'lucide-react';
+import { Send, StopCircle, Menu, Plus, Pin, X } from 'lucide-react';
 import { Sidebar } from './Sidebar';
 import ThemeToggle from './ThemeToggle';
 import { AuthenticationPrompt } from './AuthenticationPrompt';
@@ -12,6 +12,11 @@ import { useAuth } from '../contexts/AuthContext';
 import { FileUploadService } from '../services/fileUpload';
 import { triggerFileUpdate } from '../hooks/useFileManager';
 
+// Unpacked on the server, keeping each file's path within the repository
+const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz'];
+
+const isArchive = (file: File) => ARCHIVE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
 interface ChatLayoutProps {
     children?: React.ReactNode;
 }
@@ -38,13 +43,17 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
         activeSessionId,
         createNewSession,
         selectSession,
-        addMessage,
+        appendLocalMessage,
+        refreshSession,
         deleteSession,
         getActiveSession,
-        syncWithBackend
+        syncWithBackend,
+        pinnedFiles: pinnedFilesBySession,
+        unpinFile
     } = useChatStore();
 
     const activeSession = getActiveSession();
+    const pinnedFiles = (activeSessionId && pinnedFilesBySession[activeSessionId]) || [];
 
     const {
         isStreaming,
@@ -54,18 +63,25 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
         clearStreamingMessage
     } = useChatStreaming({
         sessionId: activeSessionId || '',
+        pinnedFileIds: pinnedFiles.map(file => file.id),
         onMessageComplete: async (message) => {
             if (activeSessionId) {
                 try {
-                    await addMessage(activeSessionId, {
-                        content: message.content,
-                        role: 'assistant'
-                    });
+                    if (message.isError) {
+                        // Errors are never stored server-side, only shown
+                        appendLocalMessage(activeSessionId, {
+                            content: message.content,
+                            role: 'assistant'
+                        });
+                    } else {
+                        // The backend stored both turns while streaming
+                        await refreshSession(activeSessionId);
+                    }
                     setTimeout(() => {
                         clearStreamingMessage();
                     }, 100);
                 } catch (error) {
-                    console.error('Failed to save assistant message:', error);
+                    console.error('Failed to load assistant message:', error);
                 }
             }
         },
@@ -267,7 +283,8 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
         }, 50);
 
         try {
-            await addMessage(activeSessionId, {
+            // Shown right away; the backend persists it as part of the stream
+            appendLocalMessage(activeSessionId, {
                 content: userMessage,
                 role: 'user'
             });
@@ -311,24 +328,26 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
             '.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.c',
             '.cs', '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala',
             '.html', '.css', '.scss', '.sass', '.json', '.xml', '.yaml', '.yml',
-            '.md', '.txt', '.sql'
+            '.md', '.txt', '.sql', ...ARCHIVE_EXTENSIONS
         ];
 
         const validFiles = files.filter(file => {
             const isValidType = supportedExtensions.some(ext =>
                 file.name.toLowerCase().endsWith(ext)
             );
-            const isValidSize = file.size > 0 && file.size <= 5 * 1024 * 1024;
+            const maxSize = isArchive(file) ? 10 * 1024 * 1024 : 5 * 1024 * 1024;
+            const isValidSize = file.size > 0 && file.size <= maxSize;
             return isValidType && isValidSize;
         });
 
         if (validFiles.length === 0) {
-            alert('No valid files to upload. Supported formats: ' + supportedExtensions.join(', ') + '\nMax size: 5MB per file');
+            alert('No valid files to upload. Supported formats: ' + supportedExtensions.join(', ') + '\nMax size: 5MB per file, 10MB per archive');
             return;
         }
 
         try {
-            if (validFiles.length === 1) {
+            // Archives only unpack through the multi-file upload
+            if (validFiles.length === 1 && !isArchive(validFiles[0])) {
                 const result = await FileUploadService.uploadSingleFile(validFiles[0], apiKey || localStorage.getItem('user_gemini_api_key') || undefined);
                 if (result.success) {
                     if (activeSessionId) {
@@ -373,24 +392,26 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
             '.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.cpp', '.c',
             '.cs', '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala',
             '.html', '.css', '.scss', '.sass', '.json', '.xml', '.yaml', '.yml',
-            '.md', '.txt', '.sql'
+            '.md', '.txt', '.sql', ...ARCHIVE_EXTENSIONS
         ];
 
         const validFiles = files.filter(file => {
             const isValidType = supportedExtensions.some(ext =>
                 file.name.toLowerCase().endsWith(ext)
             );
-            const isValidSize = file.size > 0 && file.size <= 5 * 1024 * 1024;
+            const maxSize = isArchive(file) ? 10 * 1024 * 1024 : 5 * 1024 * 1024;
+            const isValidSize = file.size > 0 && file.size <= maxSize;
             return isValidType && isValidSize;
         });
 
         if (validFiles.length === 0) {
-            alert('No valid files to upload. Supported formats: ' + supportedExtensions.join(', ') + '\nMax size: 5MB per file');
+            alert('No valid files to upload. Supported formats: ' + supportedExtensions.join(', ') + '\nMax size: 5MB per file, 10MB per archive');
             return;
         }
 
         try {
-            if (validFiles.length === 1) {
+            // Archives only unpack through the multi-file upload
+            if (validFiles.length === 1 && !isArchive(validFiles[0])) {
                 const result = await FileUploadService.uploadSingleFile(validFiles[0], apiKey || localStorage.getItem('user_gemini_api_key') || undefined);
                 if (result.success) {
                     if (activeSessionId) {
@@ -524,6 +545,11 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
                                                                 content={message.content}
                                                                 className="text-gray-900 dark:text-white"
                                                             />
+                                                            {message.partial && (
+                                                                <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+                                                                    This response was interrupted and may be incomplete.
+                                                                </p>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 )
@@ -573,6 +599,28 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
 
                             <div className="border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
                                 <div className="max-w-3xl mx-auto p-4">
+                                    {pinnedFiles.length > 0 && activeSessionId && (
+                                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                                            {pinnedFiles.map((file) => (
+                                                <span
+                                                    key={file.id}
+                                                    className="inline-flex items-center gap-1 max-w-xs pl-2 pr-1 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/40 text-xs text-blue-800 dark:text-blue-200"
+                                                    title={`${file.path} is included in full with every message`}
+                                                >
+                                                    <Pin className="w-3 h-3 flex-shrink-0" />
+                                                    <span className="truncate">{file.path}</span>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => unpinFile(activeSessionId, file.id)}
+                                                        className="p-0.5 rounded-full hover:bg-blue-200 dark:hover:bg-blue-800"
+                                                        aria-label={`Unpin ${file.path}`}
+                                                    >
+                                                        <X className="w-3 h-3" />
+                                                    </button>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
                                     <form onSubmit={handleSubmit} className="relative">
                                         <div className="flex items-center gap-2">
                                             <button
@@ -634,7 +682,7 @@ export const ChatLayout: React.FC<ChatLayoutProps> = () => {
                                         ref={fileInputRef}
                                         type="file"
                                         multiple
-                                        accept=".ts,.tsx,.js,.jsx,.py,.java,.cpp,.c,.cs,.php,.rb,.go,.rs,.swift,.kt,.scala,.html,.css,.scss,.sass,.json,.xml,.yaml,.yml,.md,.txt,.sql"
+                                        accept=".ts,.tsx,.js,.jsx,.py,.java,.cpp,.c,.cs,.php,.rb,.go,.rs,.swift,.kt,.scala,.html,.css,.scss,.sass,.json,.xml,.yaml,.yml,.md,.txt,.sql,.zip,.tar.gz,.tgz"
                                         onChange={handleFileInputChange}
                                         className="hidden"
                                         aria-label="Upload files"
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { Crosshair, ListTree, X } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
+import { useChatStore } from '../store/chatStore';
+import { symbolService, identifierAtPoint } from '../services/symbols';
+import FileViewer from './FileViewer';
 
 interface CodeBlockProps {
     language: string;
@@ -8,6 +12,15 @@ interface CodeBlockProps {
     className?: string;
 }
 
+// A definition or reference site found for an identifier in the block
+interface SymbolLocation {
+    key: string;
+    fileId: string;
+    filePath: string;
+    line: number;
+    detail?: string;
+}
+
 // Custom styles with good contrast and readability
 const customDarkStyle = {
     'code[class*="language-"]': {
@@ -92,6 +105,76 @@ const customLightStyle = {
 export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, className = '' }) => {
     const [copied, setCopied] = useState(false);
     const { actualTheme } = useTheme(); // Use actualTheme instead of theme
+    const activeSessionId = useChatStore(state => state.activeSessionId);
+    const [popover, setPopover] = useState<{ name: string; x: number; y: number } | null>(null);
+    const [lookup, setLookup] = useState<{ title: string; locations: SymbolLocation[]; error?: string } | null>(null);
+    const [opened, setOpened] = useState<{ fileId: string; line: number } | null>(null);
+
+    // Identifiers are looked up among the active session's files
+    const handleCodeClick = (event: React.MouseEvent<HTMLDivElement>) => {
+        if (!activeSessionId || window.getSelection()?.toString()) return;
+
+        const name = identifierAtPoint(event.clientX, event.clientY);
+        if (!name) {
+            setPopover(null);
+        } else if (event.ctrlKey || event.metaKey) {
+            goToDefinition(name);
+        } else {
+            setPopover({ name, x: event.clientX, y: event.clientY });
+        }
+    };
+
+    // A single definition is opened directly; several are listed below the block
+    const goToDefinition = async (name: string) => {
+        setPopover(null);
+        try {
+            const result = await symbolService.findDefinitions(name, { sessionId: activeSessionId || undefined });
+            const definitions = result.data?.definitions || [];
+
+            if (definitions.length === 1) {
+                setLookup(null);
+                setOpened({ fileId: definitions[0].fileId, line: definitions[0].startLine });
+                return;
+            }
+            setLookup({
+                title: `Definitions of ${name}`,
+                locations: definitions.map(definition => ({
+                    key: definition.id,
+                    fileId: definition.fileId,
+                    filePath: definition.filePath,
+                    line: definition.startLine,
+                    detail: definition.signature || definition.qualifiedName
+                })),
+                ...(definitions.length === 0 && { error: 'No definition found in this session' })
+            });
+        } catch (err) {
+            console.error('Failed to find definition:', err);
+            setLookup({ title: `Definitions of ${name}`, locations: [], error: 'Lookup failed' });
+        }
+    };
+
+    const findReferences = async (name: string) => {
+        setPopover(null);
+        try {
+            const result = await symbolService.findReferences(name, { sessionId: activeSessionId || undefined });
+            const references = result.data?.references || [];
+
+            setLookup({
+                title: `References to ${name}${result.data?.truncated ? ` (first ${references.length})` : ''}`,
+                locations: references.map(reference => ({
+                    key: `${reference.fileId}:${reference.line}:${reference.column}`,
+                    fileId: reference.fileId,
+                    filePath: reference.filePath,
+                    line: reference.line,
+                    detail: reference.container
+                })),
+                ...(references.length === 0 && { error: 'No references found in this session' })
+            });
+        } catch (err) {
+            console.error('Failed to find references:', err);
+            setLookup({ title: `References to ${name}`, locations: [], error: 'Lookup failed' });
+        }
+    };
 
     const handleCopy = async () => {
         try {
@@ -133,7 +216,7 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, className
                     {copied ? 'Copied!' : 'Copy'}
                 </button>
             </div>
-            <div className="bg-gray-50 dark:bg-gray-900">
+            <div className="bg-gray-50 dark:bg-gray-900" onClick={handleCodeClick}>
                 <SyntaxHighlighter
                     language={getLanguageName(language)}
                     style={actualTheme === 'dark' ? customDarkStyle : customLightStyle}
@@ -149,6 +232,63 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, className
                     {code}
                 </SyntaxHighlighter>
             </div>
+
+            {lookup && (
+                <div className="border-t border-gray-200 dark:border-gray-700 text-sm">
+                    <div className="flex items-center justify-between px-4 py-2 bg-gray-100 dark:bg-gray-800">
+                        <span className="font-medium text-gray-600 dark:text-gray-400">{lookup.title}</span>
+                        <button
+                            onClick={() => setLookup(null)}
+                            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                    {lookup.error && <p className="px-4 py-2 text-gray-500">{lookup.error}</p>}
+                    <div className="max-h-48 overflow-auto">
+                        {lookup.locations.map(location => (
+                            <button
+                                key={location.key}
+                                onClick={() => setOpened({ fileId: location.fileId, line: location.line })}
+                                className="w-full text-left px-4 py-1 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            >
+                                <span className="text-xs">{location.filePath}:{location.line}</span>
+                                {location.detail && (
+                                    <span className="ml-2 font-mono text-xs text-gray-500 truncate">{location.detail}</span>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {popover && (
+                <div
+                    className="fixed z-50 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded shadow-lg py-1 text-sm"
+                    style={{ left: popover.x, top: popover.y + 12 }}
+                    onMouseLeave={() => setPopover(null)}
+                >
+                    <div className="px-3 py-1 font-mono text-xs text-gray-500">{popover.name}</div>
+                    <button
+                        onClick={() => goToDefinition(popover.name)}
+                        className="w-full flex items-center gap-2 px-3 py-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                        <Crosshair className="w-3 h-3" />
+                        Go to definition
+                    </button>
+                    <button
+                        onClick={() => findReferences(popover.name)}
+                        className="w-full flex items-center gap-2 px-3 py-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                        <ListTree className="w-3 h-3" />
+                        Find references
+                    </button>
+                </div>
+            )}
+
+            {opened && (
+                <FileViewer fileId={opened.fileId} initialLine={opened.line} onClose={() => setOpened(null)} />
+            )}
         </div>
     );
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { BrainCircuit, Loader2, Sparkles } from 'lucide-react';
+import type { EmbeddingJob } from '../services/embedding';
 
 interface ContextToggleProps {
     useContext: boolean;
@@ -6,15 +7,27 @@ interface ContextToggleProps {
     onGenerateEmbeddings: () => void;
     isGeneratingEmbeddings: boolean;
     hasFiles: boolean;
+    // Background job started by onGenerateEmbeddings, see useEmbeddingJob
+    embeddingJob?: EmbeddingJob | null;
 }
 
+const getJobPercent = (job: EmbeddingJob): number => {
+    const { totalChunks, embeddedChunks, totalFiles, processedFiles } = job.progress;
+    if (totalChunks > 0) return Math.min(100, Math.round((embeddedChunks / totalChunks) * 100));
+    if (totalFiles > 0) return Math.round((processedFiles / totalFiles) * 100);
+    return job.status === 'completed' ? 100 : 0;
+};
+
 export default function ContextToggle({
     useContext,
     onToggle,
     onGenerateEmbeddings,
     isGeneratingEmbeddings,
-    hasFiles
+    hasFiles,
+    embeddingJob
 }: ContextToggleProps) {
+    const percent = embeddingJob ? getJobPercent(embeddingJob) : 0;
+
     return (
         <div className="border rounded-lg p-4 bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-950 dark:to-blue-950">
             <div className="flex items-center justify-between mb-3">
@@ -53,7 +66,7 @@ export default function ContextToggle({
                         {isGeneratingEmbeddings ? (
                             <>
                                 <Loader2 className="w-4 h-4 animate-spin" />
-                                Analyzing Code...
+                                {embeddingJob?.status === 'running' ? `Analyzing Code... ${percent}%` : 'Analyzing Code...'}
                             </>
                         ) : (
                             <>
@@ -64,10 +77,44 @@ export default function ContextToggle({
                     </button>
 
                     <span className="text-xs text-muted-foreground">
-                        Generate embeddings for better code understanding
+                        {embeddingJob?.status === 'queued' && embeddingJob.attempts > 0
+                            ? `Retrying (attempt ${embeddingJob.attempts + 1} of ${embeddingJob.maxAttempts})...`
+                            : embeddingJob?.status === 'queued'
+                                ? 'Waiting in queue...'
+                                : embeddingJob?.status === 'running'
+                                    ? `${embeddingJob.progress.embeddedChunks} of ${embeddingJob.progress.totalChunks} chunks embedded`
+                                    : 'Generate embeddings for better code understanding'
+                        }
                     </span>
                 </div>
             )}
+
+            {hasFiles && embeddingJob && (embeddingJob.status === 'queued' || embeddingJob.status === 'running') && (
+                <div
+                    className="mt-3 h-1.5 w-full rounded-full bg-purple-100 dark:bg-purple-900 overflow-hidden"
+                    role="progressbar"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={percent}
+                >
+                    <div
+                        className="h-full bg-purple-600 transition-all duration-500"
+                        style={{ width: `${percent}%` }}
+                    />
+                </div>
+            )}
+
+            {embeddingJob?.status === 'completed' && (
+                <p className="mt-3 text-xs text-green-700 dark:text-green-400">
+                    Embeddings ready for {embeddingJob.progress.processedFiles} files
+                </p>
+            )}
+
+            {embeddingJob?.status === 'failed' && (
+                <p className="mt-3 text-xs text-red-600 dark:text-red-400">
+                    Embedding failed{embeddingJob.error ? `: ${embeddingJob.error}` : ''}
+                </p>
+            )}
         </div>
     );
 }
\ No newline at end of file
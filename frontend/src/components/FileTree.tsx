@@ -5,6 +5,7 @@ import { formatFileSize } from '../utils/helpers';
 interface UploadedFile {
     id: string;
     name: string;
+    path?: string;
     language: string;
     size: number;
     chunks: number;
@@ -36,7 +37,7 @@ export default function FileTree({ files, onFileSelect, onFileDelete, selectedFi
         const folderMap = new Map<string, TreeNode>();
 
         files.forEach(file => {
-            const parts = file.name.split('/').filter(part => part.length > 0);
+            const parts = (file.path || file.name).split('/').filter(part => part.length > 0);
             let currentLevel = root;
             let currentPath = '';
 
@@ -65,7 +66,7 @@ export default function FileTree({ files, onFileSelect, onFileDelete, selectedFi
             const fileName = parts[parts.length - 1];
             currentLevel.push({
                 name: fileName,
-                path: file.name,
+                path: file.path || file.name,
                 type: 'file',
                 file,
                 children: []
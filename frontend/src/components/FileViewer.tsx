@@ -1,11 +1,15 @@
-import { useState, useEffect } from 'react';
-import { X, Download, Code2, FileText } from 'lucide-react';
+import { useState, useEffect, useCallback, type MouseEvent } from 'react';
+import { X, Download, Code2, FileText, MessageSquarePlus, Crosshair, ListTree, PhoneIncoming } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { apiClient } from '../services/api';
+import { symbolService, identifierAtPoint, type SymbolCaller, type SymbolDefinition, type SymbolReference } from '../services/symbols';
+import type { ApiResponse } from '@/types';
 
 interface FileContent {
   id: string;
   name: string;
+  path?: string;
   language: string;
   content: string;
   chunks: Array<{
@@ -14,6 +18,9 @@ interface FileContent {
     startLine: number;
     endLine: number;
     type: string;
+    symbolName?: string;
+    docComment?: string;
+    parentId?: string;
   }>;
   dependencies: string[];
   exports: string[];
@@ -22,32 +29,61 @@ interface FileContent {
 interface FileViewerProps {
   fileId: string;
   onClose: () => void;
+  // Shown as an "Ask about this file" button when given; receives the file on screen
+  onAsk?: (file: { id: string; path: string }) => void;
+  // Scrolled to and highlighted once the file is loaded
+  initialLine?: number;
 }
 
-export default function FileViewer({ fileId, onClose }: FileViewerProps) {
+// Results of the last symbol lookup, listed next to the content
+type SymbolPanel =
+  | { kind: 'definitions'; name: string; definitions: SymbolDefinition[] }
+  | { kind: 'references'; name: string; references: SymbolReference[]; truncated: boolean }
+  | { kind: 'callers'; name: string; callers: SymbolCaller[] };
+
+const PANEL_TITLES: Record<SymbolPanel['kind'], string> = {
+  definitions: 'Definitions of',
+  references: 'References to',
+  callers: 'Callers of'
+};
+
+/**
+ * Shows a file's content, chunks and analysis. In the content view, clicking
+ * an identifier offers to go to its definition or list its references or
+ * callers, and Ctrl/Cmd+click goes straight to the definition; definitions
+ * in other files open in place.
+ */
+export default function FileViewer({ fileId, onClose, onAsk, initialLine }: FileViewerProps) {
+  const [currentFileId, setCurrentFileId] = useState(fileId);
   const [file, setFile] = useState<FileContent | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [view, setView] = useState<'content' | 'chunks' | 'analysis'>('content');
+  const [highlightedLine, setHighlightedLine] = useState<number | null>(initialLine ?? null);
+  const [popover, setPopover] = useState<{ name: string; x: number; y: number } | null>(null);
+  const [panel, setPanel] = useState<SymbolPanel | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchFileContent();
-  }, [fileId]);
+    setCurrentFileId(fileId);
+    setHighlightedLine(initialLine ?? null);
+  }, [fileId, initialLine]);
 
-  const fetchFileContent = async () => {
+  useEffect(() => {
+    if (file && view === 'content' && highlightedLine) {
+      document.getElementById(`file-line-${highlightedLine}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [file, view, highlightedLine]);
+
+  const fetchFileContent = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`http://localhost:3001/api/files/${fileId}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch file content');
-      }
+      // The file is returned next to `success` rather than under `data`
+      const result = await apiClient.get(`/files/${currentFileId}`) as ApiResponse & { file?: FileContent };
 
-      const result = await response.json();
-      
-      if (result.success) {
+      if (result.success && result.file) {
         setFile(result.file);
       } else {
         throw new Error(result.error || 'Failed to load file');
@@ -58,6 +94,84 @@ export default function FileViewer({ fileId, onClose }: FileViewerProps) {
     } finally {
       setLoading(false);
     }
+  }, [currentFileId]);
+
+  useEffect(() => {
+    fetchFileContent();
+  }, [fetchFileContent]);
+
+  const goTo = (targetFileId: string, line: number) => {
+    setPopover(null);
+    setView('content');
+    setHighlightedLine(line);
+    if (targetFileId !== currentFileId) {
+      setCurrentFileId(targetFileId);
+    }
+  };
+
+  // A single definition is opened directly; several are listed
+  const goToDefinition = async (name: string) => {
+    setPopover(null);
+    setLookupError(null);
+    try {
+      const result = await symbolService.findDefinitions(name, { fileId: currentFileId });
+      const definitions = result.data?.definitions || [];
+
+      if (definitions.length === 1) {
+        goTo(definitions[0].fileId, definitions[0].startLine);
+      } else {
+        setPanel({ kind: 'definitions', name, definitions });
+      }
+    } catch (error) {
+      console.error('Error finding definition:', error);
+      setLookupError(`Could not look up ${name}`);
+    }
+  };
+
+  const findReferences = async (name: string) => {
+    setPopover(null);
+    setLookupError(null);
+    try {
+      const result = await symbolService.findReferences(name, { fileId: currentFileId });
+      setPanel({
+        kind: 'references',
+        name,
+        references: result.data?.references || [],
+        truncated: Boolean(result.data?.truncated)
+      });
+    } catch (error) {
+      console.error('Error finding references:', error);
+      setLookupError(`Could not look up ${name}`);
+    }
+  };
+
+  const findCallers = async (name: string) => {
+    setPopover(null);
+    setLookupError(null);
+    try {
+      const result = await symbolService.findCallers(name, { fileId: currentFileId });
+      setPanel({ kind: 'callers', name, callers: result.data?.callers || [] });
+    } catch (error) {
+      console.error('Error finding callers:', error);
+      setLookupError(`Could not look up ${name}`);
+    }
+  };
+
+  const handleContentClick = (event: MouseEvent<HTMLDivElement>) => {
+    // Leave text selections alone
+    if (window.getSelection()?.toString()) return;
+
+    const name = identifierAtPoint(event.clientX, event.clientY);
+    if (!name) {
+      setPopover(null);
+      return;
+    }
+
+    if (event.ctrlKey || event.metaKey) {
+      goToDefinition(name);
+    } else {
+      setPopover({ name, x: event.clientX, y: event.clientY });
+    }
   };
 
   const downloadFile = () => {
@@ -111,14 +225,28 @@ export default function FileViewer({ fileId, onClose }: FileViewerProps) {
           <div className="flex items-center gap-3">
             <FileText className="w-5 h-5" />
             <div>
-              <h2 className="font-semibold">{file.name}</h2>
+              <h2 className="font-semibold">{file.path || file.name}</h2>
               <p className="text-sm text-muted-foreground capitalize">
                 {file.language} • {file.content.split('\n').length} lines
               </p>
+              <p className="text-xs text-muted-foreground">
+                Click an identifier to find its definition or references
+              </p>
             </div>
           </div>
           
           <div className="flex items-center gap-2">
+            {onAsk && (
+              <button
+                onClick={() => onAsk({ id: file.id, path: file.path || file.name })}
+                className="flex items-center gap-1 px-2 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                title="Pin this file into the chat context"
+              >
+                <MessageSquarePlus className="w-4 h-4" />
+                Ask about this file
+              </button>
+            )}
+
             <button
               onClick={downloadFile}
               className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
@@ -173,26 +301,152 @@ export default function FileViewer({ fileId, onClose }: FileViewerProps) {
         {/* Content */}
         <div className="flex-1 overflow-hidden">
           {view === 'content' && (
-            <div className="h-full overflow-auto">
-              <SyntaxHighlighter
-                language={file.language}
-                style={vscDarkPlus}
-                showLineNumbers
-                customStyle={{
-                  margin: 0,
-                  height: '100%',
-                  fontSize: '14px'
-                }}
+            <div className="h-full flex">
+              <div
+                className="flex-1 overflow-auto cursor-text"
+                onClick={handleContentClick}
+                onScroll={() => setPopover(null)}
               >
-                {file.content}
-              </SyntaxHighlighter>
+                <SyntaxHighlighter
+                  language={file.language}
+                  style={vscDarkPlus}
+                  showLineNumbers
+                  wrapLines
+                  lineProps={(lineNumber: number) => ({
+                    id: `file-line-${lineNumber}`,
+                    style: {
+                      display: 'block',
+                      ...(lineNumber === highlightedLine && { backgroundColor: 'rgba(59, 130, 246, 0.25)' })
+                    }
+                  })}
+                  customStyle={{
+                    margin: 0,
+                    minHeight: '100%',
+                    fontSize: '14px'
+                  }}
+                >
+                  {file.content}
+                </SyntaxHighlighter>
+              </div>
+
+              {(panel || lookupError) && (
+                <div className="w-80 border-l flex flex-col">
+                  <div className="flex items-center justify-between p-3 border-b">
+                    <span className="text-sm font-medium truncate">
+                      {panel ? `${PANEL_TITLES[panel.kind]} ${panel.name}` : 'Symbol lookup'}
+                    </span>
+                    <button
+                      onClick={() => { setPanel(null); setLookupError(null); }}
+                      className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex-1 overflow-auto text-sm">
+                    {lookupError && <p className="p-3 text-red-600">{lookupError}</p>}
+
+                    {panel?.kind === 'definitions' && (
+                      panel.definitions.length > 0 ? (
+                        panel.definitions.map(definition => (
+                          <button
+                            key={definition.id}
+                            onClick={() => goTo(definition.fileId, definition.startLine)}
+                            className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 border-b"
+                          >
+                            <div className="font-mono text-xs truncate">{definition.signature || definition.qualifiedName}</div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {definition.kind} • {definition.filePath}:{definition.startLine}
+                            </div>
+                          </button>
+                        ))
+                      ) : (
+                        <p className="p-3 text-muted-foreground">No definition found</p>
+                      )
+                    )}
+
+                    {panel?.kind === 'references' && (
+                      panel.references.length > 0 ? (
+                        <>
+                          {panel.references.map(reference => (
+                            <button
+                              key={`${reference.fileId}:${reference.line}:${reference.column}`}
+                              onClick={() => goTo(reference.fileId, reference.line)}
+                              className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 border-b"
+                            >
+                              <div className="text-xs truncate">{reference.filePath}:{reference.line}</div>
+                              {reference.container && (
+                                <div className="font-mono text-xs text-muted-foreground truncate">in {reference.container}</div>
+                              )}
+                            </button>
+                          ))}
+                          {panel.truncated && (
+                            <p className="p-3 text-xs text-muted-foreground">Only the first {panel.references.length} references are shown</p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="p-3 text-muted-foreground">No references found</p>
+                      )
+                    )}
+
+                    {panel?.kind === 'callers' && (
+                      panel.callers.length > 0 ? (
+                        panel.callers.map(caller => (
+                          <button
+                            key={`${caller.fileId}:${caller.chunkId}`}
+                            onClick={() => goTo(caller.fileId, caller.lines[0] ?? caller.startLine)}
+                            className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 border-b"
+                          >
+                            <div className="font-mono text-xs truncate">{caller.symbolName || `${caller.type} at line ${caller.startLine}`}</div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {caller.filePath}:{caller.lines.join(', ')}
+                            </div>
+                          </button>
+                        ))
+                      ) : (
+                        <p className="p-3 text-muted-foreground">No callers found</p>
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {popover && (
+                <div
+                  className="fixed z-50 bg-white dark:bg-gray-800 border rounded shadow-lg py-1 text-sm"
+                  style={{ left: popover.x, top: popover.y + 12 }}
+                >
+                  <div className="px-3 py-1 font-mono text-xs text-muted-foreground">{popover.name}</div>
+                  <button
+                    onClick={() => goToDefinition(popover.name)}
+                    className="w-full flex items-center gap-2 px-3 py-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <Crosshair className="w-3 h-3" />
+                    Go to definition
+                  </button>
+                  <button
+                    onClick={() => findReferences(popover.name)}
+                    className="w-full flex items-center gap-2 px-3 py-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <ListTree className="w-3 h-3" />
+                    Find references
+                  </button>
+                  <button
+                    onClick={() => findCallers(popover.name)}
+                    className="w-full flex items-center gap-2 px-3 py-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <PhoneIncoming className="w-3 h-3" />
+                    Find callers
+                  </button>
+                </div>
+              )}
             </div>
           )}
 
           {view === 'chunks' && (
             <div className="h-full overflow-auto p-4 space-y-4">
               {file.chunks.map((chunk, index) => (
-                <div key={chunk.id} className="border rounded-lg">
+                <div key={chunk.id} className={`border rounded-lg ${chunk.parentId ? 'ml-6' : ''}`}>
                   <div className="p-3 bg-gray-50 dark:bg-gray-700 flex items-center justify-between">
                     <div className="flex items-center gap-2">
                       <Code2 className="w-4 h-4" />
@@ -202,6 +456,9 @@ export default function FileViewer({ fileId, onClose }: FileViewerProps) {
                       <span className="text-sm text-muted-foreground capitalize">
                         {chunk.type}
                       </span>
+                      {chunk.symbolName && (
+                        <span className="text-sm font-mono">{chunk.symbolName}</span>
+                      )}
                     </div>
                     <span className="text-sm text-muted-foreground">
                       Lines {chunk.startLine}-{chunk.endLine}
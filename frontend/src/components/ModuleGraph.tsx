@@ -0,0 +1,616 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Network, X, ZoomIn, ZoomOut, Maximize, RefreshCw, FolderOpen, FolderClosed, Eye, MessageSquarePlus } from 'lucide-react';
+import { FileUploadService, type ModuleGraph as ModuleGraphData } from '../services/fileUpload';
+import { useChatStore, type PinnedFile } from '../store/chatStore';
+import FileViewer from './FileViewer';
+
+interface ModuleGraphProps {
+    sessionId?: string;
+}
+
+interface GraphCluster {
+    folder: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    collapsed: boolean;
+}
+
+interface GraphNodeLayout {
+    // File id, or the cluster key for a collapsed folder
+    id: string;
+    label: string;
+    title: string;
+    x: number;
+    y: number;
+    folder: string;
+    fileId?: string;
+    inCycle: boolean;
+    orphan: boolean;
+}
+
+interface GraphEdgeLayout {
+    key: string;
+    source: GraphNodeLayout;
+    target: GraphNodeLayout;
+    inCycle: boolean;
+}
+
+interface GraphLayout {
+    clusters: GraphCluster[];
+    nodes: GraphNodeLayout[];
+    edges: GraphEdgeLayout[];
+    width: number;
+    height: number;
+}
+
+const CELL_WIDTH = 170;
+const CELL_HEIGHT = 34;
+const CLUSTER_PADDING = 12;
+const CLUSTER_HEADER = 26;
+const CLUSTER_GAP = 24;
+const NODE_RADIUS = 6;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+
+const folderOf = (path: string) => {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.substring(0, slash);
+};
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.substring(0, length - 1)}…` : text);
+
+const clusterKey = (folder: string) => `folder:${folder}`;
+
+/**
+ * Places every folder in a box, packed left to right into rows, with its
+ * modules on a grid inside. Collapsed folders become a single node that
+ * takes over the edges of their modules.
+ */
+const layoutGraph = (graph: ModuleGraphData, collapsed: Set<string>): GraphLayout => {
+    const byFolder = new Map<string, ModuleGraphData['nodes']>();
+    for (const node of graph.nodes) {
+        const folder = folderOf(node.path);
+        const members = byFolder.get(folder);
+        if (members) {
+            members.push(node);
+        } else {
+            byFolder.set(folder, [node]);
+        }
+    }
+
+    const cycleOf = new Map<string, number>();
+    graph.cycles.forEach((cycle, index) => cycle.forEach(id => cycleOf.set(id, index)));
+    const orphans = new Set(graph.orphans);
+
+    const sized = [...byFolder].map(([folder, members]) => {
+        const isCollapsed = collapsed.has(folder);
+        const columns = isCollapsed ? 1 : Math.ceil(Math.sqrt(members.length));
+        const rows = isCollapsed ? 1 : Math.ceil(members.length / columns);
+        return {
+            folder,
+            members,
+            isCollapsed,
+            columns,
+            width: columns * CELL_WIDTH + 2 * CLUSTER_PADDING,
+            height: CLUSTER_HEADER + rows * CELL_HEIGHT + CLUSTER_PADDING
+        };
+    });
+
+    const area = sized.reduce((sum, cluster) => sum + (cluster.width + CLUSTER_GAP) * (cluster.height + CLUSTER_GAP), 0);
+    const rowWidth = Math.max(900, Math.sqrt(area) * 1.6);
+
+    const clusters: GraphCluster[] = [];
+    const nodes: GraphNodeLayout[] = [];
+    // Node each file is drawn as
+    const displayed = new Map<string, GraphNodeLayout>();
+    let x = 0;
+    let y = 0;
+    let shelfHeight = 0;
+    let width = 0;
+
+    for (const cluster of sized) {
+        if (x > 0 && x + cluster.width > rowWidth) {
+            x = 0;
+            y += shelfHeight + CLUSTER_GAP;
+            shelfHeight = 0;
+        }
+
+        clusters.push({
+            folder: cluster.folder,
+            x,
+            y,
+            width: cluster.width,
+            height: cluster.height,
+            collapsed: cluster.isCollapsed
+        });
+
+        if (cluster.isCollapsed) {
+            const node: GraphNodeLayout = {
+                id: clusterKey(cluster.folder),
+                label: `${cluster.members.length} modules`,
+                title: cluster.folder || '(root)',
+                x: x + CLUSTER_PADDING + NODE_RADIUS * 2,
+                y: y + CLUSTER_HEADER + CELL_HEIGHT / 2,
+                folder: cluster.folder,
+                inCycle: cluster.members.some(member => cycleOf.has(member.id)),
+                orphan: false
+            };
+            nodes.push(node);
+            cluster.members.forEach(member => displayed.set(member.id, node));
+        } else {
+            cluster.members.forEach((member, index) => {
+                const column = index % cluster.columns;
+                const row = Math.floor(index / cluster.columns);
+                const node: GraphNodeLayout = {
+                    id: member.id,
+                    label: truncate(member.path.substring(member.path.lastIndexOf('/') + 1), 20),
+                    title: member.path,
+                    x: x + CLUSTER_PADDING + column * CELL_WIDTH + NODE_RADIUS * 2,
+                    y: y + CLUSTER_HEADER + row * CELL_HEIGHT + CELL_HEIGHT / 2,
+                    folder: cluster.folder,
+                    fileId: member.id,
+                    inCycle: cycleOf.has(member.id),
+                    orphan: orphans.has(member.id)
+                };
+                nodes.push(node);
+                displayed.set(member.id, node);
+            });
+        }
+
+        x += cluster.width + CLUSTER_GAP;
+        width = Math.max(width, x - CLUSTER_GAP);
+        shelfHeight = Math.max(shelfHeight, cluster.height);
+    }
+
+    const edges = new Map<string, GraphEdgeLayout>();
+    for (const edge of graph.edges) {
+        const source = displayed.get(edge.source);
+        const target = displayed.get(edge.target);
+        // Imports within a collapsed folder aren't drawn
+        if (!source || !target || source === target) continue;
+
+        const key = `${source.id}>${target.id}`;
+        const inCycle = cycleOf.has(edge.source) && cycleOf.get(edge.source) === cycleOf.get(edge.target);
+        const existing = edges.get(key);
+        if (existing) {
+            existing.inCycle = existing.inCycle || inCycle;
+        } else {
+            edges.set(key, { key, source, target, inCycle });
+        }
+    }
+
+    return { clusters, nodes, edges: [...edges.values()], width, height: y + shelfHeight };
+};
+
+// Sidebar entry that opens the session's module graph
+export const ModuleGraph: React.FC<ModuleGraphProps> = ({ sessionId }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <>
+            <button
+                onClick={() => setIsOpen(true)}
+                disabled={!sessionId}
+                className="w-full flex items-center gap-2 p-3 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title={sessionId ? 'Show how the session\'s files import each other' : 'Open a chat to see its module graph'}
+            >
+                <Network className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium">Module Graph</span>
+            </button>
+
+            {isOpen && sessionId && (
+                <ModuleGraphView sessionId={sessionId} onClose={() => setIsOpen(false)} />
+            )}
+        </>
+    );
+};
+
+interface ModuleGraphViewProps {
+    sessionId: string;
+    onClose: () => void;
+}
+
+const ModuleGraphView: React.FC<ModuleGraphViewProps> = ({ sessionId, onClose }) => {
+    const pinFile = useChatStore(state => state.pinFile);
+    const [graph, setGraph] = useState<ModuleGraphData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [highlightCycles, setHighlightCycles] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [viewingFileId, setViewingFileId] = useState<string | null>(null);
+    const [transform, setTransform] = useState({ x: 0, y: 0, k: 1 });
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number; moved: boolean } | null>(null);
+
+    const loadGraph = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            setGraph(await FileUploadService.getSessionGraph(sessionId));
+        } catch (error) {
+            console.error('Error loading module graph:', error);
+            setError(error instanceof Error ? error.message : 'Failed to load module graph');
+        } finally {
+            setLoading(false);
+        }
+    }, [sessionId]);
+
+    useEffect(() => {
+        loadGraph();
+    }, [loadGraph]);
+
+    const layout = useMemo(() => (graph ? layoutGraph(graph, collapsed) : null), [graph, collapsed]);
+
+    const fitToView = useCallback(() => {
+        const viewport = viewportRef.current;
+        if (!layout || !viewport || layout.width === 0) return;
+
+        const margin = 24;
+        const k = Math.min(
+            (viewport.clientWidth - 2 * margin) / layout.width,
+            (viewport.clientHeight - 2 * margin) / layout.height,
+            1
+        );
+        const scale = Math.max(MIN_ZOOM, k);
+        setTransform({
+            x: (viewport.clientWidth - layout.width * scale) / 2,
+            y: (viewport.clientHeight - layout.height * scale) / 2,
+            k: scale
+        });
+    }, [layout]);
+
+    // Fit once per loaded graph; collapsing folders keeps the current view
+    useEffect(() => {
+        fitToView();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [graph]);
+
+    const zoomAt = useCallback((factor: number, pointX: number, pointY: number) => {
+        setTransform(current => {
+            const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.k * factor));
+            return {
+                x: pointX - (pointX - current.x) * (k / current.k),
+                y: pointY - (pointY - current.y) * (k / current.k),
+                k
+            };
+        });
+    }, []);
+
+    // React registers wheel listeners as passive, which can't stop the page from scrolling
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const bounds = viewport.getBoundingClientRect();
+            zoomAt(Math.exp(-e.deltaY * 0.0015), e.clientX - bounds.left, e.clientY - bounds.top);
+        };
+
+        viewport.addEventListener('wheel', handleWheel, { passive: false });
+        return () => viewport.removeEventListener('wheel', handleWheel);
+    }, [zoomAt, layout]);
+
+    const zoomAtCenter = (factor: number) => {
+        const viewport = viewportRef.current;
+        if (viewport) {
+            zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+        }
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.button !== 0) return;
+        dragRef.current = { startX: e.clientX, startY: e.clientY, originX: transform.x, originY: transform.y, moved: false };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const dx = e.clientX - drag.startX;
+        const dy = e.clientY - drag.startY;
+        if (!drag.moved && Math.hypot(dx, dy) > 3) {
+            drag.moved = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+        }
+        if (drag.moved) {
+            setTransform(current => ({ ...current, x: drag.originX + dx, y: drag.originY + dy }));
+        }
+    };
+
+    const handlePointerUp = () => {
+        // Cleared after the click that ends a drag has been ignored
+        setTimeout(() => {
+            dragRef.current = null;
+        }, 0);
+    };
+
+    const wasDragged = () => Boolean(dragRef.current?.moved);
+
+    const toggleFolder = (folder: string) => {
+        setCollapsed(current => {
+            const next = new Set(current);
+            if (next.has(folder)) {
+                next.delete(folder);
+            } else {
+                next.add(folder);
+            }
+            return next;
+        });
+    };
+
+    const handleNodeClick = (node: GraphNodeLayout) => {
+        if (wasDragged()) return;
+
+        if (!node.fileId) {
+            toggleFolder(node.folder);
+            return;
+        }
+        setSelectedId(node.fileId);
+        setViewingFileId(node.fileId);
+    };
+
+    const askAbout = (file: PinnedFile) => {
+        pinFile(sessionId, file);
+        setViewingFileId(null);
+        onClose();
+    };
+
+    const selected = selectedId ? graph?.nodes.find(node => node.id === selectedId) : undefined;
+    const selectedCycle = selectedId ? graph?.cycles.find(cycle => cycle.includes(selectedId)) : undefined;
+    const isConnected = (edge: GraphEdgeLayout) => edge.source.id === selectedId || edge.target.id === selectedId;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg w-full max-w-6xl h-[90vh] flex flex-col text-gray-800 dark:text-gray-100">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="flex items-center gap-3">
+                        <Network className="w-5 h-5" />
+                        <div>
+                            <h2 className="font-semibold">Module Graph</h2>
+                            {graph && (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">
+                                    {graph.nodes.length} modules • {graph.edges.length} imports • {graph.cycles.length} cycles • {graph.orphans.length} orphans
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                        <label className="flex items-center gap-1 mr-2 text-sm select-none cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={highlightCycles}
+                                onChange={(e) => setHighlightCycles(e.target.checked)}
+                            />
+                            Highlight cycles
+                        </label>
+                        <button
+                            onClick={() => setCollapsed(new Set(layout?.clusters.map(cluster => cluster.folder)))}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                            title="Collapse all folders"
+                        >
+                            <FolderClosed className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setCollapsed(new Set())}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                            title="Expand all folders"
+                        >
+                            <FolderOpen className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => zoomAtCenter(1.25)}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                            title="Zoom in"
+                        >
+                            <ZoomIn className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => zoomAtCenter(0.8)}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                            title="Zoom out"
+                        >
+                            <ZoomOut className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={fitToView}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                            title="Fit to view"
+                        >
+                            <Maximize className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={loadGraph}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                            title="Reload graph"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                            title="Close"
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 relative overflow-hidden">
+                    {loading && !graph && (
+                        <div className="absolute inset-0 flex items-center justify-center">
+                            <div className="animate-spin w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="absolute inset-0 flex items-center justify-center text-sm text-red-600 dark:text-red-400">
+                            {error}
+                        </div>
+                    )}
+
+                    {graph && !error && graph.nodes.length === 0 && (
+                        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+                            No modules in this session yet
+                        </div>
+                    )}
+
+                    {layout && !error && layout.nodes.length > 0 && (
+                        <div
+                            ref={viewportRef}
+                            className="absolute inset-0 cursor-grab active:cursor-grabbing touch-none select-none"
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                        >
+                            <svg width="100%" height="100%">
+                                <defs>
+                                    <marker id="module-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                                        <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400" />
+                                    </marker>
+                                    <marker id="module-graph-arrow-cycle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                                        <path d="M 0 0 L 10 5 L 0 10 z" className="fill-red-500" />
+                                    </marker>
+                                </defs>
+
+                                <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
+                                    {layout.clusters.map(cluster => (
+                                        <g key={cluster.folder}>
+                                            <rect
+                                                x={cluster.x}
+                                                y={cluster.y}
+                                                width={cluster.width}
+                                                height={cluster.height}
+                                                rx={8}
+                                                className="fill-gray-50 stroke-gray-300 dark:fill-gray-900 dark:stroke-gray-700"
+                                            />
+                                            <text
+                                                x={cluster.x + CLUSTER_PADDING}
+                                                y={cluster.y + 17}
+                                                className="fill-gray-500 dark:fill-gray-400 text-xs cursor-pointer"
+                                                onClick={() => !wasDragged() && toggleFolder(cluster.folder)}
+                                            >
+                                                <title>{cluster.collapsed ? 'Expand folder' : 'Collapse folder'}</title>
+                                                {cluster.collapsed ? '▸ ' : '▾ '}
+                                                {truncate(cluster.folder || '(root)', Math.floor(cluster.width / 7))}
+                                            </text>
+                                        </g>
+                                    ))}
+
+                                    {layout.edges.map(edge => {
+                                        const cycle = highlightCycles && edge.inCycle;
+                                        const dimmed = selectedId !== null && !isConnected(edge);
+                                        // Stop at the target's outline so the arrowhead stays visible
+                                        const length = Math.hypot(edge.target.x - edge.source.x, edge.target.y - edge.source.y) || 1;
+                                        const endX = edge.target.x - ((edge.target.x - edge.source.x) / length) * (NODE_RADIUS + 1);
+                                        const endY = edge.target.y - ((edge.target.y - edge.source.y) / length) * (NODE_RADIUS + 1);
+
+                                        return (
+                                            <line
+                                                key={edge.key}
+                                                x1={edge.source.x}
+                                                y1={edge.source.y}
+                                                x2={endX}
+                                                y2={endY}
+                                                strokeWidth={cycle || (selectedId !== null && !dimmed) ? 1.6 : 1}
+                                                markerEnd={`url(#${cycle ? 'module-graph-arrow-cycle' : 'module-graph-arrow'})`}
+                                                className={cycle ? 'stroke-red-500' : selectedId !== null && !dimmed ? 'stroke-blue-500' : 'stroke-gray-400'}
+                                                opacity={dimmed ? 0.15 : 0.8}
+                                            />
+                                        );
+                                    })}
+
+                                    {layout.nodes.map(node => (
+                                        <g
+                                            key={node.id}
+                                            className="cursor-pointer"
+                                            onClick={() => handleNodeClick(node)}
+                                        >
+                                            <title>{node.fileId ? node.title : `${node.title} (click to expand)`}</title>
+                                            <circle
+                                                cx={node.x}
+                                                cy={node.y}
+                                                r={node.fileId ? NODE_RADIUS : NODE_RADIUS + 2}
+                                                strokeWidth={node.fileId === selectedId ? 3 : 1.5}
+                                                className={
+                                                    highlightCycles && node.inCycle
+                                                        ? 'fill-red-100 stroke-red-500'
+                                                        : node.orphan
+                                                            ? 'fill-gray-200 stroke-gray-400'
+                                                            : 'fill-blue-100 stroke-blue-500'
+                                                }
+                                            />
+                                            <text
+                                                x={node.x + NODE_RADIUS + 6}
+                                                y={node.y + 4}
+                                                className={`text-xs ${node.fileId === selectedId ? 'fill-blue-600 dark:fill-blue-400 font-semibold' : 'fill-gray-700 dark:fill-gray-200'}`}
+                                            >
+                                                {node.label}
+                                            </text>
+                                        </g>
+                                    ))}
+                                </g>
+                            </svg>
+                        </div>
+                    )}
+
+                    {selected && (
+                        <div className="absolute left-4 bottom-4 max-w-sm p-3 rounded-lg shadow-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700">
+                            <div className="flex items-start justify-between gap-2">
+                                <p className="text-sm font-medium break-all">{selected.path}</p>
+                                <button
+                                    onClick={() => setSelectedId(null)}
+                                    className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded flex-shrink-0"
+                                    title="Clear selection"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                {selected.language} • imports {selected.dependencies} • imported by {selected.dependents}
+                            </p>
+                            {selectedCycle && (
+                                <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                                    {selectedCycle.length > 1
+                                        ? `In an import cycle with ${selectedCycle.length - 1} other module${selectedCycle.length > 2 ? 's' : ''}`
+                                        : 'Imports itself'}
+                                </p>
+                            )}
+                            <div className="flex items-center gap-2 mt-3">
+                                <button
+                                    onClick={() => setViewingFileId(selected.id)}
+                                    className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+                                >
+                                    <Eye className="w-3 h-3" />
+                                    Open
+                                </button>
+                                <button
+                                    onClick={() => askAbout({ id: selected.id, path: selected.path })}
+                                    className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700"
+                                    title="Pin this module into the chat context"
+                                >
+                                    <MessageSquarePlus className="w-3 h-3" />
+                                    Ask about this module
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {viewingFileId && (
+                <FileViewer
+                    fileId={viewingFileId}
+                    onClose={() => setViewingFileId(null)}
+                    onAsk={askAbout}
+                />
+            )}
+        </div>
+    );
+};
@@ -1,10 +1,27 @@
 import React, { useState } from 'react';
-import { File, FileText, Code, Database, Clock, ChevronDown, ChevronRight, Eye, Trash2, X } from 'lucide-react';
-import { FileUploadService, type UploadedFile } from '../services/fileUpload';
+import { File, FileText, Code, Database, Clock, ChevronDown, ChevronRight, Eye, Trash2, X, ShieldAlert } from 'lucide-react';
+import { FileUploadService, type SecretFinding, type SecretType, type UploadedFile } from '../services/fileUpload';
 import { formatFileSize } from '../utils/helpers';
 import { useFileManager, triggerFileUpdate } from '../hooks/useFileManager';
 import { ConfirmationModal } from './ConfirmationModal';
 
+const SECRET_LABELS: Record<SecretType, string> = {
+    private_key: 'Private key',
+    aws_access_key: 'AWS access key',
+    aws_secret_key: 'AWS secret key',
+    gcp_api_key: 'GCP API key',
+    gcp_service_account_key: 'GCP service account key',
+    gcp_client_secret: 'GCP client secret',
+    github_token: 'GitHub token',
+    jwt: 'JWT',
+    high_entropy: 'High-entropy string'
+};
+
+// Findings listed inline before the rest are left to the tooltip
+const SECRETS_SHOWN = 3;
+
+const describeSecret = (finding: SecretFinding) => `${SECRET_LABELS[finding.type]} (line ${finding.line})`;
+
 interface UserFilesProps {
     onFileSelect?: (file: UploadedFile) => void;
 }
@@ -291,6 +308,20 @@ export const UserFiles: React.FC<UserFilesProps> = ({
                                                 )}
                                             </div>
                                         )}
+
+                                        {file.secrets && file.secrets.length > 0 && (
+                                            <div
+                                                className="flex items-start gap-1 mt-1 text-xs text-amber-600 dark:text-amber-400 ml-6"
+                                                title={file.secrets.map(finding => `${describeSecret(finding)}: ${finding.preview}`).join('\n')}
+                                            >
+                                                <ShieldAlert className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                                <span>
+                                                    {file.secrets.length === 1 ? '1 possible secret' : `${file.secrets.length} possible secrets`}, redacted before reaching the AI:{' '}
+                                                    {file.secrets.slice(0, SECRETS_SHOWN).map(describeSecret).join(', ')}
+                                                    {file.secrets.length > SECRETS_SHOWN && ` and ${file.secrets.length - SECRETS_SHOWN} more`}
+                                                </span>
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                             </div>
@@ -10,8 +10,10 @@ import {
     Menu
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { authAPI, LLMProviderSettings } from '../services/api';
 import { ChatSession } from '../services/chatSession';
 import { UserFiles } from './SessionFiles';
+import { ModuleGraph } from './ModuleGraph';
 import { ConfirmationModal } from './ConfirmationModal';
 
 interface SidebarProps {
@@ -37,6 +39,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
     const [showUserMenu, setShowUserMenu] = useState(false);
     const [showApiKeyModal, setShowApiKeyModal] = useState(false);
     const [apiKey, setApiKey] = useState(currentApiKey || '');
+    const [llmProvider, setLLMProvider] = useState<LLMProviderSettings>({ name: 'gemini' });
+    // Key for the OpenAI-compatible and Ollama providers, kept on the server apart from the Gemini key
+    const [providerApiKey, setProviderApiKey] = useState('');
+    // Provider the server holds a key for, among those
+    const [storedKeyProvider, setStoredKeyProvider] = useState<LLMProviderSettings['name'] | null>(null);
+    const hasProviderApiKey = storedKeyProvider === llmProvider.name;
     const [deletingSessionId, setDeletingSessionId] = useState<string | null>(null);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
     const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
@@ -45,14 +53,73 @@ export const Sidebar: React.FC<SidebarProps> = ({
         logout();
     };
 
-    const handleSaveApiKey = () => {
-        if (apiKey.trim()) {
+    const openApiKeyModal = async () => {
+        setApiKey(currentApiKey || '');
+        setShowApiKeyModal(true);
+        setShowUserMenu(false);
+
+        try {
+            const response = await authAPI.getLLMProvider();
+            if (response.success && response.llmProvider) {
+                setLLMProvider(response.llmProvider);
+                setProviderApiKey('');
+                setStoredKeyProvider(response.hasApiKey && response.llmProvider.name !== 'gemini' ? response.llmProvider.name : null);
+            }
+        } catch (error) {
+            console.error('Failed to load LLM provider settings:', error);
+        }
+    };
+
+    const handleSaveApiKey = async () => {
+        if (llmProvider.name === 'gemini') {
+            if (!apiKey.trim()) {
+                return;
+            }
+
+            try {
+                await authAPI.updateLLMProvider(llmProvider);
+            } catch (error) {
+                console.error('Failed to save LLM provider settings:', error);
+                return;
+            }
+
             saveApiKey(apiKey.trim());
             setShowApiKeyModal(false);
+            return;
+        }
+
+        // OpenAI-compatible servers need a key; a blank field keeps the stored one
+        if (llmProvider.name === 'openai' && !providerApiKey.trim() && !hasProviderApiKey) {
+            return;
+        }
+
+        try {
+            await authAPI.updateLLMProvider({
+                ...llmProvider,
+                ...(providerApiKey.trim() && { apiKey: providerApiKey.trim() })
+            });
+        } catch (error) {
+            console.error('Failed to save LLM provider settings:', error);
+            return;
         }
+
+        setShowApiKeyModal(false);
     };
 
-    const handleDeleteApiKey = () => {
+    const handleDeleteApiKey = async () => {
+        if (llmProvider.name !== 'gemini') {
+            try {
+                await authAPI.updateLLMProvider({ ...llmProvider, apiKey: '' });
+            } catch (error) {
+                console.error('Failed to delete provider API key:', error);
+                return;
+            }
+            setProviderApiKey('');
+            setStoredKeyProvider(null);
+            setShowApiKeyModal(false);
+            return;
+        }
+
         setApiKey('');
         saveApiKey('');
         setShowApiKeyModal(false);
@@ -205,6 +272,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                             console.log('File selected:', file);
                         }}
                     />
+                    <ModuleGraph sessionId={activeSessionId} />
                 </div>
 
                 {/* Chat Sessions */}
@@ -303,11 +371,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                 className="absolute bottom-full left-0 right-0 mb-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden"
                             >
                                 <button
-                                    onClick={() => {
-                                        setApiKey(currentApiKey || '');
-                                        setShowApiKeyModal(true);
-                                        setShowUserMenu(false);
-                                    }}
+                                    onClick={openApiKeyModal}
                                     className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-left text-gray-700 dark:text-white"
                                 >
                                     <Key className="w-4 h-4" />
@@ -429,13 +493,59 @@ export const Sidebar: React.FC<SidebarProps> = ({
                             <div className="space-y-4">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                                        Gemini API Key
+                                        Provider
+                                    </label>
+                                    <select
+                                        value={llmProvider.name}
+                                        onChange={(e) => setLLMProvider({ ...llmProvider, name: e.target.value as LLMProviderSettings['name'] })}
+                                        title="LLM provider"
+                                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    >
+                                        <option value="gemini">Google Gemini</option>
+                                        <option value="openai">OpenAI-compatible</option>
+                                        <option value="ollama">Ollama (self-hosted)</option>
+                                        <option value="mock">Mock (offline)</option>
+                                    </select>
+                                </div>
+
+                                {(llmProvider.name === 'openai' || llmProvider.name === 'ollama') && (
+                                    <>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                                Base URL
+                                            </label>
+                                            <input
+                                                type="url"
+                                                value={llmProvider.baseUrl || ''}
+                                                onChange={(e) => setLLMProvider({ ...llmProvider, baseUrl: e.target.value })}
+                                                placeholder={llmProvider.name === 'ollama' ? 'http://localhost:11434' : 'https://api.openai.com/v1'}
+                                                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                                Model
+                                            </label>
+                                            <input
+                                                type="text"
+                                                value={llmProvider.model || ''}
+                                                onChange={(e) => setLLMProvider({ ...llmProvider, model: e.target.value })}
+                                                placeholder="Server default"
+                                                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                            />
+                                        </div>
+                                    </>
+                                )}
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                        {llmProvider.name === 'gemini' ? 'Gemini API Key' : 'API Key (optional for Ollama and Mock)'}
                                     </label>
                                     <input
                                         type="password"
-                                        value={apiKey}
-                                        onChange={(e) => setApiKey(e.target.value)}
-                                        placeholder="Enter your Gemini API key..."
+                                        value={llmProvider.name === 'gemini' ? apiKey : providerApiKey}
+                                        onChange={(e) => llmProvider.name === 'gemini' ? setApiKey(e.target.value) : setProviderApiKey(e.target.value)}
+                                        placeholder={hasProviderApiKey ? 'Stored key kept, enter a new one to replace it' : 'Enter your API key...'}
                                         className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                                     />
                                 </div>
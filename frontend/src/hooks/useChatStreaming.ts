@@ -6,15 +6,21 @@ export interface StreamingMessage {
     role: 'user' | 'assistant';
     isComplete: boolean;
     isStreaming: boolean;
+    // Id of the reply the server stored in the session, when it stored one
+    persistedId?: string;
+    partial?: boolean;
+    isError?: boolean;
 }
 
 interface UseChatStreamingOptions {
     sessionId: string;
+    // Files the backend includes in full ahead of retrieved context
+    pinnedFileIds?: string[];
     onMessageComplete?: (message: StreamingMessage) => void;
     onError?: (error: Error) => void;
 }
 
-export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseChatStreamingOptions) => {
+export const useChatStreaming = ({ sessionId, pinnedFileIds, onMessageComplete, onError }: UseChatStreamingOptions) => {
     const [isStreaming, setIsStreaming] = useState(false);
     const [streamingMessage, setStreamingMessage] = useState<StreamingMessage | null>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
@@ -67,6 +73,7 @@ export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseC
                 body: JSON.stringify({
                     message,
                     sessionId,
+                    ...(pinnedFileIds && pinnedFileIds.length > 0 && { pinnedFileIds }),
                 }),
                 signal: abortControllerRef.current.signal
             });
@@ -98,6 +105,8 @@ export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseC
             const reader = response.body.getReader();
             const decoder = new TextDecoder();
             let accumulatedContent = '';
+            let persistedId: string | undefined;
+            let partial = false;
 
             try {
                 // eslint-disable-next-line no-constant-condition
@@ -111,7 +120,9 @@ export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseC
                                 ...initialStreamingMessage,
                                 content: accumulatedContent,
                                 isComplete: true,
-                                isStreaming: false
+                                isStreaming: false,
+                                persistedId,
+                                partial
                             };
                             setStreamingMessage(finalMessage);
                             onMessageComplete?.(finalMessage);
@@ -133,7 +144,9 @@ export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseC
                                     ...initialStreamingMessage,
                                     content: accumulatedContent,
                                     isComplete: true,
-                                    isStreaming: false
+                                    isStreaming: false,
+                                    persistedId,
+                                    partial
                                 };
 
                                 setStreamingMessage(finalMessage);
@@ -143,6 +156,14 @@ export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseC
 
                             try {
                                 const parsed = JSON.parse(data);
+
+                                // Final event: the backend has stored the reply in the session
+                                if (parsed.done) {
+                                    persistedId = parsed.messageId || undefined;
+                                    partial = Boolean(parsed.partial);
+                                    continue;
+                                }
+
                                 // Backend sends chunks as { chunk: "text" }, not { content: "text" }
                                 if (parsed.chunk) {
                                     accumulatedContent += parsed.chunk;
@@ -184,7 +205,8 @@ export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseC
                     content: errorContent,
                     role: 'assistant',
                     isComplete: true,
-                    isStreaming: false
+                    isStreaming: false,
+                    isError: true
                 };
 
                 setStreamingMessage(errorMessage);
@@ -195,7 +217,7 @@ export const useChatStreaming = ({ sessionId, onMessageComplete, onError }: UseC
             setStreamingMessage(null);
             abortControllerRef.current = null;
         }
-    }, [sessionId, isStreaming, onMessageComplete, onError]);
+    }, [sessionId, pinnedFileIds, isStreaming, onMessageComplete, onError]);
 
     const stopStreaming = useCallback(() => {
         if (abortControllerRef.current) {
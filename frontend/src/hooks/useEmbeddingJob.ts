@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { embeddingService, type EmbeddingJob } from '../services/embedding';
+
+const POLL_INTERVAL_MS = 1500;
+
+/**
+ * Poll a background embedding job until it completes or fails.
+ * Pass null to stop tracking.
+ */
+export const useEmbeddingJob = (jobId: string | null) => {
+    const [job, setJob] = useState<EmbeddingJob | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setJob(null);
+        setError(null);
+
+        if (!jobId) return;
+
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const poll = async () => {
+            try {
+                const response = await embeddingService.getJob(jobId);
+                if (cancelled) return;
+
+                if (response.job) {
+                    setJob(response.job);
+                    if (response.job.status === 'completed' || response.job.status === 'failed') {
+                        return;
+                    }
+                }
+            } catch (error) {
+                if (cancelled) return;
+                console.error('Error polling embedding job:', error);
+                setError(error instanceof Error ? error.message : 'Failed to load embedding progress');
+                return;
+            }
+
+            timer = setTimeout(poll, POLL_INTERVAL_MS);
+        };
+
+        poll();
+
+        return () => {
+            cancelled = true;
+            if (timer) clearTimeout(timer);
+        };
+    }, [jobId]);
+
+    const isRunning = Boolean(jobId) && !error && (!job || job.status === 'queued' || job.status === 'running');
+
+    return { job, error, isRunning };
+};
@@ -108,6 +108,17 @@ export interface AuthResponse {
     message?: string;
 }
 
+export type LLMProviderName = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface LLMProviderSettings {
+    name: LLMProviderName;
+    baseUrl?: string;
+    model?: string;
+    embeddingModel?: string;
+    // Write-only key for the OpenAI-compatible and Ollama providers, bound to `baseUrl`
+    apiKey?: string;
+}
+
 export const authAPI = {
     async login(credentials: LoginCredentials): Promise<AuthResponse> {
         return apiClient.post('/auth/login', credentials);
@@ -137,6 +148,14 @@ export const authAPI = {
         return apiClient.get('/auth/api-key');
     },
 
+    async getLLMProvider(): Promise<ApiResponse & { llmProvider?: LLMProviderSettings; hasApiKey?: boolean }> {
+        return apiClient.get('/auth/llm-provider');
+    },
+
+    async updateLLMProvider(settings: LLMProviderSettings): Promise<ApiResponse & { llmProvider?: LLMProviderSettings }> {
+        return apiClient.put('/auth/llm-provider', settings);
+    },
+
     async changePassword(data: { currentPassword: string; newPassword: string }): Promise<ApiResponse> {
         return apiClient.put('/auth/change-password', data);
     },
@@ -6,6 +6,7 @@ export interface Message {
     content: string;
     role: 'user' | 'assistant';
     timestamp: Date;
+    partial?: boolean;
 }
 
 export interface ChatSession {
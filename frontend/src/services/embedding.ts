@@ -1,4 +1,5 @@
 import { apiClient } from './api';
+import type { ApiResponse } from '@/types';
 
 export interface SimilarCodeResult {
   file: {
@@ -14,32 +15,85 @@ export interface SimilarCodeResult {
     type: string;
   };
   similarity: number;
+  lexicalScore?: number;
+  fusedScore?: number;
 }
 
+export type RetrievalMode = 'lexical' | 'vector' | 'hybrid';
+
+export type ChunkType = 'function' | 'class' | 'interface' | 'block' | 'other';
+
+export interface CodeSearchFilters {
+  language?: string | string[];
+  // Glob over file paths, e.g. `src/**/*.ts`
+  path?: string;
+  chunkType?: ChunkType | ChunkType[];
+  minSimilarity?: number;
+  // ISO 8601 date
+  uploadedAfter?: string;
+}
+
+export interface CodeSearchOptions {
+  // Searches all of the user's files when omitted
+  sessionId?: string;
+  mode?: RetrievalMode;
+  limit?: number;
+  // nextCursor from the previous page
+  cursor?: string;
+  filters?: CodeSearchFilters;
+}
+
+export type EmbeddingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface EmbeddingJob {
+  id: string;
+  status: EmbeddingJobStatus;
+  sessionId?: string;
+  attempts: number;
+  maxAttempts: number;
+  progress: {
+    totalFiles: number;
+    processedFiles: number;
+    totalChunks: number;
+    embeddedChunks: number;
+  };
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+type EmbeddingJobResponse = ApiResponse & { jobId?: string; job?: EmbeddingJob };
+
 class EmbeddingService {
-  async generateEmbeddings(sessionId: string, apiKey: string) {
+  async generateEmbeddings(sessionId: string, apiKey: string): Promise<EmbeddingJobResponse> {
     return apiClient.post('/embeddings/generate', {
       sessionId,
       apiKey,
     });
   }
 
-  async generateEmbeddingForFile(fileId: string, apiKey: string) {
+  async generateEmbeddingForFile(fileId: string, apiKey: string): Promise<EmbeddingJobResponse> {
     return apiClient.post(`/embeddings/generate/${fileId}`, {
       apiKey,
     });
   }
 
-  async searchSimilarCode(query: string, sessionId: string, apiKey: string, limit = 5) {
+  async getJob(jobId: string): Promise<EmbeddingJobResponse> {
+    return apiClient.get(`/embeddings/jobs/${jobId}`);
+  }
+
+  async searchSimilarCode(query: string, options: CodeSearchOptions = {}, apiKey?: string) {
     return apiClient.post<{
       success: boolean;
       results: SimilarCodeResult[];
       query: string;
+      mode: RetrievalMode;
+      nextCursor: string | null;
     }>('/embeddings/search', {
       query,
-      sessionId,
       apiKey,
-      limit,
+      ...options,
     });
   }
 }
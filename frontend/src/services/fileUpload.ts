@@ -1,9 +1,31 @@
 import { apiClient } from './api';
 import axios from 'axios';
 
+export type SecretType =
+    | 'private_key'
+    | 'aws_access_key'
+    | 'aws_secret_key'
+    | 'gcp_api_key'
+    | 'gcp_service_account_key'
+    | 'gcp_client_secret'
+    | 'github_token'
+    | 'jwt'
+    | 'high_entropy';
+
+// A possible secret found in a file on upload; it is redacted before anything reaches the LLM
+export interface SecretFinding {
+    type: SecretType;
+    line: number;
+    column: number;
+    // The first few characters of the secret
+    preview: string;
+}
+
 export interface UploadedFile {
     id: string;
     name: string;
+    // Path within the uploaded repository or archive; the file name otherwise
+    path?: string;
     language: string;
     size: number;
     chunks: number;
@@ -12,14 +34,35 @@ export interface UploadedFile {
     uploadedAt: string;
     embeddingsGenerated?: boolean;
     sessionId?: string;
+    secrets?: SecretFinding[];
 }
 
 export interface FileUploadResponse {
     success: boolean;
-    data: { file: UploadedFile };
+    data: { file: UploadedFile; embeddingJobId?: string | null };
     message: string;
 }
 
+export interface ModuleGraphNode {
+    // File id
+    id: string;
+    path: string;
+    language: string;
+    dependencies: number;
+    dependents: number;
+}
+
+// Module-level import graph of a session's files, see GET /files/session/:sessionId/graph
+export interface ModuleGraph {
+    nodes: ModuleGraphNode[];
+    edges: Array<{ source: string; target: string; specifier: string }>;
+    externalEdges: Array<{ source: string; module: string; specifier: string }>;
+    unresolved: Array<{ source: string; specifier: string }>;
+    // File ids of each group of modules that import each other
+    cycles: string[][];
+    orphans: string[];
+}
+
 export interface FileUploadError {
     error: string;
 }
@@ -58,7 +101,7 @@ export class FileUploadService {
         }
     }
 
-    static async uploadMultipleFiles(files: File[], apiKey?: string): Promise<{ success: boolean; data: { files: UploadedFile[] }; message: string }> {
+    static async uploadMultipleFiles(files: File[], apiKey?: string): Promise<{ success: boolean; data: { files: UploadedFile[]; embeddingJobId?: string | null }; message: string }> {
         const formData = new FormData();
 
         // Append all files
@@ -181,6 +224,22 @@ export class FileUploadService {
         }
     }
 
+    static async getSessionGraph(sessionId: string): Promise<ModuleGraph> {
+        try {
+            const response = await apiClient.get<ModuleGraph>(`/files/session/${sessionId}/graph`);
+            if (response.success && response.data) {
+                return response.data;
+            }
+            throw new Error(response.error || 'No graph in response');
+        } catch (error) {
+            if (axios.isAxiosError(error)) {
+                const errorMessage = error.response?.data?.error || 'Failed to load module graph';
+                throw new Error(errorMessage);
+            }
+            throw error instanceof Error ? error : new Error('Failed to load module graph');
+        }
+    }
+
     static async deleteFile(fileId: string): Promise<void> {
         try {
             await apiClient.delete(`/files/${fileId}`);
@@ -0,0 +1,108 @@
+import { apiClient } from './api';
+
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'namespace' | 'variable' | 'property';
+
+export interface SymbolDefinition {
+  id: string;
+  name: string;
+  // Qualified by its enclosing declarations, e.g. `AuthService.login`
+  qualifiedName: string;
+  kind: SymbolKind;
+  signature: string;
+  fileId: string;
+  filePath: string;
+  language: string;
+  startLine: number;
+  endLine: number;
+  exported: boolean;
+}
+
+export interface SymbolReference {
+  fileId: string;
+  filePath: string;
+  line: number;
+  column: number;
+  // Qualified name of the definition the reference is in
+  container?: string;
+}
+
+// A function or class that calls the looked-up name
+export interface SymbolCaller {
+  fileId: string;
+  filePath: string;
+  chunkId: string;
+  symbolName?: string;
+  type: string;
+  startLine: number;
+  endLine: number;
+  // Lines where the call is made
+  lines: number[];
+}
+
+// Where a lookup starts: a file narrows it to that file's session and ranks its own definitions first
+export interface SymbolLookupScope {
+  sessionId?: string;
+  fileId?: string;
+}
+
+class SymbolService {
+  async search(q: string, options: { sessionId?: string; kind?: SymbolKind; limit?: number } = {}) {
+    return apiClient.get<{ symbols: SymbolDefinition[] }>('/symbols', {
+      params: { q, ...options },
+    });
+  }
+
+  async findDefinitions(name: string, scope: SymbolLookupScope = {}) {
+    return apiClient.get<{ name: string; definitions: SymbolDefinition[] }>('/symbols/definition', {
+      params: { name, ...scope },
+    });
+  }
+
+  async findReferences(name: string, scope: SymbolLookupScope = {}) {
+    return apiClient.get<{ name: string; references: SymbolReference[]; truncated: boolean }>('/symbols/references', {
+      params: { name, ...scope },
+    });
+  }
+
+  async findCallers(name: string, scope: SymbolLookupScope = {}) {
+    return apiClient.get<{ name: string; callers: SymbolCaller[] }>('/symbols/callers', {
+      params: { name, ...scope },
+    });
+  }
+}
+
+export const symbolService = new SymbolService();
+
+/**
+ * The identifier under a click, read from the text node at the click point.
+ * Returns null when the click isn't on an identifier.
+ */
+export const identifierAtPoint = (x: number, y: number): string | null => {
+  let node: Node | null = null;
+  let offset = 0;
+
+  if (document.caretRangeFromPoint) {
+    const range = document.caretRangeFromPoint(x, y);
+    node = range?.startContainer ?? null;
+    offset = range?.startOffset ?? 0;
+  } else if ('caretPositionFromPoint' in document) {
+    const position = (document as Document & {
+      caretPositionFromPoint(x: number, y: number): { offsetNode: Node; offset: number } | null;
+    }).caretPositionFromPoint(x, y);
+    node = position?.offsetNode ?? null;
+    offset = position?.offset ?? 0;
+  }
+
+  if (!node || node.nodeType !== Node.TEXT_NODE) {
+    return null;
+  }
+
+  const text = node.textContent || '';
+  let start = offset;
+  let end = offset;
+  while (start > 0 && /[\w$]/.test(text[start - 1])) start--;
+  while (end < text.length && /[\w$]/.test(text[end])) end++;
+
+  const word = text.substring(start, end);
+  return /^[A-Za-z_$][\w$]*$/.test(word) && word.length > 1 ? word : null;
+};
@@ -2,11 +2,18 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { chatSessionService, ChatSession, Message } from '../services/chatSession';
 
+// A file sent in full with every message of its session
+export interface PinnedFile {
+    id: string;
+    path: string;
+}
+
 interface ChatState {
     sessions: ChatSession[];
     activeSessionId: string | null;
     isLoading: boolean;
     isAuthenticated: boolean;
+    pinnedFiles: Record<string, PinnedFile[]>;
 
     // Actions
     initializeFromBackend: () => Promise<void>;
@@ -15,12 +22,16 @@ interface ChatState {
     selectSession: (sessionId: string) => Promise<void>;
     updateSessionTitle: (sessionId: string, title: string) => Promise<void>;
     addMessage: (sessionId: string, message: Omit<Message, 'id' | 'timestamp'>) => Promise<void>;
+    appendLocalMessage: (sessionId: string, message: Omit<Message, 'id' | 'timestamp'>) => void;
+    refreshSession: (sessionId: string) => Promise<void>;
     updateMessageContent: (sessionId: string, messageId: string, content: string) => void;
     deleteSession: (sessionId: string) => Promise<void>;
     clearSessions: () => void;
     getActiveSession: () => ChatSession | null;
     updateLastMessage: (sessionId: string, message: string) => void;
     setAuthenticationStatus: (isAuthenticated: boolean) => void;
+    pinFile: (sessionId: string, file: PinnedFile) => void;
+    unpinFile: (sessionId: string, fileId: string) => void;
 }
 
 export const useChatStore = create<ChatState>()(
@@ -30,6 +41,7 @@ export const useChatStore = create<ChatState>()(
             activeSessionId: null,
             isLoading: false,
             isAuthenticated: false,
+            pinnedFiles: {},
 
             initializeFromBackend: async () => {
                 const state = get();
@@ -184,6 +196,38 @@ export const useChatStore = create<ChatState>()(
                 }
             },
 
+            // Optimistic, display-only message; the server stores the real one while streaming
+            appendLocalMessage: (sessionId: string, message: Omit<Message, 'id' | 'timestamp'>) => {
+                const localMessage: Message = {
+                    ...message,
+                    id: `local-${Date.now().toString(36)}`,
+                    timestamp: new Date()
+                };
+
+                set((state) => ({
+                    sessions: state.sessions.map(session =>
+                        session.id === sessionId
+                            ? { ...session, messages: [...session.messages, localMessage], timestamp: new Date() }
+                            : session
+                    )
+                }));
+            },
+
+            refreshSession: async (sessionId: string) => {
+                try {
+                    const refreshedSession = await chatSessionService.getSession(sessionId);
+
+                    set((state) => ({
+                        sessions: state.sessions.map(session =>
+                            session.id === sessionId ? refreshedSession : session
+                        )
+                    }));
+                } catch (error) {
+                    console.error('Failed to refresh session:', error);
+                    throw error;
+                }
+            },
+
             updateMessageContent: (sessionId: string, messageId: string, content: string) => {
                 set((state) => ({
                     sessions: state.sessions.map(session => {
@@ -223,10 +267,13 @@ export const useChatStore = create<ChatState>()(
                         const newActiveId = state.activeSessionId === sessionId
                             ? (filteredSessions.length > 0 ? filteredSessions[0].id : null)
                             : state.activeSessionId;
+                        const pinnedFiles = { ...state.pinnedFiles };
+                        delete pinnedFiles[sessionId];
 
                         return {
                             sessions: filteredSessions,
-                            activeSessionId: newActiveId
+                            activeSessionId: newActiveId,
+                            pinnedFiles
                         };
                     });
                 } catch (error) {
@@ -247,8 +294,27 @@ export const useChatStore = create<ChatState>()(
             setAuthenticationStatus: (isAuthenticated: boolean) => {
                 set({ isAuthenticated });
                 if (!isAuthenticated) {
-                    set({ sessions: [], activeSessionId: null });
+                    set({ sessions: [], activeSessionId: null, pinnedFiles: {} });
                 }
+            },
+
+            pinFile: (sessionId: string, file: PinnedFile) => {
+                set((state) => {
+                    const pinned = state.pinnedFiles[sessionId] || [];
+                    if (pinned.some(p => p.id === file.id)) {
+                        return state;
+                    }
+                    return { pinnedFiles: { ...state.pinnedFiles, [sessionId]: [...pinned, file] } };
+                });
+            },
+
+            unpinFile: (sessionId: string, fileId: string) => {
+                set((state) => ({
+                    pinnedFiles: {
+                        ...state.pinnedFiles,
+                        [sessionId]: (state.pinnedFiles[sessionId] || []).filter(p => p.id !== fileId)
+                    }
+                }));
             }
         }),
         {